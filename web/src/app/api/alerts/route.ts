@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import { listAlerts, markAlertsRead } from "@/server/saved-searches";
+
+const readSchema = z.object({
+  // Without ids, every alert is marked as read.
+  ids: z.array(z.string().min(1)).max(500).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const unreadOnly = request.nextUrl.searchParams.get("unread") === "1";
+  const alerts = await listAlerts(workspaceId, { unreadOnly });
+  return NextResponse.json({
+    alerts,
+    unread: alerts.filter((alert) => !alert.readAt).length,
+  });
+}
+
+export async function PATCH(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const t = getMessages(localeFromRequest(request));
+
+  let body: z.infer<typeof readSchema>;
+  try {
+    body = readSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: t.errors.INVALID_INPUT,
+          details: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: t.api.invalidRequest }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    marked: await markAlertsRead(workspaceId, body.ids),
+  });
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import {
+  guardAuthAttempts,
+  recordLogin,
+  resolveWorkspaceId,
+  signIn,
+  signInSchema,
+  toUserView,
+  withSession,
+  type SignInInput,
+} from "@/server/auth";
+
+export async function POST(request: NextRequest) {
+  const t = getMessages(localeFromRequest(request));
+
+  let input: SignInInput;
+  try {
+    input = signInSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: t.errors.INVALID_INPUT,
+          details: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: t.api.invalidRequest }, { status: 400 });
+  }
+
+  const rejected = guardAuthAttempts(request, input.email);
+  if (rejected) {
+    return rejected;
+  }
+
+  const user = await signIn(input);
+  if (!user) {
+    return NextResponse.json(
+      { error: t.api.invalidCredentials },
+      { status: 401 },
+    );
+  }
+
+  const workspaceId = await resolveWorkspaceId(user);
+  await recordLogin(user.id, workspaceId);
+  return withSession(
+    NextResponse.json({ user: toUserView(user) }),
+    user.id,
+    workspaceId,
+  );
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+
+import { withoutSession } from "@/server/auth";
+
+export async function POST() {
+  return withoutSession(new NextResponse(null, { status: 204 }));
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import {
+  guardAuthAttempts,
+  magicLinkSchema,
+  sendMagicLink,
+  type MagicLinkInput,
+} from "@/server/auth";
+import { errorResponse } from "@/server/upstream";
+
+// Answers the same whether or not the email may sign in.
+export async function POST(request: NextRequest) {
+  const locale = localeFromRequest(request);
+  const t = getMessages(locale);
+
+  let input: MagicLinkInput;
+  try {
+    input = magicLinkSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: t.errors.INVALID_INPUT,
+          details: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: t.api.invalidRequest }, { status: 400 });
+  }
+
+  const rejected = guardAuthAttempts(request, input.email);
+  if (rejected) {
+    return rejected;
+  }
+
+  try {
+    await sendMagicLink(input.email, {
+      // Behind a proxy, the request origin may not be the public one.
+      origin: process.env.APP_URL ?? request.nextUrl.origin,
+      locale,
+      next: input.next,
+    });
+  } catch (error) {
+    return errorResponse(error, { locale });
+  }
+  return NextResponse.json({ sent: true }, { status: 202 });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  recordLogin,
+  redirectTarget,
+  resolveWorkspaceId,
+  signInWithMagicLink,
+  withSession,
+} from "@/server/auth";
+
+// The link from the email: opens a session and goes on to the app.
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token");
+  const signedIn = token ? await signInWithMagicLink(token) : null;
+  if (!signedIn) {
+    return NextResponse.redirect(new URL("/login?error=link", request.url));
+  }
+
+  const { user } = signedIn;
+  const workspaceId =
+    signedIn.workspaceId ?? (await resolveWorkspaceId(user));
+  await recordLogin(user.id, workspaceId);
+  return withSession(
+    NextResponse.redirect(redirectTarget(request, signedIn.next)),
+    user.id,
+    workspaceId,
+  );
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import {
+  guardAuthAttempts,
+  recordLogin,
+  signUp,
+  signUpSchema,
+  toUserView,
+  withSession,
+  type SignUpInput,
+} from "@/server/auth";
+
+export async function POST(request: NextRequest) {
+  const t = getMessages(localeFromRequest(request));
+
+  let input: SignUpInput;
+  try {
+    input = signUpSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: t.errors.INVALID_INPUT,
+          details: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: t.api.invalidRequest }, { status: 400 });
+  }
+
+  const rejected = guardAuthAttempts(request, input.email);
+  if (rejected) {
+    return rejected;
+  }
+
+  const result = await signUp(input);
+  if (!result.ok) {
+    return result.reason === "email-taken"
+      ? NextResponse.json({ error: t.api.emailTaken }, { status: 409 })
+      : NextResponse.json(
+          {
+            error:
+              result.reason === "verify-email"
+                ? t.api.verifyEmail
+                : t.api.signupClosed,
+          },
+          { status: 403 },
+        );
+  }
+
+  await recordLogin(result.user.id, result.workspaceId);
+  return withSession(
+    NextResponse.json({ user: toUserView(result.user) }, { status: 201 }),
+    result.user.id,
+    result.workspaceId,
+  );
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import {
+  getMembership,
+  listUserWorkspaces,
+  rememberWorkspace,
+  requireAuth,
+  switchWorkspaceSchema,
+  toUserView,
+  withSession,
+  type SwitchWorkspaceInput,
+} from "@/server/auth";
+
+export async function GET(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { user, workspace, role } = authenticated.auth;
+
+  return NextResponse.json({
+    user: toUserView(user),
+    workspace: { id: workspace.id, name: workspace.name, role },
+    workspaces: await listUserWorkspaces(user.id),
+  });
+}
+
+// Switches the session to another workspace of the user.
+export async function PATCH(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { user } = authenticated.auth;
+  const t = getMessages(localeFromRequest(request));
+
+  let body: SwitchWorkspaceInput;
+  try {
+    body = switchWorkspaceSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: t.errors.INVALID_INPUT,
+          details: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: t.api.invalidRequest }, { status: 400 });
+  }
+
+  const membership = await getMembership(body.workspaceId, user.id);
+  if (!membership) {
+    return NextResponse.json(
+      { error: t.api.workspaceNotFound },
+      { status: 404 },
+    );
+  }
+
+  await rememberWorkspace(user.id, membership.workspace.id);
+  return withSession(
+    NextResponse.json({
+      workspace: {
+        id: membership.workspace.id,
+        name: membership.workspace.name,
+        role: membership.role,
+      },
+    }),
+    user.id,
+    membership.workspace.id,
+  );
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import {
+  buildExport,
+  EXPORT_FORMATS,
+  exportBusinessSchema,
+} from "@/server/export";
+
+const exportSchema = z.object({
+  format: z.enum(EXPORT_FORMATS),
+  businesses: z.array(exportBusinessSchema).min(1, "Aucun prospect à exporter."),
+});
+
+export async function POST(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+
+  const t = getMessages(localeFromRequest(request));
+  let body: z.infer<typeof exportSchema>;
+  try {
+    body = exportSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: t.errors.INVALID_INPUT,
+          details: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: t.api.invalidRequest }, { status: 400 });
+  }
+
+  if (
+    body.format === "vcf" &&
+    !body.businesses.some((business) => business.formatted_phone_number)
+  ) {
+    return NextResponse.json(
+      { error: t.api.noPhoneToExport },
+      { status: 400 },
+    );
+  }
+
+  const file = buildExport(body.format, body.businesses);
+  const fileName = `prospects-${new Date().toISOString().slice(0, 10)}.${file.extension}`;
+
+  return new Response(new Uint8Array(file.body), {
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+    },
+  });
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import {
+  createIntegrationSchema,
+  deleteIntegration,
+  getIntegration,
+  replaceIntegration,
+  toIntegrationView,
+  type Integration,
+  type IntegrationInput,
+} from "@/server/integrations";
+
+type RouteContext = { params: Promise<{ integrationId: string }> };
+
+const notFound = (request: NextRequest) =>
+  NextResponse.json(
+    {
+      error: getMessages(localeFromRequest(request)).api.integrationNotFound,
+    },
+    { status: 404 },
+  );
+
+// A saved secret only goes back to the endpoint it was entered for.
+function keepsTarget(existing: Integration, body: unknown) {
+  const { kind, url } = (body ?? {}) as { kind?: unknown; url?: unknown };
+  return (
+    kind === existing.kind &&
+    (typeof url === "string" ? url.trim() : url) === existing.url
+  );
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const { integrationId } = await params;
+  const integration = await getIntegration(workspaceId, integrationId);
+  return integration
+    ? NextResponse.json({ integration: toIntegrationView(integration) })
+    : notFound(request);
+}
+
+// Secrets left out of the body keep their saved value, as long as the kind
+// and address stay the same: the API never returns them.
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const { integrationId } = await params;
+  const locale = localeFromRequest(request);
+  const t = getMessages(locale);
+  const existing = await getIntegration(workspaceId, integrationId);
+  if (!existing) {
+    return notFound(request);
+  }
+
+  let input: IntegrationInput;
+  try {
+    const body = await request.json();
+    input = createIntegrationSchema(locale).parse({
+      ...(keepsTarget(existing, body)
+        ? { secret: existing.secret, apiToken: existing.apiToken }
+        : {}),
+      ...body,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: t.errors.INVALID_INPUT,
+          details: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: t.api.invalidRequest }, { status: 400 });
+  }
+
+  const integration = await replaceIntegration(
+    workspaceId,
+    integrationId,
+    input,
+  );
+  return integration
+    ? NextResponse.json({ integration: toIntegrationView(integration) })
+    : notFound(request);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const { integrationId } = await params;
+  return (await deleteIntegration(workspaceId, integrationId))
+    ? new NextResponse(null, { status: 204 })
+    : notFound(request);
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import { getIntegration, testIntegration } from "@/server/integrations";
+
+type RouteContext = { params: Promise<{ integrationId: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const { integrationId } = await params;
+  const integration = await getIntegration(workspaceId, integrationId);
+  if (!integration) {
+    const t = getMessages(localeFromRequest(request));
+    return NextResponse.json(
+      { error: t.api.integrationNotFound },
+      { status: 404 },
+    );
+  }
+  return NextResponse.json({
+    delivery: await testIntegration(workspaceId, integration),
+  });
+}
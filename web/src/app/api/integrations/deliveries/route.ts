@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireAuth } from "@/server/auth";
+import { listDeliveries } from "@/server/integrations";
+
+export async function GET(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const integrationId =
+    request.nextUrl.searchParams.get("integrationId") ?? undefined;
+  return NextResponse.json({
+    deliveries: await listDeliveries(workspaceId, integrationId),
+  });
+}
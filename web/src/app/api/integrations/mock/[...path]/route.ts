@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireAuth } from "@/server/auth";
+import {
+  handleMockRequest,
+  isMockEnabled,
+  isMockLookup,
+  listMockRequests,
+} from "@/server/integrations";
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+async function handle(
+  method: "GET" | "POST",
+  request: NextRequest,
+  { params }: RouteContext,
+) {
+  const { path } = await params;
+  const { status, body } = handleMockRequest({
+    method,
+    path: path.join("/"),
+    headers: request.headers,
+    searchParams: request.nextUrl.searchParams,
+    body: await request.text(),
+  });
+  return NextResponse.json(body, { status });
+}
+
+// Pipedrive lookups are GETs; any other GET lists the requests received,
+// lead details included, so it needs a session unlike the CRM endpoints.
+export async function GET(request: NextRequest, context: RouteContext) {
+  if (!isMockEnabled()) {
+    return new NextResponse(null, { status: 404 });
+  }
+  const { path } = await context.params;
+  if (isMockLookup(path.join("/"))) {
+    return handle("GET", request, context);
+  }
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  return NextResponse.json({ requests: listMockRequests() });
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  if (!isMockEnabled()) {
+    return new NextResponse(null, { status: 404 });
+  }
+  return handle("POST", request, context);
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import {
+  pushProspects,
+  pushSchema,
+  type PushRequest,
+} from "@/server/integrations";
+
+export async function POST(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const t = getMessages(localeFromRequest(request));
+
+  let body: PushRequest;
+  try {
+    body = pushSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: t.errors.INVALID_INPUT,
+          details: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: t.api.invalidRequest }, { status: 400 });
+  }
+
+  const { deliveries, missing } = await pushProspects(
+    workspaceId,
+    body.placeIds,
+    body.integrationIds,
+  );
+  if (missing.length === body.placeIds.length) {
+    return NextResponse.json(
+      { error: t.api.prospectNotFound },
+      { status: 404 },
+    );
+  }
+  if (!deliveries.length) {
+    return NextResponse.json({ error: t.api.noIntegration }, { status: 409 });
+  }
+  return NextResponse.json({ deliveries, missing });
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import {
+  createIntegration,
+  createIntegrationSchema,
+  listIntegrations,
+  toIntegrationView,
+  type IntegrationInput,
+} from "@/server/integrations";
+
+export async function GET(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const integrations = await listIntegrations(workspaceId);
+  return NextResponse.json({
+    integrations: integrations.map(toIntegrationView),
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const locale = localeFromRequest(request);
+  const t = getMessages(locale);
+
+  let input: IntegrationInput;
+  try {
+    input = createIntegrationSchema(locale).parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: t.errors.INVALID_INPUT,
+          details: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: t.api.invalidRequest }, { status: 400 });
+  }
+
+  const integration = await createIntegration(workspaceId, input);
+  return NextResponse.json(
+    { integration: toIntegrationView(integration) },
+    { status: 201 },
+  );
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import { cancelJob, toJobView } from "@/server/jobs";
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const { jobId } = await params;
+  const job = await cancelJob(workspaceId, jobId);
+  if (!job) {
+    const t = getMessages(localeFromRequest(request));
+    return NextResponse.json({ error: t.api.jobNotFound }, { status: 404 });
+  }
+  return NextResponse.json({ job: toJobView(job) });
+}
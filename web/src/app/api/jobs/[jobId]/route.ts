@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import { getJob, resumePendingJobs, toJobView } from "@/server/jobs";
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const { jobId } = await params;
+  await resumePendingJobs();
+
+  const job = await getJob(workspaceId, jobId);
+  if (!job) {
+    const t = getMessages(localeFromRequest(request));
+    return NextResponse.json({ error: t.api.jobNotFound }, { status: 404 });
+  }
+  return NextResponse.json({ job: toJobView(job) });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireAuth } from "@/server/auth";
+import {
+  createJob,
+  createJobBodySchema,
+  listJobs,
+  resumePendingJobs,
+  startJob,
+  toJobView,
+} from "@/server/jobs";
+import { prepareSearch } from "@/server/search";
+
+export async function GET(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  await resumePendingJobs();
+  const jobs = await listJobs(workspaceId);
+  return NextResponse.json({
+    jobs: jobs.map((job) => toJobView(job, { withResults: false })),
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const prepared = await prepareSearch(request, createJobBodySchema);
+  if (!prepared.ok) {
+    return prepared.response;
+  }
+
+  await resumePendingJobs();
+  const { scope, locale } = prepared.deps;
+  const job = await createJob(scope, prepared.body, locale);
+  startJob(scope.workspaceId, job.id);
+
+  return NextResponse.json({ job: toJobView(job) }, { status: 202 });
+}
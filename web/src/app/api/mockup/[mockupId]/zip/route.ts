@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import {
+  buildMockupArchive,
+  getMockup,
+  mockupFileName,
+} from "@/server/mockup";
+
+type RouteContext = { params: Promise<{ mockupId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+
+  const { mockupId } = await params;
+  const mockup = await getMockup(
+    authenticated.auth.scope.workspaceId,
+    mockupId,
+  );
+  if (!mockup) {
+    return NextResponse.json(
+      { error: getMessages(localeFromRequest(request)).api.mockupNotFound },
+      { status: 404 },
+    );
+  }
+
+  return new Response(new Uint8Array(buildMockupArchive(mockup)), {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${mockupFileName(mockup)}.zip"`,
+    },
+  });
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import {
+  createMockup,
+  mockupRequestSchema,
+  summarizeMockup,
+  type MockupRequest,
+} from "@/server/mockup";
+import { DEFAULT_PITCH_LANGUAGE } from "@/server/pitch";
+import { getProspect } from "@/server/prospects";
+import { getAgencyProfile } from "@/server/settings";
+
+export async function POST(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const t = getMessages(localeFromRequest(request));
+  let body: MockupRequest;
+  try {
+    body = mockupRequestSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: t.errors.INVALID_INPUT,
+          details: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: t.api.invalidRequest }, { status: 400 });
+  }
+
+  const placeId = body.placeId ?? body.business?.place_id;
+  const prospect = placeId ? await getProspect(workspaceId, placeId) : null;
+  const business = body.business ?? prospect?.business;
+  if (!business) {
+    return NextResponse.json(
+      { error: t.api.prospectNotFound },
+      { status: 404 },
+    );
+  }
+
+  const agency = await getAgencyProfile(workspaceId);
+  const mockup = await createMockup(workspaceId, business, {
+    vibe: body.vibe ?? prospect?.pitch?.vibeSummary ?? "",
+    language: body.language ?? DEFAULT_PITCH_LANGUAGE,
+    agency: agency?.name,
+  });
+  return NextResponse.json(
+    { mockup: summarizeMockup(mockup, request.nextUrl.origin) },
+    { status: 201 },
+  );
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import {
+  getProspect,
+  pitchRequestSchema,
+  regeneratePitch,
+  type PitchRequest,
+} from "@/server/prospects";
+import { AppError, errorResponse } from "@/server/upstream";
+import { guardSearchQuota } from "@/server/usage";
+
+export async function POST(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { scope, user } = authenticated.auth;
+
+  const locale = localeFromRequest(request);
+
+  let body: PitchRequest;
+  try {
+    body = pitchRequestSchema.parse(await request.json());
+  } catch (error) {
+    return error instanceof z.ZodError
+      ? errorResponse(new AppError("INVALID_INPUT", "Entrée invalide."), {
+          details: error.flatten().fieldErrors,
+          locale,
+        })
+      : errorResponse(new AppError("INVALID_INPUT", "Requête invalide."), {
+          locale,
+        });
+  }
+
+  const placeId = body.placeId ?? body.business?.place_id;
+  const prospect = placeId
+    ? await getProspect(scope.workspaceId, placeId)
+    : null;
+  const business = body.business ?? prospect?.business;
+  if (!business) {
+    return NextResponse.json(
+      { error: getMessages(locale).api.prospectNotFound },
+      { status: 404 },
+    );
+  }
+
+  const clientId = `user:${user.id}`;
+  const rejected = await guardSearchQuota(clientId, locale);
+  if (rejected) {
+    return rejected;
+  }
+
+  try {
+    return NextResponse.json(
+      await regeneratePitch(business, body, {
+        clientId,
+        prospect,
+        scope,
+        locale,
+      }),
+    );
+  } catch (error) {
+    return errorResponse(error, { locale });
+  }
+}
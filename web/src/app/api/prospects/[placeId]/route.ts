@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import { pitchSchema } from "@/server/pitch";
+import {
+  deleteProspect,
+  getProspect,
+  PROSPECT_STATUSES,
+  updateProspect,
+} from "@/server/prospects";
+
+type RouteContext = { params: Promise<{ placeId: string }> };
+
+const updateSchema = z.object({
+  status: z.enum(PROSPECT_STATUSES).optional(),
+  note: z.string().trim().min(1).max(2000).optional(),
+  // Inline edit or restore of an earlier version, saved as a new version.
+  pitch: pitchSchema.omit({ placeId: true }).optional(),
+});
+
+const notFound = (request: NextRequest) =>
+  NextResponse.json(
+    { error: getMessages(localeFromRequest(request)).api.prospectNotFound },
+    { status: 404 },
+  );
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const { placeId } = await params;
+  const prospect = await getProspect(workspaceId, placeId);
+  return prospect ? NextResponse.json({ prospect }) : notFound(request);
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { scope } = authenticated.auth;
+
+  const { placeId } = await params;
+  const t = getMessages(localeFromRequest(request));
+
+  let update: z.infer<typeof updateSchema>;
+  try {
+    update = updateSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: t.errors.INVALID_INPUT,
+          details: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: t.api.invalidRequest }, { status: 400 });
+  }
+
+  const prospect = await updateProspect(scope, placeId, update);
+  return prospect ? NextResponse.json({ prospect }) : notFound(request);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const { placeId } = await params;
+  return (await deleteProspect(workspaceId, placeId))
+    ? new NextResponse(null, { status: 204 })
+    : notFound(request);
+}
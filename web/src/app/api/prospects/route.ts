@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import {
+  listProspects,
+  PROSPECT_STATUSES,
+  type ProspectStatus,
+} from "@/server/prospects";
+
+export async function GET(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const status = request.nextUrl.searchParams.get("status");
+  if (status && !PROSPECT_STATUSES.includes(status as ProspectStatus)) {
+    const t = getMessages(localeFromRequest(request));
+    return NextResponse.json({ error: t.api.unknownStatus }, { status: 400 });
+  }
+
+  const prospects = await listProspects(workspaceId, {
+    status: (status as ProspectStatus | null) ?? undefined,
+  });
+  return NextResponse.json({ prospects });
+}
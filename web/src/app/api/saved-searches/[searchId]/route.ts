@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import {
+  createSavedSearchUpdateSchema,
+  deleteSavedSearch,
+  getSavedSearch,
+  toSavedSearchView,
+  updateSavedSearch,
+  type SavedSearchUpdate,
+} from "@/server/saved-searches";
+
+type RouteContext = { params: Promise<{ searchId: string }> };
+
+const notFound = (request: NextRequest) =>
+  NextResponse.json(
+    { error: getMessages(localeFromRequest(request)).api.savedSearchNotFound },
+    { status: 404 },
+  );
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const { searchId } = await params;
+  const search = await getSavedSearch(workspaceId, searchId);
+  return search
+    ? NextResponse.json({ search: toSavedSearchView(search) })
+    : notFound(request);
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const { searchId } = await params;
+  const locale = localeFromRequest(request);
+  const t = getMessages(locale);
+
+  let update: SavedSearchUpdate;
+  try {
+    update = createSavedSearchUpdateSchema(locale).parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: t.errors.INVALID_INPUT,
+          details: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: t.api.invalidRequest }, { status: 400 });
+  }
+
+  const search = await updateSavedSearch(workspaceId, searchId, update);
+  return search
+    ? NextResponse.json({ search: toSavedSearchView(search) })
+    : notFound(request);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const { searchId } = await params;
+  return (await deleteSavedSearch(workspaceId, searchId))
+    ? new NextResponse(null, { status: 204 })
+    : notFound(request);
+}
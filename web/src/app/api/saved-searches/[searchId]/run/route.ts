@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import {
+  getSavedSearch,
+  runSavedSearch,
+  toSavedSearchView,
+} from "@/server/saved-searches";
+
+type RouteContext = { params: Promise<{ searchId: string }> };
+
+// Starts a run now without waiting for it: poll the saved search for its
+// outcome.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { scope } = authenticated.auth;
+
+  const { searchId } = await params;
+  const t = getMessages(localeFromRequest(request));
+
+  const search = await getSavedSearch(scope.workspaceId, searchId);
+  if (!search) {
+    return NextResponse.json(
+      { error: t.api.savedSearchNotFound },
+      { status: 404 },
+    );
+  }
+  if (toSavedSearchView(search).running) {
+    return NextResponse.json(
+      { error: t.api.savedSearchRunning },
+      { status: 409 },
+    );
+  }
+
+  void runSavedSearch(scope.workspaceId, searchId, "manual", scope.actor).catch(
+    () => undefined,
+  );
+  return NextResponse.json(
+    { search: toSavedSearchView(search) },
+    { status: 202 },
+  );
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import {
+  createSavedSearch,
+  createSavedSearchSchema,
+  listSavedSearches,
+  toSavedSearchView,
+  type SavedSearchInput,
+} from "@/server/saved-searches";
+
+export async function GET(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const searches = await listSavedSearches(workspaceId);
+  return NextResponse.json({ searches: searches.map(toSavedSearchView) });
+}
+
+export async function POST(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { scope } = authenticated.auth;
+
+  const locale = localeFromRequest(request);
+  const t = getMessages(locale);
+
+  let input: SavedSearchInput;
+  try {
+    input = createSavedSearchSchema(locale).parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: t.errors.INVALID_INPUT,
+          details: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: t.api.invalidRequest }, { status: 400 });
+  }
+
+  const search = await createSavedSearch(scope, input);
+  return NextResponse.json(
+    { search: toSavedSearchView(search) },
+    { status: 201 },
+  );
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { localeFromRequest } from "@/i18n";
+import {
+  createBatchBodySchema,
+  prepareSearch,
+  runBatchSearch,
+} from "@/server/search";
+import { errorResponse } from "@/server/upstream";
+
+export async function POST(request: NextRequest) {
+  const prepared = await prepareSearch(request, createBatchBodySchema);
+  if (!prepared.ok) {
+    return prepared.response;
+  }
+
+  try {
+    return NextResponse.json(
+      await runBatchSearch(prepared.body, prepared.deps),
+    );
+  } catch (error) {
+    return errorResponse(error, { locale: localeFromRequest(request) });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest } from "next/server";
+
+import { localeFromRequest, localizeError } from "@/i18n";
+import { prepareSearch, runSearch, type SearchEvent } from "@/server/search";
+import { toApiError, type ApiError } from "@/server/upstream";
+
+type StreamEvent = SearchEvent | { type: "error"; error: ApiError };
+
+function encodeEvent(type: string, data: unknown) {
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function POST(request: NextRequest) {
+  const prepared = await prepareSearch(request);
+  if (!prepared.ok) {
+    return prepared.response;
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = ({ type, ...data }: StreamEvent) =>
+        controller.enqueue(encoder.encode(encodeEvent(type, data)));
+
+      try {
+        await runSearch(prepared.body, prepared.deps, { onEvent: send });
+      } catch (error) {
+        send({
+          type: "error",
+          error: localizeError(toApiError(error), localeFromRequest(request)),
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
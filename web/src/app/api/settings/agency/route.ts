@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireAuth } from "@/server/auth";
+import {
+  createAgencySchema,
+  getAgencyProfile,
+  parseSettingsBody,
+  saveAgencyProfile,
+} from "@/server/settings";
+
+export async function GET(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  return NextResponse.json({ agency: await getAgencyProfile(workspaceId) });
+}
+
+export async function PUT(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const parsed = await parseSettingsBody(request, createAgencySchema);
+  if (!parsed.ok) {
+    return parsed.response;
+  }
+  return NextResponse.json({
+    agency: await saveAgencyProfile(workspaceId, parsed.body),
+  });
+}
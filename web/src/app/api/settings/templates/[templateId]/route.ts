@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireAuth } from "@/server/auth";
+import {
+  addPromptTemplateVersion,
+  createTemplateVersionSchema,
+  deletePromptTemplate,
+  getPromptTemplate,
+  parseSettingsBody,
+  templateNotFound,
+} from "@/server/settings";
+
+type RouteContext = { params: Promise<{ templateId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const { templateId } = await params;
+  const template = await getPromptTemplate(workspaceId, templateId);
+  return template
+    ? NextResponse.json({ template })
+    : templateNotFound(request);
+}
+
+// Saving a template always appends a version.
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const { templateId } = await params;
+  const parsed = await parseSettingsBody(request, createTemplateVersionSchema);
+  if (!parsed.ok) {
+    return parsed.response;
+  }
+
+  const template = await addPromptTemplateVersion(
+    workspaceId,
+    templateId,
+    parsed.body,
+  );
+  return template
+    ? NextResponse.json({ template })
+    : templateNotFound(request);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const { templateId } = await params;
+  return (await deletePromptTemplate(workspaceId, templateId))
+    ? new NextResponse(null, { status: 204 })
+    : templateNotFound(request);
+}
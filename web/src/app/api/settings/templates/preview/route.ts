@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import { getProspect } from "@/server/prospects";
+import {
+  buildPromptPreview,
+  createPreviewSchema,
+  getAgencyProfile,
+  parseSettingsBody,
+  resolvePromptTemplate,
+  SAMPLE_BUSINESS,
+  templateNotFound,
+} from "@/server/settings";
+
+export async function POST(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const parsed = await parseSettingsBody(request, createPreviewSchema);
+  if (!parsed.ok) {
+    return parsed.response;
+  }
+  const { templateId, version, template: draft, placeId, ...options } =
+    parsed.body;
+
+  const template = templateId
+    ? await resolvePromptTemplate(workspaceId, templateId, version)
+    : draft && {
+        id: "draft",
+        name: "draft",
+        version: 0,
+        system: draft.system,
+        instructions: draft.instructions,
+      };
+  if (template === null) {
+    return templateNotFound(request);
+  }
+
+  const business = placeId
+    ? (await getProspect(workspaceId, placeId))?.business
+    : SAMPLE_BUSINESS;
+  if (!business) {
+    const t = getMessages(localeFromRequest(request));
+    return NextResponse.json(
+      { error: t.api.prospectNotFound },
+      { status: 404 },
+    );
+  }
+
+  const agency = await getAgencyProfile(workspaceId);
+  return NextResponse.json(
+    buildPromptPreview(business, {
+      ...options,
+      agency: agency ?? undefined,
+      template,
+    }),
+  );
+}
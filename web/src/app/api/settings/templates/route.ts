@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireAuth } from "@/server/auth";
+import { PROMPT_VARIABLES } from "@/server/pitch";
+import {
+  createPromptTemplate,
+  createTemplateSchema,
+  listPromptTemplates,
+  parseSettingsBody,
+} from "@/server/settings";
+
+export async function GET(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  return NextResponse.json({
+    templates: await listPromptTemplates(workspaceId),
+    variables: PROMPT_VARIABLES,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const parsed = await parseSettingsBody(request, createTemplateSchema);
+  if (!parsed.ok) {
+    return parsed.response;
+  }
+  return NextResponse.json(
+    { template: await createPromptTemplate(workspaceId, parsed.body) },
+    { status: 201 },
+  );
+}
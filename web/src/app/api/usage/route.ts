@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import { getCostForDay, getDailyBudget, summarizeUsage } from "@/server/usage";
+
+export async function GET(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { workspaceId } = authenticated.auth.scope;
+
+  const days = Number(request.nextUrl.searchParams.get("days") ?? 30);
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    return NextResponse.json(
+      { error: getMessages(localeFromRequest(request)).api.invalidDays },
+      { status: 400 },
+    );
+  }
+
+  const summary = await summarizeUsage(workspaceId, days);
+  return NextResponse.json({
+    ...summary,
+    today: {
+      costUsd: await getCostForDay(undefined, workspaceId),
+      budgetUsd: getDailyBudget(),
+    },
+  });
+}
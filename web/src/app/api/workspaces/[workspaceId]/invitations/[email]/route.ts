@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { requireMembership, revokeInvitation } from "@/server/auth";
+
+type RouteContext = {
+  params: Promise<{ workspaceId: string; email: string }>;
+};
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { workspaceId, email } = await params;
+  const membership = await requireMembership(request, workspaceId, {
+    ownerOnly: true,
+  });
+  if (!membership.ok) {
+    return membership.response;
+  }
+
+  if (!(await revokeInvitation(workspaceId, email))) {
+    return NextResponse.json(
+      { error: getMessages(localeFromRequest(request)).api.invitationNotFound },
+      { status: 404 },
+    );
+  }
+  return new NextResponse(null, { status: 204 });
+}
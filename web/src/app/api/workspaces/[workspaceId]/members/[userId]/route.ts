@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { removeMember, requireMembership } from "@/server/auth";
+
+type RouteContext = {
+  params: Promise<{ workspaceId: string; userId: string }>;
+};
+
+// Owners remove anyone; members may only leave.
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { workspaceId, userId } = await params;
+  const membership = await requireMembership(request, workspaceId);
+  if (!membership.ok) {
+    return membership.response;
+  }
+  const t = getMessages(localeFromRequest(request));
+  if (membership.role !== "owner" && userId !== membership.auth.user.id) {
+    return NextResponse.json({ error: t.api.ownerOnly }, { status: 403 });
+  }
+
+  const result = await removeMember(workspaceId, userId);
+  if (result === "not-found") {
+    return NextResponse.json({ error: t.api.memberNotFound }, { status: 404 });
+  }
+  if (result === "last-owner") {
+    return NextResponse.json({ error: t.api.lastOwner }, { status: 409 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
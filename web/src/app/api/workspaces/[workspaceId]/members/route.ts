@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import {
+  invitationSchema,
+  inviteMember,
+  requireMembership,
+  type InvitationInput,
+} from "@/server/auth";
+
+type RouteContext = { params: Promise<{ workspaceId: string }> };
+
+// Owners only. An email with an account joins right away.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { workspaceId } = await params;
+  const membership = await requireMembership(request, workspaceId, {
+    ownerOnly: true,
+  });
+  if (!membership.ok) {
+    return membership.response;
+  }
+  const t = getMessages(localeFromRequest(request));
+
+  let input: InvitationInput;
+  try {
+    input = invitationSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: t.errors.INVALID_INPUT,
+          details: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: t.api.invalidRequest }, { status: 400 });
+  }
+
+  const result = await inviteMember(
+    workspaceId,
+    input,
+    membership.auth.scope.actor,
+  );
+  if (!result) {
+    return NextResponse.json(
+      { error: t.api.workspaceNotFound },
+      { status: 404 },
+    );
+  }
+  return NextResponse.json({ joined: result.joined }, { status: 201 });
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { listWorkspaceMembers, requireMembership } from "@/server/auth";
+
+type RouteContext = { params: Promise<{ workspaceId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { workspaceId } = await params;
+  const membership = await requireMembership(request, workspaceId);
+  if (!membership.ok) {
+    return membership.response;
+  }
+  const { workspace, role } = membership;
+
+  return NextResponse.json({
+    workspace: { id: workspace.id, name: workspace.name, role },
+    members: await listWorkspaceMembers(workspace.id),
+    invitations: workspace.invitations,
+  });
+}
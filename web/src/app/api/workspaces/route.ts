@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import {
+  createWorkspace,
+  listUserWorkspaces,
+  rememberWorkspace,
+  requireAuth,
+  withSession,
+  workspaceSchema,
+  type WorkspaceInput,
+} from "@/server/auth";
+
+export async function GET(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  return NextResponse.json({
+    workspaces: await listUserWorkspaces(authenticated.auth.user.id),
+  });
+}
+
+// The new workspace becomes the current one.
+export async function POST(request: NextRequest) {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated.response;
+  }
+  const { user } = authenticated.auth;
+  const t = getMessages(localeFromRequest(request));
+
+  let input: WorkspaceInput;
+  try {
+    input = workspaceSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: t.errors.INVALID_INPUT,
+          details: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: t.api.invalidRequest }, { status: 400 });
+  }
+
+  const workspace = await createWorkspace(input.name, user.id);
+  await rememberWorkspace(user.id, workspace.id);
+  return withSession(
+    NextResponse.json(
+      { workspace: { id: workspace.id, name: workspace.name, role: "owner" } },
+      { status: 201 },
+    ),
+    user.id,
+    workspace.id,
+  );
+}
@@ -0,0 +1,486 @@
+'use client';
+
+import Link from "next/link";
+import { FormEvent, useEffect, useState } from "react";
+
+import { useI18n } from "@/components/locale-provider";
+import { getMessages, type Locale, type Messages } from "@/i18n";
+
+type IntegrationKind = keyof Messages["integrations"]["kinds"];
+
+type Integration = {
+  id: string;
+  name: string;
+  kind: IntegrationKind;
+  url?: string;
+  autoPush: boolean;
+  enabled: boolean;
+  hasSecret: boolean;
+  hasApiToken: boolean;
+  deliveredLeads: number;
+};
+
+type Delivery = {
+  id: string;
+  integrationName: string;
+  trigger: keyof Messages["integrations"]["triggers"];
+  name: string;
+  status: keyof Messages["integrations"]["statuses"];
+  attempts: number;
+  error?: string;
+  createdAt: string;
+};
+
+type ApiFailure = { error?: string; details?: Record<string, string[]> };
+
+type IntegrationDraft = {
+  name: string;
+  kind: IntegrationKind;
+  url: string;
+  secret: string;
+  apiToken: string;
+  autoPush: boolean;
+  enabled: boolean;
+};
+
+const INTEGRATION_KINDS: IntegrationKind[] = ["webhook", "hubspot", "pipedrive"];
+
+const EMPTY_DRAFT: IntegrationDraft = {
+  name: "",
+  kind: "webhook",
+  url: "",
+  secret: "",
+  apiToken: "",
+  autoPush: false,
+  enabled: true,
+};
+
+const VISIBLE_DELIVERIES = 50;
+
+const inputClass =
+  "w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-sm text-white placeholder:text-white/40 focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40";
+
+const buttonClass =
+  "rounded-full border border-white/20 px-3 py-1 text-xs text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10 disabled:opacity-50";
+
+function describeFailure(data: ApiFailure, fallback: string) {
+  return data.details
+    ? Object.values(data.details).flat().join(", ")
+    : (data.error ?? fallback);
+}
+
+async function fetchIntegrations(locale: Locale) {
+  const t = getMessages(locale);
+  let responses: Response[];
+  try {
+    responses = await Promise.all([
+      fetch("/api/integrations"),
+      fetch("/api/integrations/deliveries"),
+    ]);
+  } catch {
+    throw new Error(t.common.networkError);
+  }
+  if (responses.some((response) => !response.ok)) {
+    throw new Error(t.integrations.loadFailed);
+  }
+  const [{ integrations }, { deliveries }]: [
+    { integrations: Integration[] },
+    { deliveries: Delivery[] },
+  ] = await Promise.all([responses[0].json(), responses[1].json()]);
+  return { integrations, deliveries };
+}
+
+export default function IntegrationsPage() {
+  const { locale, t } = useI18n();
+  const [integrations, setIntegrations] = useState<Integration[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<IntegrationDraft | null>(null);
+  const [testing, setTesting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const editing = integrations.find(
+    (integration) => integration.id === editingId,
+  );
+  // The server drops saved secrets when the target changes.
+  const keepsSaved =
+    editing &&
+    draft?.kind === editing.kind &&
+    draft.url.trim() === (editing.url ?? "");
+
+  useEffect(() => {
+    fetchIntegrations(locale)
+      .then((data) => {
+        setIntegrations(data.integrations);
+        setDeliveries(data.deliveries);
+      })
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [locale]);
+
+  const request = async <T,>(url: string, init: RequestInit) => {
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (response.status === 204) {
+        return {} as T;
+      }
+      const data: T & ApiFailure = await response.json();
+      if (!response.ok) {
+        setError(describeFailure(data, t.integrations.saveFailed));
+        return null;
+      }
+      return data;
+    } catch {
+      setError(t.common.networkError);
+      return null;
+    }
+  };
+
+  const replaceIntegration = (integration: Integration) =>
+    setIntegrations((current) =>
+      current.some((item) => item.id === integration.id)
+        ? current.map((item) =>
+            item.id === integration.id ? integration : item,
+          )
+        : [...current, integration],
+    );
+
+  const startEditing = (integration: Integration | null) => {
+    setEditingId(integration?.id ?? null);
+    setDraft(
+      integration
+        ? {
+            name: integration.name,
+            kind: integration.kind,
+            url: integration.url ?? "",
+            secret: "",
+            apiToken: "",
+            autoPush: integration.autoPush,
+            enabled: integration.enabled,
+          }
+        : EMPTY_DRAFT,
+    );
+  };
+
+  const submitDraft = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!draft) {
+      return;
+    }
+    const webhook = draft.kind === "webhook";
+    // Empty secrets are left out so that saved ones are kept.
+    const body = {
+      name: draft.name,
+      kind: draft.kind,
+      url: draft.url.trim() || undefined,
+      secret: webhook ? draft.secret || undefined : undefined,
+      apiToken: webhook ? undefined : draft.apiToken.trim() || undefined,
+      autoPush: draft.autoPush,
+      enabled: draft.enabled,
+    };
+    const data = await request<{ integration: Integration }>(
+      editing
+        ? `/api/integrations/${encodeURIComponent(editing.id)}`
+        : "/api/integrations",
+      { method: editing ? "PUT" : "POST", body: JSON.stringify(body) },
+    );
+    if (data) {
+      replaceIntegration(data.integration);
+      setDraft(null);
+      setEditingId(null);
+    }
+  };
+
+  const testIntegration = async (integration: Integration) => {
+    setTesting(integration.id);
+    const data = await request<{ delivery: Delivery }>(
+      `/api/integrations/${encodeURIComponent(integration.id)}/test`,
+      { method: "POST" },
+    );
+    setTesting(null);
+    if (data) {
+      setDeliveries((current) => [data.delivery, ...current]);
+    }
+  };
+
+  const removeIntegration = async (integration: Integration) => {
+    if (!window.confirm(t.integrations.confirmRemove)) {
+      return;
+    }
+    const data = await request(
+      `/api/integrations/${encodeURIComponent(integration.id)}`,
+      { method: "DELETE" },
+    );
+    if (data) {
+      setIntegrations((current) =>
+        current.filter((item) => item.id !== integration.id),
+      );
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-zinc-900 to-slate-800 text-slate-100">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8 px-6 pb-16 pt-12">
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <p className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs uppercase tracking-[0.2em] text-white/70">
+              {t.integrations.badge}
+            </p>
+            <h1 className="text-3xl font-semibold">{t.integrations.title}</h1>
+            <p className="max-w-2xl text-sm text-slate-300">
+              {t.integrations.intro}
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-xs uppercase tracking-[0.2em] text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10"
+          >
+            {t.common.newSearch}
+          </Link>
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/30 bg-red-500/10 px-5 py-4 text-sm text-red-100">
+            {error}
+          </div>
+        )}
+
+        {draft ? (
+          <form
+            onSubmit={submitDraft}
+            className="grid gap-4 rounded-3xl border border-white/10 bg-white/10 p-6 backdrop-blur md:grid-cols-2"
+          >
+            <label className="space-y-2 text-sm text-white/80">
+              <span>{t.integrations.name}</span>
+              <input
+                value={draft.name}
+                onChange={(event) =>
+                  setDraft({ ...draft, name: event.target.value })
+                }
+                required
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-2 text-sm text-white/80">
+              <span>{t.integrations.kind}</span>
+              <select
+                value={draft.kind}
+                onChange={(event) =>
+                  setDraft({
+                    ...draft,
+                    kind: event.target.value as IntegrationKind,
+                  })
+                }
+                className={inputClass}
+              >
+                {INTEGRATION_KINDS.map((kind) => (
+                  <option key={kind} value={kind}>
+                    {t.integrations.kinds[kind]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-2 text-sm text-white/80 md:col-span-2">
+              <span>
+                {draft.kind === "webhook"
+                  ? t.integrations.webhookUrl
+                  : t.integrations.apiUrl}
+              </span>
+              <input
+                type="url"
+                value={draft.url}
+                onChange={(event) =>
+                  setDraft({ ...draft, url: event.target.value })
+                }
+                required={draft.kind === "webhook"}
+                placeholder="https://"
+                className={inputClass}
+              />
+            </label>
+            {draft.kind === "webhook" ? (
+              <label className="space-y-2 text-sm text-white/80 md:col-span-2">
+                <span>{t.integrations.secret}</span>
+                <input
+                  type="password"
+                  value={draft.secret}
+                  onChange={(event) =>
+                    setDraft({ ...draft, secret: event.target.value })
+                  }
+                  placeholder={
+                    keepsSaved && editing?.hasSecret
+                      ? t.integrations.keepSecret
+                      : undefined
+                  }
+                  autoComplete="off"
+                  className={inputClass}
+                />
+              </label>
+            ) : (
+              <label className="space-y-2 text-sm text-white/80 md:col-span-2">
+                <span>{t.integrations.apiToken}</span>
+                <input
+                  type="password"
+                  value={draft.apiToken}
+                  onChange={(event) =>
+                    setDraft({ ...draft, apiToken: event.target.value })
+                  }
+                  required={!(keepsSaved && editing?.hasApiToken)}
+                  placeholder={
+                    keepsSaved && editing?.hasApiToken
+                      ? t.integrations.keepSecret
+                      : undefined
+                  }
+                  autoComplete="off"
+                  className={inputClass}
+                />
+              </label>
+            )}
+            <label className="flex items-center gap-3 text-sm text-white/80">
+              <input
+                type="checkbox"
+                checked={draft.autoPush}
+                onChange={(event) =>
+                  setDraft({ ...draft, autoPush: event.target.checked })
+                }
+                className="h-4 w-4 rounded border-white/20 bg-slate-900/60 accent-sky-500"
+              />
+              {t.integrations.autoPush}
+            </label>
+            <label className="flex items-center gap-3 text-sm text-white/80">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(event) =>
+                  setDraft({ ...draft, enabled: event.target.checked })
+                }
+                className="h-4 w-4 rounded border-white/20 bg-slate-900/60 accent-sky-500"
+              />
+              {t.integrations.enabled}
+            </label>
+            <div className="flex justify-end gap-2 md:col-span-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setDraft(null);
+                  setEditingId(null);
+                }}
+                className={buttonClass}
+              >
+                {t.integrations.cancel}
+              </button>
+              <button
+                type="submit"
+                className="rounded-full bg-sky-500 px-4 py-1 text-xs font-semibold text-slate-900 transition hover:bg-sky-400"
+              >
+                {t.integrations.save}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            type="button"
+            onClick={() => startEditing(null)}
+            className="self-start rounded-full bg-sky-500 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-900 transition hover:bg-sky-400"
+          >
+            {t.integrations.create}
+          </button>
+        )}
+
+        {!loading && integrations.length === 0 && (
+          <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-10 text-center text-sm text-white/70">
+            {t.integrations.empty}
+          </div>
+        )}
+
+        <div className="grid gap-4">
+          {integrations.map((integration) => (
+            <article
+              key={integration.id}
+              className="flex flex-wrap items-start justify-between gap-3 rounded-3xl border border-white/10 bg-white/10 p-6 backdrop-blur"
+            >
+              <div className="space-y-1">
+                <h2 className="text-lg font-semibold text-white">
+                  {integration.name}
+                </h2>
+                <p className="text-sm text-white/70">
+                  {t.integrations.kinds[integration.kind]}
+                  {integration.url && ` · ${integration.url}`}
+                </p>
+                <p className="text-xs text-white/50">
+                  {integration.enabled
+                    ? t.integrations.enabled
+                    : t.integrations.disabled}
+                  {integration.autoPush && ` · ${t.integrations.auto}`} ·{" "}
+                  {t.integrations.deliveredLeads(integration.deliveredLeads)}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  disabled={testing === integration.id}
+                  onClick={() => testIntegration(integration)}
+                  className={buttonClass}
+                >
+                  {testing === integration.id
+                    ? t.integrations.testing
+                    : t.integrations.test}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => startEditing(integration)}
+                  className={buttonClass}
+                >
+                  {t.integrations.edit}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeIntegration(integration)}
+                  className="rounded-full border border-red-400/30 px-3 py-1 text-xs text-red-200 transition hover:bg-red-500/10"
+                >
+                  {t.integrations.remove}
+                </button>
+              </div>
+            </article>
+          ))}
+        </div>
+
+        <section className="space-y-3 rounded-3xl border border-white/10 bg-white/5 p-6">
+          <h2 className="text-xs uppercase tracking-[0.2em] text-white/60">
+            {t.integrations.deliveries}
+          </h2>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-white/50">
+              {t.integrations.noDelivery}
+            </p>
+          ) : (
+            <ul className="space-y-1 text-xs text-white/70">
+              {deliveries.slice(0, VISIBLE_DELIVERIES).map((delivery) => (
+                <li
+                  key={delivery.id}
+                  className={
+                    delivery.status === "failed" ? "text-red-200" : undefined
+                  }
+                >
+                  {new Date(delivery.createdAt).toLocaleString(locale, {
+                    dateStyle: "short",
+                    timeStyle: "short",
+                  })}{" "}
+                  · {delivery.integrationName} · {delivery.name} ·{" "}
+                  {t.integrations.triggers[delivery.trigger]} ·{" "}
+                  {t.integrations.statuses[delivery.status]} (
+                  {t.integrations.attempts(delivery.attempts)})
+                  {delivery.error && ` · ${delivery.error}`}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,18 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { cookies, headers } from "next/headers";
+
+import { AccountMenu } from "@/components/account-menu";
+import { LanguageSwitcher } from "@/components/language-switcher";
+import { LocaleProvider } from "@/components/locale-provider";
+import { NotificationsPanel } from "@/components/notifications-panel";
+import { LOCALE_COOKIE, resolveLocale } from "@/i18n";
+import {
+  listUserWorkspaces,
+  loadAuthContext,
+  SESSION_COOKIE,
+} from "@/server/auth";
+
 import "./globals.css";
 
 const geistSans = Geist({
@@ -17,17 +30,38 @@ export const metadata: Metadata = {
   description: "Generated by create next app",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const cookieStore = await cookies();
+  const locale = resolveLocale(
+    cookieStore.get(LOCALE_COOKIE)?.value,
+    (await headers()).get("accept-language"),
+  );
+  // The login page renders without the account menu and alerts.
+  const auth = await loadAuthContext(cookieStore.get(SESSION_COOKIE)?.value);
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <LocaleProvider initialLocale={locale}>
+          <LanguageSwitcher />
+          {auth && (
+            <>
+              <AccountMenu
+                userName={auth.user.name}
+                workspaceId={auth.workspace.id}
+                workspaces={await listUserWorkspaces(auth.user.id)}
+              />
+              <NotificationsPanel />
+            </>
+          )}
+          {children}
+        </LocaleProvider>
       </body>
     </html>
   );
@@ -0,0 +1,14 @@
+import { LoginForm } from "@/components/login-form";
+import { isRelativePath } from "@/server/auth";
+
+type LoginPageProps = {
+  searchParams: Promise<{ next?: string; error?: string }>;
+};
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const { next, error } = await searchParams;
+  // Same rule as the server: relative paths only.
+  const target = next && isRelativePath(next) ? next : "/";
+
+  return <LoginForm next={target} linkError={error === "link"} />;
+}
@@ -0,0 +1,27 @@
+import { NextRequest } from "next/server";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { findSharedMockup } from "@/server/mockup";
+
+type RouteContext = { params: Promise<{ mockupId: string }> };
+
+// Public on purpose: this is the link sent to the prospect. The page is
+// self-contained, so the policy only allows its inline styles.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { mockupId } = await params;
+  const mockup = await findSharedMockup(mockupId);
+  if (!mockup) {
+    return new Response(
+      getMessages(localeFromRequest(request)).api.mockupNotFound,
+      { status: 404, headers: { "Content-Type": "text/plain; charset=utf-8" } },
+    );
+  }
+
+  return new Response(mockup.html, {
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'",
+      "X-Robots-Tag": "noindex",
+    },
+  });
+}
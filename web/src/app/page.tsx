@@ -1,12 +1,58 @@
 'use client';
 
-import { FormEvent, useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  FormEvent,
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+} from "react";
+
+import {
+  IntegrationPush,
+  type IntegrationTarget,
+} from "@/components/integration-push";
+import { useI18n } from "@/components/locale-provider";
+import { MockupActions, type MockupLinks } from "@/components/mockup-actions";
+import {
+  OutreachTabs,
+  type OutreachContent,
+} from "@/components/outreach-tabs";
+import {
+  PitchEditor,
+  type EditablePitch,
+  type PitchVersion,
+} from "@/components/pitch-editor";
+import { ProspectMap, type MapProspect } from "@/components/prospect-map";
+import {
+  DEFAULT_LOCALE,
+  getMessages,
+  localizeError,
+  type Locale,
+  type Messages,
+} from "@/i18n";
 
 type Pitch = {
   placeId: string;
   vibeSummary: string;
   angle: string;
   personalizedMessage: string;
+  channels?: OutreachContent;
+};
+
+type OutreachChannel = keyof OutreachContent;
+
+const channelOptions: OutreachChannel[] = ["email", "sms", "dm", "call"];
+
+type PitchLanguage = keyof Messages["search"]["pitchLanguages"];
+
+type ReviewInsight = {
+  theme: string;
+  message: string;
+  mentions: number;
+  quote?: string;
 };
 
 type Business = {
@@ -19,6 +65,29 @@ type Business = {
   business_status?: string;
   types?: string[];
   googleMapsUrl: string;
+  geometry?: { location: { lat: number; lng: number } };
+  website?: string;
+  websiteAudit?: {
+    url: string | null;
+    findings: Array<{ code: string; message: string }>;
+  };
+  score?: {
+    value: number;
+    factors: Array<{
+      key: string;
+      label: string;
+      points: number;
+      max: number;
+      detail: string;
+    }>;
+  };
+  insights?: {
+    analyzed: number;
+    score: number;
+    sentiment: keyof Messages["reviewInsights"]["sentiment"];
+    praised: ReviewInsight[];
+    complaints: ReviewInsight[];
+  };
   editorial_summary?: { overview?: string };
   opening_hours?: { weekday_text?: string[] };
   reviews?: Array<{
@@ -27,6 +96,54 @@ type Business = {
     rating?: number;
   }>;
   pitch: Pitch | null;
+  pitchGenerator?: string;
+  pitchError?: string | null;
+  pitchHistory?: PitchVersion[];
+  sources?: Array<{ query: string; location: string }>;
+};
+
+type ApiError = {
+  code: string;
+  message: string;
+  upstream: string | null;
+};
+
+type StreamEvent =
+  | { type: "geocoded"; location: { lat: number; lng: number } }
+  | { type: "places"; page: number; totalFound: number }
+  | { type: "business"; business: Omit<Business, "pitch"> }
+  | {
+      type: "pitch";
+      placeId: string;
+      pitch: Pitch;
+      pitchGenerator: string;
+      pitchError: string | null;
+    }
+  | { type: "done"; metadata: NonNullable<ApiResponse["metadata"]> }
+  | { type: "error"; error: ApiError };
+
+type Progress = {
+  stage: string;
+  found: number;
+  enriched: number;
+  pitched: number;
+};
+
+type Job = {
+  id: string;
+  status: "queued" | "running" | "completed" | "failed" | "cancelled";
+  step: "geocode" | "places" | "details" | "pitch" | "done";
+  progress: {
+    pagesFetched: number;
+    totalFound: number;
+    placesScanned: number;
+    businesses: number;
+    pitched: number;
+    target: number;
+  };
+  businesses?: Business[];
+  metadata: ApiResponse["metadata"] | null;
+  error: ApiError | null;
 };
 
 type ApiResponse = {
@@ -34,13 +151,151 @@ type ApiResponse = {
   metadata?: {
     totalFound: number;
     totalWithoutWebsite: number;
+    pagesFetched?: number;
+    placesScanned?: number;
+    skippedSeen?: number;
+    skippedExcluded?: number;
+    skippedLowScore?: number;
+    mode?: "no-website" | "audit";
+    websitesAudited?: number;
+    duplicatesRemoved?: number;
+    language?: PitchLanguage;
+    promptTemplate?: { id: string; name: string; version: number };
+    cache?: { hits: number; misses: number; refreshed: boolean };
+    warnings?: Array<ApiError & { count: number }>;
+    location?: { lat: number; lng: number };
+    radius?: number;
+    combinations?: Array<{
+      query: string;
+      location: string;
+      totalFound: number;
+      totalWithoutWebsite: number;
+      duplicates: number;
+      warnings: number;
+      error?: ApiError;
+    }>;
     query: string;
     executedAt: string;
   };
-  error?: string;
+  // Plain string when the request is rejected before the search starts.
+  error?: ApiError | string;
   details?: Record<string, string[]>;
 };
 
+const generatorLabels: Record<string, string> = {
+  groq: "Groq",
+  openai: "OpenAI",
+  ollama: "Ollama",
+};
+
+function describeError(
+  locale: Locale,
+  error: ApiError | string | undefined,
+  details?: Record<string, string[]>,
+) {
+  const t = getMessages(locale);
+  if (details) {
+    return Object.values(details).flat().join(", ");
+  }
+  if (!error) {
+    return t.common.genericError;
+  }
+  if (typeof error === "string") {
+    return error;
+  }
+  const { message } = localizeError(error, locale);
+  const hint = t.errorHints[error.code as keyof Messages["errors"]];
+  return hint ? `${message} ${hint}` : message;
+}
+
+// Review insights and score details are written on the server in the
+// default locale, other locales show the catalog text for the code.
+function describeInsight(
+  insight: ReviewInsight,
+  kind: "praised" | "complaints",
+  locale: Locale,
+) {
+  const text =
+    locale === DEFAULT_LOCALE
+      ? insight.message
+      : (getMessages(locale).reviewInsights[kind][
+          insight.theme as keyof Messages["reviewInsights"]["praised"]
+        ] ?? insight.message);
+  return insight.mentions > 1 ? `${text} ×${insight.mentions}` : text;
+}
+
+function describeFactor(
+  factor: { key: string; label: string; detail: string },
+  locale: Locale,
+) {
+  const label =
+    getMessages(locale).scoreFactors[
+      factor.key as keyof Messages["scoreFactors"]
+    ] ?? factor.label;
+  return locale === DEFAULT_LOCALE ? `${label} · ${factor.detail}` : label;
+}
+
+const SCORE_COLORS = { high: "#34d399", medium: "#fbbf24", low: "#94a3b8" };
+
+const STATUS_COLORS: Record<string, string> = {
+  nouveau: "#38bdf8",
+  contacte: "#818cf8",
+  relance: "#fbbf24",
+  rdv: "#c084fc",
+  signe: "#34d399",
+  perdu: "#fb7185",
+};
+
+function scoreColor(score = 0) {
+  if (score >= 70) {
+    return SCORE_COLORS.high;
+  }
+  return score >= 40 ? SCORE_COLORS.medium : SCORE_COLORS.low;
+}
+
+async function fetchPromptTemplates() {
+  const response = await fetch("/api/settings/templates");
+  const data: {
+    templates?: Array<{ id: string; name: string; versions: unknown[] }>;
+  } = await response.json();
+  return data.templates ?? [];
+}
+
+async function fetchIntegrations() {
+  const response = await fetch("/api/integrations");
+  const data: { integrations?: IntegrationTarget[] } = await response.json();
+  return data.integrations ?? [];
+}
+
+async function fetchProspectStatuses() {
+  const response = await fetch("/api/prospects");
+  const data: {
+    prospects?: Array<{ placeId: string; status: string }>;
+  } = await response.json();
+  return Object.fromEntries(
+    (data.prospects ?? []).map((prospect) => [
+      prospect.placeId,
+      prospect.status,
+    ]),
+  );
+}
+
+function scoreBadgeClass(score: number) {
+  if (score >= 70) {
+    return "border-emerald-300/40 bg-emerald-500/20 text-emerald-100";
+  }
+  if (score >= 40) {
+    return "border-amber-300/40 bg-amber-500/20 text-amber-100";
+  }
+  return "border-white/20 bg-white/10 text-white/70";
+}
+
+const exportOptions = [
+  { format: "csv", label: "CSV" },
+  { format: "xlsx", label: "Excel" },
+  { format: "vcf", label: null },
+] as const;
+
 const radiusOptions = [
   { label: "500 m", value: 500 },
   { label: "1 km", value: 1000 },
@@ -51,87 +306,669 @@ const radiusOptions = [
   { label: "50 km", value: 50000 },
 ];
 
+// Tone values are prompt instructions, only their labels are translated.
 const toneOptions = [
-  { label: "Tonalité par défaut", value: "" },
-  { label: "Très chaleureuse", value: "chaleureux et enthousiaste" },
-  { label: "Premium", value: "haut de gamme, exclusif" },
-  { label: "Ultra direct", value: "direct et orienté ROI" },
-  { label: "Créatif", value: "créatif et audacieux" },
-];
+  { key: "default", value: "" },
+  { key: "warm", value: "chaleureux et enthousiaste" },
+  { key: "premium", value: "haut de gamme, exclusif" },
+  { key: "direct", value: "direct et orienté ROI" },
+  { key: "creative", value: "créatif et audacieux" },
+] as const;
+
+const JOB_STORAGE_KEY = "prospection:active-job";
+const JOB_POLL_INTERVAL_MS = 2000;
+const activeJobListeners = new Set<() => void>();
+
+function subscribeActiveJob(listener: () => void) {
+  activeJobListeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    activeJobListeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+function getActiveJobId() {
+  return window.localStorage.getItem(JOB_STORAGE_KEY);
+}
+
+function setActiveJobId(jobId: string | null) {
+  if (jobId) {
+    window.localStorage.setItem(JOB_STORAGE_KEY, jobId);
+  } else {
+    window.localStorage.removeItem(JOB_STORAGE_KEY);
+  }
+  activeJobListeners.forEach((listener) => listener());
+}
+
+async function fetchJob(jobId: string, locale: Locale) {
+  const response = await fetch(`/api/jobs/${jobId}`);
+  if (response.status === 404) {
+    return null;
+  }
+  const data: { job?: Job; error?: string } = await response.json();
+  if (!response.ok || !data.job) {
+    throw new Error(data.error ?? getMessages(locale).search.job.trackFailed);
+  }
+  return data.job;
+}
+
+async function readEventStream(
+  response: Response,
+  onEvent: (event: StreamEvent) => void,
+) {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let type = "message";
+      let data = "";
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) {
+          type = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+          data += line.slice(5).trim();
+        }
+      }
+      if (data) {
+        onEvent({ type, ...JSON.parse(data) } as StreamEvent);
+      }
+    }
+  }
+}
 
 export default function Home() {
+  const { locale, t } = useI18n();
   const [query, setQuery] = useState("restaurant");
   const [location, setLocation] = useState("Paris, France");
   const [radius, setRadius] = useState<number>(5000);
   const [maxResults, setMaxResults] = useState<number>(5);
+  const [minScore, setMinScore] = useState<number>(0);
+  const [sortBy, setSortBy] = useState<"relevance" | "score">("score");
   const [vibe, setVibe] = useState("");
   const [tone, setTone] = useState("");
+  const [excludeSeen, setExcludeSeen] = useState(true);
+  const [auditMode, setAuditMode] = useState(false);
+  const [channels, setChannels] = useState<OutreachChannel[]>([]);
+  const [language, setLanguage] = useState<PitchLanguage | "">("");
+  const [promptTemplateId, setPromptTemplateId] = useState("");
+  const [promptTemplates, setPromptTemplates] = useState<
+    Array<{ id: string; name: string; versions: unknown[] }>
+  >([]);
+  const [batchMode, setBatchMode] = useState(false);
+  const [backgroundMode, setBackgroundMode] = useState(false);
+  const [refresh, setRefresh] = useState(false);
+  const [job, setJob] = useState<Job | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [results, setResults] = useState<Business[]>([]);
   const [metadata, setMetadata] = useState<ApiResponse["metadata"] | null>(
     null,
   );
-  const [copiedPlaceId, setCopiedPlaceId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [showMap, setShowMap] = useState(false);
+  const [mapColorBy, setMapColorBy] = useState<"score" | "status">("score");
+  const [statuses, setStatuses] = useState<Record<string, string>>({});
+  const [selectedPlaceId, setSelectedPlaceId] = useState<string | null>(null);
+  const [searchArea, setSearchArea] = useState<{
+    center: { lat: number; lng: number };
+    radius?: number;
+  } | null>(null);
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [revising, setRevising] = useState<string | null>(null);
+  const [mockups, setMockups] = useState<Record<string, MockupLinks>>({});
+  const [buildingMockup, setBuildingMockup] = useState<string | null>(null);
+  const [savingSearch, setSavingSearch] = useState(false);
+  const [integrations, setIntegrations] = useState<IntegrationTarget[]>([]);
+  const [searchSaved, setSearchSaved] = useState(false);
+  const activeJobId = useSyncExternalStore(
+    subscribeActiveJob,
+    getActiveJobId,
+    () => null,
+  );
+  const maxResultsLimit = backgroundMode && !batchMode ? 40 : 8;
+
+  useEffect(() => {
+    fetchPromptTemplates()
+      .then(setPromptTemplates)
+      .catch(() => setPromptTemplates([]));
+    fetchIntegrations()
+      .then(setIntegrations)
+      .catch(() => setIntegrations([]));
+  }, []);
+
+  useEffect(() => {
+    if (!activeJobId) {
+      return;
+    }
+
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const poll = () => {
+      fetchJob(activeJobId, locale)
+        .then((current) => {
+          if (stopped) {
+            return;
+          }
+          if (!current) {
+            setActiveJobId(null);
+            return;
+          }
+
+          setJob(current);
+          setResults(current.businesses ?? []);
+          setMetadata(current.metadata);
+          setError(current.error && describeError(locale, current.error));
+          if (current.status === "queued" || current.status === "running") {
+            timer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+          } else {
+            setActiveJobId(null);
+          }
+        })
+        .catch(() => {
+          if (!stopped) {
+            timer = setTimeout(poll, JOB_POLL_INTERVAL_MS * 2);
+          }
+        });
+    };
+    poll();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [activeJobId, locale]);
+
+  const cancelJob = async () => {
+    if (!job) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/cancel`, {
+        method: "POST",
+      });
+      const data: { job?: Job; error?: string } = await response.json();
+      if (!response.ok || !data.job) {
+        setError(data.error ?? t.search.job.cancelFailed);
+        return;
+      }
+      setJob(data.job);
+      setActiveJobId(null);
+    } catch {
+      setError(t.common.networkError);
+    }
+  };
+
+  const handleStreamEvent = (event: StreamEvent) => {
+    switch (event.type) {
+      case "geocoded":
+        setSearchArea({ center: event.location, radius });
+        setProgress(
+          (prev) => prev && { ...prev, stage: t.search.progress.located },
+        );
+        break;
+      case "places":
+        setProgress(
+          (prev) =>
+            prev && {
+              ...prev,
+              stage: t.search.progress.page(event.page),
+              found: event.totalFound,
+            },
+        );
+        break;
+      case "business":
+        setResults((prev) => [...prev, { ...event.business, pitch: null }]);
+        setProgress(
+          (prev) =>
+            prev && {
+              ...prev,
+              stage: t.search.progress.added(event.business.name),
+              enriched: prev.enriched + 1,
+            },
+        );
+        break;
+      case "pitch":
+        setResults((prev) =>
+          prev.map((business) =>
+            business.place_id === event.placeId
+              ? {
+                  ...business,
+                  pitch: event.pitch,
+                  pitchGenerator: event.pitchGenerator,
+                  pitchError: event.pitchError,
+                }
+              : business,
+          ),
+        );
+        setProgress(
+          (prev) =>
+            prev && {
+              ...prev,
+              stage: t.search.progress.writing,
+              pitched: prev.pitched + 1,
+            },
+        );
+        break;
+      case "done":
+        setMetadata(event.metadata);
+        break;
+      case "error":
+        setError(describeError(locale, event.error));
+        break;
+    }
+  };
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setLoading(true);
     setError(null);
-    setCopiedPlaceId(null);
+
+    setResults([]);
+    setMetadata(null);
+    setSearchArea(null);
+    setSelectedPlaceId(null);
+
+    const options = {
+      radius,
+      maxResults: Math.min(maxResults, maxResultsLimit),
+      vibe: vibe || undefined,
+      tone: tone || undefined,
+      excludeSeen,
+      refresh,
+      mode: auditMode ? "audit" : undefined,
+      minScore: minScore || undefined,
+      sortBy,
+      channels: channels.length ? channels : undefined,
+      language: language || undefined,
+      promptTemplateId: promptTemplateId || undefined,
+    };
+    const splitLines = (value: string) =>
+      value
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean);
+
+    setJob(null);
+    setActiveJobId(null);
 
     try {
-      const response = await fetch("/api/search", {
+      if (backgroundMode && !batchMode) {
+        const response = await fetch("/api/jobs", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...options, query, location }),
+        });
+
+        const data: ApiResponse & { job?: Job } = await response.json();
+        if (!response.ok || !data.job) {
+          setError(describeError(locale, data.error, data.details));
+          return;
+        }
+
+        setJob(data.job);
+        setActiveJobId(data.job.id);
+        return;
+      }
+
+      if (batchMode) {
+        const response = await fetch("/api/search/batch", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...options,
+            queries: splitLines(query),
+            locations: splitLines(location),
+          }),
+        });
+
+        const data: ApiResponse = await response.json();
+        if (!response.ok) {
+          setError(describeError(locale, data.error, data.details));
+          setMetadata(data.metadata ?? null);
+          return;
+        }
+
+        setResults(data.businesses ?? []);
+        setMetadata(data.metadata ?? null);
+        return;
+      }
+
+      setProgress({
+        stage: t.search.progress.locating,
+        found: 0,
+        enriched: 0,
+        pitched: 0,
+      });
+      const response = await fetch("/api/search/stream", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          query,
-          location,
-          radius,
-          maxResults,
-          vibe: vibe || undefined,
-          tone: tone || undefined,
-        }),
+        body: JSON.stringify({ ...options, query, location }),
       });
 
-      const data: ApiResponse = await response.json();
       if (!response.ok) {
-        const details = data.details
-          ? Object.values(data.details).flat().join(", ")
-          : data.error;
-        setError(details ?? "Une erreur est survenue.");
-        setResults([]);
+        const data: ApiResponse = await response.json();
+        setError(describeError(locale, data.error, data.details));
         setMetadata(data.metadata ?? null);
         return;
       }
 
-      setResults(data.businesses ?? []);
-      setMetadata(data.metadata ?? null);
+      await readEventStream(response, handleStreamEvent);
     } catch (err) {
-      setError(
-        err instanceof Error
-          ? err.message
-          : "Erreur réseau, réessaie dans quelques instants.",
-      );
-      setResults([]);
-      setMetadata(null);
+      setError(err instanceof Error ? err.message : t.common.networkError);
     } finally {
       setLoading(false);
+      setProgress(null);
+    }
+  };
+
+  // Saved with a weekly schedule, adjustable on the saved searches page.
+  const saveSearch = async () => {
+    setSavingSearch(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/saved-searches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: `${query} · ${location}`,
+          request: {
+            query,
+            location,
+            radius,
+            maxResults: Math.min(maxResults, 8),
+            vibe: vibe || undefined,
+            tone: tone || undefined,
+            mode: auditMode ? "audit" : undefined,
+            minScore: minScore || undefined,
+            channels: channels.length ? channels : undefined,
+            language: language || undefined,
+            promptTemplateId: promptTemplateId || undefined,
+          },
+          schedule: "0 8 * * 1",
+        }),
+      });
+      if (!response.ok) {
+        const data: { error?: string; details?: Record<string, string[]> } =
+          await response.json();
+        setError(
+          data.details
+            ? Object.values(data.details).flat().join(", ")
+            : (data.error ?? t.common.genericError),
+        );
+        return;
+      }
+      setSearchSaved(true);
+    } catch {
+      setError(t.common.networkError);
+    } finally {
+      setSavingSearch(false);
     }
   };
 
-  const copyMessage = async (message: string, placeId: string) => {
+  const updateResult = (placeId: string, update: Partial<Business>) =>
+    setResults((current) =>
+      current.map((business) =>
+        business.place_id === placeId ? { ...business, ...update } : business,
+      ),
+    );
+
+  // The business is sent as is: results that were never stored get a pitch
+  // too, their history only lives in the page.
+  const regeneratePitch = async (business: Business, instructions?: string) => {
+    setRevising(business.place_id);
+    setError(null);
     try {
-      await navigator.clipboard.writeText(message);
-      setCopiedPlaceId(placeId);
-      setTimeout(() => setCopiedPlaceId(null), 3000);
+      const response = await fetch("/api/pitch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          business,
+          previous: business.pitch ?? undefined,
+          vibe: vibe || undefined,
+          tone: tone || undefined,
+          language: language || metadata?.language,
+          promptTemplateId: promptTemplateId || undefined,
+          instructions,
+        }),
+      });
+      const data: {
+        pitch?: Pitch;
+        pitchGenerator?: string;
+        pitchError?: string | null;
+        history?: PitchVersion[] | null;
+        error?: ApiError | string;
+        details?: Record<string, string[]>;
+      } = await response.json();
+      if (!response.ok || !data.pitch) {
+        setError(describeError(locale, data.error, data.details));
+        return;
+      }
+      const { pitch } = data;
+      const history =
+        business.pitchHistory ??
+        (business.pitch
+          ? [
+              {
+                id: crypto.randomUUID(),
+                pitch: business.pitch,
+                source: business.pitchGenerator ?? "template",
+                createdAt: metadata?.executedAt ?? new Date().toISOString(),
+              },
+            ]
+          : []);
+      updateResult(business.place_id, {
+        pitch,
+        pitchGenerator: data.pitchGenerator,
+        pitchError: data.pitchError,
+        pitchHistory: data.history ?? [
+          ...history,
+          {
+            id: crypto.randomUUID(),
+            pitch,
+            source: data.pitchGenerator ?? "template",
+            instructions,
+            createdAt: new Date().toISOString(),
+          },
+        ],
+      });
     } catch {
-      setError(
-        "Impossible de copier dans le presse-papiers. Copie manuellement.",
+      setError(t.common.networkError);
+    } finally {
+      setRevising(null);
+    }
+  };
+
+  const savePitch = async (business: Business, pitch: EditablePitch) => {
+    setRevising(business.place_id);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/prospects/${encodeURIComponent(business.place_id)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ pitch }),
+        },
       );
+      const data: {
+        prospect?: { pitch: Pitch; pitchHistory?: PitchVersion[] };
+        error?: string;
+        details?: Record<string, string[]>;
+      } = await response.json();
+      if (!response.ok || !data.prospect) {
+        setError(
+          data.details
+            ? Object.values(data.details).flat().join(", ")
+            : (data.error ?? t.common.genericError),
+        );
+        return false;
+      }
+      updateResult(business.place_id, {
+        pitch: data.prospect.pitch,
+        pitchError: null,
+        pitchHistory: data.prospect.pitchHistory,
+      });
+      return true;
+    } catch {
+      setError(t.common.networkError);
+      return false;
+    } finally {
+      setRevising(null);
+    }
+  };
+
+  const appendToMessage = (business: Business, line: string) =>
+    business.pitch &&
+    savePitch(business, {
+      ...business.pitch,
+      personalizedMessage: `${business.pitch.personalizedMessage}\n\n${line}`,
+    });
+
+  const generateMockup = async (business: Business) => {
+    setBuildingMockup(business.place_id);
+    setError(null);
+    try {
+      const response = await fetch("/api/mockup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          business,
+          vibe:
+            [vibe, business.pitch?.vibeSummary].filter(Boolean).join(" ") ||
+            undefined,
+          language: language || metadata?.language,
+        }),
+      });
+      const data: {
+        mockup?: MockupLinks;
+        error?: string;
+        details?: Record<string, string[]>;
+      } = await response.json();
+      if (!response.ok || !data.mockup) {
+        setError(
+          data.details
+            ? Object.values(data.details).flat().join(", ")
+            : (data.error ?? t.common.genericError),
+        );
+        return;
+      }
+      const { mockup } = data;
+      setMockups((current) => ({ ...current, [business.place_id]: mockup }));
+    } catch {
+      setError(t.common.networkError);
+    } finally {
+      setBuildingMockup(null);
+    }
+  };
+
+  const toggleChannel = (channel: OutreachChannel, enabled: boolean) =>
+    setChannels((current) =>
+      channelOptions.filter((value) =>
+          value === channel ? enabled : current.includes(value),
+        ),
+    );
+
+  const downloadExport = async (format: "csv" | "xlsx" | "vcf") => {
+    setExporting(format);
+    setError(null);
+    try {
+      const response = await fetch("/api/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format, businesses: results }),
+      });
+      if (!response.ok) {
+        const data: { error?: string } = await response.json();
+        setError(data.error ?? t.search.export.failed);
+        return;
+      }
+
+      const fileName =
+        /filename="([^"]+)"/.exec(
+          response.headers.get("Content-Disposition") ?? "",
+        )?.[1] ?? `prospects.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError(t.common.networkError);
+    } finally {
+      setExporting(null);
     }
   };
 
+  const displayedResults = useMemo(
+    () =>
+      sortBy === "score"
+        ? [...results].sort(
+            (a, b) => (b.score?.value ?? 0) - (a.score?.value ?? 0),
+          )
+        : results,
+    [results, sortBy],
+  );
+
+  const mapArea = metadata?.location
+    ? { center: metadata.location, radius: metadata.radius }
+    : searchArea;
+
+  const mapProspects = useMemo<MapProspect[]>(
+    () =>
+      displayedResults.flatMap((business) =>
+        business.geometry
+          ? [
+              {
+                placeId: business.place_id,
+                name: business.name,
+                location: business.geometry.location,
+                color:
+                  mapColorBy === "status"
+                    ? (STATUS_COLORS[statuses[business.place_id]] ??
+                      STATUS_COLORS.nouveau)
+                    : scoreColor(business.score?.value),
+              },
+            ]
+          : [],
+      ),
+    [displayedResults, mapColorBy, statuses],
+  );
+
+  useEffect(() => {
+    if (!showMap || mapColorBy !== "status") {
+      return;
+    }
+    fetchProspectStatuses()
+      .then(setStatuses)
+      .catch(() => setStatuses({}));
+  }, [showMap, mapColorBy, metadata]);
+
+  const selectPlace = useCallback((placeId: string) => {
+    setSelectedPlaceId(placeId);
+    document
+      .getElementById(`prospect-${placeId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, []);
+
   const emptyState = useMemo(
     () =>
       !loading &&
@@ -145,20 +982,49 @@ export default function Home() {
     <div className="min-h-screen bg-gradient-to-br from-slate-950 via-zinc-900 to-slate-800 text-slate-100">
       <div className="mx-auto flex max-w-6xl flex-col gap-8 px-6 pb-16 pt-12">
         <header className="space-y-3">
-          <p className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs uppercase tracking-[0.2em] text-white/70">
-            Agent IA · Prospection Web
-          </p>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs uppercase tracking-[0.2em] text-white/70">
+              {t.search.badge}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Link
+                href="/usage"
+                className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-xs uppercase tracking-[0.2em] text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10"
+              >
+                {t.search.usageLink}
+              </Link>
+              <Link
+                href="/prospects"
+                className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-xs uppercase tracking-[0.2em] text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10"
+              >
+                {t.search.prospectsLink}
+              </Link>
+              <Link
+                href="/settings"
+                className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-xs uppercase tracking-[0.2em] text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10"
+              >
+                {t.search.settingsLink}
+              </Link>
+              <Link
+                href="/saved-searches"
+                className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-xs uppercase tracking-[0.2em] text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10"
+              >
+                {t.search.savedSearchesLink}
+              </Link>
+              <Link
+                href="/integrations"
+                className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-xs uppercase tracking-[0.2em] text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10"
+              >
+                {t.search.integrationsLink}
+              </Link>
+            </div>
+          </div>
           <h1 className="text-4xl font-semibold leading-tight">
-            Détecte les commerces sans site web,&nbsp;
-            <span className="text-sky-300">
-              trouve la vibe parfaite et lance un message qui convertit.
-            </span>
+            {t.search.title}&nbsp;
+            <span className="text-sky-300">{t.search.titleHighlight}</span>
           </h1>
           <p className="max-w-2xl text-base text-slate-300">
-            Sélectionne un type de commerce, une zone, et laisse l’agent
-            analyser Google Maps pour révéler les opportunités à fort impact.
-            Chaque fiche inclut un angle d&apos;attaque affûté et un message
-            prêt à être envoyé.
+            {t.search.intro}
           </p>
         </header>
 
@@ -167,39 +1033,70 @@ export default function Home() {
           className="grid gap-6 rounded-3xl border border-white/10 bg-white/10 p-6 backdrop-blur-md md:grid-cols-[2fr,1fr]"
         >
           <div className="space-y-4">
+            <label className="flex items-center gap-3 text-sm text-white/80">
+              <input
+                type="checkbox"
+                checked={batchMode}
+                onChange={(event) => setBatchMode(event.target.checked)}
+                className="h-4 w-4 rounded border-white/20 bg-slate-900/60 accent-sky-500"
+              />
+              {t.search.form.batchMode}
+            </label>
             <div>
               <label
                 htmlFor="query"
                 className="mb-2 block text-sm font-medium text-white/80"
               >
-                Type de commerce ou mot-clé
+                {t.search.form.query}
               </label>
-              <input
-                id="query"
-                type="text"
-                value={query}
-                onChange={(event) => setQuery(event.target.value)}
-                className="w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-base text-white placeholder:text-white/40 focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
-                placeholder="Ex: barber shop, yoga studio, etc."
-                required
-              />
+              {batchMode ? (
+                <textarea
+                  id="query"
+                  value={query}
+                  onChange={(event) => setQuery(event.target.value)}
+                  className="h-24 w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-base text-white placeholder:text-white/40 focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                  placeholder={t.search.form.queryBatchPlaceholder}
+                  required
+                />
+              ) : (
+                <input
+                  id="query"
+                  type="text"
+                  value={query}
+                  onChange={(event) => setQuery(event.target.value)}
+                  className="w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-base text-white placeholder:text-white/40 focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                  placeholder={t.search.form.queryPlaceholder}
+                  required
+                />
+              )}
             </div>
             <div>
               <label
                 htmlFor="location"
                 className="mb-2 block text-sm font-medium text-white/80"
               >
-                Zone géographique ciblée
+                {t.search.form.location}
               </label>
-              <input
-                id="location"
-                type="text"
-                value={location}
-                onChange={(event) => setLocation(event.target.value)}
-                className="w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-base text-white placeholder:text-white/40 focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
-                placeholder="Ville, arrondissement, quartier..."
-                required
-              />
+              {batchMode ? (
+                <textarea
+                  id="location"
+                  value={location}
+                  onChange={(event) => setLocation(event.target.value)}
+                  className="h-24 w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-base text-white placeholder:text-white/40 focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                  placeholder={t.search.form.locationBatchPlaceholder}
+                  required
+                />
+              ) : (
+                <input
+                  id="location"
+                  type="text"
+                  value={location}
+                  onChange={(event) => setLocation(event.target.value)}
+                  className="w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-base text-white placeholder:text-white/40 focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                  placeholder={t.search.form.locationPlaceholder}
+                  required
+                />
+              )}
             </div>
             <div className="grid gap-4 md:grid-cols-2">
               <div>
@@ -207,7 +1104,7 @@ export default function Home() {
                   htmlFor="radius"
                   className="mb-2 block text-sm font-medium text-white/80"
                 >
-                  Rayon d&apos;analyse
+                  {t.search.form.radius}
                 </label>
                 <select
                   id="radius"
@@ -229,22 +1126,68 @@ export default function Home() {
                   htmlFor="maxResults"
                   className="mb-2 block text-sm font-medium text-white/80"
                 >
-                  Nombre maximum de prospects
+                  {t.search.form.maxResults}
                 </label>
                 <input
                   id="maxResults"
                   type="number"
                   min={1}
-                  max={8}
-                  value={maxResults}
+                  max={maxResultsLimit}
+                  value={Math.min(maxResults, maxResultsLimit)}
                   onChange={(event) =>
                     setMaxResults(
-                      Math.min(8, Math.max(1, Number(event.target.value))),
+                      Math.min(
+                        maxResultsLimit,
+                        Math.max(1, Number(event.target.value)),
+                      ),
+                    )
+                  }
+                  className="w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-base text-white focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="minScore"
+                  className="mb-2 block text-sm font-medium text-white/80"
+                >
+                  {t.search.form.minScore}
+                </label>
+                <input
+                  id="minScore"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={minScore}
+                  onChange={(event) =>
+                    setMinScore(
+                      Math.min(100, Math.max(0, Number(event.target.value))),
                     )
                   }
                   className="w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-base text-white focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
                 />
               </div>
+              <div>
+                <label
+                  htmlFor="sortBy"
+                  className="mb-2 block text-sm font-medium text-white/80"
+                >
+                  {t.search.form.sortBy}
+                </label>
+                <select
+                  id="sortBy"
+                  value={sortBy}
+                  onChange={(event) =>
+                    setSortBy(event.target.value as "relevance" | "score")
+                  }
+                  className="w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-base text-white focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                >
+                  <option value="score">{t.search.form.sortByScore}</option>
+                  <option value="relevance">
+                    {t.search.form.sortByRelevance}
+                  </option>
+                </select>
+              </div>
             </div>
           </div>
 
@@ -254,14 +1197,14 @@ export default function Home() {
                 htmlFor="vibe"
                 className="mb-2 block text-sm font-medium text-white/80"
               >
-                Vibe recherchée (optionnel)
+                {t.search.form.vibe}
               </label>
               <textarea
                 id="vibe"
                 value={vibe}
                 onChange={(event) => setVibe(event.target.value)}
                 className="h-24 w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-base text-white placeholder:text-white/40 focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
-                placeholder="Style, positionnement, cible idéale..."
+                placeholder={t.search.form.vibePlaceholder}
               />
             </div>
             <div>
@@ -269,7 +1212,7 @@ export default function Home() {
                 htmlFor="tone"
                 className="mb-2 block text-sm font-medium text-white/80"
               >
-                Tonalité du message (optionnel)
+                {t.search.form.tone}
               </label>
               <select
                 id="tone"
@@ -278,63 +1221,473 @@ export default function Home() {
                 className="w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-base text-white focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
               >
                 {toneOptions.map((option) => (
-                  <option key={option.label} value={option.value}>
-                    {option.label}
+                  <option key={option.key} value={option.value}>
+                    {t.search.form.tones[option.key]}
                   </option>
                 ))}
               </select>
             </div>
+            <div>
+              <label
+                htmlFor="language"
+                className="mb-2 block text-sm font-medium text-white/80"
+              >
+                {t.search.form.language}
+              </label>
+              <select
+                id="language"
+                value={language}
+                onChange={(event) =>
+                  setLanguage(event.target.value as PitchLanguage | "")
+                }
+                className="w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-base text-white focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+              >
+                <option value="">{t.search.form.languageAuto}</option>
+                {Object.entries(t.search.pitchLanguages).map(
+                  ([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ),
+                )}
+              </select>
+            </div>
+            {promptTemplates.length > 0 && (
+              <div>
+                <label
+                  htmlFor="promptTemplate"
+                  className="mb-2 block text-sm font-medium text-white/80"
+                >
+                  {t.search.form.template}
+                </label>
+                <select
+                  id="promptTemplate"
+                  value={promptTemplateId}
+                  onChange={(event) => setPromptTemplateId(event.target.value)}
+                  className="w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-base text-white focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                >
+                  <option value="">{t.search.form.defaultTemplate}</option>
+                  {promptTemplates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name} (v{template.versions.length})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <label className="flex items-center gap-3 text-sm text-white/80">
+              <input
+                type="checkbox"
+                checked={excludeSeen}
+                onChange={(event) => setExcludeSeen(event.target.checked)}
+                className="h-4 w-4 rounded border-white/20 bg-slate-900/60 accent-sky-500"
+              />
+              {t.search.form.excludeSeen}
+            </label>
+
+            <label className="flex items-center gap-3 text-sm text-white/80">
+              <input
+                type="checkbox"
+                checked={auditMode}
+                onChange={(event) => setAuditMode(event.target.checked)}
+                className="h-4 w-4 rounded border-white/20 bg-slate-900/60 accent-sky-500"
+              />
+              {t.search.form.audit}
+            </label>
+
+            <fieldset>
+              <legend className="mb-2 text-sm font-medium text-white/80">
+                {t.search.form.channels}
+              </legend>
+              <div className="flex flex-wrap gap-4">
+                {channelOptions.map((option) => (
+                  <label
+                    key={option}
+                    className="flex items-center gap-2 text-sm text-white/80"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={channels.includes(option)}
+                      onChange={(event) =>
+                        toggleChannel(option, event.target.checked)
+                      }
+                      className="h-4 w-4 rounded border-white/20 bg-slate-900/60 accent-sky-500"
+                    />
+                    {t.outreach.tabs[option]}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <label className="flex items-center gap-3 text-sm text-white/80">
+              <input
+                type="checkbox"
+                checked={refresh}
+                onChange={(event) => setRefresh(event.target.checked)}
+                className="h-4 w-4 rounded border-white/20 bg-slate-900/60 accent-sky-500"
+              />
+              {t.search.form.refresh}
+            </label>
+
+            <label className="flex items-center gap-3 text-sm text-white/80">
+              <input
+                type="checkbox"
+                checked={backgroundMode}
+                disabled={batchMode}
+                onChange={(event) => setBackgroundMode(event.target.checked)}
+                className="h-4 w-4 rounded border-white/20 bg-slate-900/60 accent-sky-500"
+              />
+              {t.search.form.background}
+            </label>
 
             <button
               type="submit"
               disabled={loading}
               className="mt-auto inline-flex items-center justify-center gap-2 rounded-xl bg-sky-500 px-4 py-3 text-sm font-semibold uppercase tracking-wide text-slate-900 transition hover:bg-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-300 focus:ring-offset-2 focus:ring-offset-slate-800 disabled:cursor-not-allowed disabled:bg-slate-600"
             >
-              {loading ? "Analyse en cours..." : "Lancer l'agent"}
+              {loading ? t.search.form.submitting : t.search.form.submit}
             </button>
+            <button
+              type="button"
+              disabled={batchMode || savingSearch}
+              onClick={saveSearch}
+              className="inline-flex items-center justify-center rounded-xl border border-white/20 px-4 py-2 text-xs uppercase tracking-wide text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {savingSearch
+                ? t.search.form.savingSearch
+                : t.search.form.saveSearch}
+            </button>
+            {searchSaved && (
+              <Link
+                href="/saved-searches"
+                className="text-xs text-sky-200 underline-offset-2 hover:underline"
+              >
+                {t.search.form.searchSaved}
+              </Link>
+            )}
           </div>
         </form>
 
+        {job && (
+          <div className="space-y-2 rounded-2xl border border-sky-500/30 bg-sky-500/10 px-5 py-4 text-sm text-sky-100">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <span className="font-medium">
+                {t.search.job.title(t.search.job.statuses[job.status])}
+                {job.status === "running" &&
+                  ` · ${t.search.job.steps[job.step]}…`}
+              </span>
+              <span className="flex items-center gap-3 text-xs text-sky-200/80">
+                {t.search.job.progress(job.progress)}
+                {(job.status === "queued" || job.status === "running") && (
+                  <button
+                    type="button"
+                    onClick={cancelJob}
+                    className="rounded-full border border-red-300/40 px-2 py-0.5 uppercase tracking-wide text-red-200 transition hover:bg-red-500/10"
+                  >
+                    {t.search.job.cancel}
+                  </button>
+                )}
+              </span>
+            </div>
+            <div className="h-1.5 overflow-hidden rounded-full bg-slate-950/40">
+              <div
+                className="h-full rounded-full bg-sky-400 transition-all"
+                style={{
+                  width: `${
+                    job.status === "completed"
+                      ? 100
+                      : Math.round(
+                          ((job.progress.businesses + job.progress.pitched) /
+                            (job.progress.target * 2)) *
+                            100,
+                        )
+                  }%`,
+                }}
+              />
+            </div>
+          </div>
+        )}
+
+        {loading && progress && (
+          <div className="space-y-2 rounded-2xl border border-sky-500/30 bg-sky-500/10 px-5 py-4 text-sm text-sky-100">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <span className="font-medium">{progress.stage}…</span>
+              <span className="text-xs text-sky-200/80">
+                {t.search.progress.summary(
+                  progress.found,
+                  progress.enriched,
+                  progress.pitched,
+                )}
+              </span>
+            </div>
+            <div className="h-1.5 overflow-hidden rounded-full bg-slate-950/40">
+              <div
+                className="h-full rounded-full bg-sky-400 transition-all"
+                style={{
+                  width: `${Math.round(
+                    ((progress.enriched + progress.pitched) /
+                      (maxResults * 2)) *
+                      100,
+                  )}%`,
+                }}
+              />
+            </div>
+          </div>
+        )}
+
         {error && (
           <div className="rounded-2xl border border-red-500/30 bg-red-500/10 px-5 py-4 text-sm text-red-100">
-            {error}
+            <p>{error}</p>
+            {results.length > 0 && (
+              <p className="mt-1 text-red-100/70">
+                {t.search.partialKept}
+              </p>
+            )}
           </div>
         )}
 
         {metadata && (
           <div className="flex flex-wrap items-center gap-4 text-sm text-white/60">
             <span>
-              Requête:&nbsp;
+              {t.search.metadata.query}:&nbsp;
               <span className="font-medium text-white">
                 {metadata.query}
               </span>
             </span>
             <span>
-              Prospects sans site:&nbsp;
+              {t.search.metadata.withoutWebsite}:&nbsp;
               <span className="font-medium text-sky-300">
                 {metadata.totalWithoutWebsite}
               </span>{" "}
               / {metadata.totalFound}
             </span>
+            {metadata.pagesFetched !== undefined && (
+              <span>
+                {t.search.metadata.pages}:&nbsp;
+                <span className="font-medium text-white">
+                  {metadata.pagesFetched}
+                </span>{" "}
+                · {t.search.metadata.scanned(metadata.placesScanned ?? 0)}
+              </span>
+            )}
+            {(metadata.skippedSeen ?? 0) + (metadata.skippedExcluded ?? 0) >
+              0 && (
+              <span>
+                {t.search.metadata.skippedSeen}:&nbsp;
+                <span className="font-medium text-white">
+                  {(metadata.skippedSeen ?? 0) +
+                    (metadata.skippedExcluded ?? 0)}
+                </span>
+              </span>
+            )}
+            {(metadata.skippedLowScore ?? 0) > 0 && (
+              <span>
+                {t.search.metadata.skippedLowScore}:&nbsp;
+                <span className="font-medium text-white">
+                  {metadata.skippedLowScore}
+                </span>
+              </span>
+            )}
+            {metadata.mode === "audit" && (
+              <span>
+                {t.search.metadata.audited}:&nbsp;
+                <span className="font-medium text-white">
+                  {metadata.websitesAudited ?? 0}
+                </span>
+              </span>
+            )}
+            {metadata.language && (
+              <span>
+                {t.search.metadata.language}:&nbsp;
+                <span className="font-medium text-white">
+                  {t.search.pitchLanguages[metadata.language]}
+                </span>
+              </span>
+            )}
+            {metadata.promptTemplate && (
+              <span>
+                {t.search.metadata.template}:&nbsp;
+                <span className="font-medium text-white">
+                  {metadata.promptTemplate.name} v
+                  {metadata.promptTemplate.version}
+                </span>
+              </span>
+            )}
+            {metadata.cache && (
+              <span>
+                {t.search.metadata.cache}:&nbsp;
+                <span className="font-medium text-white">
+                  {t.search.metadata.cacheCalls(
+                    metadata.cache.hits,
+                    metadata.cache.misses,
+                  )}
+                </span>
+                {metadata.cache.refreshed && t.search.metadata.refreshed}
+              </span>
+            )}
             <span>
-              Exécution:&nbsp;
-              {new Date(metadata.executedAt).toLocaleString()}
+              {t.search.metadata.executedAt}:&nbsp;
+              {new Date(metadata.executedAt).toLocaleString(locale)}
             </span>
           </div>
         )}
 
+        {metadata?.warnings && metadata.warnings.length > 0 && (
+          <div className="space-y-1 rounded-2xl border border-amber-400/30 bg-amber-500/10 px-5 py-4 text-sm text-amber-100">
+            <p className="text-xs uppercase tracking-[0.2em] text-amber-200">
+              {t.search.partialResults}
+            </p>
+            {metadata.warnings.map((warning) => (
+              <p key={`${warning.code}-${warning.upstream}`}>
+                {describeError(locale, warning)}
+                {warning.count > 1 && ` (×${warning.count})`}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {metadata?.combinations && (
+          <div className="overflow-x-auto rounded-2xl border border-white/10 bg-white/5">
+            <table className="w-full text-left text-xs text-white/70">
+              <thead className="uppercase tracking-wide text-white/50">
+                <tr>
+                  <th className="px-4 py-2">
+                    {t.search.combinations.query}
+                  </th>
+                  <th className="px-4 py-2">
+                    {t.search.combinations.location}
+                  </th>
+                  <th className="px-4 py-2">
+                    {t.search.combinations.found}
+                  </th>
+                  <th className="px-4 py-2">
+                    {t.search.combinations.withoutWebsite}
+                  </th>
+                  <th className="px-4 py-2">
+                    {t.search.combinations.duplicates}
+                  </th>
+                  <th className="px-4 py-2">
+                    {t.search.combinations.incidents}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {metadata.combinations.map((combination) => (
+                  <tr
+                    key={`${combination.query}-${combination.location}`}
+                    className="border-t border-white/10"
+                  >
+                    <td className="px-4 py-2 text-white">
+                      {combination.query}
+                    </td>
+                    <td className="px-4 py-2">{combination.location}</td>
+                    {combination.error ? (
+                      <td colSpan={4} className="px-4 py-2 text-red-200">
+                        {describeError(locale, combination.error)}
+                      </td>
+                    ) : (
+                      <>
+                        <td className="px-4 py-2">{combination.totalFound}</td>
+                        <td className="px-4 py-2 text-sky-300">
+                          {combination.totalWithoutWebsite}
+                        </td>
+                        <td className="px-4 py-2">{combination.duplicates}</td>
+                        <td
+                          className={`px-4 py-2 ${
+                            combination.warnings ? "text-amber-200" : ""
+                          }`}
+                        >
+                          {combination.warnings}
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         {emptyState && (
           <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-10 text-center text-sm text-white/70">
-            Aucun commerce sans site web dans cette zone. Essaie un autre
-            mot-clé, élargis le rayon ou change de ville.
+            {t.search.empty}
+          </div>
+        )}
+
+        {!loading && results.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3 text-xs">
+            <span className="uppercase tracking-[0.2em] text-white/50">
+              {t.search.export.label}
+            </span>
+            {exportOptions.map((option) => (
+              <button
+                key={option.format}
+                type="button"
+                disabled={exporting !== null}
+                onClick={() => downloadExport(option.format)}
+                className="rounded-full border border-white/20 bg-white/10 px-3 py-1 text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {exporting === option.format
+                  ? t.search.export.exporting
+                  : (option.label ?? t.search.export.contacts)}
+              </button>
+            ))}
+            <span className="ml-auto uppercase tracking-[0.2em] text-white/50">
+              {t.search.map.label}
+            </span>
+            <button
+              type="button"
+              onClick={() => setShowMap((prev) => !prev)}
+              className="rounded-full border border-white/20 bg-white/10 px-3 py-1 text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10"
+            >
+              {showMap ? t.search.map.hide : t.search.map.show}
+            </button>
+            {showMap && (
+              <select
+                value={mapColorBy}
+                onChange={(event) =>
+                  setMapColorBy(event.target.value as "score" | "status")
+                }
+                className="rounded-full border border-white/20 bg-slate-900/60 px-3 py-1 text-white focus:border-sky-400 focus:outline-none"
+              >
+                <option value="score">{t.search.map.colorByScore}</option>
+                <option value="status">{t.search.map.colorByStatus}</option>
+              </select>
+            )}
+          </div>
+        )}
+
+        {showMap && results.length > 0 && (
+          <div className="space-y-2">
+            <ProspectMap
+              center={mapArea?.center}
+              radius={mapArea?.radius}
+              prospects={mapProspects}
+              selectedId={selectedPlaceId}
+              onSelect={selectPlace}
+            />
+            {mapProspects.length < results.length && (
+              <p className="text-xs text-white/50">
+                {t.search.map.missingCoordinates(
+                  results.length - mapProspects.length,
+                )}
+              </p>
+            )}
           </div>
         )}
 
         <div className="grid gap-6 md:grid-cols-2">
-          {results.map((business) => (
+          {displayedResults.map((business) => (
             <article
               key={business.place_id}
-              className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/10 p-6 backdrop-blur"
+              id={`prospect-${business.place_id}`}
+              onClick={() => setSelectedPlaceId(business.place_id)}
+              className={`flex flex-col gap-4 rounded-3xl border bg-white/10 p-6 backdrop-blur transition ${
+                selectedPlaceId === business.place_id
+                  ? "border-sky-300 ring-2 ring-sky-400/40"
+                  : "border-white/10"
+              }`}
             >
               <div className="flex items-start justify-between gap-4">
                 <div>
@@ -342,27 +1695,44 @@ export default function Home() {
                     {business.name}
                   </h2>
                   <p className="text-sm text-white/70">
-                    {business.formatted_address ?? "Adresse non renseignée"}
+                    {business.formatted_address ?? t.common.addressMissing}
                   </p>
                 </div>
+                {business.score && (
+                  <span
+                    title={business.score.factors
+                      .map(
+                        (factor) =>
+                          `${describeFactor(factor, locale)} : ${factor.points > 0 ? "+" : ""}${factor.points}`,
+                      )
+                      .join("\n")}
+                    className={`shrink-0 rounded-full border px-3 py-1 text-xs font-semibold ${scoreBadgeClass(
+                      business.score.value,
+                    )}`}
+                  >
+                    {business.score.value}/100
+                  </span>
+                )}
                 <a
                   href={business.googleMapsUrl}
                   target="_blank"
                   rel="noreferrer"
                   className="rounded-full border border-white/20 bg-white/10 px-3 py-1 text-xs text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10"
                 >
-                  Voir sur Maps
+                  {t.common.viewOnMaps}
                 </a>
               </div>
 
               <div className="flex flex-wrap items-center gap-3 text-xs text-white/60">
                 {business.rating ? (
                   <span>
-                    ⭐ {business.rating.toFixed(1)} ({business.user_ratings_total}{" "}
-                    avis)
+                    {t.search.card.reviews(
+                      business.rating.toFixed(1),
+                      business.user_ratings_total,
+                    )}
                   </span>
                 ) : (
-                  <span>⭐ Aucun avis public</span>
+                  <span>{t.search.card.noReviews}</span>
                 )}
 
                 {business.business_status && (
@@ -378,6 +1748,136 @@ export default function Home() {
                 )}
               </div>
 
+              {business.sources && business.sources.length > 0 && (
+                <p className="text-xs text-white/50">
+                  {t.search.card.foundVia}{" "}
+                  {business.sources
+                    .map((source) => `${source.query} · ${source.location}`)
+                    .join(", ")}
+                </p>
+              )}
+
+              {business.score && (
+                <details className="text-xs text-white/60">
+                  <summary className="cursor-pointer select-none text-white/70">
+                    {t.search.card.whyScore}
+                  </summary>
+                  <ul className="mt-2 space-y-1">
+                    {business.score.factors.map((factor) => (
+                      <li
+                        key={factor.key}
+                        className="flex justify-between gap-3"
+                      >
+                        <span>{describeFactor(factor, locale)}</span>
+                        <span
+                          className={
+                            factor.points < 0
+                              ? "text-red-200"
+                              : "text-white/80"
+                          }
+                        >
+                          {factor.points > 0 ? "+" : ""}
+                          {factor.points}
+                          {factor.max > 0 && ` / ${factor.max}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+
+              {business.websiteAudit?.url && (
+                <div className="space-y-1 rounded-2xl border border-amber-400/30 bg-amber-500/10 p-3 text-xs text-amber-100">
+                  <a
+                    href={business.websiteAudit.url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="block truncate text-amber-200 underline-offset-2 hover:underline"
+                  >
+                    {business.websiteAudit.url}
+                  </a>
+                  <ul className="list-inside list-disc space-y-0.5">
+                    {business.websiteAudit.findings.map((finding) => (
+                      <li key={finding.code}>{finding.message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {business.insights && (
+                <div className="space-y-2 rounded-2xl border border-white/10 bg-white/5 p-3 text-xs">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="font-semibold text-white/70">
+                      {t.reviewInsights.title}
+                    </p>
+                    <span
+                      className={`rounded-full px-2 py-0.5 ${
+                        business.insights.sentiment === "positive"
+                          ? "bg-emerald-500/15 text-emerald-200"
+                          : business.insights.sentiment === "negative"
+                            ? "bg-rose-500/15 text-rose-200"
+                            : "bg-amber-500/15 text-amber-100"
+                      }`}
+                    >
+                      {t.reviewInsights.sentiment[business.insights.sentiment]}{" "}
+                      ({business.insights.score > 0 ? "+" : ""}
+                      {business.insights.score})
+                    </span>
+                  </div>
+                  {(business.insights.praised.length > 0 ||
+                    business.insights.complaints.length > 0) && (
+                    <div className="flex flex-wrap gap-1">
+                      {business.insights.praised.map((insight) => (
+                        <span
+                          key={`praised-${insight.theme}`}
+                          className="rounded-full bg-emerald-500/15 px-2 py-0.5 text-emerald-200"
+                        >
+                          + {describeInsight(insight, "praised", locale)}
+                        </span>
+                      ))}
+                      {business.insights.complaints.map((insight) => (
+                        <span
+                          key={`complaint-${insight.theme}`}
+                          title={insight.quote}
+                          className="rounded-full bg-rose-500/15 px-2 py-0.5 text-rose-200"
+                        >
+                          − {describeInsight(insight, "complaints", locale)}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {business.reviews?.some((review) => review.text) && (
+                    <details>
+                      <summary className="cursor-pointer text-white/60 hover:text-white">
+                        {t.reviewInsights.readReviews(
+                          business.reviews.filter((review) => review.text)
+                            .length,
+                        )}
+                      </summary>
+                      <ul className="mt-2 space-y-2">
+                        {business.reviews
+                          .filter((review) => review.text)
+                          .map((review, index) => (
+                            <li key={index} className="text-white/70">
+                              {review.rating !== undefined && (
+                                <span className="mr-1 text-amber-300">
+                                  {"★".repeat(Math.round(review.rating))}
+                                </span>
+                              )}
+                              {review.text}{" "}
+                              <span className="text-white/40">
+                                —{" "}
+                                {review.author_name ??
+                                  t.reviewInsights.anonymous}
+                              </span>
+                            </li>
+                          ))}
+                      </ul>
+                    </details>
+                  )}
+                </div>
+              )}
+
               {business.editorial_summary?.overview && (
                 <p className="text-sm text-white/70">
                   {business.editorial_summary.overview}
@@ -386,52 +1886,94 @@ export default function Home() {
 
               {business.pitch ? (
                 <div className="space-y-3 rounded-2xl border border-sky-500/40 bg-sky-500/10 p-4">
-                  <p className="text-xs uppercase tracking-[0.2em] text-sky-200">
-                    Vibe perçue
-                  </p>
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs uppercase tracking-[0.2em] text-sky-200">
+                      {t.search.card.vibe}
+                    </p>
+                    {business.pitchGenerator && (
+                      <span className="rounded-full border border-sky-300/30 px-2 py-0.5 text-[10px] uppercase tracking-wide text-sky-200/80">
+                        {business.pitchGenerator === "template"
+                          ? t.search.generators.template
+                          : (generatorLabels[business.pitchGenerator] ??
+                            business.pitchGenerator)}
+                      </span>
+                    )}
+                  </div>
+                  {business.pitchError && (
+                    <p className="rounded-xl border border-amber-400/30 bg-amber-400/10 px-3 py-2 text-xs text-amber-100">
+                      {t.search.card.fallbackNotice}{" "}
+                      {business.pitchError}
+                    </p>
+                  )}
                   <p className="text-sm text-sky-100">
                     {business.pitch.vibeSummary}
                   </p>
 
                   <p className="text-xs uppercase tracking-[0.2em] text-sky-200">
-                    Angle recommandé
+                    {t.search.card.angle}
                   </p>
                   <p className="text-sm text-sky-100">{business.pitch.angle}</p>
 
                   <p className="text-xs uppercase tracking-[0.2em] text-sky-200">
-                    Message à envoyer
+                    {t.search.card.message}
                   </p>
-                  <div className="rounded-xl bg-slate-950/40 p-3 text-sm text-white/90">
-                    {business.pitch.personalizedMessage}
-                  </div>
-
-                  <button
-                    type="button"
-                    onClick={() =>
-                      copyMessage(
-                        business.pitch!.personalizedMessage,
-                        business.place_id,
-                      )
-                    }
-                    className="text-xs font-semibold uppercase tracking-[0.2em] text-sky-300 transition hover:text-sky-200"
-                  >
-                    {copiedPlaceId === business.place_id
-                      ? "Message copié ✓"
-                      : "Copier le message"}
-                  </button>
+                  <OutreachTabs
+                    message={business.pitch.personalizedMessage}
+                    channels={business.pitch.channels}
+                    onCopyError={setError}
+                  />
+                  {!loading && job?.status !== "running" && (
+                    <PitchEditor
+                      pitch={business.pitch}
+                      history={business.pitchHistory ?? []}
+                      busy={revising === business.place_id}
+                      onRegenerate={(instructions) =>
+                        regeneratePitch(business, instructions)
+                      }
+                      onSave={(pitch) => savePitch(business, pitch)}
+                    />
+                  )}
+                </div>
+              ) : loading || job?.status === "running" ? (
+                <div className="animate-pulse rounded-2xl border border-sky-500/20 bg-sky-500/5 p-4 text-sm text-sky-100/70">
+                  {t.search.card.generating}
                 </div>
               ) : (
                 <div className="rounded-2xl border border-white/10 bg-white/5 p-4 text-sm text-white/70">
-                  Message non généré (clé Groq absente ou réponse vide). Tu
-                  peux tout de même contacter ce commerce avec ton propre
-                  pitch.
+                  {t.search.card.notGenerated(
+                    business.pitchError ?? t.search.card.emptyResponse,
+                  )}
                 </div>
               )}
 
+              {!loading && job?.status !== "running" && (
+                <MockupActions
+                  mockup={mockups[business.place_id]}
+                  busy={
+                    buildingMockup === business.place_id ||
+                    revising === business.place_id
+                  }
+                  onGenerate={() => generateMockup(business)}
+                  onAddToMessage={
+                    business.pitch
+                      ? (line) => appendToMessage(business, line)
+                      : undefined
+                  }
+                  onCopyError={setError}
+                />
+              )}
+
+              {!loading && job?.status !== "running" && (
+                <IntegrationPush
+                  placeId={business.place_id}
+                  integrations={integrations}
+                />
+              )}
+
               {business.opening_hours?.weekday_text && (
                 <div className="rounded-2xl border border-white/10 bg-white/5 p-3 text-xs text-white/60">
                   <p className="mb-2 font-semibold text-white/70">
-                    Horaires & insights
+                    {t.search.card.openingHours}
                   </p>
                   <ul className="space-y-1">
                     {business.opening_hours.weekday_text.map((line) => (
@@ -0,0 +1,320 @@
+'use client';
+
+import Link from "next/link";
+import { FormEvent, useEffect, useMemo, useState } from "react";
+
+import { useI18n } from "@/components/locale-provider";
+import { getMessages, type Locale } from "@/i18n";
+
+type ProspectStatus =
+  | "nouveau"
+  | "contacte"
+  | "relance"
+  | "rdv"
+  | "signe"
+  | "perdu";
+
+type Actor = { userId: string; name: string };
+
+type Prospect = {
+  placeId: string;
+  business: {
+    name?: string;
+    formatted_address?: string;
+    formatted_phone_number?: string;
+    rating?: number;
+    user_ratings_total?: number;
+    googleMapsUrl: string;
+  };
+  pitch: {
+    angle: string;
+    personalizedMessage: string;
+  } | null;
+  status: ProspectStatus;
+  notes: Array<{ id: string; text: string; createdAt: string; by?: Actor }>;
+  history: Array<{ status: ProspectStatus; changedAt: string; by?: Actor }>;
+  lastSearch: {
+    query: string;
+    location: string;
+    executedAt: string;
+    by?: Actor;
+  };
+  createdAt: string;
+  updatedAt: string;
+};
+
+const statusOptions: ProspectStatus[] = [
+  "nouveau",
+  "contacte",
+  "relance",
+  "rdv",
+  "signe",
+  "perdu",
+];
+
+async function fetchProspects(locale: Locale) {
+  const t = getMessages(locale);
+  let response: Response;
+  try {
+    response = await fetch("/api/prospects");
+  } catch {
+    throw new Error(t.common.networkError);
+  }
+  const data: { prospects?: Prospect[]; error?: string } =
+    await response.json();
+  if (!response.ok) {
+    throw new Error(data.error ?? t.prospects.loadFailed);
+  }
+  return data.prospects ?? [];
+}
+
+export default function ProspectsPage() {
+  const { locale, t } = useI18n();
+  const [prospects, setProspects] = useState<Prospect[]>([]);
+  const [filter, setFilter] = useState<ProspectStatus | "">("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchProspects(locale)
+      .then(setProspects)
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [locale]);
+
+  const updateProspect = async (
+    placeId: string,
+    update: { status?: ProspectStatus; note?: string },
+  ) => {
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/prospects/${encodeURIComponent(placeId)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(update),
+        },
+      );
+      const data: { prospect?: Prospect; error?: string } =
+        await response.json();
+      if (!response.ok || !data.prospect) {
+        setError(data.error ?? t.prospects.updateFailed);
+        return false;
+      }
+      setProspects((prev) =>
+        prev.map((item) => (item.placeId === placeId ? data.prospect! : item)),
+      );
+      return true;
+    } catch {
+      setError(t.common.networkError);
+      return false;
+    }
+  };
+
+  const submitNote = async (
+    event: FormEvent<HTMLFormElement>,
+    placeId: string,
+  ) => {
+    event.preventDefault();
+    const note = drafts[placeId]?.trim();
+    if (note && (await updateProspect(placeId, { note }))) {
+      setDrafts((prev) => ({ ...prev, [placeId]: "" }));
+    }
+  };
+
+  const counts = useMemo(
+    () =>
+      prospects.reduce<Record<string, number>>((acc, prospect) => {
+        acc[prospect.status] = (acc[prospect.status] ?? 0) + 1;
+        return acc;
+      }, {}),
+    [prospects],
+  );
+
+  const visible = filter
+    ? prospects.filter((prospect) => prospect.status === filter)
+    : prospects;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-zinc-900 to-slate-800 text-slate-100">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8 px-6 pb-16 pt-12">
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <p className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs uppercase tracking-[0.2em] text-white/70">
+              {t.prospects.badge}
+            </p>
+            <h1 className="text-3xl font-semibold">{t.prospects.title}</h1>
+          </div>
+          <Link
+            href="/"
+            className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-xs uppercase tracking-[0.2em] text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10"
+          >
+            {t.common.newSearch}
+          </Link>
+        </header>
+
+        <nav className="flex flex-wrap gap-2 text-xs">
+          {(["", ...statusOptions] as const).map((option) => (
+            <button
+              key={option || "all"}
+              type="button"
+              onClick={() => setFilter(option)}
+              className={`rounded-full border px-3 py-1 uppercase tracking-wide transition ${
+                filter === option
+                  ? "border-sky-300 bg-sky-500/20 text-sky-100"
+                  : "border-white/10 bg-white/5 text-white/60 hover:border-white/30"
+              }`}
+            >
+              {option ? t.prospectStatuses[option] : t.prospects.all} (
+              {option ? (counts[option] ?? 0) : prospects.length})
+            </button>
+          ))}
+        </nav>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/30 bg-red-500/10 px-5 py-4 text-sm text-red-100">
+            {error}
+          </div>
+        )}
+
+        {!loading && visible.length === 0 && (
+          <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-10 text-center text-sm text-white/70">
+            {t.prospects.empty}
+          </div>
+        )}
+
+        <div className="grid gap-6">
+          {visible.map((prospect) => (
+            <article
+              key={prospect.placeId}
+              className="grid gap-4 rounded-3xl border border-white/10 bg-white/10 p-6 backdrop-blur md:grid-cols-[2fr,1fr]"
+            >
+              <div className="space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-white">
+                      {prospect.business.name}
+                    </h2>
+                    <p className="text-sm text-white/70">
+                      {prospect.business.formatted_address ??
+                        t.common.addressMissing}
+                    </p>
+                    {prospect.business.formatted_phone_number && (
+                      <p className="text-sm text-white/70">
+                        {prospect.business.formatted_phone_number}
+                      </p>
+                    )}
+                  </div>
+                  <a
+                    href={prospect.business.googleMapsUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="rounded-full border border-white/20 bg-white/10 px-3 py-1 text-xs text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10"
+                  >
+                    {t.common.viewOnMaps}
+                  </a>
+                </div>
+
+                <p className="text-xs text-white/50">
+                  {t.prospects.foundVia(
+                    prospect.lastSearch.query,
+                    prospect.lastSearch.location,
+                    new Date(prospect.createdAt).toLocaleString(locale),
+                  )}
+                  {prospect.lastSearch.by &&
+                    ` · ${t.prospects.by(prospect.lastSearch.by.name)}`}
+                </p>
+
+                {prospect.pitch && (
+                  <div className="space-y-2 rounded-2xl border border-sky-500/40 bg-sky-500/10 p-4 text-sm text-sky-100">
+                    <p className="text-xs uppercase tracking-[0.2em] text-sky-200">
+                      {t.prospects.angle}
+                    </p>
+                    <p>{prospect.pitch.angle}</p>
+                    <div className="rounded-xl bg-slate-950/40 p-3 text-white/90">
+                      {prospect.pitch.personalizedMessage}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex flex-col gap-3 text-sm">
+                <label className="text-xs uppercase tracking-[0.2em] text-white/60">
+                  {t.prospects.status}
+                  <select
+                    value={prospect.status}
+                    onChange={(event) =>
+                      updateProspect(prospect.placeId, {
+                        status: event.target.value as ProspectStatus,
+                      })
+                    }
+                    className="mt-2 w-full rounded-xl border border-white/10 bg-slate-900/60 px-3 py-2 text-sm normal-case tracking-normal text-white focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                  >
+                    {statusOptions.map((option) => (
+                      <option key={option} value={option}>
+                        {t.prospectStatuses[option]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+
+                <ul className="space-y-1 text-xs text-white/50">
+                  {prospect.history.map((change) => (
+                    <li key={`${change.status}-${change.changedAt}`}>
+                      {t.prospectStatuses[change.status]} ·{" "}
+                      {new Date(change.changedAt).toLocaleString(locale)}
+                      {change.by && ` · ${t.prospects.by(change.by.name)}`}
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="space-y-2">
+                  <p className="text-xs uppercase tracking-[0.2em] text-white/60">
+                    {t.prospects.notes}
+                  </p>
+                  {prospect.notes.map((note) => (
+                    <div
+                      key={note.id}
+                      className="rounded-xl border border-white/10 bg-white/5 p-2 text-xs text-white/80"
+                    >
+                      <p className="whitespace-pre-line">{note.text}</p>
+                      <p className="mt-1 text-white/40">
+                        {new Date(note.createdAt).toLocaleString(locale)}
+                        {note.by && ` · ${t.prospects.by(note.by.name)}`}
+                      </p>
+                    </div>
+                  ))}
+                  <form
+                    onSubmit={(event) => submitNote(event, prospect.placeId)}
+                    className="flex gap-2"
+                  >
+                    <input
+                      type="text"
+                      value={drafts[prospect.placeId] ?? ""}
+                      onChange={(event) =>
+                        setDrafts((prev) => ({
+                          ...prev,
+                          [prospect.placeId]: event.target.value,
+                        }))
+                      }
+                      placeholder={t.prospects.notePlaceholder}
+                      className="min-w-0 flex-1 rounded-xl border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white placeholder:text-white/40 focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                    />
+                    <button
+                      type="submit"
+                      className="rounded-xl bg-sky-500 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-900 transition hover:bg-sky-400"
+                    >
+                      {t.prospects.addNote}
+                    </button>
+                  </form>
+                </div>
+              </div>
+            </article>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,600 @@
+'use client';
+
+import Link from "next/link";
+import { FormEvent, useEffect, useState } from "react";
+
+import { useI18n } from "@/components/locale-provider";
+import {
+  getMessages,
+  localizeError,
+  type Locale,
+  type Messages,
+} from "@/i18n";
+
+type SchedulePreset = keyof Messages["savedSearches"]["presets"];
+
+type SavedSearchRun = {
+  id: string;
+  trigger: "schedule" | "manual";
+  by?: { userId: string; name: string };
+  status: "running" | "completed" | "failed";
+  startedAt: string;
+  placesScanned?: number;
+  alerts?: number;
+  baseline?: boolean;
+  error?: { code: string; message: string };
+};
+
+type SearchRequest = {
+  query: string;
+  location: string;
+  radius?: number;
+  maxResults?: number;
+  mode?: "no-website" | "audit";
+};
+
+type SavedSearch = {
+  id: string;
+  name: string;
+  request: SearchRequest;
+  schedule: string;
+  enabled: boolean;
+  webhookUrl?: string;
+  nextRunAt: string | null;
+  runs: SavedSearchRun[];
+  knownPlaces: number;
+  running: boolean;
+};
+
+type ApiFailure = { error?: string; details?: Record<string, string[]> };
+
+type SavedSearchDraft = {
+  name: string;
+  query: string;
+  location: string;
+  radius: number;
+  maxResults: number;
+  audit: boolean;
+  schedule: string;
+  webhookUrl: string;
+  enabled: boolean;
+};
+
+const SCHEDULE_PRESETS: Record<SchedulePreset, string> = {
+  daily: "0 8 * * *",
+  weekdays: "0 8 * * 1-5",
+  weekly: "0 8 * * 1",
+  monthly: "0 8 1 * *",
+};
+
+const EMPTY_DRAFT: SavedSearchDraft = {
+  name: "",
+  query: "",
+  location: "",
+  radius: 5000,
+  maxResults: 5,
+  audit: false,
+  schedule: SCHEDULE_PRESETS.weekly,
+  webhookUrl: "",
+  enabled: true,
+};
+
+// Refreshes the list while a run is in progress.
+const RUNNING_POLL_MS = 5_000;
+
+const inputClass =
+  "w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-sm text-white placeholder:text-white/40 focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40";
+
+const buttonClass =
+  "rounded-full border border-white/20 px-3 py-1 text-xs text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10 disabled:opacity-50";
+
+function describeFailure(data: ApiFailure, fallback: string) {
+  return data.details
+    ? Object.values(data.details).flat().join(", ")
+    : (data.error ?? fallback);
+}
+
+async function fetchSavedSearches(locale: Locale) {
+  const t = getMessages(locale);
+  let response: Response;
+  try {
+    response = await fetch("/api/saved-searches");
+  } catch {
+    throw new Error(t.common.networkError);
+  }
+  const data: { searches?: SavedSearch[]; error?: string } =
+    await response.json();
+  if (!response.ok) {
+    throw new Error(data.error ?? t.savedSearches.loadFailed);
+  }
+  return data.searches ?? [];
+}
+
+export default function SavedSearchesPage() {
+  const { locale, t } = useI18n();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SavedSearchDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const anyRunning = searches.some((search) => search.running);
+
+  useEffect(() => {
+    fetchSavedSearches(locale)
+      .then(setSearches)
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [locale]);
+
+  useEffect(() => {
+    if (!anyRunning) {
+      return;
+    }
+    const timer = setInterval(() => {
+      fetchSavedSearches(locale)
+        .then(setSearches)
+        .catch(() => undefined);
+    }, RUNNING_POLL_MS);
+    return () => clearInterval(timer);
+  }, [anyRunning, locale]);
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleString(locale, {
+      dateStyle: "short",
+      timeStyle: "short",
+    });
+
+  const request = async <T,>(url: string, init: RequestInit) => {
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (response.status === 204) {
+        return {} as T;
+      }
+      const data: T & ApiFailure = await response.json();
+      if (!response.ok) {
+        setError(describeFailure(data, t.savedSearches.saveFailed));
+        return null;
+      }
+      return data;
+    } catch {
+      setError(t.common.networkError);
+      return null;
+    }
+  };
+
+  const replaceSearch = (search: SavedSearch) =>
+    setSearches((current) =>
+      current.some((item) => item.id === search.id)
+        ? current.map((item) => (item.id === search.id ? search : item))
+        : [...current, search],
+    );
+
+  const startEditing = (search: SavedSearch | null) => {
+    setEditingId(search?.id ?? null);
+    setDraft(
+      search
+        ? {
+            name: search.name,
+            query: search.request.query,
+            location: search.request.location,
+            radius: search.request.radius ?? 5000,
+            maxResults: search.request.maxResults ?? 5,
+            audit: search.request.mode === "audit",
+            schedule: search.schedule,
+            webhookUrl: search.webhookUrl ?? "",
+            enabled: search.enabled,
+          }
+        : EMPTY_DRAFT,
+    );
+  };
+
+  const submitDraft = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!draft) {
+      return;
+    }
+    const existing = searches.find((search) => search.id === editingId);
+    // Options set from the home page (vibe, channels...) are kept.
+    const body = {
+      name: draft.name,
+      request: {
+        ...existing?.request,
+        query: draft.query,
+        location: draft.location,
+        radius: draft.radius,
+        maxResults: draft.maxResults,
+        mode: draft.audit ? "audit" : "no-website",
+      },
+      schedule: draft.schedule,
+      enabled: draft.enabled,
+      webhookUrl: draft.webhookUrl.trim() || (existing ? null : undefined),
+    };
+    const data = await request<{ search: SavedSearch }>(
+      existing
+        ? `/api/saved-searches/${encodeURIComponent(existing.id)}`
+        : "/api/saved-searches",
+      { method: existing ? "PATCH" : "POST", body: JSON.stringify(body) },
+    );
+    if (data) {
+      replaceSearch(data.search);
+      setDraft(null);
+      setEditingId(null);
+    }
+  };
+
+  const updateSearch = async (
+    search: SavedSearch,
+    update: Partial<Pick<SavedSearch, "enabled">>,
+  ) => {
+    const data = await request<{ search: SavedSearch }>(
+      `/api/saved-searches/${encodeURIComponent(search.id)}`,
+      { method: "PATCH", body: JSON.stringify(update) },
+    );
+    if (data) {
+      replaceSearch(data.search);
+    }
+  };
+
+  const runNow = async (search: SavedSearch) => {
+    const data = await request<{ search: SavedSearch }>(
+      `/api/saved-searches/${encodeURIComponent(search.id)}/run`,
+      { method: "POST" },
+    );
+    if (data) {
+      replaceSearch({ ...data.search, running: true });
+    }
+  };
+
+  const removeSearch = async (search: SavedSearch) => {
+    if (!window.confirm(t.savedSearches.confirmRemove)) {
+      return;
+    }
+    const data = await request(
+      `/api/saved-searches/${encodeURIComponent(search.id)}`,
+      { method: "DELETE" },
+    );
+    if (data) {
+      setSearches((current) =>
+        current.filter((item) => item.id !== search.id),
+      );
+    }
+  };
+
+  const describeSchedule = (schedule: string) => {
+    const preset = (Object.keys(SCHEDULE_PRESETS) as SchedulePreset[]).find(
+      (key) => SCHEDULE_PRESETS[key] === schedule,
+    );
+    return preset ? t.savedSearches.presets[preset] : schedule;
+  };
+
+  const describeRun = (run: SavedSearchRun) => {
+    const trigger = t.savedSearches.runTriggers[run.trigger];
+    const label = t.savedSearches.runLabel(
+      formatDate(run.startedAt),
+      run.by ? t.savedSearches.runBy(trigger, run.by.name) : trigger,
+      t.savedSearches.runStatuses[run.status],
+    );
+    if (run.status === "failed" && run.error) {
+      return `${label} · ${localizeError(run.error, locale).message}`;
+    }
+    if (run.status !== "completed") {
+      return label;
+    }
+    return run.baseline
+      ? `${label} · ${t.savedSearches.runBaseline}`
+      : `${label} · ${t.savedSearches.runOutcome(
+          run.placesScanned ?? 0,
+          run.alerts ?? 0,
+        )}`;
+  };
+
+  const presetValue = draft
+    ? ((Object.keys(SCHEDULE_PRESETS) as SchedulePreset[]).find(
+        (key) => SCHEDULE_PRESETS[key] === draft.schedule,
+      ) ?? "custom")
+    : "custom";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-zinc-900 to-slate-800 text-slate-100">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8 px-6 pb-16 pt-12">
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <p className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs uppercase tracking-[0.2em] text-white/70">
+              {t.savedSearches.badge}
+            </p>
+            <h1 className="text-3xl font-semibold">{t.savedSearches.title}</h1>
+            <p className="max-w-2xl text-sm text-slate-300">
+              {t.savedSearches.intro}
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-xs uppercase tracking-[0.2em] text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10"
+          >
+            {t.common.newSearch}
+          </Link>
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/30 bg-red-500/10 px-5 py-4 text-sm text-red-100">
+            {error}
+          </div>
+        )}
+
+        {draft ? (
+          <form
+            onSubmit={submitDraft}
+            className="grid gap-4 rounded-3xl border border-white/10 bg-white/10 p-6 backdrop-blur md:grid-cols-2"
+          >
+            <label className="space-y-2 text-sm text-white/80 md:col-span-2">
+              <span>{t.savedSearches.name}</span>
+              <input
+                value={draft.name}
+                onChange={(event) =>
+                  setDraft({ ...draft, name: event.target.value })
+                }
+                required
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-2 text-sm text-white/80">
+              <span>{t.savedSearches.query}</span>
+              <input
+                value={draft.query}
+                onChange={(event) =>
+                  setDraft({ ...draft, query: event.target.value })
+                }
+                required
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-2 text-sm text-white/80">
+              <span>{t.savedSearches.location}</span>
+              <input
+                value={draft.location}
+                onChange={(event) =>
+                  setDraft({ ...draft, location: event.target.value })
+                }
+                required
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-2 text-sm text-white/80">
+              <span>{t.savedSearches.radius}</span>
+              <input
+                type="number"
+                min={500}
+                max={50000}
+                step={500}
+                value={draft.radius}
+                onChange={(event) =>
+                  setDraft({ ...draft, radius: Number(event.target.value) })
+                }
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-2 text-sm text-white/80">
+              <span>{t.savedSearches.maxResults}</span>
+              <input
+                type="number"
+                min={1}
+                max={8}
+                value={draft.maxResults}
+                onChange={(event) =>
+                  setDraft({
+                    ...draft,
+                    maxResults: Number(event.target.value),
+                  })
+                }
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-2 text-sm text-white/80">
+              <span>{t.savedSearches.schedule}</span>
+              <select
+                value={presetValue}
+                onChange={(event) =>
+                  setDraft({
+                    ...draft,
+                    schedule:
+                      event.target.value === "custom"
+                        ? ""
+                        : SCHEDULE_PRESETS[
+                            event.target.value as SchedulePreset
+                          ],
+                  })
+                }
+                className={inputClass}
+              >
+                {(Object.keys(SCHEDULE_PRESETS) as SchedulePreset[]).map(
+                  (preset) => (
+                    <option key={preset} value={preset}>
+                      {t.savedSearches.presets[preset]}
+                    </option>
+                  ),
+                )}
+                <option value="custom">{t.savedSearches.custom}</option>
+              </select>
+            </label>
+            <label className="space-y-2 text-sm text-white/80">
+              <span>{t.savedSearches.cron}</span>
+              <input
+                value={draft.schedule}
+                onChange={(event) =>
+                  setDraft({ ...draft, schedule: event.target.value })
+                }
+                placeholder="0 8 * * 1"
+                required
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+            <label className="space-y-2 text-sm text-white/80 md:col-span-2">
+              <span>{t.savedSearches.webhookUrl}</span>
+              <input
+                type="url"
+                value={draft.webhookUrl}
+                onChange={(event) =>
+                  setDraft({ ...draft, webhookUrl: event.target.value })
+                }
+                placeholder="https://"
+                className={inputClass}
+              />
+              <span className="block text-xs text-white/50">
+                {t.savedSearches.webhookHint}
+              </span>
+            </label>
+            <label className="flex items-center gap-3 text-sm text-white/80">
+              <input
+                type="checkbox"
+                checked={draft.audit}
+                onChange={(event) =>
+                  setDraft({ ...draft, audit: event.target.checked })
+                }
+                className="h-4 w-4 rounded border-white/20 bg-slate-900/60 accent-sky-500"
+              />
+              {t.savedSearches.audit}
+            </label>
+            <label className="flex items-center gap-3 text-sm text-white/80">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(event) =>
+                  setDraft({ ...draft, enabled: event.target.checked })
+                }
+                className="h-4 w-4 rounded border-white/20 bg-slate-900/60 accent-sky-500"
+              />
+              {t.savedSearches.enabled}
+            </label>
+            <div className="flex justify-end gap-2 md:col-span-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setDraft(null);
+                  setEditingId(null);
+                }}
+                className={buttonClass}
+              >
+                {t.savedSearches.cancel}
+              </button>
+              <button
+                type="submit"
+                className="rounded-full bg-sky-500 px-4 py-1 text-xs font-semibold text-slate-900 transition hover:bg-sky-400"
+              >
+                {t.savedSearches.save}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            type="button"
+            onClick={() => startEditing(null)}
+            className="self-start rounded-full bg-sky-500 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-900 transition hover:bg-sky-400"
+          >
+            {t.savedSearches.create}
+          </button>
+        )}
+
+        {!loading && searches.length === 0 && (
+          <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-10 text-center text-sm text-white/70">
+            {t.savedSearches.empty}
+          </div>
+        )}
+
+        <div className="grid gap-4">
+          {searches.map((search) => (
+            <article
+              key={search.id}
+              className="space-y-3 rounded-3xl border border-white/10 bg-white/10 p-6 backdrop-blur"
+            >
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="space-y-1">
+                  <h2 className="text-lg font-semibold text-white">
+                    {search.name}
+                  </h2>
+                  <p className="text-sm text-white/70">
+                    {t.savedSearches.summary(
+                      search.request.query,
+                      search.request.location,
+                      search.request.radius ?? 5000,
+                    )}
+                  </p>
+                  <p className="text-xs text-white/50">
+                    {describeSchedule(search.schedule)} ·{" "}
+                    {search.enabled && search.nextRunAt
+                      ? t.savedSearches.nextRun(formatDate(search.nextRunAt))
+                      : t.savedSearches.paused}{" "}
+                    · {t.savedSearches.knownPlaces(search.knownPlaces)}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    disabled={search.running}
+                    onClick={() => runNow(search)}
+                    className={buttonClass}
+                  >
+                    {search.running
+                      ? t.savedSearches.running
+                      : t.savedSearches.runNow}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateSearch(search, { enabled: !search.enabled })
+                    }
+                    className={buttonClass}
+                  >
+                    {search.enabled
+                      ? t.savedSearches.pause
+                      : t.savedSearches.resume}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => startEditing(search)}
+                    className={buttonClass}
+                  >
+                    {t.savedSearches.edit}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeSearch(search)}
+                    className="rounded-full border border-red-400/30 px-3 py-1 text-xs text-red-200 transition hover:bg-red-500/10"
+                  >
+                    {t.savedSearches.remove}
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-1 text-xs text-white/60">
+                <p className="uppercase tracking-[0.2em] text-white/40">
+                  {t.savedSearches.lastRun}
+                </p>
+                {search.runs.length === 0 ? (
+                  <p>{t.savedSearches.noRun}</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {search.runs.slice(0, 3).map((run) => (
+                      <li
+                        key={run.id}
+                        className={
+                          run.status === "failed" ? "text-red-200" : undefined
+                        }
+                      >
+                        {describeRun(run)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </article>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
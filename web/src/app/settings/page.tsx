@@ -0,0 +1,582 @@
+'use client';
+
+import Link from "next/link";
+import { FormEvent, useEffect, useState } from "react";
+
+import { useI18n } from "@/components/locale-provider";
+import { getMessages, type Locale, type Messages } from "@/i18n";
+
+type PromptVariable = keyof Messages["settings"]["variables"];
+
+type AgencyProfile = {
+  name: string;
+  description?: string;
+  offers: Array<{ name: string; price?: string }>;
+  portfolio: string[];
+  signature: string;
+};
+
+type PromptTemplateVersion = {
+  version: number;
+  system: string;
+  instructions: string;
+  note?: string;
+  createdAt: string;
+};
+
+type PromptTemplate = {
+  id: string;
+  name: string;
+  description?: string;
+  versions: PromptTemplateVersion[];
+  updatedAt: string;
+};
+
+type PreviewMessage = { role: string; content: string };
+
+type ApiFailure = { error?: string; details?: Record<string, string[]> };
+
+type TemplateDraft = {
+  name: string;
+  description: string;
+  system: string;
+  instructions: string;
+  note: string;
+};
+
+const EMPTY_DRAFT: TemplateDraft = {
+  name: "",
+  description: "",
+  system: "",
+  instructions: "",
+  note: "",
+};
+
+const inputClass =
+  "w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-sm text-white placeholder:text-white/40 focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40";
+
+const splitLines = (value: string) =>
+  value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+function describeFailure(data: ApiFailure, fallback: string) {
+  return data.details
+    ? Object.values(data.details).flat().join(", ")
+    : (data.error ?? fallback);
+}
+
+async function fetchSettings(locale: Locale) {
+  const t = getMessages(locale);
+  let responses: Response[];
+  try {
+    responses = await Promise.all([
+      fetch("/api/settings/agency"),
+      fetch("/api/settings/templates"),
+    ]);
+  } catch {
+    throw new Error(t.common.networkError);
+  }
+  if (responses.some((response) => !response.ok)) {
+    throw new Error(t.settings.loadFailed);
+  }
+  const [{ agency }, { templates, variables }]: [
+    { agency: AgencyProfile | null },
+    { templates: PromptTemplate[]; variables: PromptVariable[] },
+  ] = await Promise.all([responses[0].json(), responses[1].json()]);
+  return { agency, templates, variables };
+}
+
+export default function SettingsPage() {
+  const { locale, t } = useI18n();
+  const [agencyName, setAgencyName] = useState("");
+  const [agencyDescription, setAgencyDescription] = useState("");
+  const [offers, setOffers] = useState("");
+  const [portfolio, setPortfolio] = useState("");
+  const [signature, setSignature] = useState("");
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [variables, setVariables] = useState<PromptVariable[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT);
+  const [preview, setPreview] = useState<{
+    business: { name?: string };
+    messages: PreviewMessage[];
+  } | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const selected = templates.find((template) => template.id === selectedId);
+
+  useEffect(() => {
+    fetchSettings(locale)
+      .then((settings) => {
+        if (settings.agency) {
+          setAgencyName(settings.agency.name);
+          setAgencyDescription(settings.agency.description ?? "");
+          setOffers(
+            settings.agency.offers
+              .map((offer) =>
+                offer.price ? `${offer.name} | ${offer.price}` : offer.name,
+              )
+              .join("\n"),
+          );
+          setPortfolio(settings.agency.portfolio.join("\n"));
+          setSignature(settings.agency.signature);
+        }
+        setTemplates(settings.templates);
+        setVariables(settings.variables);
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [locale]);
+
+  const flash = (message: string) => {
+    setNotice(message);
+    setTimeout(() => setNotice(null), 3000);
+  };
+
+  const selectTemplate = (
+    template: PromptTemplate | null,
+    version?: number,
+  ) => {
+    const current = version
+      ? template?.versions.find((item) => item.version === version)
+      : template?.versions.at(-1);
+    setSelectedId(template?.id ?? null);
+    setSelectedVersion(current?.version ?? null);
+    setDraft(
+      template && current
+        ? {
+            name: template.name,
+            description: template.description ?? "",
+            system: current.system,
+            instructions: current.instructions,
+            note: "",
+          }
+        : EMPTY_DRAFT,
+    );
+    setPreview(null);
+  };
+
+  const request = async <T,>(
+    url: string,
+    init: RequestInit,
+    fallback = t.settings.saveFailed,
+  ) => {
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (response.status === 204) {
+        return {} as T;
+      }
+      const data: T & ApiFailure = await response.json();
+      if (!response.ok) {
+        setError(describeFailure(data, fallback));
+        return null;
+      }
+      return data;
+    } catch {
+      setError(t.common.networkError);
+      return null;
+    }
+  };
+
+  const saveAgency = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const data = await request<{ agency: AgencyProfile }>(
+      "/api/settings/agency",
+      {
+        method: "PUT",
+        body: JSON.stringify({
+          name: agencyName,
+          description: agencyDescription || undefined,
+          offers: splitLines(offers).map((line) => {
+            const [name, price] = line.split("|").map((part) => part.trim());
+            return price ? { name, price } : { name };
+          }),
+          portfolio: splitLines(portfolio),
+          signature,
+        }),
+      },
+    );
+    if (data) {
+      flash(t.settings.saved);
+    }
+  };
+
+  const saveTemplate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const version = {
+      system: draft.system,
+      instructions: draft.instructions,
+      note: draft.note || undefined,
+    };
+    const data = await request<{ template: PromptTemplate }>(
+      selectedId
+        ? `/api/settings/templates/${selectedId}`
+        : "/api/settings/templates",
+      {
+        method: selectedId ? "PUT" : "POST",
+        body: JSON.stringify(
+          selectedId
+            ? version
+            : {
+                ...version,
+                name: draft.name,
+                description: draft.description || undefined,
+              },
+        ),
+      },
+    );
+    if (data) {
+      setTemplates((prev) => [
+        data.template,
+        ...prev.filter((item) => item.id !== data.template.id),
+      ]);
+      selectTemplate(data.template);
+      flash(t.settings.saved);
+    }
+  };
+
+  const removeTemplate = async () => {
+    if (!selectedId || !window.confirm(t.settings.templates.confirmRemove)) {
+      return;
+    }
+    const data = await request(`/api/settings/templates/${selectedId}`, {
+      method: "DELETE",
+    });
+    if (data) {
+      setTemplates((prev) => prev.filter((item) => item.id !== selectedId));
+      selectTemplate(null);
+    }
+  };
+
+  const runPreview = async () => {
+    setPreviewing(true);
+    const data = await request<{
+      business: { name?: string };
+      messages: PreviewMessage[];
+    }>(
+      "/api/settings/templates/preview",
+      {
+        method: "POST",
+        body: JSON.stringify(
+          draft.instructions.trim()
+            ? {
+                template: {
+                  system: draft.system,
+                  instructions: draft.instructions,
+                },
+              }
+            : {},
+        ),
+      },
+      t.settings.preview.failed,
+    );
+    setPreview(data);
+    setPreviewing(false);
+  };
+
+  const updateDraft = (field: keyof TemplateDraft, value: string) =>
+    setDraft((prev) => ({ ...prev, [field]: value }));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-zinc-900 to-slate-800 text-slate-100">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8 px-6 pb-16 pt-12">
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <p className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs uppercase tracking-[0.2em] text-white/70">
+              {t.settings.badge}
+            </p>
+            <h1 className="text-3xl font-semibold">{t.settings.title}</h1>
+          </div>
+          <Link
+            href="/"
+            className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-xs uppercase tracking-[0.2em] text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10"
+          >
+            {t.common.newSearch}
+          </Link>
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/30 bg-red-500/10 px-5 py-4 text-sm text-red-100">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="rounded-2xl border border-emerald-400/30 bg-emerald-500/10 px-5 py-4 text-sm text-emerald-100">
+            {notice}
+          </div>
+        )}
+
+        <form
+          onSubmit={saveAgency}
+          className="grid gap-4 rounded-3xl border border-white/10 bg-white/10 p-6 backdrop-blur md:grid-cols-2"
+        >
+          <div className="space-y-1 md:col-span-2">
+            <h2 className="text-lg font-semibold">
+              {t.settings.agency.title}
+            </h2>
+            <p className="text-sm text-white/60">{t.settings.agency.intro}</p>
+          </div>
+          <label className="space-y-2 text-sm text-white/80">
+            <span>{t.settings.agency.name}</span>
+            <input
+              type="text"
+              value={agencyName}
+              onChange={(event) => setAgencyName(event.target.value)}
+              className={inputClass}
+              required
+            />
+          </label>
+          <label className="space-y-2 text-sm text-white/80">
+            <span>{t.settings.agency.description}</span>
+            <input
+              type="text"
+              value={agencyDescription}
+              onChange={(event) => setAgencyDescription(event.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="space-y-2 text-sm text-white/80">
+            <span>{t.settings.agency.offers}</span>
+            <textarea
+              value={offers}
+              onChange={(event) => setOffers(event.target.value)}
+              placeholder={t.settings.agency.offersPlaceholder}
+              className={`h-28 ${inputClass}`}
+            />
+          </label>
+          <label className="space-y-2 text-sm text-white/80">
+            <span>{t.settings.agency.portfolio}</span>
+            <textarea
+              value={portfolio}
+              onChange={(event) => setPortfolio(event.target.value)}
+              placeholder={t.settings.agency.portfolioPlaceholder}
+              className={`h-28 ${inputClass}`}
+            />
+          </label>
+          <label className="space-y-2 text-sm text-white/80 md:col-span-2">
+            <span>{t.settings.agency.signature}</span>
+            <textarea
+              value={signature}
+              onChange={(event) => setSignature(event.target.value)}
+              className={`h-20 ${inputClass}`}
+            />
+          </label>
+          <button
+            type="submit"
+            className="rounded-xl bg-sky-500 px-4 py-3 text-sm font-semibold uppercase tracking-wide text-slate-900 transition hover:bg-sky-400 md:col-span-2 md:justify-self-end"
+          >
+            {t.settings.agency.save}
+          </button>
+        </form>
+
+        <section className="grid gap-6 rounded-3xl border border-white/10 bg-white/10 p-6 backdrop-blur md:grid-cols-[1fr,2fr]">
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <h2 className="text-lg font-semibold">
+                {t.settings.templates.title}
+              </h2>
+              <p className="text-sm text-white/60">
+                {t.settings.templates.intro}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => selectTemplate(null)}
+              className="w-full rounded-xl border border-dashed border-sky-300/40 px-3 py-2 text-xs uppercase tracking-wide text-sky-200 transition hover:bg-sky-500/10"
+            >
+              {t.settings.templates.create}
+            </button>
+            {templates.length === 0 && (
+              <p className="text-sm text-white/50">
+                {t.settings.templates.empty}
+              </p>
+            )}
+            <ul className="space-y-2">
+              {templates.map((template) => (
+                <li key={template.id}>
+                  <button
+                    type="button"
+                    onClick={() => selectTemplate(template)}
+                    className={`w-full rounded-xl border px-3 py-2 text-left text-sm transition ${
+                      template.id === selectedId
+                        ? "border-sky-300 bg-sky-500/20 text-sky-100"
+                        : "border-white/10 bg-white/5 text-white/80 hover:border-white/30"
+                    }`}
+                  >
+                    <span className="font-medium">{template.name}</span>
+                    <span className="block text-xs text-white/50">
+                      v{template.versions.length}
+                      {template.description && ` · ${template.description}`}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <form onSubmit={saveTemplate} className="space-y-4">
+            {selected ? (
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="text-base font-semibold">{selected.name}</h3>
+                <label className="flex items-center gap-2 text-xs text-white/60">
+                  {t.settings.templates.version}
+                  <select
+                    value={selectedVersion ?? ""}
+                    onChange={(event) =>
+                      selectTemplate(selected, Number(event.target.value))
+                    }
+                    className="rounded-full border border-white/20 bg-slate-900/60 px-3 py-1 text-white focus:border-sky-400 focus:outline-none"
+                  >
+                    {[...selected.versions].reverse().map((version) => (
+                      <option key={version.version} value={version.version}>
+                        {t.settings.templates.versionLabel(
+                          version.version,
+                          new Date(version.createdAt).toLocaleString(locale),
+                        )}
+                        {version.note && ` · ${version.note}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-2">
+                <label className="space-y-2 text-sm text-white/80">
+                  <span>{t.settings.templates.name}</span>
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(event) =>
+                      updateDraft("name", event.target.value)
+                    }
+                    className={inputClass}
+                    required
+                  />
+                </label>
+                <label className="space-y-2 text-sm text-white/80">
+                  <span>{t.settings.templates.description}</span>
+                  <input
+                    type="text"
+                    value={draft.description}
+                    onChange={(event) =>
+                      updateDraft("description", event.target.value)
+                    }
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+            )}
+
+            <label className="block space-y-2 text-sm text-white/80">
+              <span>{t.settings.templates.system}</span>
+              <textarea
+                value={draft.system}
+                onChange={(event) => updateDraft("system", event.target.value)}
+                className={`h-20 font-mono ${inputClass}`}
+              />
+            </label>
+            <label className="block space-y-2 text-sm text-white/80">
+              <span>{t.settings.templates.instructions}</span>
+              <textarea
+                value={draft.instructions}
+                onChange={(event) =>
+                  updateDraft("instructions", event.target.value)
+                }
+                className={`h-48 font-mono ${inputClass}`}
+                required
+              />
+            </label>
+
+            <details className="text-xs text-white/60">
+              <summary className="cursor-pointer select-none text-white/70">
+                {t.settings.templates.variables}
+              </summary>
+              <p className="mt-2 text-white/50">
+                {t.settings.templates.businessVariablesHint}
+              </p>
+              <ul className="mt-2 grid gap-1 md:grid-cols-2">
+                {variables.map((variable) => (
+                  <li key={variable}>
+                    <code className="text-sky-200">{`{{${variable}}}`}</code>{" "}
+                    {t.settings.variables[variable]}
+                  </li>
+                ))}
+              </ul>
+            </details>
+
+            <label className="block space-y-2 text-sm text-white/80">
+              <span>{t.settings.templates.note}</span>
+              <input
+                type="text"
+                value={draft.note}
+                onChange={(event) => updateDraft("note", event.target.value)}
+                className={inputClass}
+              />
+            </label>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                type="submit"
+                className="rounded-xl bg-sky-500 px-4 py-3 text-sm font-semibold uppercase tracking-wide text-slate-900 transition hover:bg-sky-400"
+              >
+                {selected
+                  ? t.settings.templates.save
+                  : t.settings.templates.saveNew}
+              </button>
+              <button
+                type="button"
+                onClick={runPreview}
+                disabled={previewing}
+                className="rounded-xl border border-white/20 bg-white/10 px-4 py-3 text-sm font-semibold uppercase tracking-wide text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10 disabled:opacity-50"
+              >
+                {previewing
+                  ? t.settings.preview.running
+                  : t.settings.preview.run}
+              </button>
+              {selected && (
+                <button
+                  type="button"
+                  onClick={removeTemplate}
+                  className="ml-auto rounded-xl border border-red-300/40 px-4 py-3 text-xs uppercase tracking-wide text-red-200 transition hover:bg-red-500/10"
+                >
+                  {t.settings.templates.remove}
+                </button>
+              )}
+            </div>
+          </form>
+        </section>
+
+        {preview && (
+          <section className="space-y-3 rounded-3xl border border-sky-500/30 bg-sky-500/10 p-6">
+            <div className="space-y-1">
+              <h2 className="text-lg font-semibold">
+                {t.settings.preview.title}
+              </h2>
+              <p className="text-sm text-sky-100/70">
+                {t.settings.preview.sample(preview.business.name ?? "")}
+              </p>
+            </div>
+            {preview.messages.map((message) => (
+              <div key={message.role} className="space-y-1">
+                <p className="text-xs uppercase tracking-[0.2em] text-sky-200">
+                  {message.role}
+                </p>
+                <pre className="whitespace-pre-wrap rounded-xl bg-slate-950/60 p-3 text-xs text-white/90">
+                  {message.content}
+                </pre>
+              </div>
+            ))}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+import { useI18n } from "@/components/locale-provider";
+import { getMessages, type Locale } from "@/i18n";
+
+type UsageCalls = { geocode: number; textSearch: number; details: number };
+
+type UsageTokens = {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+};
+
+type DailyUsage = {
+  date: string;
+  searches: number;
+  calls: UsageCalls;
+  llm: UsageTokens;
+  costUsd: number;
+};
+
+type UsageEntry = {
+  id: string;
+  clientId: string;
+  actor?: { userId: string; name: string };
+  query: string;
+  location: string;
+  provider: string;
+  generator: string;
+  calls: UsageCalls;
+  llm: UsageTokens;
+  costUsd: number;
+  recordedAt: string;
+};
+
+type UsageSummary = {
+  days: DailyUsage[];
+  recent: UsageEntry[];
+  today: { costUsd: number; budgetUsd: number | null };
+};
+
+const formatUsd = (value: number) => `${value.toFixed(4)} $`;
+
+async function fetchUsage(locale: Locale) {
+  const t = getMessages(locale);
+  let response: Response;
+  try {
+    response = await fetch("/api/usage");
+  } catch {
+    throw new Error(t.common.networkError);
+  }
+  const data: UsageSummary & { error?: string } = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error ?? t.usage.loadFailed);
+  }
+  return data;
+}
+
+export default function UsagePage() {
+  const { locale, t } = useI18n();
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchUsage(locale)
+      .then(setUsage)
+      .catch((err: Error) => setError(err.message));
+  }, [locale]);
+
+  const budget = usage?.today.budgetUsd ?? null;
+  const spentRatio =
+    usage && budget ? Math.min(usage.today.costUsd / budget, 1) : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-zinc-900 to-slate-800 text-slate-100">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8 px-6 pb-16 pt-12">
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <p className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs uppercase tracking-[0.2em] text-white/70">
+              {t.usage.badge}
+            </p>
+            <h1 className="text-3xl font-semibold">{t.usage.title}</h1>
+          </div>
+          <Link
+            href="/"
+            className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-xs uppercase tracking-[0.2em] text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10"
+          >
+            {t.common.newSearch}
+          </Link>
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/30 bg-red-500/10 px-5 py-4 text-sm text-red-100">
+            {error}
+          </div>
+        )}
+
+        {usage && (
+          <section className="space-y-3 rounded-3xl border border-white/10 bg-white/10 p-6 backdrop-blur">
+            <p className="text-xs uppercase tracking-[0.2em] text-white/60">
+              {t.usage.today}
+            </p>
+            <p className="text-2xl font-semibold">
+              {formatUsd(usage.today.costUsd)}
+              {budget !== null && (
+                <span className="text-base font-normal text-white/60">
+                  {" "}
+                  / {budget.toFixed(2)} $
+                </span>
+              )}
+            </p>
+            {budget !== null ? (
+              <div className="h-2 overflow-hidden rounded-full bg-white/10">
+                <div
+                  className={`h-full ${
+                    spentRatio >= 1 ? "bg-red-400" : "bg-sky-400"
+                  }`}
+                  style={{ width: `${spentRatio * 100}%` }}
+                />
+              </div>
+            ) : (
+              <p className="text-xs text-white/50">
+                {t.usage.noBudget}
+              </p>
+            )}
+          </section>
+        )}
+
+        {usage && usage.days.length === 0 && (
+          <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-10 text-center text-sm text-white/70">
+            {t.usage.empty}
+          </div>
+        )}
+
+        {usage && usage.days.length > 0 && (
+          <div className="overflow-x-auto rounded-3xl border border-white/10 bg-white/5">
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs uppercase tracking-[0.2em] text-white/50">
+                <tr>
+                  <th className="px-4 py-3">{t.usage.columns.day}</th>
+                  <th className="px-4 py-3">{t.usage.columns.searches}</th>
+                  <th className="px-4 py-3">{t.usage.columns.geocode}</th>
+                  <th className="px-4 py-3">{t.usage.columns.textSearch}</th>
+                  <th className="px-4 py-3">{t.usage.columns.details}</th>
+                  <th className="px-4 py-3">{t.usage.columns.tokens}</th>
+                  <th className="px-4 py-3">{t.usage.columns.cost}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {usage.days.map((day) => (
+                  <tr key={day.date} className="border-t border-white/10">
+                    <td className="px-4 py-3">{day.date}</td>
+                    <td className="px-4 py-3">{day.searches}</td>
+                    <td className="px-4 py-3">{day.calls.geocode}</td>
+                    <td className="px-4 py-3">{day.calls.textSearch}</td>
+                    <td className="px-4 py-3">{day.calls.details}</td>
+                    <td className="px-4 py-3">
+                      {day.llm.promptTokens + day.llm.completionTokens}
+                    </td>
+                    <td className="px-4 py-3">{formatUsd(day.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {usage && usage.recent.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-xs uppercase tracking-[0.2em] text-white/60">
+              {t.usage.recent}
+            </h2>
+            <ul className="space-y-2 text-sm">
+              {usage.recent.map((entry) => (
+                <li
+                  key={entry.id}
+                  className="flex flex-wrap justify-between gap-2 rounded-2xl border border-white/10 bg-white/5 px-4 py-3"
+                >
+                  <span>
+                    {t.usage.entry(entry.query, entry.location)}
+                    <span className="text-white/50">
+                      {" "}
+                      · {entry.provider} / {entry.generator} ·{" "}
+                      {entry.actor
+                        ? t.usage.by(entry.actor.name)
+                        : entry.clientId}
+                    </span>
+                  </span>
+                  <span className="text-white/70">
+                    {formatUsd(entry.costUsd)} ·{" "}
+                    {new Date(entry.recordedAt).toLocaleString(locale)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+'use client';
+
+import Link from "next/link";
+import { FormEvent, useEffect, useState } from "react";
+
+import { useI18n } from "@/components/locale-provider";
+import { getMessages, type Locale } from "@/i18n";
+
+type WorkspaceRole = "owner" | "member";
+
+type WorkspaceSummary = { id: string; name: string; role: WorkspaceRole };
+
+type Member = {
+  userId: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+  name: string;
+  email: string;
+};
+
+type Invitation = {
+  email: string;
+  role: WorkspaceRole;
+  invitedBy: { userId: string; name: string };
+  createdAt: string;
+};
+
+type WorkspaceDetails = {
+  userId: string;
+  workspace: WorkspaceSummary;
+  workspaces: WorkspaceSummary[];
+  members: Member[];
+  invitations: Invitation[];
+};
+
+type ApiFailure = { error?: string; details?: Record<string, string[]> };
+
+const inputClass =
+  "w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-sm text-white placeholder:text-white/40 focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40";
+
+const buttonClass =
+  "rounded-full border border-white/20 px-3 py-1 text-xs text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10 disabled:opacity-50";
+
+function describeFailure(data: ApiFailure, fallback: string) {
+  return data.details
+    ? Object.values(data.details).flat().join(", ")
+    : (data.error ?? fallback);
+}
+
+// The session names the current workspace, the workspace route its team.
+async function fetchWorkspace(locale: Locale): Promise<WorkspaceDetails> {
+  const t = getMessages(locale);
+  const load = async <T,>(url: string) => {
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch {
+      throw new Error(t.common.networkError);
+    }
+    const data: T & ApiFailure = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error ?? t.workspace.loadFailed);
+    }
+    return data;
+  };
+
+  const session = await load<{
+    user: { id: string };
+    workspace: WorkspaceSummary;
+    workspaces: WorkspaceSummary[];
+  }>("/api/auth/session");
+  const team = await load<{ members: Member[]; invitations: Invitation[] }>(
+    `/api/workspaces/${session.workspace.id}`,
+  );
+  return {
+    userId: session.user.id,
+    workspace: session.workspace,
+    workspaces: session.workspaces,
+    members: team.members,
+    invitations: team.invitations,
+  };
+}
+
+export default function WorkspacePage() {
+  const { locale, t } = useI18n();
+  const [details, setDetails] = useState<WorkspaceDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("member");
+  const [newName, setNewName] = useState("");
+  const [pending, setPending] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchWorkspace(locale)
+      .then(setDetails)
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [locale]);
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString(locale, { dateStyle: "short" });
+
+  const request = async <T,>(url: string, init: RequestInit) => {
+    setError(null);
+    setNotice(null);
+    setPending(true);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (response.status === 204) {
+        return {} as T;
+      }
+      const data: T & ApiFailure = await response.json();
+      if (!response.ok) {
+        setError(describeFailure(data, t.workspace.saveFailed));
+        return null;
+      }
+      return data;
+    } catch {
+      setError(t.common.networkError);
+      return null;
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const reload = () =>
+    fetchWorkspace(locale)
+      .then(setDetails)
+      .catch((err: Error) => setError(err.message));
+
+  if (!details) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-950 via-zinc-900 to-slate-800 px-6 pt-24 text-sm text-slate-300">
+        {loading ? null : error}
+      </div>
+    );
+  }
+
+  const { workspace, members, invitations, userId } = details;
+  const isOwner = workspace.role === "owner";
+  const workspacePath = `/api/workspaces/${workspace.id}`;
+
+  const invite = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const email = inviteEmail.trim().toLowerCase();
+    const data = await request<{ joined: boolean }>(
+      `${workspacePath}/members`,
+      {
+        method: "POST",
+        body: JSON.stringify({ email, role: inviteRole }),
+      },
+    );
+    if (data) {
+      setInviteEmail("");
+      await reload();
+      setNotice(
+        data.joined ? t.workspace.added(email) : t.workspace.invited(email),
+      );
+    }
+  };
+
+  // Leaving moves the session to another workspace, or ends it.
+  const removeMember = async (member: Member) => {
+    const self = member.userId === userId;
+    if (
+      !window.confirm(
+        self ? t.workspace.confirmLeave : t.workspace.confirmRemove(member.name),
+      )
+    ) {
+      return;
+    }
+    const removed = await request(`${workspacePath}/members/${member.userId}`, {
+      method: "DELETE",
+    });
+    if (!removed) {
+      return;
+    }
+    if (!self) {
+      await reload();
+      return;
+    }
+    const other = details.workspaces.find((item) => item.id !== workspace.id);
+    if (other) {
+      await request("/api/auth/session", {
+        method: "PATCH",
+        body: JSON.stringify({ workspaceId: other.id }),
+      });
+    } else {
+      await request("/api/auth/logout", { method: "POST" });
+    }
+    window.location.reload();
+  };
+
+  const revoke = async (email: string) => {
+    const revoked = await request(
+      `${workspacePath}/invitations/${encodeURIComponent(email)}`,
+      { method: "DELETE" },
+    );
+    if (revoked) {
+      await reload();
+    }
+  };
+
+  const create = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const created = await request("/api/workspaces", {
+      method: "POST",
+      body: JSON.stringify({ name: newName }),
+    });
+    if (created) {
+      window.location.reload();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-zinc-900 to-slate-800 text-slate-100">
+      <div className="mx-auto flex max-w-4xl flex-col gap-8 px-6 pb-16 pt-12">
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <p className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs uppercase tracking-[0.2em] text-white/70">
+              {t.workspace.badge}
+            </p>
+            <h1 className="text-3xl font-semibold">{workspace.name}</h1>
+            <p className="max-w-2xl text-sm text-slate-300">
+              {t.workspace.intro}
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-xs uppercase tracking-[0.2em] text-sky-200 transition hover:border-sky-300 hover:bg-sky-500/10"
+          >
+            {t.common.newSearch}
+          </Link>
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/30 bg-red-500/10 px-5 py-4 text-sm text-red-100">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="rounded-2xl border border-emerald-400/30 bg-emerald-500/10 px-5 py-4 text-sm text-emerald-100">
+            {notice}
+          </div>
+        )}
+
+        <section className="space-y-3 rounded-3xl border border-white/10 bg-white/10 p-6 backdrop-blur">
+          <h2 className="text-xs uppercase tracking-[0.2em] text-white/60">
+            {t.workspace.members}
+          </h2>
+          <ul className="divide-y divide-white/10">
+            {members.map((member) => (
+              <li
+                key={member.userId}
+                className="flex flex-wrap items-center justify-between gap-3 py-3 text-sm"
+              >
+                <div>
+                  <p className="font-medium text-white">
+                    {member.name}
+                    {member.userId === userId && (
+                      <span className="text-white/40">
+                        {" "}
+                        ({t.workspace.you})
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-white/50">
+                    {member.email} · {t.workspace.roles[member.role]}
+                  </p>
+                </div>
+                {(isOwner || member.userId === userId) && (
+                  <button
+                    type="button"
+                    disabled={pending}
+                    onClick={() => removeMember(member)}
+                    className={buttonClass}
+                  >
+                    {member.userId === userId
+                      ? t.workspace.leave
+                      : t.workspace.remove}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        {invitations.length > 0 && (
+          <section className="space-y-3 rounded-3xl border border-white/10 bg-white/10 p-6 backdrop-blur">
+            <h2 className="text-xs uppercase tracking-[0.2em] text-white/60">
+              {t.workspace.invitations}
+            </h2>
+            <ul className="divide-y divide-white/10">
+              {invitations.map((invitation) => (
+                <li
+                  key={invitation.email}
+                  className="flex flex-wrap items-center justify-between gap-3 py-3 text-sm"
+                >
+                  <div>
+                    <p className="font-medium text-white">{invitation.email}</p>
+                    <p className="text-xs text-white/50">
+                      {t.workspace.roles[invitation.role]} ·{" "}
+                      {t.workspace.invitedBy(
+                        invitation.invitedBy.name,
+                        formatDate(invitation.createdAt),
+                      )}
+                    </p>
+                  </div>
+                  {isOwner && (
+                    <button
+                      type="button"
+                      disabled={pending}
+                      onClick={() => revoke(invitation.email)}
+                      className={buttonClass}
+                    >
+                      {t.workspace.revoke}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {isOwner && (
+          <form
+            onSubmit={invite}
+            className="grid gap-4 rounded-3xl border border-white/10 bg-white/10 p-6 backdrop-blur md:grid-cols-[1fr_auto_auto] md:items-end"
+          >
+            <label className="space-y-2 text-sm text-white/80">
+              <span>{t.workspace.inviteEmail}</span>
+              <input
+                type="email"
+                value={inviteEmail}
+                onChange={(event) => setInviteEmail(event.target.value)}
+                required
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-2 text-sm text-white/80">
+              <span>{t.workspace.inviteRole}</span>
+              <select
+                value={inviteRole}
+                onChange={(event) =>
+                  setInviteRole(event.target.value as WorkspaceRole)
+                }
+                className={inputClass}
+              >
+                <option value="member">{t.workspace.roles.member}</option>
+                <option value="owner">{t.workspace.roles.owner}</option>
+              </select>
+            </label>
+            <button
+              type="submit"
+              disabled={pending}
+              className="rounded-full bg-sky-500 px-4 py-3 text-sm font-semibold text-slate-900 transition hover:bg-sky-400 disabled:opacity-50"
+            >
+              {t.workspace.invite}
+            </button>
+          </form>
+        )}
+
+        <form
+          onSubmit={create}
+          className="grid gap-4 rounded-3xl border border-white/10 bg-white/10 p-6 backdrop-blur md:grid-cols-[1fr_auto] md:items-end"
+        >
+          <p className="text-xs uppercase tracking-[0.2em] text-white/60 md:col-span-2">
+            {t.workspace.create}
+          </p>
+          <label className="space-y-2 text-sm text-white/80">
+            <span>{t.workspace.createName}</span>
+            <input
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              required
+              maxLength={80}
+              className={inputClass}
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={pending}
+            className="rounded-full bg-sky-500 px-4 py-3 text-sm font-semibold text-slate-900 transition hover:bg-sky-400 disabled:opacity-50"
+          >
+            {t.workspace.createSubmit}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
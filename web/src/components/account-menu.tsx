@@ -0,0 +1,119 @@
+'use client';
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+import { useI18n } from "./locale-provider";
+
+export type WorkspaceSummary = {
+  id: string;
+  name: string;
+  role: "owner" | "member";
+};
+
+type AccountMenuProps = {
+  userName: string;
+  workspaceId: string;
+  workspaces: WorkspaceSummary[];
+};
+
+export function AccountMenu({
+  userName,
+  workspaceId,
+  workspaces,
+}: AccountMenuProps) {
+  const { t } = useI18n();
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = workspaces.find((item) => item.id === workspaceId);
+
+  // Every page reads the session's workspace: reload rather than refetch.
+  const switchWorkspace = async (id: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/auth/session", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ workspaceId: id }),
+      });
+      if (!response.ok) {
+        throw new Error();
+      }
+      window.location.reload();
+    } catch {
+      setError(t.account.switchFailed);
+      setBusy(false);
+    }
+  };
+
+  const signOut = async () => {
+    setBusy(true);
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } finally {
+      router.push("/login");
+      router.refresh();
+    }
+  };
+
+  return (
+    <div className="fixed left-4 top-4 z-[1000] text-xs">
+      <button
+        type="button"
+        aria-expanded={open}
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-900/80 px-3 py-2 font-semibold text-white/70 backdrop-blur transition hover:text-white"
+      >
+        {userName}
+        {current && (
+          <span className="font-normal text-white/40">· {current.name}</span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute left-0 mt-2 w-64 space-y-3 rounded-2xl border border-white/10 bg-slate-900/95 p-4 text-white/80 shadow-xl backdrop-blur">
+          <label className="block space-y-1">
+            <span className="uppercase tracking-[0.2em] text-white/60">
+              {t.account.workspace}
+            </span>
+            <select
+              value={workspaceId}
+              disabled={busy || workspaces.length < 2}
+              onChange={(event) => switchWorkspace(event.target.value)}
+              className="w-full rounded-lg border border-white/10 bg-slate-900 px-3 py-2 text-sm text-white"
+            >
+              {workspaces.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.name} ({t.workspace.roles[item.role]})
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {error && <p className="text-red-200">{error}</p>}
+
+          <Link
+            href="/workspace"
+            onClick={() => setOpen(false)}
+            className="block text-sky-200 hover:text-sky-100"
+          >
+            {t.account.manage}
+          </Link>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={signOut}
+            className="block text-white/60 hover:text-white disabled:opacity-50"
+          >
+            {t.account.signOut}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from "react";
+
+import { useI18n } from "./locale-provider";
+
+export type IntegrationTarget = {
+  id: string;
+  name: string;
+  enabled: boolean;
+};
+
+type IntegrationPushProps = {
+  placeId: string;
+  integrations: IntegrationTarget[];
+};
+
+type Delivery = { status: "delivered" | "failed"; error?: string };
+
+export function IntegrationPush({
+  placeId,
+  integrations,
+}: IntegrationPushProps) {
+  const { t } = useI18n();
+  const [target, setTarget] = useState("");
+  const [pushing, setPushing] = useState(false);
+  const [outcome, setOutcome] = useState<{
+    message: string;
+    failed: boolean;
+  } | null>(null);
+
+  const push = async () => {
+    setPushing(true);
+    setOutcome(null);
+    try {
+      const response = await fetch("/api/integrations/push", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          placeIds: [placeId],
+          integrationIds: target ? [target] : undefined,
+        }),
+      });
+      const data: { deliveries?: Delivery[]; error?: string } =
+        await response.json();
+      if (!response.ok || !data.deliveries) {
+        setOutcome({
+          message: data.error ?? t.integrationPush.failed,
+          failed: true,
+        });
+        return;
+      }
+      const delivered = data.deliveries.filter(
+        (delivery) => delivery.status === "delivered",
+      ).length;
+      setOutcome({
+        message: [
+          t.integrationPush.done(delivered, data.deliveries.length),
+          ...data.deliveries.flatMap((delivery) =>
+            delivery.error ? [delivery.error] : [],
+          ),
+        ].join(" · "),
+        failed: delivered < data.deliveries.length,
+      });
+    } catch {
+      setOutcome({ message: t.common.networkError, failed: true });
+    } finally {
+      setPushing(false);
+    }
+  };
+
+  const active = integrations.filter((integration) => integration.enabled);
+  if (!active.length) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          disabled={pushing}
+          onClick={push}
+          className="rounded-full border border-violet-300/40 px-3 py-1 text-xs text-violet-100 transition hover:bg-violet-500/20 disabled:opacity-50"
+        >
+          {pushing ? t.integrationPush.pushing : t.integrationPush.push}
+        </button>
+        {active.length > 1 && (
+          <select
+            value={target}
+            onChange={(event) => setTarget(event.target.value)}
+            className="rounded-full border border-white/10 bg-slate-900 px-3 py-1 text-xs text-white/80"
+          >
+            <option value="">{t.integrationPush.all}</option>
+            {active.map((integration) => (
+              <option key={integration.id} value={integration.id}>
+                {integration.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {outcome && (
+        <p
+          className={`text-xs ${outcome.failed ? "text-red-200" : "text-violet-200"}`}
+        >
+          {outcome.message}
+        </p>
+      )}
+    </div>
+  );
+}
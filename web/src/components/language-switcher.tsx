@@ -0,0 +1,39 @@
+'use client';
+
+import { LOCALES, type Locale } from "@/i18n";
+
+import { useI18n } from "./locale-provider";
+
+const LOCALE_LABELS: Record<Locale, string> = {
+  fr: "FR",
+  en: "EN",
+};
+
+export function LanguageSwitcher() {
+  const { locale, t, setLocale } = useI18n();
+
+  return (
+    <div
+      role="group"
+      aria-label={t.common.language}
+      className="fixed right-4 top-4 z-[1000] flex gap-1 rounded-full border border-white/10 bg-slate-900/80 p-1 text-xs backdrop-blur"
+    >
+      {LOCALES.map((item) => (
+        <button
+          key={item}
+          type="button"
+          lang={item}
+          aria-pressed={item === locale}
+          onClick={() => setLocale(item)}
+          className={`rounded-full px-2.5 py-1 font-semibold tracking-wide transition ${
+            item === locale
+              ? "bg-sky-500 text-slate-900"
+              : "text-white/60 hover:text-white"
+          }`}
+        >
+          {LOCALE_LABELS[item]}
+        </button>
+      ))}
+    </div>
+  );
+}
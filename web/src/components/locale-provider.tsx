@@ -0,0 +1,56 @@
+'use client';
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+  useState,
+  type ReactNode,
+} from "react";
+
+import { getMessages, LOCALE_COOKIE, type Locale, type Messages } from "@/i18n";
+
+type LocaleContextValue = {
+  locale: Locale;
+  t: Messages;
+  setLocale: (locale: Locale) => void;
+};
+
+const COOKIE_MAX_AGE_SECONDS = 365 * 24 * 3600;
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+export function LocaleProvider({
+  initialLocale,
+  children,
+}: {
+  initialLocale: Locale;
+  children: ReactNode;
+}) {
+  const [locale, setLocaleState] = useState(initialLocale);
+
+  // The cookie also localizes API error messages, fetch sends it along.
+  const setLocale = useCallback((next: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${COOKIE_MAX_AGE_SECONDS}; samesite=lax`;
+    document.documentElement.lang = next;
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo(
+    () => ({ locale, t: getMessages(locale), setLocale }),
+    [locale, setLocale],
+  );
+
+  return (
+    <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>
+  );
+}
+
+export function useI18n() {
+  const value = useContext(LocaleContext);
+  if (!value) {
+    throw new Error("useI18n doit être utilisé sous un LocaleProvider.");
+  }
+  return value;
+}
@@ -0,0 +1,219 @@
+'use client';
+
+import { useRouter } from "next/navigation";
+import { FormEvent, useState } from "react";
+
+import { getMessages, localizeError, type Locale } from "@/i18n";
+
+import { useI18n } from "./locale-provider";
+
+type LoginMode = "password" | "register" | "magicLink";
+
+type ApiFailure = {
+  error?: string | { code: string; message: string };
+  details?: Record<string, string[]>;
+};
+
+const LOGIN_MODES: LoginMode[] = ["password", "register", "magicLink"];
+
+const ENDPOINTS: Record<LoginMode, string> = {
+  password: "/api/auth/login",
+  register: "/api/auth/register",
+  magicLink: "/api/auth/magic-link",
+};
+
+const inputClass =
+  "w-full rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3 text-sm text-white placeholder:text-white/40 focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40";
+
+// Rate limiting and mail errors come as API errors, the rest as text.
+function describeFailure(data: ApiFailure, locale: Locale) {
+  if (data.details) {
+    return Object.values(data.details).flat().join(", ");
+  }
+  if (typeof data.error === "object") {
+    return localizeError(data.error, locale).message;
+  }
+  return data.error ?? getMessages(locale).auth.failed;
+}
+
+type LoginFormProps = {
+  next: string;
+  linkError: boolean;
+};
+
+export function LoginForm({ next, linkError }: LoginFormProps) {
+  const { locale, t } = useI18n();
+  const router = useRouter();
+  const [mode, setMode] = useState<LoginMode>("password");
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [workspaceName, setWorkspaceName] = useState("");
+  const [pending, setPending] = useState(false);
+  const [linkSent, setLinkSent] = useState(false);
+  const [error, setError] = useState<string | null>(
+    linkError ? t.auth.linkInvalid : null,
+  );
+
+  const changeMode = (item: LoginMode) => {
+    setMode(item);
+    setError(null);
+    setLinkSent(false);
+  };
+
+  const submit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setPending(true);
+    setError(null);
+    const body =
+      mode === "password"
+        ? { email, password }
+        : mode === "register"
+          ? { name, email, password, workspaceName: workspaceName || undefined }
+          : { email, next };
+    try {
+      const response = await fetch(ENDPOINTS[mode], {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        setError(describeFailure(await response.json(), locale));
+        return;
+      }
+      if (mode === "magicLink") {
+        setLinkSent(true);
+        return;
+      }
+      // The page already filtered next; this guards against anything the
+      // URL parser would still resolve to another origin.
+      const target = new URL(next, window.location.origin);
+      router.push(
+        target.origin === window.location.origin
+          ? `${target.pathname}${target.search}${target.hash}`
+          : "/",
+      );
+      router.refresh();
+    } catch {
+      setError(t.common.networkError);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-zinc-900 to-slate-800 text-slate-100">
+      <div className="mx-auto flex max-w-md flex-col gap-8 px-6 pb-16 pt-24">
+        <header className="space-y-2">
+          <p className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs uppercase tracking-[0.2em] text-white/70">
+            {t.auth.badge}
+          </p>
+          <h1 className="text-3xl font-semibold">{t.auth.title}</h1>
+          <p className="text-sm text-slate-300">{t.auth.intro}</p>
+        </header>
+
+        <div
+          role="tablist"
+          className="flex gap-1 rounded-full border border-white/10 bg-slate-900/80 p-1 text-xs"
+        >
+          {LOGIN_MODES.map((item) => (
+            <button
+              key={item}
+              type="button"
+              role="tab"
+              aria-selected={item === mode}
+              onClick={() => changeMode(item)}
+              className={`flex-1 rounded-full px-3 py-2 font-semibold transition ${
+                item === mode
+                  ? "bg-sky-500 text-slate-900"
+                  : "text-white/60 hover:text-white"
+              }`}
+            >
+              {t.auth.modes[item]}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/30 bg-red-500/10 px-5 py-4 text-sm text-red-100">
+            {error}
+          </div>
+        )}
+
+        {linkSent ? (
+          <div className="rounded-2xl border border-emerald-400/30 bg-emerald-500/10 px-5 py-4 text-sm text-emerald-100">
+            {t.auth.linkSent}
+          </div>
+        ) : (
+          <form
+            onSubmit={submit}
+            className="space-y-4 rounded-3xl border border-white/10 bg-white/10 p-6 backdrop-blur"
+          >
+            {mode === "register" && (
+              <label className="block space-y-2 text-sm text-white/80">
+                <span>{t.auth.name}</span>
+                <input
+                  value={name}
+                  onChange={(event) => setName(event.target.value)}
+                  autoComplete="name"
+                  required
+                  className={inputClass}
+                />
+              </label>
+            )}
+            <label className="block space-y-2 text-sm text-white/80">
+              <span>{t.auth.email}</span>
+              <input
+                type="email"
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+                autoComplete="email"
+                required
+                className={inputClass}
+              />
+            </label>
+            {mode !== "magicLink" && (
+              <label className="block space-y-2 text-sm text-white/80">
+                <span>{t.auth.password}</span>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                  autoComplete={
+                    mode === "register" ? "new-password" : "current-password"
+                  }
+                  minLength={mode === "register" ? 8 : undefined}
+                  required
+                  className={inputClass}
+                />
+              </label>
+            )}
+            {mode === "register" && (
+              <label className="block space-y-2 text-sm text-white/80">
+                <span>{t.auth.workspaceName}</span>
+                <input
+                  value={workspaceName}
+                  onChange={(event) => setWorkspaceName(event.target.value)}
+                  className={inputClass}
+                />
+              </label>
+            )}
+            <button
+              type="submit"
+              disabled={pending}
+              className="w-full rounded-full bg-sky-500 px-4 py-3 text-sm font-semibold text-slate-900 transition hover:bg-sky-400 disabled:opacity-50"
+            >
+              {pending
+                ? t.auth.pending
+                : mode === "password"
+                  ? t.auth.signIn
+                  : mode === "register"
+                    ? t.auth.signUp
+                    : t.auth.sendLink}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
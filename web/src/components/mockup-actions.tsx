@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from "react";
+
+import { useI18n } from "./locale-provider";
+
+export type MockupLinks = {
+  id: string;
+  previewUrl: string;
+  downloadUrl: string;
+  pitchLine: string;
+};
+
+type MockupActionsProps = {
+  mockup?: MockupLinks;
+  busy: boolean;
+  onGenerate: () => void;
+  onAddToMessage?: (line: string) => void;
+  onCopyError: (message: string) => void;
+};
+
+export function MockupActions({
+  mockup,
+  busy,
+  onGenerate,
+  onAddToMessage,
+  onCopyError,
+}: MockupActionsProps) {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+
+  const copyLine = async (line: string) => {
+    try {
+      await navigator.clipboard.writeText(line);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 3000);
+    } catch {
+      onCopyError(t.common.copyFailed);
+    }
+  };
+
+  const linkClass =
+    "rounded-full border border-emerald-300/40 px-3 py-1 text-xs text-emerald-100 transition hover:bg-emerald-500/20";
+
+  return (
+    <div className="space-y-2 rounded-2xl border border-emerald-400/30 bg-emerald-500/10 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs uppercase tracking-[0.2em] text-emerald-200">
+          {t.mockup.title}
+        </p>
+        <button
+          type="button"
+          disabled={busy}
+          onClick={onGenerate}
+          className="rounded-full bg-emerald-400 px-3 py-1 text-xs font-semibold text-slate-900 disabled:opacity-50"
+        >
+          {busy
+            ? t.mockup.generating
+            : mockup
+              ? t.mockup.regenerate
+              : t.mockup.generate}
+        </button>
+      </div>
+      {mockup && (
+        <div className="flex flex-wrap gap-2">
+          <a
+            href={mockup.previewUrl}
+            target="_blank"
+            rel="noreferrer"
+            className={linkClass}
+          >
+            {t.mockup.preview}
+          </a>
+          <a href={mockup.downloadUrl} className={linkClass}>
+            {t.mockup.download}
+          </a>
+          <button
+            type="button"
+            onClick={() => copyLine(mockup.pitchLine)}
+            className={linkClass}
+          >
+            {copied ? t.mockup.copied : t.mockup.copyLine}
+          </button>
+          {onAddToMessage && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => onAddToMessage(mockup.pitchLine)}
+              className={`${linkClass} disabled:opacity-50`}
+            >
+              {t.mockup.addToMessage}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
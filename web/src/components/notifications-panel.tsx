@@ -0,0 +1,178 @@
+'use client';
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+import { getMessages, type Locale } from "@/i18n";
+
+import { useI18n } from "./locale-provider";
+
+type SearchAlert = {
+  id: string;
+  kind: "new-prospect" | "website-removed";
+  savedSearchName: string;
+  placeId: string;
+  name?: string;
+  address?: string;
+  googleMapsUrl?: string;
+  createdAt: string;
+  readAt?: string;
+  webhook?: { status: "sent" | "failed" };
+};
+
+const POLL_INTERVAL_MS = 60_000;
+const VISIBLE_ALERTS = 30;
+
+async function fetchAlerts(locale: Locale) {
+  const t = getMessages(locale);
+  let response: Response;
+  try {
+    response = await fetch("/api/alerts");
+  } catch {
+    throw new Error(t.common.networkError);
+  }
+  const data: { alerts?: SearchAlert[]; error?: string } =
+    await response.json();
+  if (!response.ok) {
+    throw new Error(data.error ?? t.notifications.loadFailed);
+  }
+  return data.alerts ?? [];
+}
+
+export function NotificationsPanel() {
+  const { locale, t } = useI18n();
+  const [alerts, setAlerts] = useState<SearchAlert[]>([]);
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () =>
+      fetchAlerts(locale)
+        .then((items) => {
+          setAlerts(items);
+          setError(null);
+        })
+        .catch((err: Error) => setError(err.message));
+    load();
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [locale]);
+
+  const markAllRead = async () => {
+    try {
+      const response = await fetch("/api/alerts", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      if (response.ok) {
+        const now = new Date().toISOString();
+        setAlerts((current) =>
+          current.map((alert) => ({ ...alert, readAt: alert.readAt ?? now })),
+        );
+      }
+    } catch {
+      setError(t.common.networkError);
+    }
+  };
+
+  const unread = alerts.filter((alert) => !alert.readAt).length;
+
+  return (
+    <div className="fixed right-28 top-4 z-[1000] text-xs">
+      <button
+        type="button"
+        aria-expanded={open}
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-900/80 px-3 py-2 font-semibold text-white/70 backdrop-blur transition hover:text-white"
+      >
+        {t.notifications.open}
+        {unread > 0 && (
+          <span className="rounded-full bg-amber-400 px-1.5 text-[11px] text-slate-900">
+            {unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 space-y-3 rounded-2xl border border-white/10 bg-slate-900/95 p-4 text-white/80 shadow-xl backdrop-blur">
+          <div className="flex items-center justify-between gap-2">
+            <p className="uppercase tracking-[0.2em] text-white/60">
+              {t.notifications.title}
+            </p>
+            {unread > 0 && (
+              <button
+                type="button"
+                onClick={markAllRead}
+                className="text-sky-200 hover:text-sky-100"
+              >
+                {t.notifications.markAllRead}
+              </button>
+            )}
+          </div>
+
+          {error && <p className="text-red-200">{error}</p>}
+          {!error && alerts.length === 0 && (
+            <p className="text-white/50">{t.notifications.empty}</p>
+          )}
+
+          <ul className="max-h-96 space-y-2 overflow-y-auto">
+            {alerts.slice(0, VISIBLE_ALERTS).map((alert) => (
+              <li
+                key={alert.id}
+                className={`space-y-1 rounded-xl border p-2 ${
+                  alert.readAt
+                    ? "border-white/5 bg-white/5"
+                    : "border-amber-300/40 bg-amber-400/10"
+                }`}
+              >
+                <p className="text-[11px] uppercase tracking-wide text-amber-200">
+                  {t.notifications.kinds[alert.kind]}
+                </p>
+                {alert.googleMapsUrl ? (
+                  <a
+                    href={alert.googleMapsUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="block text-sm font-medium text-white hover:text-sky-200"
+                  >
+                    {alert.name ?? alert.placeId}
+                  </a>
+                ) : (
+                  <p className="text-sm font-medium text-white">
+                    {alert.name ?? alert.placeId}
+                  </p>
+                )}
+                {alert.address && (
+                  <p className="text-white/60">{alert.address}</p>
+                )}
+                <p className="text-white/40">
+                  {t.notifications.from(
+                    alert.savedSearchName,
+                    new Date(alert.createdAt).toLocaleString(locale, {
+                      dateStyle: "short",
+                      timeStyle: "short",
+                    }),
+                  )}
+                </p>
+                {alert.webhook?.status === "failed" && (
+                  <p className="text-red-200">
+                    {t.notifications.webhookFailed}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <Link
+            href="/saved-searches"
+            onClick={() => setOpen(false)}
+            className="block text-center text-sky-200 hover:text-sky-100"
+          >
+            {t.notifications.manage}
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
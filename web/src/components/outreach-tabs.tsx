@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from "react";
+
+import { useI18n } from "./locale-provider";
+
+export type OutreachContent = {
+  email?: { subject: string; body: string };
+  sms?: string;
+  dm?: string;
+  call?: {
+    opening: string;
+    points: string[];
+    objections: Array<{ objection: string; answer: string }>;
+  };
+};
+
+type OutreachTabsProps = {
+  message: string;
+  channels?: OutreachContent;
+  onCopyError: (message: string) => void;
+};
+
+type Tab = "message" | keyof OutreachContent;
+
+const SMS_MAX_LENGTH = 160;
+
+const countWords = (text: string) =>
+  text.trim() ? text.trim().split(/\s+/).length : 0;
+
+function formatCallScript(call: NonNullable<OutreachContent["call"]>) {
+  return [
+    call.opening,
+    ...call.points.map((point) => `- ${point}`),
+    ...call.objections.map(
+      ({ objection, answer }) => `« ${objection} » → ${answer}`,
+    ),
+  ].join("\n");
+}
+
+function Counter({ children, over }: { children: string; over?: boolean }) {
+  return (
+    <span
+      className={`text-[11px] ${over ? "font-semibold text-red-300" : "text-white/50"}`}
+    >
+      {children}
+    </span>
+  );
+}
+
+export function OutreachTabs({
+  message,
+  channels,
+  onCopyError,
+}: OutreachTabsProps) {
+  const { t } = useI18n();
+  const [tab, setTab] = useState<Tab>("message");
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const tabs: Tab[] = [
+    "message",
+    ...(["email", "sms", "dm", "call"] as const).filter(
+      (channel) => channels?.[channel],
+    ),
+  ];
+  const current = tabs.includes(tab) ? tab : "message";
+
+  const copy = async (text: string, key: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      setTimeout(() => setCopied(null), 3000);
+    } catch {
+      onCopyError(t.common.copyFailed);
+    }
+  };
+
+  const copyButton = (text: string, key: string, label: string) => (
+    <button
+      type="button"
+      onClick={() => copy(text, key)}
+      className="text-xs font-semibold uppercase tracking-[0.2em] text-sky-300 transition hover:text-sky-200"
+    >
+      {copied === key ? t.outreach.copied : label}
+    </button>
+  );
+
+  const email = channels?.email;
+  const call = channels?.call;
+
+  return (
+    <div className="space-y-3">
+      {tabs.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {tabs.map((item) => (
+            <button
+              key={item}
+              type="button"
+              onClick={() => setTab(item)}
+              className={`rounded-full border px-3 py-1 text-[11px] uppercase tracking-wide transition ${
+                current === item
+                  ? "border-sky-300 bg-sky-500/20 text-sky-100"
+                  : "border-white/15 text-white/60 hover:border-sky-300/50"
+              }`}
+            >
+              {t.outreach.tabs[item]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {current === "message" && (
+        <>
+          <div className="whitespace-pre-line rounded-xl bg-slate-950/40 p-3 text-sm text-white/90">
+            {message}
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            {copyButton(message, "message", t.outreach.copyMessage)}
+            <Counter>{t.outreach.words(countWords(message))}</Counter>
+          </div>
+        </>
+      )}
+
+      {current === "email" && email && (
+        <>
+          <div className="space-y-2 rounded-xl bg-slate-950/40 p-3 text-sm text-white/90">
+            <p>
+              <span className="text-white/50">{t.outreach.subject} </span>
+              {email.subject}
+            </p>
+            <p className="whitespace-pre-line">{email.body}</p>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap gap-4">
+              {copyButton(email.subject, "subject", t.outreach.copySubject)}
+              {copyButton(email.body, "email", t.outreach.copyEmail)}
+            </div>
+            <Counter>{t.outreach.words(countWords(email.body))}</Counter>
+          </div>
+        </>
+      )}
+
+      {current === "sms" && channels?.sms && (
+        <>
+          <div className="rounded-xl bg-slate-950/40 p-3 text-sm text-white/90">
+            {channels.sms}
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            {copyButton(channels.sms, "sms", t.outreach.copySms)}
+            <Counter over={channels.sms.length > SMS_MAX_LENGTH}>
+              {t.outreach.characters(channels.sms.length, SMS_MAX_LENGTH)}
+            </Counter>
+          </div>
+        </>
+      )}
+
+      {current === "dm" && channels?.dm && (
+        <>
+          <div className="rounded-xl bg-slate-950/40 p-3 text-sm text-white/90">
+            {channels.dm}
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            {copyButton(channels.dm, "dm", t.outreach.copyDm)}
+            <Counter>{t.outreach.characters(channels.dm.length)}</Counter>
+          </div>
+        </>
+      )}
+
+      {current === "call" && call && (
+        <>
+          <div className="space-y-3 rounded-xl bg-slate-950/40 p-3 text-sm text-white/90">
+            <p>{call.opening}</p>
+            <ul className="list-disc space-y-1 pl-5">
+              {call.points.map((point) => (
+                <li key={point}>{point}</li>
+              ))}
+            </ul>
+            <div className="space-y-2">
+              <p className="text-xs uppercase tracking-[0.2em] text-sky-200">
+                {t.outreach.objections}
+              </p>
+              {call.objections.map(({ objection, answer }) => (
+                <p key={objection}>
+                  <span className="text-white/60">« {objection} »</span>{" "}
+                  {answer}
+                </p>
+              ))}
+            </div>
+          </div>
+          {copyButton(formatCallScript(call), "call", t.outreach.copyScript)}
+        </>
+      )}
+    </div>
+  );
+}
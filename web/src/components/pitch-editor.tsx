@@ -0,0 +1,213 @@
+'use client';
+
+import { FormEvent, useState } from "react";
+
+import { useI18n } from "./locale-provider";
+import type { OutreachContent } from "./outreach-tabs";
+
+export type EditablePitch = {
+  vibeSummary: string;
+  angle: string;
+  personalizedMessage: string;
+  channels?: OutreachContent;
+};
+
+export type PitchVersion = {
+  id: string;
+  pitch: EditablePitch;
+  source: string;
+  instructions?: string;
+  createdAt: string;
+};
+
+type PitchEditorProps = {
+  pitch: EditablePitch;
+  history: PitchVersion[];
+  busy: boolean;
+  onRegenerate: (instructions?: string) => void;
+  onSave: (pitch: EditablePitch) => Promise<boolean>;
+};
+
+type EditableField = "vibeSummary" | "angle" | "personalizedMessage";
+
+const editableFields: EditableField[] = [
+  "vibeSummary",
+  "angle",
+  "personalizedMessage",
+];
+
+export function PitchEditor({
+  pitch,
+  history,
+  busy,
+  onRegenerate,
+  onSave,
+}: PitchEditorProps) {
+  const { locale, t } = useI18n();
+  const [instructions, setInstructions] = useState("");
+  const [draft, setDraft] = useState<EditablePitch | null>(null);
+  const [viewedId, setViewedId] = useState("");
+
+  const viewed = history.find((version) => version.id === viewedId);
+  const current = history.at(-1);
+
+  const submitTweak = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (instructions.trim()) {
+      onRegenerate(instructions.trim());
+      setInstructions("");
+    }
+  };
+
+  const save = async (next: EditablePitch) => {
+    if (await onSave(next)) {
+      setDraft(null);
+      setViewedId("");
+    }
+  };
+
+  const describeVersion = (version: PitchVersion, index: number) =>
+    t.pitchEditor.version(
+      index + 1,
+      new Date(version.createdAt).toLocaleString(locale, {
+        dateStyle: "short",
+        timeStyle: "short",
+      }),
+      version.source === "edit"
+        ? t.pitchEditor.edited
+        : (version.instructions ?? t.pitchEditor.regenerated),
+    );
+
+  if (draft) {
+    return (
+      <div className="space-y-2 rounded-xl border border-white/10 bg-slate-950/40 p-3">
+        {editableFields.map((field) => (
+          <label key={field} className="block space-y-1 text-xs text-sky-200">
+            <span>{t.pitchEditor.fields[field]}</span>
+            <textarea
+              value={draft[field]}
+              onChange={(event) =>
+                setDraft({ ...draft, [field]: event.target.value })
+              }
+              rows={field === "personalizedMessage" ? 6 : 2}
+              className="w-full rounded-lg border border-white/10 bg-slate-900 px-3 py-2 text-sm text-white outline-none focus:border-sky-400"
+            />
+          </label>
+        ))}
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => setDraft(null)}
+            className="rounded-full border border-white/15 px-3 py-1 text-xs text-white/70 hover:text-white"
+          >
+            {t.pitchEditor.cancel}
+          </button>
+          <button
+            type="button"
+            disabled={
+              busy || editableFields.some((field) => !draft[field].trim())
+            }
+            onClick={() => save(draft)}
+            className="rounded-full bg-sky-500 px-3 py-1 text-xs font-semibold text-slate-900 disabled:opacity-50"
+          >
+            {busy ? t.pitchEditor.saving : t.pitchEditor.save}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => onRegenerate()}
+          className="rounded-full border border-sky-300/40 px-3 py-1 text-xs text-sky-100 hover:bg-sky-500/20 disabled:opacity-50"
+        >
+          {busy ? t.pitchEditor.regenerating : t.pitchEditor.regenerate}
+        </button>
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => setDraft(pitch)}
+          className="rounded-full border border-sky-300/40 px-3 py-1 text-xs text-sky-100 hover:bg-sky-500/20 disabled:opacity-50"
+        >
+          {t.pitchEditor.edit}
+        </button>
+        {history.length > 1 && (
+          <select
+            value={viewedId}
+            onChange={(event) => setViewedId(event.target.value)}
+            aria-label={t.pitchEditor.history}
+            className="ml-auto max-w-[14rem] rounded-full border border-white/10 bg-slate-900 px-3 py-1 text-xs text-white/80"
+          >
+            <option value="">
+              {t.pitchEditor.historyCount(history.length)}
+            </option>
+            {history
+              .map((version, index) => ({ version, index }))
+              .reverse()
+              .map(({ version, index }) => (
+                <option key={version.id} value={version.id}>
+                  {describeVersion(version, index)}
+                  {version.id === current?.id
+                    ? ` (${t.pitchEditor.current})`
+                    : ""}
+                </option>
+              ))}
+          </select>
+        )}
+      </div>
+
+      <form onSubmit={submitTweak} className="flex gap-2">
+        <input
+          value={instructions}
+          onChange={(event) => setInstructions(event.target.value)}
+          maxLength={280}
+          placeholder={t.pitchEditor.tweakPlaceholder}
+          aria-label={t.pitchEditor.tweak}
+          className="min-w-0 flex-1 rounded-full border border-white/10 bg-slate-900 px-3 py-1 text-xs text-white outline-none focus:border-sky-400"
+        />
+        <button
+          type="submit"
+          disabled={busy || !instructions.trim()}
+          className="rounded-full bg-sky-500 px-3 py-1 text-xs font-semibold text-slate-900 disabled:opacity-50"
+        >
+          {t.pitchEditor.apply}
+        </button>
+      </form>
+      <div className="flex flex-wrap gap-1">
+        {t.pitchEditor.suggestions.map((suggestion) => (
+          <button
+            key={suggestion}
+            type="button"
+            disabled={busy}
+            onClick={() => onRegenerate(suggestion)}
+            className="rounded-full border border-white/10 px-2 py-0.5 text-[11px] text-white/60 hover:text-white disabled:opacity-50"
+          >
+            {suggestion}
+          </button>
+        ))}
+      </div>
+
+      {viewed && viewed.id !== current?.id && (
+        <div className="space-y-2 rounded-xl border border-white/10 bg-slate-950/40 p-3 text-sm text-white/70">
+          <p className="text-xs text-white/50">{viewed.pitch.angle}</p>
+          <p className="whitespace-pre-line">
+            {viewed.pitch.personalizedMessage}
+          </p>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => save(viewed.pitch)}
+            className="rounded-full border border-sky-300/40 px-3 py-1 text-xs text-sky-100 hover:bg-sky-500/20 disabled:opacity-50"
+          >
+            {t.pitchEditor.restore}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
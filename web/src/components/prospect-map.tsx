@@ -0,0 +1,139 @@
+'use client';
+
+import "leaflet/dist/leaflet.css";
+
+import type { LayerGroup, Map as LeafletMap } from "leaflet";
+import { useEffect, useRef, useState } from "react";
+
+type Coordinates = { lat: number; lng: number };
+
+export type MapProspect = {
+  placeId: string;
+  name?: string;
+  location: Coordinates;
+  color: string;
+};
+
+type ProspectMapProps = {
+  center?: Coordinates;
+  radius?: number;
+  prospects: MapProspect[];
+  selectedId: string | null;
+  onSelect: (placeId: string) => void;
+};
+
+const TILE_URL =
+  process.env.NEXT_PUBLIC_MAP_TILE_URL ??
+  "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+const TILE_ATTRIBUTION =
+  process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION ??
+  "&copy; OpenStreetMap contributors";
+
+type Leaflet = typeof import("leaflet");
+
+export function ProspectMap({
+  center,
+  radius,
+  prospects,
+  selectedId,
+  onSelect,
+}: ProspectMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<{ L: Leaflet; map: LeafletMap; layers: LayerGroup }>(
+    null,
+  );
+  const [ready, setReady] = useState(false);
+
+  // Leaflet touches `window` on import, so it is only loaded in the browser.
+  useEffect(() => {
+    let cancelled = false;
+    import("leaflet").then((L) => {
+      if (cancelled || !containerRef.current) {
+        return;
+      }
+      const map = L.map(containerRef.current, { scrollWheelZoom: false });
+      L.tileLayer(TILE_URL, {
+        attribution: TILE_ATTRIBUTION,
+        maxZoom: 19,
+      }).addTo(map);
+      mapRef.current = { L, map, layers: L.layerGroup().addTo(map) };
+      setReady(true);
+    });
+
+    return () => {
+      cancelled = true;
+      mapRef.current?.map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!ready || !mapRef.current) {
+      return;
+    }
+    const { L, layers } = mapRef.current;
+    layers.clearLayers();
+
+    if (center && radius) {
+      L.circle([center.lat, center.lng], {
+        radius,
+        color: "#38bdf8",
+        weight: 1,
+        fillOpacity: 0.05,
+      }).addTo(layers);
+    }
+
+    for (const prospect of prospects) {
+      const selected = prospect.placeId === selectedId;
+      // Leaflet writes string content as HTML, and OSM names are anyone's
+      // to edit.
+      const label = document.createElement("span");
+      label.textContent = prospect.name ?? prospect.placeId;
+      L.circleMarker([prospect.location.lat, prospect.location.lng], {
+        radius: selected ? 11 : 7,
+        color: selected ? "#ffffff" : prospect.color,
+        weight: selected ? 3 : 1,
+        fillColor: prospect.color,
+        fillOpacity: 0.9,
+      })
+        .bindTooltip(label)
+        .on("click", () => onSelect(prospect.placeId))
+        .addTo(layers);
+    }
+  }, [ready, center, radius, prospects, selectedId, onSelect]);
+
+  useEffect(() => {
+    if (!ready || !mapRef.current) {
+      return;
+    }
+    const { L, map } = mapRef.current;
+    if (center && radius) {
+      map.fitBounds(L.latLng(center.lat, center.lng).toBounds(radius * 2));
+    } else if (prospects.length) {
+      map.fitBounds(
+        L.latLngBounds(
+          prospects.map(({ location }) => [location.lat, location.lng]),
+        ),
+        { padding: [24, 24], maxZoom: 16 },
+      );
+    } else {
+      map.setView([46.6, 2.4], 5);
+    }
+  }, [ready, center, radius, prospects]);
+
+  useEffect(() => {
+    const selected = prospects.find(
+      (prospect) => prospect.placeId === selectedId,
+    );
+    if (ready && selected) {
+      mapRef.current?.map.panTo([selected.location.lat, selected.location.lng]);
+    }
+  }, [ready, prospects, selectedId]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="h-96 w-full overflow-hidden rounded-3xl border border-white/10"
+    />
+  );
+}
@@ -0,0 +1,711 @@
+import type { Messages } from "./fr";
+
+export const en: Messages = {
+  common: {
+    networkError: "Network error, please try again in a moment.",
+    genericError: "Something went wrong.",
+    copyFailed: "Could not copy to the clipboard. Copy it manually.",
+    newSearch: "New search",
+    viewOnMaps: "View on Maps",
+    addressMissing: "No address listed",
+    language: "Interface language",
+  },
+  errors: {
+    INVALID_INPUT: "Invalid input.",
+    RATE_LIMITED: "Too many searches in a short time, try again in a moment.",
+    DAILY_BUDGET_EXCEEDED: "Daily budget reached, try again tomorrow.",
+    CONFIG_ERROR: "Invalid service configuration.",
+    LOCATION_NOT_FOUND: "This area could not be located.",
+    QUOTA_EXCEEDED: "Provider quota exceeded.",
+    REQUEST_DENIED: "The provider denied the request.",
+    INVALID_REQUEST: "The provider rejected the request.",
+    UPSTREAM_TIMEOUT: "The provider did not respond in time.",
+    UPSTREAM_UNAVAILABLE: "The provider is temporarily unavailable.",
+    UPSTREAM_ERROR: "The provider returned an unexpected response.",
+    INTERNAL_ERROR: "An unexpected error occurred.",
+  },
+  errorHints: {
+    LOCATION_NOT_FOUND: "Be more specific: city, postcode or country.",
+    QUOTA_EXCEEDED:
+      "The provider quota is reached: wait a few minutes or check the API key billing.",
+    REQUEST_DENIED:
+      "Check that the API key is valid and that the relevant API is enabled.",
+    UPSTREAM_TIMEOUT:
+      "The service is taking too long to respond: try again or reduce the radius.",
+    UPSTREAM_UNAVAILABLE:
+      "The service is temporarily unavailable: try again in a moment.",
+    CONFIG_ERROR: "Check the server configuration (.env file).",
+  },
+  api: {
+    invalidRequest: "Invalid request.",
+    jobNotFound: "Job not found.",
+    mockupNotFound: "Mockup not found.",
+    prospectNotFound: "Prospect not found.",
+    unknownStatus: "Unknown status.",
+    noPhoneToExport: "No prospect has a phone number to export.",
+    invalidDays: "The days parameter must be between 1 and 365.",
+    templateNotFound: "Prompt template not found.",
+    savedSearchNotFound: "Saved search not found.",
+    savedSearchRunning: "This search is already running.",
+    integrationNotFound: "Integration not found.",
+    noIntegration: "No active integration: set one up in Integrations.",
+    unauthorized: "Sign-in required.",
+    invalidCredentials: "Wrong email or password.",
+    emailTaken: "An account already exists for this email.",
+    signupClosed: "Sign-up is closed: ask a team member for an invitation.",
+    verifyEmail:
+      "This address has a pending invitation: request a sign-in link by email to confirm it.",
+    workspaceNotFound: "Workspace not found.",
+    ownerOnly: "Only workspace owners can do that.",
+    memberNotFound: "Member not found.",
+    lastOwner: "The workspace must keep at least one owner.",
+    invitationNotFound: "Invitation not found.",
+  },
+  audit: {
+    none: "No website listed.",
+    invalidUrl: "The website address is invalid.",
+    socialOnly: (host: string) => `The link only leads to a page on ${host}.`,
+    redirectsToSocial: (host: string) =>
+      `The website redirects to a page on ${host}.`,
+    unreachable: (reason: string) => `The website cannot be reached: ${reason}`,
+    networkError: "network error.",
+    noHttps: "The website is not served over HTTPS.",
+    notMobileFriendly: "The website is not mobile-friendly (no viewport tag).",
+    outdatedCopyright: (year: number) =>
+      `The copyright notice is still stuck in ${year}.`,
+    noMetaDescription: "No meta description for search engines.",
+  },
+  validation: {
+    queryTooShort: "The query must be at least 2 characters long.",
+    locationInvalid: "Enter a valid area.",
+    radiusTooSmall: "The minimum radius is 500 meters.",
+    radiusTooLarge: "The maximum radius is 50 km.",
+    batchQueryTooShort: "Each query must be at least 2 characters long.",
+    batchQueriesMissing: "Enter at least one query.",
+    batchLocationInvalid: "Each area must be valid.",
+    batchLocationsMissing: "Enter at least one area.",
+    batchTooLarge: (max: number) =>
+      `Batch mode is limited to ${max} combinations.`,
+    nameTooShort: "The name must be at least 2 characters long.",
+    agencyNameMissing: "Enter the agency name.",
+    portfolioUrlInvalid: "Invalid portfolio link.",
+    unknownVariables: (names: string) => `Unknown variables: ${names}.`,
+    instructionsTooShort:
+      "The instructions must be at least 20 characters long.",
+    urlInvalid: "Invalid address.",
+    secretTooShort: "The secret must be at least 16 characters long.",
+    webhookUrlMissing: "Enter the webhook address.",
+    apiTokenMissing: "Enter the CRM API token.",
+    cronInvalid: "Invalid cron expression (minute hour day month weekday).",
+    cronTooFrequent:
+      "A saved search runs at most once an hour: enter a single minute.",
+    webhookUrlInvalid: "Invalid webhook address.",
+  },
+  upstreamErrors: {
+    rateLimited: (upstream: string) =>
+      `${upstream} is rate limiting requests (HTTP 429).`,
+    unavailable: (upstream: string, status: number) =>
+      `${upstream} is unavailable (HTTP ${status}).`,
+    denied: (upstream: string, status: number) =>
+      `${upstream} denied the request (HTTP ${status}).`,
+    rejected: (upstream: string, status: number) =>
+      `${upstream} rejected the request (HTTP ${status}).`,
+    timeout: (upstream: string, seconds: number) =>
+      `${upstream} did not respond within ${seconds.toLocaleString("en-US")} s.`,
+    unreachable: (upstream: string) => `${upstream} is unreachable.`,
+    unreadable: (upstream: string) =>
+      `${upstream} returned an unreadable response.`,
+    googleQuota: (detail: string) => `Google quota exceeded${detail}.`,
+    googleDenied: (detail: string) => `Google denied the request${detail}.`,
+    googleUnavailable: (detail: string) =>
+      `Temporary error on Google's side${detail}.`,
+    googleInvalid: (detail: string) => `Invalid Google request${detail}.`,
+    googleStatus: (status: string, detail: string) =>
+      `Google returned the status ${status}${detail}.`,
+  },
+  searchRun: {
+    noBusiness: "No business found for this combination.",
+    partialFailure:
+      "Some listings could not be analyzed: run the search again in a moment.",
+    belowMinScore: (score: number) =>
+      `No business reaches the minimum score of ${score}.`,
+    allSeen:
+      "No new business without a website: the others were already seen or excluded.",
+    noFinding: "No issue was found on the websites of these businesses.",
+    allHaveWebsite: "The businesses found already have a website.",
+    noPitch: "No pitch was returned for this business.",
+  },
+  pitchParse: {
+    noJson: "Unreadable model response (no JSON object).",
+    malformedJson: "Unreadable model response (malformed JSON).",
+    wrongShape: (issues: string) => `Model response out of format (${issues}).`,
+    invalidEntry: (issues: string) => `Invalid entry (${issues}).`,
+    missingEntry: "No entry returned for this business.",
+    smsTooLong: (max: number) => `The SMS must be at most ${max} characters.`,
+    missingChannels: (channels: string) => `Expected channels: ${channels}.`,
+    unreachable: "Pitch generator unreachable.",
+  },
+  reviewInsights: {
+    title: "What reviews say",
+    sentiment: {
+      positive: "Mostly positive",
+      mixed: "Mixed",
+      negative: "Mostly negative",
+    },
+    readReviews: (count) => `Read the reviews (${count})`,
+    anonymous: "Anonymous",
+    praised: {
+      booking: "Easy to book",
+      hours: "Convenient opening hours",
+      phone: "Easy to reach",
+      online: "Helpful online information",
+      menu: "Menu well liked",
+      wait: "Quick service",
+      price: "Good value for money",
+      service: "Warm welcome",
+      quality: "Quality praised",
+      ambiance: "Atmosphere well liked",
+      cleanliness: "Clean place",
+    },
+    complaints: {
+      booking: "Hard to book",
+      hours: "Opening hours missing or unreliable",
+      phone: "Hard to reach by phone",
+      online: "Missing online information",
+      menu: "Menu hard to find",
+      wait: "Waiting time too long",
+      price: "Prices seen as high",
+      service: "Inconsistent welcome",
+      quality: "Inconsistent quality",
+      ambiance: "Setting could be improved",
+      cleanliness: "Cleanliness could be improved",
+    },
+  },
+  scoreFactors: {
+    rating: "Rating",
+    reviews: "Review count",
+    status: "Activity",
+    category: "Category",
+    openingHours: "Opening hours",
+    phone: "Phone",
+    website: "Website",
+  },
+  prospectStatuses: {
+    nouveau: "New",
+    contacte: "Contacted",
+    relance: "Followed up",
+    rdv: "Meeting",
+    signe: "Signed",
+    perdu: "Lost",
+  },
+  outreach: {
+    tabs: {
+      message: "Message",
+      email: "Email",
+      sms: "SMS",
+      dm: "Instagram DM",
+      call: "Call script",
+    },
+    subject: "Subject:",
+    objections: "Objections",
+    copied: "Copied ✓",
+    copyMessage: "Copy message",
+    copySubject: "Copy subject",
+    copyEmail: "Copy email",
+    copySms: "Copy SMS",
+    copyDm: "Copy DM",
+    copyScript: "Copy script",
+    words: (count) => `${count} words`,
+    characters: (count, max) =>
+      max ? `${count}/${max} characters` : `${count} characters`,
+  },
+  pitchEditor: {
+    regenerate: "Regenerate",
+    regenerating: "Generating...",
+    edit: "Edit",
+    cancel: "Cancel",
+    save: "Save",
+    saving: "Saving...",
+    tweak: "Rewrite instruction",
+    tweakPlaceholder: "E.g. shorter, mention the reviews…",
+    apply: "Apply",
+    suggestions: [
+      "Shorter",
+      "Mention the reviews",
+      "More formal",
+      "End with a question",
+    ],
+    fields: {
+      vibeSummary: "Perceived vibe",
+      angle: "Recommended angle",
+      personalizedMessage: "Message to send",
+    },
+    history: "Message versions",
+    historyCount: (count) => `${count} versions`,
+    version: (index, date, label) => `v${index} · ${date} · ${label}`,
+    current: "current",
+    edited: "edited by hand",
+    regenerated: "regenerated",
+    restore: "Restore this version",
+  },
+  mockup: {
+    title: "Website mockup",
+    generate: "Generate a mockup",
+    generating: "Building the mockup...",
+    regenerate: "New mockup",
+    preview: "View mockup",
+    download: "Download (.zip)",
+    copyLine: "Copy the sentence",
+    copied: "Copied ✓",
+    addToMessage: "Add to message",
+  },
+  search: {
+    badge: "AI agent · Web prospecting",
+    usageLink: "Usage",
+    prospectsLink: "My prospects",
+    settingsLink: "Settings",
+    savedSearchesLink: "Saved searches",
+    integrationsLink: "Integrations",
+    title: "Find businesses without a website,",
+    titleHighlight: "catch their vibe and send a message that converts.",
+    intro:
+      "Pick a type of business and an area, and let the agent scan Google Maps to surface high-impact opportunities. Each card includes a sharp angle and a message ready to send.",
+    form: {
+      batchMode: "Batch mode: several queries × several areas",
+      query: "Business type or keyword",
+      queryPlaceholder: "E.g. barber shop, yoga studio, etc.",
+      queryBatchPlaceholder: "One query per line\nhairdresser\nbarber",
+      location: "Target area",
+      locationPlaceholder: "City, district, neighbourhood...",
+      locationBatchPlaceholder: "One area per line\nBrussels\nGeneva",
+      radius: "Search radius",
+      maxResults: "Maximum number of prospects",
+      minScore: "Minimum score",
+      sortBy: "Sort by",
+      sortByScore: "Opportunity score",
+      sortByRelevance: "Search relevance",
+      vibe: "Desired vibe (optional)",
+      vibePlaceholder: "Style, positioning, ideal audience...",
+      tone: "Message tone (optional)",
+      tones: {
+        default: "Default tone",
+        warm: "Very warm",
+        premium: "Premium",
+        direct: "Straight to the point",
+        creative: "Creative",
+      },
+      language: "Message language",
+      languageAuto: "Automatic (country of the area)",
+      excludeSeen: "Skip businesses already pitched or contacted",
+      audit:
+        "Also audit existing websites (unreachable, social media only, outdated...)",
+      channels: "Outreach channels",
+      template: "Prompt template",
+      defaultTemplate: "Default prompt",
+      refresh: "Force refresh (bypass the cache)",
+      background: "Run as a background job (up to 40 prospects)",
+      submit: "Run the agent",
+      submitting: "Searching...",
+      saveSearch: "Save this search",
+      savingSearch: "Saving...",
+      searchSaved:
+        "Search saved: it will run again every Monday at 8 am.",
+    },
+    pitchLanguages: {
+      fr: "French",
+      en: "English",
+      es: "Spanish",
+      nl: "Dutch",
+      de: "German",
+    },
+    job: {
+      statuses: {
+        queued: "Queued",
+        running: "Running",
+        completed: "Completed",
+        failed: "Failed",
+        cancelled: "Cancelled",
+      },
+      steps: {
+        geocode: "Locating the area",
+        places: "Searching businesses",
+        details: "Analysing listings",
+        pitch: "Writing messages",
+        done: "Done",
+      },
+      title: (status) => `Job ${status.toLowerCase()}`,
+      progress: ({ totalFound, placesScanned, businesses, target, pitched }) =>
+        `${totalFound} businesses found · ${placesScanned} listings analysed · ${businesses} / ${target} prospects · ${pitched} messages`,
+      cancel: "Cancel",
+      cancelFailed: "Could not cancel the job.",
+      trackFailed: "Could not track the job.",
+    },
+    progress: {
+      locating: "Locating the area",
+      located: "Area located",
+      page: (page) => `Results page ${page} analysed`,
+      added: (name) => `${name ?? "A business"} added`,
+      writing: "Writing messages",
+      summary: (found, enriched, pitched) =>
+        `${found} businesses found · ${enriched} prospects · ${pitched} messages`,
+    },
+    partialKept: "The results obtained so far are kept below.",
+    metadata: {
+      query: "Query",
+      withoutWebsite: "Prospects without a website",
+      pages: "Pages fetched",
+      scanned: (count) => `${count} listings analysed`,
+      skippedSeen: "Already seen, skipped",
+      skippedLowScore: "Below minimum score",
+      audited: "Websites audited",
+      language: "Message language",
+      template: "Template",
+      cache: "Cache",
+      cacheCalls: (hits, misses) => `${hits} hits · ${misses} calls`,
+      refreshed: " (refreshed)",
+      executedAt: "Run at",
+    },
+    partialResults: "Partial results",
+    combinations: {
+      query: "Query",
+      location: "Area",
+      found: "Found",
+      withoutWebsite: "No website",
+      duplicates: "Duplicates",
+      incidents: "Incidents",
+    },
+    empty:
+      "No business without a website in this area. Try another keyword, widen the radius or change city.",
+    export: {
+      label: "Export",
+      contacts: "Contacts (.vcf)",
+      exporting: "Exporting...",
+      failed: "Export failed.",
+    },
+    map: {
+      label: "Map",
+      show: "Show",
+      hide: "Hide",
+      colorByScore: "Color by score",
+      colorByStatus: "Color by status",
+      missingCoordinates: (count) =>
+        `${count} business(es) without coordinates are not shown on the map.`,
+    },
+    card: {
+      reviews: (rating, count) => `⭐ ${rating} (${count ?? 0} reviews)`,
+      noReviews: "⭐ No public reviews",
+      foundVia: "Found via",
+      whyScore: "Why this score?",
+      vibe: "Perceived vibe",
+      fallbackNotice: "Fallback message, the AI generator failed:",
+      angle: "Recommended angle",
+      message: "Message to send",
+      generating: "Generating message...",
+      notGenerated: (reason) =>
+        `Message not generated (${reason}). You can still reach out to this business with your own pitch.`,
+      emptyResponse: "empty generator response",
+      openingHours: "Opening hours & insights",
+    },
+    generators: {
+      template: "Built-in template",
+    },
+  },
+  usage: {
+    badge: "Quotas · API costs",
+    title: "Usage",
+    loadFailed: "Could not load usage.",
+    today: "Today",
+    noBudget: "No daily budget configured (DAILY_BUDGET_USD).",
+    empty: "No search recorded over the period.",
+    columns: {
+      day: "Day",
+      searches: "Searches",
+      geocode: "Geocoding",
+      textSearch: "Text Search",
+      details: "Details",
+      tokens: "LLM tokens",
+      cost: "Cost",
+    },
+    recent: "Latest searches",
+    entry: (query, location) => `“${query}” in ${location}`,
+    by: (name) => `by ${name}`,
+  },
+  settings: {
+    badge: "Settings · Prompts",
+    title: "Agency profile and prompt templates",
+    loadFailed: "Could not load settings.",
+    saveFailed: "Could not save.",
+    saved: "Saved ✓",
+    agency: {
+      title: "Agency profile",
+      intro:
+        "This is passed to the generator so messages mention your agency and offers, and end with your signature.",
+      name: "Agency name",
+      description: "About",
+      offers: "Offers and prices",
+      offersPlaceholder:
+        "One offer per line: name | price\nShowcase site | from €990",
+      portfolio: "Portfolio",
+      portfolioPlaceholder: "One link per line",
+      signature: "Signature",
+      save: "Save profile",
+    },
+    templates: {
+      title: "Prompt templates",
+      intro:
+        "A template replaces the system prompt and instructions of the default prompt. Business data, language, channels and the JSON format are always appended.",
+      empty: "No template yet.",
+      create: "New template",
+      name: "Name",
+      description: "Description",
+      system: "System prompt (optional)",
+      instructions: "Instructions",
+      note: "Version note (optional)",
+      version: "Version",
+      versionLabel: (version, date) => `v${version} · ${date}`,
+      save: "Save as a new version",
+      saveNew: "Create template",
+      remove: "Delete",
+      confirmRemove: "Delete this template and all its versions?",
+      variables: "Available variables",
+      businessVariablesHint:
+        "business.* variables make one request per business.",
+    },
+    preview: {
+      title: "Prompt preview",
+      run: "Preview",
+      running: "Rendering...",
+      sample: (name) => `Rendered for the sample business “${name}”.`,
+      failed: "Could not render the preview.",
+    },
+    variables: {
+      "business.name": "Business name",
+      "business.address": "Address",
+      "business.phone": "Phone",
+      "business.rating": "Google rating",
+      "business.reviews": "Review count",
+      "business.types": "Categories",
+      "business.summary": "Google description",
+      "business.findings": "Website audit findings",
+      "business.praised": "Strengths found in reviews",
+      "business.complaints": "Complaints found in reviews",
+      query: "Search query",
+      vibe: "Desired vibe",
+      tone: "Tone",
+      language: "Message language",
+      "agency.name": "Agency name",
+      "agency.description": "Agency description",
+      "agency.offers": "Offers and prices",
+      "agency.portfolio": "Portfolio links",
+      "agency.signature": "Signature",
+    },
+  },
+  savedSearches: {
+    badge: "Monitoring · Saved searches",
+    title: "Saved searches",
+    intro:
+      "Each search runs again on its schedule. Website-less businesses that appeared since the last run, or whose website disappeared, show up in the alerts.",
+    loadFailed: "Could not load saved searches.",
+    saveFailed: "Could not save.",
+    empty:
+      "No saved search yet. Save a search from the home page or create one below.",
+    create: "New saved search",
+    edit: "Edit",
+    name: "Name",
+    query: "Business type or keyword",
+    location: "Area",
+    radius: "Radius (meters)",
+    maxResults: "Prospects per run",
+    audit: "Include websites worth improving (audit)",
+    schedule: "Schedule",
+    cron: "Cron expression (minute hour day month weekday)",
+    presets: {
+      daily: "Every day at 8 am",
+      weekdays: "Monday to Friday at 8 am",
+      weekly: "Every Monday at 8 am",
+      monthly: "On the 1st of the month at 8 am",
+    },
+    custom: "Custom (cron)",
+    webhookUrl: "Webhook (optional)",
+    webhookHint: "Receives one JSON POST per alert.",
+    enabled: "Schedule enabled",
+    save: "Save",
+    cancel: "Cancel",
+    runNow: "Run now",
+    running: "Running...",
+    pause: "Pause",
+    resume: "Resume",
+    remove: "Delete",
+    confirmRemove: "Delete this saved search?",
+    summary: (query, location, radius) =>
+      `“${query}” in ${location} · ${radius / 1000} km`,
+    nextRun: (date) => `Next run: ${date}`,
+    paused: "Paused",
+    knownPlaces: (count) =>
+      `${count} tracked business${count === 1 ? "" : "es"}`,
+    lastRun: "Latest runs",
+    noRun: "Never run.",
+    runStatuses: {
+      running: "running",
+      completed: "completed",
+      failed: "failed",
+    },
+    runTriggers: {
+      schedule: "scheduled",
+      manual: "manual",
+    },
+    runLabel: (date, trigger, status) => `${date} · ${trigger} · ${status}`,
+    runBy: (trigger, name) => `${trigger} by ${name}`,
+    runBaseline: "baseline recorded",
+    runOutcome: (scanned, alerts) =>
+      `${scanned} place${scanned === 1 ? "" : "s"} · ${alerts} alert${alerts === 1 ? "" : "s"}`,
+  },
+  notifications: {
+    open: "Alerts",
+    title: "Saved search alerts",
+    empty: "No alert yet.",
+    loadFailed: "Could not load alerts.",
+    markAllRead: "Mark all as read",
+    manage: "Manage searches",
+    kinds: {
+      "new-prospect": "New website-less business",
+      "website-removed": "Website disappeared",
+    },
+    from: (name, date) => `Via “${name}” · ${date}`,
+    webhookFailed: "Webhook delivery failed",
+  },
+  integrations: {
+    badge: "Integrations · CRM",
+    title: "Outbound integrations",
+    intro:
+      "Send prospects to a webhook, HubSpot or Pipedrive, on demand from a card or automatically after each search.",
+    loadFailed: "Could not load integrations.",
+    saveFailed: "Could not save.",
+    empty: "No integration yet.",
+    create: "New integration",
+    edit: "Edit",
+    name: "Name",
+    kind: "Type",
+    kinds: {
+      webhook: "Webhook",
+      hubspot: "HubSpot",
+      pipedrive: "Pipedrive",
+    },
+    webhookUrl: "Webhook URL",
+    apiUrl: "API URL (optional, for a test server)",
+    secret: "HMAC signing secret (optional, at least 16 characters)",
+    apiToken: "API token",
+    keepSecret: "Leave empty to keep the saved value",
+    autoPush: "Send prospects automatically after each search",
+    enabled: "Enabled",
+    disabled: "Disabled",
+    save: "Save",
+    cancel: "Cancel",
+    test: "Test",
+    testing: "Testing...",
+    remove: "Delete",
+    confirmRemove: "Delete this integration?",
+    auto: "Automatic push",
+    deliveredLeads: (count) =>
+      `${count} prospect${count === 1 ? "" : "s"} sent`,
+    deliveries: "Delivery log",
+    noDelivery: "No delivery yet.",
+    triggers: {
+      manual: "manual",
+      search: "after search",
+      test: "test",
+    },
+    statuses: {
+      delivered: "delivered",
+      failed: "failed",
+    },
+    attempts: (count) => `${count} attempt${count === 1 ? "" : "s"}`,
+  },
+  integrationPush: {
+    push: "Send to CRM",
+    pushing: "Sending...",
+    all: "All active integrations",
+    done: (delivered, total) =>
+      `${delivered}/${total} deliver${total === 1 ? "y" : "ies"} succeeded`,
+    failed: "Delivery failed.",
+  },
+  prospects: {
+    badge: "Pipeline · Prospects",
+    title: "Prospect tracking",
+    all: "All",
+    loadFailed: "Could not load prospects.",
+    updateFailed: "Update failed.",
+    empty:
+      "No prospect saved with this status. Run a search to fill your pipeline.",
+    foundVia: (query, location, date) =>
+      `Found via “${query}” in ${location} · added on ${date}`,
+    angle: "Recommended angle",
+    status: "Status",
+    notes: "Notes",
+    notePlaceholder: "Add a note...",
+    addNote: "Add",
+    by: (name) => `by ${name}`,
+  },
+  auth: {
+    badge: "Account · Sign in",
+    title: "Sign in",
+    intro: "Sign in to run searches and find your team's prospects.",
+    modes: {
+      password: "Password",
+      register: "Create an account",
+      magicLink: "Magic link",
+    },
+    name: "Name",
+    email: "Email",
+    password: "Password",
+    workspaceName: "Workspace name (optional)",
+    signIn: "Sign in",
+    signUp: "Create account",
+    sendLink: "Email me a sign-in link",
+    pending: "One moment...",
+    linkSent:
+      "If this address can sign in, a link valid for 15 minutes was just sent to it.",
+    linkInvalid: "This sign-in link is invalid or has expired: ask for a new one.",
+    failed: "Could not sign in.",
+    magicLinkEmail: {
+      subject: "Your sign-in link",
+      body: (link) =>
+        `Hello,\n\nFollow this link to sign in (valid for 15 minutes, once):\n${link}\n\nIf you did not ask for it, ignore this email.`,
+    },
+  },
+  account: {
+    workspace: "Workspace",
+    manage: "Manage team",
+    signOut: "Sign out",
+    switchFailed: "Could not switch workspace.",
+  },
+  workspace: {
+    badge: "Team · Workspace",
+    intro:
+      "Prospects, saved searches, jobs and integrations are shared by the workspace members.",
+    loadFailed: "Could not load the workspace.",
+    saveFailed: "Change failed.",
+    members: "Members",
+    you: "you",
+    roles: {
+      owner: "Owner",
+      member: "Member",
+    },
+    remove: "Remove",
+    leave: "Leave workspace",
+    confirmRemove: (name) => `Remove ${name} from the workspace?`,
+    confirmLeave: "Leave this workspace?",
+    invitations: "Pending invitations",
+    invitedBy: (name, date) => `invited by ${name} on ${date}`,
+    revoke: "Cancel",
+    invite: "Invite",
+    inviteEmail: "Email",
+    inviteRole: "Role",
+    invited: (email) =>
+      `${email} will join the workspace when signing in with an emailed link.`,
+    added: (email) => `${email} joined the workspace.`,
+    create: "New workspace",
+    createName: "Name",
+    createSubmit: "Create and open",
+  },
+};
@@ -0,0 +1,749 @@
+import type { WorkspaceRole } from "@/server/auth";
+import type { IntegrationKind } from "@/server/integrations";
+import type { PitchLanguage, PromptVariable } from "@/server/pitch";
+import type { ProspectStatus } from "@/server/prospects";
+import type { ReviewTheme } from "@/server/reviews";
+import type { AlertKind } from "@/server/saved-searches";
+import type { ScoreFactorKey } from "@/server/scoring";
+import type { ErrorCode } from "@/server/upstream";
+
+export const fr = {
+  common: {
+    networkError: "Erreur réseau, réessaie dans quelques instants.",
+    genericError: "Une erreur est survenue.",
+    copyFailed:
+      "Impossible de copier dans le presse-papiers. Copie manuellement.",
+    newSearch: "Nouvelle recherche",
+    viewOnMaps: "Voir sur Maps",
+    addressMissing: "Adresse non renseignée",
+    language: "Langue de l'interface",
+  },
+  errors: {
+    INVALID_INPUT: "Entrée invalide.",
+    RATE_LIMITED: "Trop de recherches rapprochées, réessaie dans un instant.",
+    DAILY_BUDGET_EXCEEDED: "Budget quotidien atteint, réessaie demain.",
+    CONFIG_ERROR: "Configuration du service invalide.",
+    LOCATION_NOT_FOUND: "Impossible de localiser cette zone.",
+    QUOTA_EXCEEDED: "Quota du fournisseur dépassé.",
+    REQUEST_DENIED: "Le fournisseur a refusé la requête.",
+    INVALID_REQUEST: "Le fournisseur a rejeté la requête.",
+    UPSTREAM_TIMEOUT: "Le fournisseur n'a pas répondu à temps.",
+    UPSTREAM_UNAVAILABLE: "Le fournisseur est momentanément indisponible.",
+    UPSTREAM_ERROR: "Le fournisseur a renvoyé une réponse inattendue.",
+    INTERNAL_ERROR: "Une erreur inattendue est survenue.",
+  } satisfies Record<ErrorCode, string>,
+  errorHints: {
+    LOCATION_NOT_FOUND: "Précise la zone : ville, code postal ou pays.",
+    QUOTA_EXCEEDED:
+      "Le quota du fournisseur est atteint : patiente quelques minutes ou vérifie la facturation de la clé API.",
+    REQUEST_DENIED:
+      "Vérifie que la clé API est valide et que l'API concernée est activée.",
+    UPSTREAM_TIMEOUT:
+      "Le service met trop de temps à répondre : réessaie ou réduis le rayon.",
+    UPSTREAM_UNAVAILABLE:
+      "Le service est momentanément indisponible : réessaie dans quelques instants.",
+    CONFIG_ERROR: "Vérifie la configuration du serveur (fichier .env).",
+  } as Partial<Record<ErrorCode, string>>,
+  api: {
+    invalidRequest: "Requête invalide.",
+    jobNotFound: "Tâche introuvable.",
+    mockupNotFound: "Maquette introuvable.",
+    prospectNotFound: "Prospect introuvable.",
+    unknownStatus: "Statut inconnu.",
+    noPhoneToExport: "Aucun prospect n'a de numéro de téléphone à exporter.",
+    invalidDays: "Le paramètre days doit être compris entre 1 et 365.",
+    templateNotFound: "Modèle de prompt introuvable.",
+    savedSearchNotFound: "Recherche enregistrée introuvable.",
+    savedSearchRunning: "Cette recherche est déjà en cours d'exécution.",
+    integrationNotFound: "Intégration introuvable.",
+    noIntegration:
+      "Aucune intégration active : configure-en une dans Intégrations.",
+    unauthorized: "Connexion requise.",
+    invalidCredentials: "E-mail ou mot de passe incorrect.",
+    emailTaken: "Un compte existe déjà pour cet e-mail.",
+    signupClosed:
+      "Les inscriptions sont fermées : demande une invitation à un membre de l'équipe.",
+    verifyEmail:
+      "Cette adresse a reçu une invitation : demande un lien de connexion par e-mail pour la confirmer.",
+    workspaceNotFound: "Espace de travail introuvable.",
+    ownerOnly: "Seuls les propriétaires de l'espace peuvent faire cela.",
+    memberNotFound: "Membre introuvable.",
+    lastOwner: "L'espace doit garder au moins un propriétaire.",
+    invitationNotFound: "Invitation introuvable.",
+  },
+  audit: {
+    none: "Aucun site web référencé.",
+    invalidUrl: "L'adresse du site est invalide.",
+    socialOnly: (host: string) =>
+      `Le lien renvoie uniquement vers une page ${host}.`,
+    redirectsToSocial: (host: string) =>
+      `Le site redirige vers une page ${host}.`,
+    unreachable: (reason: string) => `Le site est inaccessible : ${reason}`,
+    networkError: "erreur réseau.",
+    noHttps: "Le site n'est pas servi en HTTPS.",
+    notMobileFriendly:
+      "Le site n'est pas adapté au mobile (aucune balise viewport).",
+    outdatedCopyright: (year: number) =>
+      `La mention de copyright est restée figée en ${year}.`,
+    noMetaDescription: "Aucune meta description pour le référencement.",
+  },
+  validation: {
+    queryTooShort: "La requête doit contenir au moins 2 caractères.",
+    locationInvalid: "Indique une zone géographique valide.",
+    radiusTooSmall: "Le rayon minimum est de 500 mètres.",
+    radiusTooLarge: "Le rayon maximum est de 50 km.",
+    batchQueryTooShort: "Chaque requête doit contenir au moins 2 caractères.",
+    batchQueriesMissing: "Indique au moins une requête.",
+    batchLocationInvalid: "Chaque zone doit être valide.",
+    batchLocationsMissing: "Indique au moins une zone.",
+    batchTooLarge: (max: number) =>
+      `Le mode batch est limité à ${max} combinaisons.`,
+    nameTooShort: "Le nom doit contenir au moins 2 caractères.",
+    agencyNameMissing: "Indique le nom de l'agence.",
+    portfolioUrlInvalid: "Lien de portfolio invalide.",
+    unknownVariables: (names: string) => `Variables inconnues : ${names}.`,
+    instructionsTooShort:
+      "Les instructions doivent contenir au moins 20 caractères.",
+    urlInvalid: "Adresse invalide.",
+    secretTooShort: "Le secret doit contenir au moins 16 caractères.",
+    webhookUrlMissing: "Indique l'adresse du webhook.",
+    apiTokenMissing: "Indique le jeton d'API du CRM.",
+    cronInvalid:
+      "Expression cron invalide (minute heure jour mois jour-de-semaine).",
+    cronTooFrequent:
+      "Une recherche enregistrée tourne au plus une fois par heure : indique une seule minute.",
+    webhookUrlInvalid: "Adresse de webhook invalide.",
+  },
+  // Written without a request locale: other locales show errors[code].
+  upstreamErrors: {
+    rateLimited: (upstream: string) =>
+      `${upstream} limite le nombre de requêtes (HTTP 429).`,
+    unavailable: (upstream: string, status: number) =>
+      `${upstream} est indisponible (HTTP ${status}).`,
+    denied: (upstream: string, status: number) =>
+      `${upstream} a refusé la requête (HTTP ${status}).`,
+    rejected: (upstream: string, status: number) =>
+      `${upstream} a rejeté la requête (HTTP ${status}).`,
+    timeout: (upstream: string, seconds: number) =>
+      `${upstream} n'a pas répondu en moins de ${seconds.toLocaleString("fr-FR")} s.`,
+    unreachable: (upstream: string) => `${upstream} est injoignable.`,
+    unreadable: (upstream: string) =>
+      `${upstream} a renvoyé une réponse illisible.`,
+    googleQuota: (detail: string) => `Quota Google dépassé${detail}.`,
+    googleDenied: (detail: string) => `Google a refusé la requête${detail}.`,
+    googleUnavailable: (detail: string) =>
+      `Erreur temporaire côté Google${detail}.`,
+    googleInvalid: (detail: string) => `Requête Google invalide${detail}.`,
+    googleStatus: (status: string, detail: string) =>
+      `Google a retourné le statut ${status}${detail}.`,
+  },
+  searchRun: {
+    noBusiness: "Aucun commerce trouvé pour cette combinaison.",
+    partialFailure:
+      "Certaines fiches n'ont pas pu être analysées : relance la recherche dans quelques instants.",
+    belowMinScore: (score: number) =>
+      `Aucun commerce n'atteint le score minimum de ${score}.`,
+    allSeen:
+      "Aucun nouveau commerce sans site web : les autres ont déjà été vus ou exclus.",
+    noFinding:
+      "Les sites des commerces trouvés ne présentent aucun défaut détecté.",
+    allHaveWebsite: "Les commerces trouvés disposent déjà d'un site web.",
+    noPitch: "Aucun pitch retourné pour ce commerce.",
+  },
+  pitchParse: {
+    noJson: "Réponse du modèle illisible (aucun objet JSON).",
+    malformedJson: "Réponse du modèle illisible (JSON malformé).",
+    wrongShape: (issues: string) =>
+      `Réponse du modèle hors format (${issues}).`,
+    invalidEntry: (issues: string) => `Entrée invalide (${issues}).`,
+    missingEntry: "Aucune entrée retournée pour ce commerce.",
+    smsTooLong: (max: number) => `Le SMS doit faire au plus ${max} caractères.`,
+    missingChannels: (channels: string) => `Canaux attendus : ${channels}.`,
+    unreachable: "Générateur de pitch injoignable.",
+  },
+  reviewInsights: {
+    title: "Ce que disent les avis",
+    sentiment: {
+      positive: "Plutôt positif",
+      mixed: "Mitigé",
+      negative: "Plutôt négatif",
+    },
+    readReviews: (count: number) => `Lire les avis (${count})`,
+    anonymous: "Anonyme",
+    praised: {
+      booking: "Réservation facile",
+      hours: "Horaires pratiques",
+      phone: "Facile à joindre",
+      online: "Informations en ligne appréciées",
+      menu: "Carte appréciée",
+      wait: "Service rapide",
+      price: "Bon rapport qualité-prix",
+      service: "Accueil chaleureux",
+      quality: "Qualité des produits saluée",
+      ambiance: "Ambiance appréciée",
+      cleanliness: "Lieu propre",
+    } satisfies Record<ReviewTheme, string>,
+    complaints: {
+      booking: "Difficile de réserver",
+      hours: "Horaires introuvables ou peu fiables",
+      phone: "Difficile à joindre par téléphone",
+      online: "Informations en ligne manquantes",
+      menu: "Carte difficile à consulter",
+      wait: "Attente jugée trop longue",
+      price: "Prix jugés élevés",
+      service: "Accueil inégal",
+      quality: "Qualité inégale",
+      ambiance: "Cadre à revoir",
+      cleanliness: "Propreté à améliorer",
+    } satisfies Record<ReviewTheme, string>,
+  },
+  scoreFactors: {
+    rating: "Note",
+    reviews: "Volume d'avis",
+    status: "Activité",
+    category: "Catégorie",
+    openingHours: "Horaires",
+    phone: "Téléphone",
+    website: "Site web",
+  } satisfies Record<ScoreFactorKey, string>,
+  prospectStatuses: {
+    nouveau: "Nouveau",
+    contacte: "Contacté",
+    relance: "Relancé",
+    rdv: "RDV",
+    signe: "Signé",
+    perdu: "Perdu",
+  } satisfies Record<ProspectStatus, string>,
+  outreach: {
+    tabs: {
+      message: "Message",
+      email: "Email",
+      sms: "SMS",
+      dm: "DM Instagram",
+      call: "Script d'appel",
+    },
+    subject: "Objet :",
+    objections: "Objections",
+    copied: "Copié ✓",
+    copyMessage: "Copier le message",
+    copySubject: "Copier l'objet",
+    copyEmail: "Copier l'email",
+    copySms: "Copier le SMS",
+    copyDm: "Copier le DM",
+    copyScript: "Copier le script",
+    words: (count: number) => `${count} mots`,
+    characters: (count: number, max?: number) =>
+      max ? `${count}/${max} caractères` : `${count} caractères`,
+  },
+  pitchEditor: {
+    regenerate: "Régénérer",
+    regenerating: "Génération...",
+    edit: "Modifier",
+    cancel: "Annuler",
+    save: "Enregistrer",
+    saving: "Enregistrement...",
+    tweak: "Consigne de modification",
+    tweakPlaceholder: "Ex. plus court, mentionne les avis…",
+    apply: "Appliquer",
+    suggestions: [
+      "Plus court",
+      "Mentionne les avis",
+      "Plus formel",
+      "Termine par une question",
+    ],
+    fields: {
+      vibeSummary: "Vibe perçue",
+      angle: "Angle recommandé",
+      personalizedMessage: "Message à envoyer",
+    },
+    history: "Versions du message",
+    historyCount: (count: number) => `${count} versions`,
+    version: (index: number, date: string, label: string) =>
+      `v${index} · ${date} · ${label}`,
+    current: "actuelle",
+    edited: "modifié à la main",
+    regenerated: "régénéré",
+    restore: "Restaurer cette version",
+  },
+  mockup: {
+    title: "Maquette de site",
+    generate: "Générer une maquette",
+    generating: "Création de la maquette...",
+    regenerate: "Nouvelle maquette",
+    preview: "Voir la maquette",
+    download: "Télécharger (.zip)",
+    copyLine: "Copier la phrase",
+    copied: "Copié ✓",
+    addToMessage: "Ajouter au message",
+  },
+  search: {
+    badge: "Agent IA · Prospection Web",
+    usageLink: "Consommation",
+    prospectsLink: "Mes prospects",
+    settingsLink: "Réglages",
+    savedSearchesLink: "Recherches enregistrées",
+    integrationsLink: "Intégrations",
+    title: "Détecte les commerces sans site web,",
+    titleHighlight: "trouve la vibe parfaite et lance un message qui convertit.",
+    intro:
+      "Sélectionne un type de commerce, une zone, et laisse l’agent analyser Google Maps pour révéler les opportunités à fort impact. Chaque fiche inclut un angle d'attaque affûté et un message prêt à être envoyé.",
+    form: {
+      batchMode: "Mode batch : plusieurs requêtes × plusieurs zones",
+      query: "Type de commerce ou mot-clé",
+      queryPlaceholder: "Ex: barber shop, yoga studio, etc.",
+      queryBatchPlaceholder: "Une requête par ligne\ncoiffeur\nbarbier",
+      location: "Zone géographique ciblée",
+      locationPlaceholder: "Ville, arrondissement, quartier...",
+      locationBatchPlaceholder: "Une zone par ligne\nParis 11e\nParis 18e",
+      radius: "Rayon d'analyse",
+      maxResults: "Nombre maximum de prospects",
+      minScore: "Score minimum",
+      sortBy: "Trier par",
+      sortByScore: "Score d'opportunité",
+      sortByRelevance: "Pertinence de la recherche",
+      vibe: "Vibe recherchée (optionnel)",
+      vibePlaceholder: "Style, positionnement, cible idéale...",
+      tone: "Tonalité du message (optionnel)",
+      tones: {
+        default: "Tonalité par défaut",
+        warm: "Très chaleureuse",
+        premium: "Premium",
+        direct: "Ultra direct",
+        creative: "Créatif",
+      },
+      language: "Langue des messages",
+      languageAuto: "Automatique (pays de la zone)",
+      excludeSeen: "Ignorer les commerces déjà proposés ou contactés",
+      audit:
+        "Auditer aussi les sites existants (inaccessibles, réseaux sociaux, datés...)",
+      channels: "Canaux de prospection",
+      template: "Modèle de prompt",
+      defaultTemplate: "Prompt par défaut",
+      refresh: "Forcer l'actualisation (ignorer le cache)",
+      background: "Exécuter en tâche de fond (jusqu'à 40 prospects)",
+      submit: "Lancer l'agent",
+      submitting: "Analyse en cours...",
+      saveSearch: "Enregistrer la recherche",
+      savingSearch: "Enregistrement...",
+      searchSaved:
+        "Recherche enregistrée : elle sera relancée chaque lundi à 8 h.",
+    },
+    pitchLanguages: {
+      fr: "Français",
+      en: "Anglais",
+      es: "Espagnol",
+      nl: "Néerlandais",
+      de: "Allemand",
+    } satisfies Record<PitchLanguage, string>,
+    job: {
+      statuses: {
+        queued: "En attente",
+        running: "En cours",
+        completed: "Terminée",
+        failed: "Échouée",
+        cancelled: "Annulée",
+      },
+      steps: {
+        geocode: "Localisation de la zone",
+        places: "Recherche des commerces",
+        details: "Analyse des fiches",
+        pitch: "Rédaction des messages",
+        done: "Terminé",
+      },
+      title: (status: string) => `Tâche ${status.toLowerCase()}`,
+      progress: ({
+        totalFound,
+        placesScanned,
+        businesses,
+        target,
+        pitched,
+      }: {
+        totalFound: number;
+        placesScanned: number;
+        businesses: number;
+        target: number;
+        pitched: number;
+      }) =>
+        `${totalFound} commerces trouvés · ${placesScanned} fiches analysées · ${businesses} / ${target} prospects · ${pitched} messages`,
+      cancel: "Annuler",
+      cancelFailed: "Annulation impossible.",
+      trackFailed: "Impossible de suivre la tâche.",
+    },
+    progress: {
+      locating: "Localisation de la zone",
+      located: "Zone localisée",
+      page: (page: number) => `Page ${page} de résultats analysée`,
+      added: (name?: string) => `${name ?? "Un commerce"} ajouté`,
+      writing: "Rédaction des messages",
+      summary: (found: number, enriched: number, pitched: number) =>
+        `${found} commerces trouvés · ${enriched} prospects · ${pitched} messages`,
+    },
+    partialKept: "Les résultats déjà obtenus sont conservés ci-dessous.",
+    metadata: {
+      query: "Requête",
+      withoutWebsite: "Prospects sans site",
+      pages: "Pages parcourues",
+      scanned: (count: number) => `${count} fiches analysées`,
+      skippedSeen: "Déjà vus ignorés",
+      skippedLowScore: "Sous le score minimum",
+      audited: "Sites audités",
+      language: "Langue des messages",
+      template: "Modèle",
+      cache: "Cache",
+      cacheCalls: (hits: number, misses: number) =>
+        `${hits} hits · ${misses} appels`,
+      refreshed: " (actualisé)",
+      executedAt: "Exécution",
+    },
+    partialResults: "Résultats partiels",
+    combinations: {
+      query: "Requête",
+      location: "Zone",
+      found: "Trouvés",
+      withoutWebsite: "Sans site",
+      duplicates: "Doublons",
+      incidents: "Incidents",
+    },
+    empty:
+      "Aucun commerce sans site web dans cette zone. Essaie un autre mot-clé, élargis le rayon ou change de ville.",
+    export: {
+      label: "Exporter",
+      contacts: "Contacts (.vcf)",
+      exporting: "Export...",
+      failed: "Export impossible.",
+    },
+    map: {
+      label: "Carte",
+      show: "Afficher",
+      hide: "Masquer",
+      colorByScore: "Couleur par score",
+      colorByStatus: "Couleur par statut",
+      missingCoordinates: (count: number) =>
+        `${count} commerce(s) sans coordonnées ne figurent pas sur la carte.`,
+    },
+    card: {
+      reviews: (rating: string, count?: number) =>
+        `⭐ ${rating} (${count ?? 0} avis)`,
+      noReviews: "⭐ Aucun avis public",
+      foundVia: "Trouvé via",
+      whyScore: "Pourquoi ce score ?",
+      vibe: "Vibe perçue",
+      fallbackNotice: "Message de secours, le générateur IA a échoué :",
+      angle: "Angle recommandé",
+      message: "Message à envoyer",
+      generating: "Génération du message en cours...",
+      notGenerated: (reason: string) =>
+        `Message non généré (${reason}). Tu peux tout de même contacter ce commerce avec ton propre pitch.`,
+      emptyResponse: "réponse vide du générateur",
+      openingHours: "Horaires & insights",
+    },
+    generators: {
+      template: "Modèle intégré",
+    },
+  },
+  usage: {
+    badge: "Quotas · Coûts API",
+    title: "Consommation",
+    loadFailed: "Impossible de charger la consommation.",
+    today: "Aujourd'hui",
+    noBudget: "Aucun budget quotidien configuré (DAILY_BUDGET_USD).",
+    empty: "Aucune recherche enregistrée sur la période.",
+    columns: {
+      day: "Jour",
+      searches: "Recherches",
+      geocode: "Géocodage",
+      textSearch: "Text Search",
+      details: "Détails",
+      tokens: "Tokens LLM",
+      cost: "Coût",
+    },
+    recent: "Dernières recherches",
+    entry: (query: string, location: string) => `« ${query} » à ${location}`,
+    by: (name: string) => `par ${name}`,
+  },
+  settings: {
+    badge: "Réglages · Prompts",
+    title: "Profil agence et modèles de prompt",
+    loadFailed: "Impossible de charger les réglages.",
+    saveFailed: "Enregistrement impossible.",
+    saved: "Enregistré ✓",
+    agency: {
+      title: "Profil de l'agence",
+      intro:
+        "Ces informations sont transmises au générateur pour que les messages parlent de ton agence, de tes offres et se terminent par ta signature.",
+      name: "Nom de l'agence",
+      description: "Présentation",
+      offers: "Offres et tarifs",
+      offersPlaceholder:
+        "Une offre par ligne : nom | prix\nSite vitrine | dès 990 €",
+      portfolio: "Portfolio",
+      portfolioPlaceholder: "Un lien par ligne",
+      signature: "Signature",
+      save: "Enregistrer le profil",
+    },
+    templates: {
+      title: "Modèles de prompt",
+      intro:
+        "Un modèle remplace le prompt système et les consignes du prompt par défaut. Les données des commerces, la langue, les canaux et le format JSON sont toujours ajoutés.",
+      empty: "Aucun modèle pour l'instant.",
+      create: "Nouveau modèle",
+      name: "Nom",
+      description: "Description",
+      system: "Prompt système (optionnel)",
+      instructions: "Consignes",
+      note: "Note de version (optionnel)",
+      version: "Version",
+      versionLabel: (version: number, date: string) => `v${version} · ${date}`,
+      save: "Enregistrer une nouvelle version",
+      saveNew: "Créer le modèle",
+      remove: "Supprimer",
+      confirmRemove: "Supprimer ce modèle et toutes ses versions ?",
+      variables: "Variables disponibles",
+      businessVariablesHint:
+        "Les variables business.* génèrent un appel par commerce.",
+    },
+    preview: {
+      title: "Aperçu du prompt",
+      run: "Prévisualiser",
+      running: "Rendu...",
+      sample: (name: string) =>
+        `Rendu pour le commerce d'exemple « ${name} ».`,
+      failed: "Aperçu impossible.",
+    },
+    variables: {
+      "business.name": "Nom du commerce",
+      "business.address": "Adresse",
+      "business.phone": "Téléphone",
+      "business.rating": "Note Google",
+      "business.reviews": "Nombre d'avis",
+      "business.types": "Catégories",
+      "business.summary": "Description Google",
+      "business.findings": "Constats de l'audit du site",
+      "business.praised": "Points forts relevés dans les avis",
+      "business.complaints": "Irritants relevés dans les avis",
+      query: "Requête de recherche",
+      vibe: "Vibe recherchée",
+      tone: "Tonalité",
+      language: "Langue des messages",
+      "agency.name": "Nom de l'agence",
+      "agency.description": "Présentation de l'agence",
+      "agency.offers": "Offres et tarifs",
+      "agency.portfolio": "Liens du portfolio",
+      "agency.signature": "Signature",
+    } satisfies Record<PromptVariable, string>,
+  },
+  savedSearches: {
+    badge: "Veille · Recherches enregistrées",
+    title: "Recherches enregistrées",
+    intro:
+      "Chaque recherche est relancée selon sa planification. Les commerces sans site apparus depuis la dernière exécution, ou dont le site a disparu, remontent dans les alertes.",
+    loadFailed: "Impossible de charger les recherches enregistrées.",
+    saveFailed: "Enregistrement impossible.",
+    empty:
+      "Aucune recherche enregistrée. Enregistre une recherche depuis l'accueil ou crée-la ci-dessous.",
+    create: "Nouvelle recherche enregistrée",
+    edit: "Modifier",
+    name: "Nom",
+    query: "Type de commerce ou mot-clé",
+    location: "Zone géographique",
+    radius: "Rayon (mètres)",
+    maxResults: "Prospects par exécution",
+    audit: "Inclure les sites à améliorer (audit)",
+    schedule: "Planification",
+    cron: "Expression cron (minute heure jour mois jour-de-semaine)",
+    presets: {
+      daily: "Tous les jours à 8 h",
+      weekdays: "Du lundi au vendredi à 8 h",
+      weekly: "Chaque lundi à 8 h",
+      monthly: "Le 1er du mois à 8 h",
+    },
+    custom: "Personnalisée (cron)",
+    webhookUrl: "Webhook (optionnel)",
+    webhookHint: "Reçoit un POST JSON par alerte.",
+    enabled: "Planification active",
+    save: "Enregistrer",
+    cancel: "Annuler",
+    runNow: "Lancer maintenant",
+    running: "Exécution en cours...",
+    pause: "Mettre en pause",
+    resume: "Réactiver",
+    remove: "Supprimer",
+    confirmRemove: "Supprimer cette recherche enregistrée ?",
+    summary: (query: string, location: string, radius: number) =>
+      `« ${query} » à ${location} · ${radius / 1000} km`,
+    nextRun: (date: string) => `Prochaine exécution : ${date}`,
+    paused: "En pause",
+    knownPlaces: (count: number) =>
+      `${count} commerce${count > 1 ? "s" : ""} suivi${count > 1 ? "s" : ""}`,
+    lastRun: "Dernières exécutions",
+    noRun: "Jamais exécutée.",
+    runStatuses: {
+      running: "en cours",
+      completed: "terminée",
+      failed: "en échec",
+    },
+    runTriggers: {
+      schedule: "planifiée",
+      manual: "manuelle",
+    },
+    runLabel: (date: string, trigger: string, status: string) =>
+      `${date} · ${trigger} · ${status}`,
+    runBy: (trigger: string, name: string) => `${trigger} par ${name}`,
+    runBaseline: "état de référence enregistré",
+    runOutcome: (scanned: number, alerts: number) =>
+      `${scanned} fiche${scanned > 1 ? "s" : ""} · ${alerts} alerte${alerts > 1 ? "s" : ""}`,
+  },
+  notifications: {
+    open: "Alertes",
+    title: "Alertes des recherches enregistrées",
+    empty: "Aucune alerte pour l'instant.",
+    loadFailed: "Impossible de charger les alertes.",
+    markAllRead: "Tout marquer comme lu",
+    manage: "Gérer les recherches",
+    kinds: {
+      "new-prospect": "Nouveau commerce sans site",
+      "website-removed": "Site web disparu",
+    } satisfies Record<AlertKind, string>,
+    from: (name: string, date: string) => `Via « ${name} » · ${date}`,
+    webhookFailed: "Échec de l'envoi au webhook",
+  },
+  integrations: {
+    badge: "Intégrations · CRM",
+    title: "Intégrations sortantes",
+    intro:
+      "Envoie les prospects vers un webhook, HubSpot ou Pipedrive, à la demande depuis une fiche ou automatiquement après chaque recherche.",
+    loadFailed: "Impossible de charger les intégrations.",
+    saveFailed: "Enregistrement impossible.",
+    empty: "Aucune intégration pour l'instant.",
+    create: "Nouvelle intégration",
+    edit: "Modifier",
+    name: "Nom",
+    kind: "Type",
+    kinds: {
+      webhook: "Webhook",
+      hubspot: "HubSpot",
+      pipedrive: "Pipedrive",
+    } satisfies Record<IntegrationKind, string>,
+    webhookUrl: "Adresse du webhook",
+    apiUrl: "URL de l'API (optionnel, pour un serveur de test)",
+    secret: "Secret de signature HMAC (optionnel, 16 caractères minimum)",
+    apiToken: "Jeton d'API",
+    keepSecret: "Laisser vide pour conserver la valeur enregistrée",
+    autoPush: "Envoyer automatiquement les prospects après chaque recherche",
+    enabled: "Active",
+    disabled: "Désactivée",
+    save: "Enregistrer",
+    cancel: "Annuler",
+    test: "Tester",
+    testing: "Test...",
+    remove: "Supprimer",
+    confirmRemove: "Supprimer cette intégration ?",
+    auto: "Envoi automatique",
+    deliveredLeads: (count: number) =>
+      `${count} prospect${count > 1 ? "s" : ""} envoyé${count > 1 ? "s" : ""}`,
+    deliveries: "Journal des envois",
+    noDelivery: "Aucun envoi pour l'instant.",
+    triggers: {
+      manual: "manuel",
+      search: "après recherche",
+      test: "test",
+    },
+    statuses: {
+      delivered: "envoyé",
+      failed: "échec",
+    },
+    attempts: (count: number) => `${count} tentative${count > 1 ? "s" : ""}`,
+  },
+  integrationPush: {
+    push: "Envoyer au CRM",
+    pushing: "Envoi...",
+    all: "Toutes les intégrations actives",
+    done: (delivered: number, total: number) =>
+      `${delivered}/${total} envoi${total > 1 ? "s" : ""} réussi${delivered > 1 ? "s" : ""}`,
+    failed: "Échec de l'envoi.",
+  },
+  prospects: {
+    badge: "Pipeline · Prospects",
+    title: "Suivi des prospects",
+    all: "Tous",
+    loadFailed: "Impossible de charger les prospects.",
+    updateFailed: "Mise à jour impossible.",
+    empty:
+      "Aucun prospect enregistré pour ce statut. Lance une recherche pour alimenter ton pipeline.",
+    foundVia: (query: string, location: string, date: string) =>
+      `Trouvé via « ${query} » à ${location} · ajouté le ${date}`,
+    angle: "Angle recommandé",
+    status: "Statut",
+    notes: "Notes",
+    notePlaceholder: "Ajouter une note...",
+    addNote: "Ajouter",
+    by: (name: string) => `par ${name}`,
+  },
+  auth: {
+    badge: "Compte · Connexion",
+    title: "Connexion",
+    intro:
+      "Connecte-toi pour lancer des recherches et retrouver les prospects de ton équipe.",
+    modes: {
+      password: "Mot de passe",
+      register: "Créer un compte",
+      magicLink: "Lien magique",
+    },
+    name: "Nom",
+    email: "E-mail",
+    password: "Mot de passe",
+    workspaceName: "Nom de l'espace de travail (facultatif)",
+    signIn: "Se connecter",
+    signUp: "Créer le compte",
+    sendLink: "Recevoir un lien de connexion",
+    pending: "Un instant...",
+    linkSent:
+      "Si cette adresse peut se connecter, un lien valable 15 minutes vient de lui être envoyé.",
+    linkInvalid:
+      "Ce lien de connexion est invalide ou a expiré : demandes-en un nouveau.",
+    failed: "Connexion impossible.",
+    magicLinkEmail: {
+      subject: "Ton lien de connexion",
+      body: (link: string) =>
+        `Bonjour,\n\nClique sur ce lien pour te connecter (valable 15 minutes, une seule fois) :\n${link}\n\nSi tu n'as rien demandé, ignore cet e-mail.`,
+    },
+  },
+  account: {
+    workspace: "Espace de travail",
+    manage: "Gérer l'équipe",
+    signOut: "Se déconnecter",
+    switchFailed: "Impossible de changer d'espace de travail.",
+  },
+  workspace: {
+    badge: "Équipe · Espace de travail",
+    intro:
+      "Les prospects, recherches enregistrées, tâches et intégrations sont partagés entre les membres de l'espace.",
+    loadFailed: "Impossible de charger l'espace de travail.",
+    saveFailed: "Modification impossible.",
+    members: "Membres",
+    you: "toi",
+    roles: {
+      owner: "Propriétaire",
+      member: "Membre",
+    } satisfies Record<WorkspaceRole, string>,
+    remove: "Retirer",
+    leave: "Quitter l'espace",
+    confirmRemove: (name: string) => `Retirer ${name} de l'espace ?`,
+    confirmLeave: "Quitter cet espace de travail ?",
+    invitations: "Invitations en attente",
+    invitedBy: (name: string, date: string) =>
+      `invité par ${name} le ${date}`,
+    revoke: "Annuler",
+    invite: "Inviter",
+    inviteEmail: "E-mail",
+    inviteRole: "Rôle",
+    invited: (email: string) =>
+      `${email} rejoindra l'espace en se connectant avec un lien reçu par e-mail.`,
+    added: (email: string) => `${email} a rejoint l'espace.`,
+    create: "Nouvel espace de travail",
+    createName: "Nom",
+    createSubmit: "Créer et ouvrir",
+  },
+};
+
+export type Messages = typeof fr;
@@ -0,0 +1,59 @@
+import type { ErrorCode } from "@/server/upstream";
+
+import { en } from "./en";
+import { fr, type Messages } from "./fr";
+
+export type { Messages } from "./fr";
+
+export const LOCALES = ["fr", "en"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+// Texts written on the server without a request locale (error details,
+// review insights, score details) are in this locale; other locales fall
+// back to the catalog.
+export const DEFAULT_LOCALE: Locale = "fr";
+
+export const LOCALE_COOKIE = "lang";
+
+const CATALOGS: Record<Locale, Messages> = { fr, en };
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+export function getMessages(locale: Locale) {
+  return CATALOGS[locale];
+}
+
+// The language switcher cookie wins over the browser's Accept-Language.
+export function resolveLocale(
+  cookie?: string | null,
+  acceptLanguage?: string | null,
+): Locale {
+  if (isLocale(cookie)) {
+    return cookie;
+  }
+  const preferred = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => part.split(";")[0].trim().slice(0, 2).toLowerCase())
+    .find(isLocale);
+  return preferred ?? DEFAULT_LOCALE;
+}
+
+export function localeFromRequest(request: Request) {
+  const cookie = request.headers
+    .get("cookie")
+    ?.split(";")
+    .map((part) => part.trim().split("="))
+    .find(([name]) => name === LOCALE_COOKIE)?.[1];
+  return resolveLocale(cookie, request.headers.get("accept-language"));
+}
+
+export function localizeError<T extends { code: string; message: string }>(
+  error: T,
+  locale: Locale,
+): T {
+  const message = getMessages(locale).errors[error.code as ErrorCode];
+  return locale === DEFAULT_LOCALE || !message ? error : { ...error, message };
+}
@@ -0,0 +1,7 @@
+export async function register() {
+  // The scheduler reads and writes data files: Node.js runtime only.
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startScheduler } = await import("@/server/saved-searches");
+    await startScheduler();
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  readSession,
+  SESSION_COOKIE,
+  unauthorizedResponse,
+} from "@/server/auth";
+
+// Signing in, the CRM stand-in and the mockups shared with prospects stay
+// open; the stand-in's request log checks the session itself. Everything
+// else needs a session.
+const PUBLIC_PATHS = ["/login"];
+const PUBLIC_PREFIXES = ["/api/auth/", "/api/integrations/mock/", "/mockups/"];
+
+function isPublic(pathname: string) {
+  return (
+    PUBLIC_PATHS.includes(pathname) ||
+    PUBLIC_PREFIXES.some((prefix) => pathname.startsWith(prefix))
+  );
+}
+
+// Only checks the cookie signature: handlers still load the user and their
+// membership before touching workspace data.
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (
+    isPublic(pathname) ||
+    readSession(request.cookies.get(SESSION_COOKIE)?.value)
+  ) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return unauthorizedResponse(request);
+  }
+  const login = new URL("/login", request.url);
+  login.searchParams.set("next", `${pathname}${search}`);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};
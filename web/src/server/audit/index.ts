@@ -0,0 +1,2 @@
+export { auditWebsite } from "./website";
+export * from "./types";
@@ -0,0 +1,24 @@
+// Ordered from the strongest sales argument to the weakest.
+export const WEBSITE_FINDING_CODES = [
+  "none",
+  "unreachable",
+  "social-only",
+  "not-mobile-friendly",
+  "no-https",
+  "outdated-copyright",
+  "no-meta-description",
+] as const;
+
+export type WebsiteFindingCode = (typeof WEBSITE_FINDING_CODES)[number];
+
+export type WebsiteFinding = {
+  code: WebsiteFindingCode;
+  message: string;
+};
+
+export type WebsiteAudit = {
+  url: string | null;
+  finalUrl?: string;
+  findings: WebsiteFinding[];
+  checkedAt: string;
+};
@@ -0,0 +1,129 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { auditWebsite } from "./website";
+
+const PAGES: Record<string, string> = {
+  "/modern": `<html><head>
+    <meta name="viewport" content="width=device-width">
+    <meta name="description" content="Bistrot de quartier">
+    </head><body><footer>&copy; 2025 Chez Louise</footer></body></html>`,
+  "/dated": `<html><head><meta charset="utf-8">
+    <meta name="description" content=" "></head>
+    <body><footer>Copyright 2015 - 2019 Chez Louise</footer></body></html>`,
+};
+
+const now = new Date("2026-03-01T10:00:00Z");
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  process.env.AUDIT_TIMEOUT_MS = "300";
+  server = createServer((request, response) => {
+    if (request.url === "/slow") {
+      return;
+    }
+    const page = PAGES[request.url ?? ""];
+    if (!page) {
+      response.writeHead(503).end();
+      return;
+    }
+    response.writeHead(200, { "Content-Type": "text/html" });
+    response.end(page);
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  delete process.env.AUDIT_TIMEOUT_MS;
+  server.closeAllConnections();
+  return new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+const codes = (audit: Awaited<ReturnType<typeof auditWebsite>>) =>
+  audit.findings.map((finding) => finding.code);
+
+describe("auditWebsite", () => {
+  it("reports a missing website", async () => {
+    const audit = await auditWebsite("  ", { now });
+    expect(audit).toEqual({
+      url: null,
+      findings: [{ code: "none", message: "Aucun site web référencé." }],
+      checkedAt: now.toISOString(),
+    });
+  });
+
+  it("flags social pages without fetching them", async () => {
+    const audit = await auditWebsite("www.instagram.com/salon", { now });
+    expect(audit.findings).toEqual([
+      {
+        code: "social-only",
+        message: "Le lien renvoie uniquement vers une page instagram.com.",
+      },
+    ]);
+    expect(audit.finalUrl).toBeUndefined();
+  });
+
+  it("only reports the missing https on a well-kept page", async () => {
+    const audit = await auditWebsite(`${baseUrl}/modern`, { now });
+    expect(audit.finalUrl).toBe(`${baseUrl}/modern`);
+    expect(codes(audit)).toEqual(["no-https"]);
+  });
+
+  it("flags the viewport, the copyright year and the description", async () => {
+    const audit = await auditWebsite(`${baseUrl}/dated`, { now });
+    expect(codes(audit)).toEqual([
+      "no-https",
+      "not-mobile-friendly",
+      "outdated-copyright",
+      "no-meta-description",
+    ]);
+    expect(audit.findings[2].message).toBe(
+      "La mention de copyright est restée figée en 2019.",
+    );
+  });
+
+  it("keeps a recent copyright year", async () => {
+    const audit = await auditWebsite(`${baseUrl}/dated`, {
+      now: new Date("2020-06-01T00:00:00Z"),
+    });
+    expect(codes(audit)).not.toContain("outdated-copyright");
+  });
+
+  it("reports server errors and timeouts as unreachable", async () => {
+    const failing = await auditWebsite(`${baseUrl}/down`, { now });
+    const slow = await auditWebsite(`${baseUrl}/slow`, { now });
+    for (const audit of [failing, slow]) {
+      expect(codes(audit)).toEqual(["unreachable"]);
+      expect(audit.findings[0].message).toMatch(/^Le site est inaccessible : /);
+    }
+  });
+
+  it("rejects addresses that are not URLs", async () => {
+    const audit = await auditWebsite("http://exa mple", { now });
+    expect(audit.findings).toEqual([
+      { code: "unreachable", message: "L'adresse du site est invalide." },
+    ]);
+  });
+
+  it("writes the findings in the requested locale", async () => {
+    const audit = await auditWebsite(`${baseUrl}/dated`, {
+      now,
+      locale: "en",
+    });
+    expect(audit.findings.map((finding) => finding.message)).toEqual([
+      "The website is not served over HTTPS.",
+      "The website is not mobile-friendly (no viewport tag).",
+      "The copyright notice is still stuck in 2019.",
+      "No meta description for search engines.",
+    ]);
+    const down = await auditWebsite(`${baseUrl}/down`, { now, locale: "en" });
+    expect(down.findings[0].message).toBe(
+      "The website cannot be reached: The provider is temporarily unavailable.",
+    );
+  });
+});
@@ -0,0 +1,196 @@
+import {
+  DEFAULT_LOCALE,
+  getMessages,
+  localizeError,
+  type Locale,
+  type Messages,
+} from "@/i18n";
+import {
+  AppError,
+  requestText,
+  toApiError,
+  type UpstreamText,
+} from "@/server/upstream";
+
+import type { WebsiteAudit, WebsiteFinding } from "./types";
+
+// Pages that stand in for a website without being one.
+const SOCIAL_HOSTS = [
+  "facebook.com",
+  "fb.com",
+  "instagram.com",
+  "linktr.ee",
+  "tiktok.com",
+  "twitter.com",
+  "x.com",
+  "linkedin.com",
+  "youtube.com",
+  "pinterest.com",
+  "snapchat.com",
+  "wa.me",
+  "beacons.ai",
+  "linkin.bio",
+  "bio.link",
+];
+
+const DEFAULT_AUDIT_TIMEOUT_MS = 8000;
+const OUTDATED_COPYRIGHT_YEARS = 2;
+
+function normalizeUrl(website: string) {
+  const trimmed = website.trim();
+  try {
+    return new URL(
+      /^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`,
+    );
+  } catch {
+    return null;
+  }
+}
+
+function findSocialHost(url: URL) {
+  const host = url.hostname.toLowerCase().replace(/^www\./, "");
+  return SOCIAL_HOSTS.find(
+    (social) => host === social || host.endsWith(`.${social}`),
+  );
+}
+
+function readMetaTags(html: string) {
+  return [...html.matchAll(/<meta\b[^>]*>/gi)].map(([tag]) => {
+    const attributes: Record<string, string> = {};
+    for (const match of tag.matchAll(
+      /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g,
+    )) {
+      attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4];
+    }
+    return attributes;
+  });
+}
+
+function findCopyrightYear(html: string) {
+  const years = [
+    ...html.matchAll(
+      /(?:©|&copy;|&#169;|copyright)[^0-9<]{0,20}((?:19|20)\d{2})(?:\s*(?:-|–|&ndash;)\s*((?:19|20)\d{2}))?/gi,
+    ),
+  ].map((match) => Number(match[2] ?? match[1]));
+  return years.length ? Math.max(...years) : null;
+}
+
+function inspectHtml(
+  html: string,
+  t: Messages["audit"],
+  now = new Date(),
+): WebsiteFinding[] {
+  const findings: WebsiteFinding[] = [];
+  const metas = readMetaTags(html);
+
+  if (!metas.some((meta) => meta.name?.toLowerCase() === "viewport")) {
+    findings.push({
+      code: "not-mobile-friendly",
+      message: t.notMobileFriendly,
+    });
+  }
+
+  const year = findCopyrightYear(html);
+  if (year && now.getFullYear() - year >= OUTDATED_COPYRIGHT_YEARS) {
+    findings.push({
+      code: "outdated-copyright",
+      message: t.outdatedCopyright(year),
+    });
+  }
+
+  if (
+    !metas.some(
+      (meta) =>
+        meta.name?.toLowerCase() === "description" && meta.content?.trim(),
+    )
+  ) {
+    findings.push({
+      code: "no-meta-description",
+      message: t.noMetaDescription,
+    });
+  }
+
+  return findings;
+}
+
+export async function auditWebsite(
+  website: string | undefined,
+  {
+    now = new Date(),
+    locale = DEFAULT_LOCALE,
+  }: { now?: Date; locale?: Locale } = {},
+): Promise<WebsiteAudit> {
+  const t = getMessages(locale).audit;
+  const checkedAt = now.toISOString();
+  if (!website?.trim()) {
+    return {
+      url: null,
+      findings: [{ code: "none", message: t.none }],
+      checkedAt,
+    };
+  }
+
+  const url = normalizeUrl(website);
+  if (!url) {
+    return {
+      url: website,
+      findings: [{ code: "unreachable", message: t.invalidUrl }],
+      checkedAt,
+    };
+  }
+
+  const social = findSocialHost(url);
+  if (social) {
+    return {
+      url: website,
+      findings: [{ code: "social-only", message: t.socialOnly(social) }],
+      checkedAt,
+    };
+  }
+
+  let page: UpstreamText;
+  try {
+    page = await requestText(url, {
+      upstream: url.hostname,
+      retries: 0,
+      timeoutMs:
+        Number(process.env.AUDIT_TIMEOUT_MS) || DEFAULT_AUDIT_TIMEOUT_MS,
+      init: {
+        headers: { Accept: "text/html" },
+        redirect: "follow",
+      },
+    });
+  } catch (error) {
+    return {
+      url: website,
+      findings: [
+        {
+          code: "unreachable",
+          message: t.unreachable(
+            error instanceof AppError
+              ? localizeError(toApiError(error), locale).message
+              : t.networkError,
+          ),
+        },
+      ],
+      checkedAt,
+    };
+  }
+
+  const finalUrl = page.url || url.toString();
+  const findings: WebsiteFinding[] = [];
+  const redirectedSocial = findSocialHost(new URL(finalUrl));
+  if (redirectedSocial) {
+    findings.push({
+      code: "social-only",
+      message: t.redirectsToSocial(redirectedSocial),
+    });
+  } else {
+    if (!finalUrl.startsWith("https:")) {
+      findings.push({ code: "no-https", message: t.noHttps });
+    }
+    findings.push(...inspectHtml(page.body, t, now));
+  }
+
+  return { url: website, finalUrl, findings, checkedAt };
+}
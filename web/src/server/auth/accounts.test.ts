@@ -0,0 +1,138 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+
+type Accounts = typeof import("./accounts");
+type Store = typeof import("./store");
+
+// The stores resolve DATA_DIR when first imported.
+let dataDir: string;
+let accounts: Accounts;
+let store: Store;
+
+beforeAll(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), "auth-test-"));
+  process.env.DATA_DIR = dataDir;
+  accounts = await import("./accounts");
+  store = await import("./store");
+});
+
+afterAll(async () => {
+  delete process.env.DATA_DIR;
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  delete process.env.AUTH_OPEN_SIGNUP;
+});
+
+const password = "mot-de-passe-solide";
+
+async function signInWithLink(email: string) {
+  return accounts.signInWithMagicLink(await store.createMagicLink(email));
+}
+
+describe("invitations", () => {
+  let owner: { id: string; name: string };
+  let workspaceId: string;
+
+  beforeAll(async () => {
+    const created = await accounts.signUp({
+      name: "Alice",
+      email: "alice@agence.example",
+      password,
+    });
+    if (!created.ok) {
+      throw new Error(created.reason);
+    }
+    owner = created.user;
+    workspaceId = created.workspaceId;
+  });
+
+  const members = async () =>
+    (await store.listWorkspaceMembers(workspaceId)).map(
+      (member) => `${member.email}:${member.role}`,
+    );
+
+  it("keeps an invited address from signing up with a password", async () => {
+    await store.inviteMember(
+      workspaceId,
+      { email: "bob@agence.example", role: "owner" },
+      { userId: owner.id, name: owner.name },
+    );
+    const result = await accounts.signUp({
+      name: "Bob",
+      email: "bob@agence.example",
+      password,
+    });
+    expect(result).toEqual({ ok: false, reason: "verify-email" });
+    expect(await members()).toEqual(["alice@agence.example:owner"]);
+    expect(await store.findUserByEmail("bob@agence.example")).toBeNull();
+  });
+
+  it("accepts the invitation once a magic link proves the address", async () => {
+    const signedIn = await signInWithLink("bob@agence.example");
+    expect(signedIn?.workspaceId).toBe(workspaceId);
+    expect(signedIn?.user.emailVerifiedAt).toEqual(expect.any(String));
+    expect(await members()).toEqual([
+      "alice@agence.example:owner",
+      "bob@agence.example:owner",
+    ]);
+    expect((await store.getWorkspace(workspaceId))?.invitations).toEqual([]);
+  });
+
+  it("does not seat an unverified account created before the invitation", async () => {
+    process.env.AUTH_OPEN_SIGNUP = "true";
+    const squatted = await accounts.signUp({
+      name: "Carol",
+      email: "carol@agence.example",
+      password,
+    });
+    expect(squatted.ok).toBe(true);
+
+    const invited = await store.inviteMember(
+      workspaceId,
+      { email: "carol@agence.example", role: "member" },
+      { userId: owner.id, name: owner.name },
+    );
+    expect(invited?.joined).toBe(false);
+    expect(await members()).not.toContain("carol@agence.example:member");
+
+    // The owner of the address takes the seat; the earlier password goes.
+    const signedIn = await signInWithLink("carol@agence.example");
+    expect(signedIn?.workspaceId).toBe(workspaceId);
+    expect(await members()).toContain("carol@agence.example:member");
+    expect(
+      await accounts.signIn({ email: "carol@agence.example", password }),
+    ).toBeNull();
+  });
+
+  it("seats verified accounts right away", async () => {
+    process.env.AUTH_OPEN_SIGNUP = "true";
+    await signInWithLink("dan@agence.example");
+    const invited = await store.inviteMember(
+      workspaceId,
+      { email: "dan@agence.example", role: "member" },
+      { userId: owner.id, name: owner.name },
+    );
+    expect(invited?.joined).toBe(true);
+    expect(await members()).toContain("dan@agence.example:member");
+  });
+
+  it("keeps the password of verified accounts without invitations", async () => {
+    const signedIn = await signInWithLink("alice@agence.example");
+    expect(signedIn?.workspaceId).toBeUndefined();
+    expect(
+      await accounts.signIn({ email: "alice@agence.example", password }),
+    ).toMatchObject({ id: owner.id });
+  });
+
+  it("uses each magic link once", async () => {
+    const token = await store.createMagicLink("alice@agence.example");
+    expect(await accounts.signInWithMagicLink(token)).not.toBeNull();
+    expect(await accounts.signInWithMagicLink(token)).toBeNull();
+    expect(await accounts.signInWithMagicLink("inconnu")).toBeNull();
+  });
+});
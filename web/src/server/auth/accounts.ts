@@ -0,0 +1,83 @@
+import { getMessages, type Locale } from "@/i18n";
+import { sendMail } from "@/server/mail";
+
+import { hashPassword, verifyPassword } from "./password";
+import type { SignInInput, SignUpInput } from "./schema";
+import {
+  canSignUp,
+  consumeMagicLink,
+  createMagicLink,
+  createUser,
+  createWorkspace,
+  findUserByEmail,
+  listUserWorkspaces,
+  verifyEmail,
+} from "./store";
+import type { User } from "./types";
+
+export async function signUp({ password, ...input }: SignUpInput) {
+  return createUser({ ...input, passwordHash: await hashPassword(password) });
+}
+
+export async function signIn({ email, password }: SignInInput) {
+  const user = await findUserByEmail(email);
+  if (!user?.passwordHash) {
+    // About as slow as a wrong password, so emails cannot be probed.
+    await hashPassword(password);
+    return null;
+  }
+  return (await verifyPassword(password, user.passwordHash)) ? user : null;
+}
+
+// Emails that could not sign in get nothing, but the caller answers the
+// same way.
+export async function sendMagicLink(
+  email: string,
+  { origin, locale, next }: { origin: string; locale: Locale; next?: string },
+) {
+  if (!(await findUserByEmail(email)) && !(await canSignUp(email))) {
+    return;
+  }
+  const link = new URL("/api/auth/magic-link/verify", origin);
+  link.searchParams.set("token", await createMagicLink(email, next));
+  const t = getMessages(locale).auth.magicLinkEmail;
+  await sendMail({
+    to: email,
+    subject: t.subject,
+    text: t.body(link.toString()),
+  });
+}
+
+// Proves the address, so pending invitations are accepted. A first link
+// for an unknown email creates the account.
+export async function signInWithMagicLink(token: string) {
+  const link = await consumeMagicLink(token);
+  if (!link) {
+    return null;
+  }
+  const existing = await findUserByEmail(link.email);
+  if (existing) {
+    const verified = await verifyEmail(existing.id);
+    return verified && { ...verified, next: link.next };
+  }
+  const created = await createUser({
+    email: link.email,
+    name: link.email.split("@")[0],
+    verified: true,
+  });
+  return created.ok
+    ? { user: created.user, workspaceId: created.workspaceId, next: link.next }
+    : null;
+}
+
+// The last workspace used if the user still belongs to it, else the first
+// one; a user removed from all of them gets a new one.
+export async function resolveWorkspaceId(user: User) {
+  const workspaces = await listUserWorkspaces(user.id);
+  return (
+    workspaces.find((workspace) => workspace.id === user.lastWorkspaceId)
+      ?.id ??
+    workspaces[0]?.id ??
+    (await createWorkspace(`Espace de ${user.name}`, user.id)).id
+  );
+}
@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+
+import { redirectTarget } from "./http";
+
+const request = new NextRequest(
+  "http://localhost:3000/api/auth/magic-link/verify?token=t",
+);
+
+const target = (next?: string) => redirectTarget(request, next).toString();
+
+describe("redirectTarget", () => {
+  it("keeps paths on our origin", () => {
+    expect(target("/prospects?status=nouveau#liste")).toBe(
+      "http://localhost:3000/prospects?status=nouveau#liste",
+    );
+    expect(target()).toBe("http://localhost:3000/");
+  });
+
+  it("sends other origins home", () => {
+    for (const next of [
+      "https://evil.example/",
+      "//evil.example/",
+      "/\\evil.example",
+      "\\\\evil.example",
+      "/\t/evil.example",
+      "javascript:alert(1)",
+      "evil.example",
+    ]) {
+      expect(target(next), next).toBe("http://localhost:3000/");
+    }
+  });
+});
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getMessages, localeFromRequest } from "@/i18n";
+import { AppError, errorResponse } from "@/server/upstream";
+import { checkRateLimit, getClientAddress } from "@/server/usage";
+
+import {
+  createSession,
+  readSession,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  signSession,
+} from "./session";
+import { isRelativePath } from "./schema";
+import { getMembership, getUser } from "./store";
+import type { AuthContext, Workspace, WorkspaceRole } from "./types";
+
+type AuthResult =
+  | { ok: true; auth: AuthContext }
+  | { ok: false; response: NextResponse };
+
+type MembershipResult =
+  | { ok: true; auth: AuthContext; workspace: Workspace; role: WorkspaceRole }
+  | { ok: false; response: NextResponse };
+
+export function unauthorizedResponse(request: NextRequest) {
+  return NextResponse.json(
+    { error: getMessages(localeFromRequest(request)).api.unauthorized },
+    { status: 401 },
+  );
+}
+
+// The cookie alone is not enough: the user may have been removed from the
+// workspace since it was issued.
+export async function loadAuthContext(
+  token: string | undefined,
+): Promise<AuthContext | null> {
+  const session = readSession(token);
+  if (!session) {
+    return null;
+  }
+  const [user, membership] = await Promise.all([
+    getUser(session.userId),
+    getMembership(session.workspaceId, session.userId),
+  ]);
+  if (!user || !membership) {
+    return null;
+  }
+  return {
+    user,
+    workspace: membership.workspace,
+    role: membership.role,
+    scope: {
+      workspaceId: membership.workspace.id,
+      actor: { userId: user.id, name: user.name },
+    },
+  };
+}
+
+export async function requireAuth(request: NextRequest): Promise<AuthResult> {
+  const auth = await loadAuthContext(request.cookies.get(SESSION_COOKIE)?.value);
+  return auth
+    ? { ok: true, auth }
+    : { ok: false, response: unauthorizedResponse(request) };
+}
+
+// For a workspace other than the session's one, e.g. from the team page.
+export async function requireMembership(
+  request: NextRequest,
+  workspaceId: string,
+  { ownerOnly = false } = {},
+): Promise<MembershipResult> {
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated;
+  }
+  const t = getMessages(localeFromRequest(request));
+  const membership = await getMembership(
+    workspaceId,
+    authenticated.auth.user.id,
+  );
+  if (!membership) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: t.api.workspaceNotFound },
+        { status: 404 },
+      ),
+    };
+  }
+  if (ownerOnly && membership.role !== "owner") {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: t.api.ownerOnly }, { status: 403 }),
+    };
+  }
+  return { ok: true, auth: authenticated.auth, ...membership };
+}
+
+// Sign-in attempts share the search rate limit, per target email and, behind
+// a trusted proxy, per network address.
+export function guardAuthAttempts(request: NextRequest, email: string) {
+  const address = getClientAddress(request);
+  const keys = [
+    `auth:email:${email}`,
+    ...(address ? [`auth:ip:${address}`] : []),
+  ];
+  for (const key of keys) {
+    const rate = checkRateLimit(key);
+    if (!rate.allowed) {
+      return errorResponse(
+        new AppError(
+          "RATE_LIMITED",
+          `Trop de tentatives rapprochées. Réessaie dans ${rate.retryAfterSeconds} s.`,
+        ),
+        {
+          headers: { "Retry-After": String(rate.retryAfterSeconds) },
+          locale: localeFromRequest(request),
+        },
+      );
+    }
+  }
+  return null;
+}
+
+// Resolved against our own origin: anything that lands elsewhere goes home.
+export function redirectTarget(request: NextRequest, next = "/") {
+  const { origin } = request.nextUrl;
+  const target = isRelativePath(next) ? new URL(next, origin) : null;
+  return target?.origin === origin ? target : new URL("/", origin);
+}
+
+export function withSession(
+  response: NextResponse,
+  userId: string,
+  workspaceId: string,
+) {
+  response.cookies.set(
+    SESSION_COOKIE,
+    signSession(createSession(userId, workspaceId)),
+    {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: SESSION_TTL_SECONDS,
+    },
+  );
+  return response;
+}
+
+export function withoutSession(response: NextResponse) {
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,48 @@
+export {
+  resolveWorkspaceId,
+  sendMagicLink,
+  signIn,
+  signInWithMagicLink,
+  signUp,
+} from "./accounts";
+export {
+  guardAuthAttempts,
+  loadAuthContext,
+  redirectTarget,
+  requireAuth,
+  requireMembership,
+  unauthorizedResponse,
+  withoutSession,
+  withSession,
+} from "./http";
+export {
+  invitationSchema,
+  isRelativePath,
+  magicLinkSchema,
+  signInSchema,
+  signUpSchema,
+  switchWorkspaceSchema,
+  workspaceSchema,
+  type InvitationInput,
+  type MagicLinkInput,
+  type SignInInput,
+  type SignUpInput,
+  type SwitchWorkspaceInput,
+  type WorkspaceInput,
+} from "./schema";
+export { readSession, SESSION_COOKIE } from "./session";
+export {
+  createWorkspace,
+  getMembership,
+  inviteMember,
+  listUserWorkspaces,
+  listWorkspaceIds,
+  listWorkspaceMembers,
+  recordLogin,
+  rememberWorkspace,
+  removeMember,
+  revokeInvitation,
+} from "./store";
+export { WORKSPACE_ROLES } from "./types";
+export type * from "./types";
+export { toUserView } from "./view";
@@ -0,0 +1,25 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+
+const deriveKey = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  length: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString("hex")}:${key.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, hash: string) {
+  const [scheme, salt, expected] = hash.split(":");
+  if (scheme !== "scrypt" || !salt || !expected) {
+    return false;
+  }
+  const key = await deriveKey(password, Buffer.from(salt, "hex"), KEY_LENGTH);
+  return timingSafeEqual(key, Buffer.from(expected, "hex"));
+}
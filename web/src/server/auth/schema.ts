@@ -0,0 +1,63 @@
+import { z } from "zod";
+
+import { WORKSPACE_ROLES } from "./types";
+
+const emailSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .email("Adresse e-mail invalide.");
+
+// Relative paths only, so that a link cannot send anyone elsewhere: no
+// "//host", and no backslash or control character that browsers and the URL
+// parser would turn into one.
+const RELATIVE_PATH = /^\/(?![/\\])[^\\\u0000-\u001f\u007f]*$/;
+
+export function isRelativePath(value: string) {
+  return RELATIVE_PATH.test(value);
+}
+
+const nextSchema = z
+  .string()
+  .regex(RELATIVE_PATH, "Chemin de redirection invalide.")
+  .optional();
+
+export const signUpSchema = z.object({
+  name: z.string().trim().min(1, "Indique ton nom.").max(80),
+  email: emailSchema,
+  password: z
+    .string()
+    .min(8, "Le mot de passe doit contenir au moins 8 caractères.")
+    .max(200),
+  workspaceName: z.string().trim().min(1).max(80).optional(),
+});
+
+export const signInSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1).max(200),
+});
+
+export const magicLinkSchema = z.object({
+  email: emailSchema,
+  next: nextSchema,
+});
+
+export const switchWorkspaceSchema = z.object({
+  workspaceId: z.string().min(1),
+});
+
+export const workspaceSchema = z.object({
+  name: z.string().trim().min(1, "Indique un nom.").max(80),
+});
+
+export const invitationSchema = z.object({
+  email: emailSchema,
+  role: z.enum(WORKSPACE_ROLES).default("member"),
+});
+
+export type SignUpInput = z.infer<typeof signUpSchema>;
+export type SignInInput = z.infer<typeof signInSchema>;
+export type MagicLinkInput = z.infer<typeof magicLinkSchema>;
+export type SwitchWorkspaceInput = z.infer<typeof switchWorkspaceSchema>;
+export type WorkspaceInput = z.infer<typeof workspaceSchema>;
+export type InvitationInput = z.infer<typeof invitationSchema>;
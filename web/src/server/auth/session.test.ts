@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { createSession, readSession, signSession } from "./session";
+
+const encode = (value: unknown) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+describe("session cookies", () => {
+  beforeEach(() => {
+    process.env.AUTH_SECRET = "un-secret-de-test-assez-long";
+  });
+
+  afterEach(() => {
+    delete process.env.AUTH_SECRET;
+  });
+
+  it("reads back a signed session", () => {
+    const session = createSession("user-1", "workspace-1");
+    expect(readSession(signSession(session))).toEqual(session);
+  });
+
+  it("rejects a payload changed after signing", () => {
+    const token = signSession(createSession("user-1", "workspace-1"));
+    const [, signature] = token.split(".");
+    const forged = encode({
+      userId: "user-2",
+      workspaceId: "workspace-1",
+      expiresAt: Date.now() + 60_000,
+    });
+    expect(readSession(`${forged}.${signature}`)).toBeNull();
+    expect(readSession(`${token.slice(0, -2)}xx`)).toBeNull();
+  });
+
+  it("rejects sessions signed with another secret", () => {
+    const token = signSession(createSession("user-1", "workspace-1"));
+    process.env.AUTH_SECRET = "un-autre-secret-de-test";
+    expect(readSession(token)).toBeNull();
+  });
+
+  it("rejects expired sessions", () => {
+    const token = signSession({
+      userId: "user-1",
+      workspaceId: "workspace-1",
+      expiresAt: Date.now() - 1000,
+    });
+    expect(readSession(token)).toBeNull();
+  });
+
+  it("rejects missing and malformed cookies", () => {
+    for (const token of [undefined, "", "abc", "abc.", ".abc", "a.b.c"]) {
+      expect(readSession(token), String(token)).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,71 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+import { AppError } from "@/server/upstream";
+
+import type { Session } from "./types";
+
+export const SESSION_COOKIE = "session";
+
+export const SESSION_TTL_SECONDS = 30 * 24 * 3600;
+
+// Only for local development: anyone can forge sessions signed with it.
+const DEVELOPMENT_SECRET = "development-only-auth-secret";
+
+function getAuthSecret() {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new AppError(
+      "CONFIG_ERROR",
+      "AUTH_SECRET manquant : définis-le pour signer les sessions.",
+    );
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", getAuthSecret())
+    .update(payload)
+    .digest("base64url");
+}
+
+// `<payload>.<signature>`: the proxy checks sessions without reading any
+// file.
+export function signSession(session: Session) {
+  const payload = Buffer.from(JSON.stringify(session)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+export function readSession(token: string | undefined): Session | null {
+  const [payload, signature] = token?.split(".") ?? [];
+  if (!payload || !signature) {
+    return null;
+  }
+  const expected = Buffer.from(sign(payload));
+  const received = Buffer.from(signature);
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    return null;
+  }
+
+  try {
+    const session = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf8"),
+    ) as Session;
+    return session.expiresAt > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createSession(userId: string, workspaceId: string): Session {
+  return {
+    userId,
+    workspaceId,
+    expiresAt: Date.now() + SESSION_TTL_SECONDS * 1000,
+  };
+}
@@ -0,0 +1,354 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+
+import {
+  createJsonFileStore,
+  getOwn,
+  moveIntoWorkspace,
+} from "@/server/storage";
+
+import type {
+  Actor,
+  MagicLink,
+  User,
+  Workspace,
+  WorkspaceRole,
+} from "./types";
+
+const MAGIC_LINK_TTL_MS = 15 * 60_000;
+
+// Saved before accounts existed: they go to the first workspace created.
+const LEGACY_FILES = [
+  "prospects.json",
+  "saved-searches.json",
+  "integrations.json",
+  "jobs.json",
+  "settings.json",
+  "mockups.json",
+];
+
+type AuthFile = {
+  users: Record<string, User>;
+  workspaces: Record<string, Workspace>;
+  magicLinks: MagicLink[];
+};
+
+type SignUpResult =
+  | { ok: true; user: User; workspaceId: string }
+  | { ok: false; reason: "email-taken" | "signup-closed" | "verify-email" };
+
+const store = createJsonFileStore<AuthFile>("auth.json", () => ({
+  users: {},
+  workspaces: {},
+  magicLinks: [],
+}));
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function findByEmail(data: AuthFile, email: string) {
+  return Object.values(data.users).find((user) => user.email === email);
+}
+
+function isInvited(data: AuthFile, email: string) {
+  return Object.values(data.workspaces).some((workspace) =>
+    workspace.invitations.some((item) => item.email === email),
+  );
+}
+
+// The first account is always accepted; later ones need an invitation
+// unless AUTH_OPEN_SIGNUP=true.
+function acceptsSignUp(data: AuthFile, email: string) {
+  return (
+    !Object.keys(data.users).length ||
+    process.env.AUTH_OPEN_SIGNUP === "true" ||
+    isInvited(data, email)
+  );
+}
+
+// Returns the workspaces joined.
+function acceptInvitations(data: AuthFile, user: User, now: string) {
+  const joined: string[] = [];
+  for (const workspace of Object.values(data.workspaces)) {
+    const invitation = workspace.invitations.find(
+      (item) => item.email === user.email,
+    );
+    if (!invitation) {
+      continue;
+    }
+    if (!workspace.members.some((item) => item.userId === user.id)) {
+      workspace.members.push({
+        userId: user.id,
+        role: invitation.role,
+        joinedAt: now,
+      });
+    }
+    workspace.invitations = workspace.invitations.filter(
+      (item) => item !== invitation,
+    );
+    workspace.updatedAt = now;
+    joined.push(workspace.id);
+  }
+  return joined;
+}
+
+async function addWorkspace(data: AuthFile, name: string, ownerId: string) {
+  const now = new Date().toISOString();
+  const workspace: Workspace = {
+    id: randomUUID(),
+    name,
+    members: [{ userId: ownerId, role: "owner", joinedAt: now }],
+    invitations: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  if (!Object.keys(data.workspaces).length) {
+    await moveIntoWorkspace(LEGACY_FILES, workspace.id);
+  }
+  data.workspaces[workspace.id] = workspace;
+  return workspace;
+}
+
+export async function canSignUp(email: string) {
+  return acceptsSignUp(await store.read(), email);
+}
+
+// Anyone can type an invited email: its invitations are only accepted for
+// a verified address, and password sign-up has to go through a magic link.
+// Without any, the user gets a workspace of their own.
+export async function createUser(input: {
+  email: string;
+  name: string;
+  passwordHash?: string;
+  workspaceName?: string;
+  verified?: boolean;
+}): Promise<SignUpResult> {
+  return store.update(async (data) => {
+    if (findByEmail(data, input.email)) {
+      return { ok: false, reason: "email-taken" };
+    }
+    if (!acceptsSignUp(data, input.email)) {
+      return { ok: false, reason: "signup-closed" };
+    }
+    if (!input.verified && isInvited(data, input.email)) {
+      return { ok: false, reason: "verify-email" };
+    }
+
+    const now = new Date().toISOString();
+    const user: User = {
+      id: randomUUID(),
+      email: input.email,
+      name: input.name,
+      passwordHash: input.passwordHash,
+      ...(input.verified ? { emailVerifiedAt: now } : {}),
+      createdAt: now,
+    };
+    data.users[user.id] = user;
+
+    const joined = input.verified ? acceptInvitations(data, user, now) : [];
+    const workspaceId =
+      joined[0] ??
+      (
+        await addWorkspace(
+          data,
+          input.workspaceName ?? `Espace de ${user.name}`,
+          user.id,
+        )
+      ).id;
+    return { ok: true, user, workspaceId };
+  });
+}
+
+// A magic link proved the address. A password set before that could have
+// been chosen by someone else: it goes before the account takes a seat.
+export async function verifyEmail(userId: string) {
+  return store.update((data) => {
+    const user = getOwn(data.users, userId);
+    if (!user) {
+      return null;
+    }
+    const now = new Date().toISOString();
+    const wasVerified = Boolean(user.emailVerifiedAt);
+    user.emailVerifiedAt ??= now;
+    const joined = acceptInvitations(data, user, now);
+    if (joined.length && !wasVerified) {
+      delete user.passwordHash;
+    }
+    return { user, workspaceId: joined[0] };
+  });
+}
+
+export async function getUser(userId: string) {
+  const { users } = await store.read();
+  return getOwn(users, userId) ?? null;
+}
+
+export async function findUserByEmail(email: string) {
+  return findByEmail(await store.read(), email) ?? null;
+}
+
+export async function recordLogin(userId: string, workspaceId: string) {
+  await store.update((data) => {
+    const user = getOwn(data.users, userId);
+    if (user) {
+      user.lastLoginAt = new Date().toISOString();
+      user.lastWorkspaceId = workspaceId;
+    }
+  });
+}
+
+export async function rememberWorkspace(userId: string, workspaceId: string) {
+  await store.update((data) => {
+    const user = getOwn(data.users, userId);
+    if (user) {
+      user.lastWorkspaceId = workspaceId;
+    }
+  });
+}
+
+export async function createWorkspace(name: string, ownerId: string) {
+  return store.update((data) => addWorkspace(data, name, ownerId));
+}
+
+export async function getWorkspace(workspaceId: string) {
+  const { workspaces } = await store.read();
+  return getOwn(workspaces, workspaceId) ?? null;
+}
+
+export async function getMembership(workspaceId: string, userId: string) {
+  const workspace = await getWorkspace(workspaceId);
+  const member = workspace?.members.find((item) => item.userId === userId);
+  return workspace && member ? { workspace, role: member.role } : null;
+}
+
+// Background work (scheduler, job resumption) goes through every workspace.
+export async function listWorkspaceIds() {
+  const { workspaces } = await store.read();
+  return Object.keys(workspaces);
+}
+
+export async function listUserWorkspaces(userId: string) {
+  const { workspaces } = await store.read();
+  return Object.values(workspaces)
+    .flatMap((workspace) => {
+      const member = workspace.members.find((item) => item.userId === userId);
+      return member
+        ? [{ id: workspace.id, name: workspace.name, role: member.role }]
+        : [];
+    })
+    .sort((a, b) => a.name.localeCompare(b.name, "fr"));
+}
+
+export async function listWorkspaceMembers(workspaceId: string) {
+  const { users, workspaces } = await store.read();
+  const workspace = getOwn(workspaces, workspaceId);
+  return (
+    workspace?.members.map((member) => ({
+      ...member,
+      name: getOwn(users, member.userId)?.name ?? member.userId,
+      email: getOwn(users, member.userId)?.email ?? "",
+    })) ?? []
+  );
+}
+
+// A verified account joins right away, other emails get an invitation.
+export async function inviteMember(
+  workspaceId: string,
+  invitation: { email: string; role: WorkspaceRole },
+  invitedBy: Actor,
+) {
+  return store.update((data) => {
+    const workspace = getOwn(data.workspaces, workspaceId);
+    if (!workspace) {
+      return null;
+    }
+    const now = new Date().toISOString();
+    const user = findByEmail(data, invitation.email);
+    const member =
+      user && workspace.members.some((item) => item.userId === user.id);
+    const joined = Boolean(member || user?.emailVerifiedAt);
+    if (user && joined) {
+      if (!member) {
+        workspace.members.push({
+          userId: user.id,
+          role: invitation.role,
+          joinedAt: now,
+        });
+      }
+    } else {
+      workspace.invitations = [
+        ...workspace.invitations.filter(
+          (item) => item.email !== invitation.email,
+        ),
+        { ...invitation, invitedBy, createdAt: now },
+      ];
+    }
+    workspace.updatedAt = now;
+    return { workspace, joined };
+  });
+}
+
+export async function revokeInvitation(workspaceId: string, email: string) {
+  return store.update((data) => {
+    const workspace = getOwn(data.workspaces, workspaceId);
+    if (!workspace?.invitations.some((item) => item.email === email)) {
+      return false;
+    }
+    workspace.invitations = workspace.invitations.filter(
+      (item) => item.email !== email,
+    );
+    workspace.updatedAt = new Date().toISOString();
+    return true;
+  });
+}
+
+// A workspace always keeps an owner.
+export async function removeMember(workspaceId: string, userId: string) {
+  return store.update((data) => {
+    const workspace = getOwn(data.workspaces, workspaceId);
+    const member = workspace?.members.find((item) => item.userId === userId);
+    if (!workspace || !member) {
+      return "not-found" as const;
+    }
+    if (
+      member.role === "owner" &&
+      workspace.members.filter((item) => item.role === "owner").length === 1
+    ) {
+      return "last-owner" as const;
+    }
+    workspace.members = workspace.members.filter((item) => item !== member);
+    workspace.updatedAt = new Date().toISOString();
+    return "removed" as const;
+  });
+}
+
+// Only a hash of the token is kept: the link works once, for 15 minutes.
+export async function createMagicLink(email: string, next?: string) {
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  await store.update((data) => {
+    data.magicLinks = [
+      ...data.magicLinks.filter(
+        (link) => Date.parse(link.expiresAt) > now,
+      ),
+      {
+        tokenHash: hashToken(token),
+        email,
+        next,
+        expiresAt: new Date(now + MAGIC_LINK_TTL_MS).toISOString(),
+      },
+    ];
+  });
+  return token;
+}
+
+export async function consumeMagicLink(token: string) {
+  const tokenHash = hashToken(token);
+  return store.update((data) => {
+    const link = data.magicLinks.find((item) => item.tokenHash === tokenHash);
+    data.magicLinks = data.magicLinks.filter(
+      (item) => item !== link && Date.parse(item.expiresAt) > Date.now(),
+    );
+    return link && Date.parse(link.expiresAt) > Date.now() ? link : null;
+  });
+}
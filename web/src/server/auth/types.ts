@@ -0,0 +1,74 @@
+export const WORKSPACE_ROLES = ["owner", "member"] as const;
+
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+export type User = {
+  id: string;
+  email: string;
+  name: string;
+  // Missing on accounts that only sign in with a magic link.
+  passwordHash?: string;
+  // Set once a magic link proved the address: invitations wait for it.
+  emailVerifiedAt?: string;
+  createdAt: string;
+  lastLoginAt?: string;
+  // Sessions open on it at the next sign-in.
+  lastWorkspaceId?: string;
+};
+
+// Who ran a search or changed a record, as shown at the time.
+export type Actor = {
+  userId: string;
+  name: string;
+};
+
+export type WorkspaceMember = {
+  userId: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+};
+
+// For an email without a verified account yet: accepted when a magic link
+// proves the address.
+export type WorkspaceInvitation = {
+  email: string;
+  role: WorkspaceRole;
+  invitedBy: Actor;
+  createdAt: string;
+};
+
+export type Workspace = {
+  id: string;
+  name: string;
+  members: WorkspaceMember[];
+  invitations: WorkspaceInvitation[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type MagicLink = {
+  tokenHash: string;
+  email: string;
+  next?: string;
+  expiresAt: string;
+};
+
+// Where stored data goes and who to credit for it. Background work started
+// before accounts existed has no actor.
+export type WorkspaceScope = {
+  workspaceId: string;
+  actor?: Actor;
+};
+
+export type Session = {
+  userId: string;
+  workspaceId: string;
+  expiresAt: number;
+};
+
+export type AuthContext = {
+  user: User;
+  workspace: Workspace;
+  role: WorkspaceRole;
+  scope: WorkspaceScope & { actor: Actor };
+};
@@ -0,0 +1,6 @@
+import type { User } from "./types";
+
+// Password hashes never leave the server.
+export function toUserView({ passwordHash, ...user }: User) {
+  return { ...user, hasPassword: Boolean(passwordHash) };
+}
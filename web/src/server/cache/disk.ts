@@ -0,0 +1,34 @@
+import { createJsonFileStore } from "@/server/storage";
+
+import type { CacheBackend, CacheEntry } from "./types";
+
+type CacheFile = {
+  entries: Record<string, CacheEntry>;
+};
+
+export function createDiskCache(): CacheBackend {
+  const store = createJsonFileStore<CacheFile>("cache.json", () => ({
+    entries: {},
+  }));
+
+  return {
+    async get<T>(key: string) {
+      const { entries } = await store.read();
+      const entry = entries[key];
+      return entry && entry.expiresAt > Date.now()
+        ? (entry.value as T)
+        : undefined;
+    },
+    async set(key, value, ttlMs) {
+      const now = Date.now();
+      await store.update((data) => {
+        for (const [existing, entry] of Object.entries(data.entries)) {
+          if (entry.expiresAt <= now) {
+            delete data.entries[existing];
+          }
+        }
+        data.entries[key] = { value, expiresAt: now + ttlMs };
+      });
+    },
+  };
+}
@@ -0,0 +1,2 @@
+export { createCacheSession, type CacheSession } from "./session";
+export type * from "./types";
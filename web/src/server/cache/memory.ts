@@ -0,0 +1,31 @@
+import type { CacheBackend, CacheEntry } from "./types";
+
+const MAX_ENTRIES = 5000;
+
+export function createMemoryCache(): CacheBackend {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value as T;
+    },
+    async set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      if (entries.size > MAX_ENTRIES) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) {
+          entries.delete(oldest);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,214 @@
+import { createHash } from "node:crypto";
+
+import type { GroqPitch, PitchGenerator } from "@/server/pitch";
+import type {
+  EnrichedBusiness,
+  PlacesPage,
+  PlacesProvider,
+} from "@/server/places";
+import { normalizeText } from "@/server/text";
+
+import { createDiskCache } from "./disk";
+import { createMemoryCache } from "./memory";
+import type { CacheBackend, CacheKind, CacheSummary } from "./types";
+
+const DEFAULT_TTL_SECONDS: Record<CacheKind, number> = {
+  geocode: 30 * 24 * 3600,
+  places: 3600,
+  details: 7 * 24 * 3600,
+  pitch: 7 * 24 * 3600,
+};
+
+let backend: { name: string; cache: CacheBackend } | null = null;
+
+function getBackend() {
+  if (!backend) {
+    const name = process.env.CACHE_BACKEND === "disk" ? "disk" : "memory";
+    backend = {
+      name,
+      cache: name === "disk" ? createDiskCache() : createMemoryCache(),
+    };
+  }
+  return backend;
+}
+
+function ttlFor(kind: CacheKind) {
+  const override = Number(process.env[`CACHE_TTL_${kind.toUpperCase()}`]);
+  return (
+    (Number.isFinite(override) && override > 0
+      ? override
+      : DEFAULT_TTL_SECONDS[kind]) * 1000
+  );
+}
+
+function hashKey(value: unknown) {
+  return createHash("sha1").update(JSON.stringify(value)).digest("hex");
+}
+
+export type CacheSession = {
+  withPlaces: (provider: PlacesProvider) => PlacesProvider;
+  withPitch: (generator: PitchGenerator) => PitchGenerator;
+  summary: () => CacheSummary;
+};
+
+export function createCacheSession({
+  refresh = false,
+}: { refresh?: boolean } = {}): CacheSession {
+  const { name, cache } = getBackend();
+  const stats: CacheSummary["byKind"] = {
+    geocode: { hits: 0, misses: 0 },
+    places: { hits: 0, misses: 0 },
+    details: { hits: 0, misses: 0 },
+    pitch: { hits: 0, misses: 0 },
+  };
+
+  async function cached<T>(
+    kind: CacheKind,
+    key: string,
+    load: () => Promise<T>,
+    shouldStore: (value: T) => boolean = () => true,
+  ) {
+    const cacheKey = `${kind}:${key}`;
+    if (!refresh) {
+      const hit = await cache.get<T>(cacheKey);
+      if (hit !== undefined) {
+        stats[kind].hits += 1;
+        return hit;
+      }
+    }
+
+    stats[kind].misses += 1;
+    const value = await load();
+    if (shouldStore(value)) {
+      await cache.set(cacheKey, value, ttlFor(kind));
+    }
+    return value;
+  }
+
+  return {
+    withPlaces(provider) {
+      // Page tokens issued with a cached page may have expired upstream; we
+      // treat a failure on such a token as the end of the results.
+      const pageNumbers = new Map<string, number>();
+      const cachedTokens = new Set<string>();
+
+      return {
+        ...provider,
+        geocode: (address) =>
+          cached("geocode", `${provider.name}:${normalizeText(address)}`, () =>
+            provider.geocode(address),
+          ),
+        async searchText(params) {
+          const page = params.pageToken
+            ? (pageNumbers.get(params.pageToken) ?? 0)
+            : 1;
+          const key = [
+            provider.name,
+            normalizeText(params.query),
+            params.location.lat.toFixed(5),
+            params.location.lng.toFixed(5),
+            params.radius,
+            page,
+          ].join(":");
+
+          let fromCache = true;
+          let result: PlacesPage;
+          try {
+            result =
+              page === 0
+                ? await provider.searchText(params)
+                : await cached("places", key, async () => {
+                    fromCache = false;
+                    return provider.searchText(params);
+                  });
+          } catch (error) {
+            if (params.pageToken && cachedTokens.has(params.pageToken)) {
+              return { results: [] };
+            }
+            throw error;
+          }
+
+          if (result.nextPageToken) {
+            pageNumbers.set(result.nextPageToken, page + 1);
+            if (fromCache && page !== 0) {
+              cachedTokens.add(result.nextPageToken);
+            }
+          }
+          return result;
+        },
+        getDetails: (placeId) =>
+          cached(
+            "details",
+            `${provider.name}:${placeId}`,
+            () => provider.getDetails(placeId),
+            (detail) => detail !== null,
+          ),
+      };
+    },
+    withPitch(generator) {
+      if (generator.name === "template") {
+        return generator;
+      }
+
+      return {
+        ...generator,
+        async generate(businesses, options, onPitch) {
+          const keyFor = (biz: EnrichedBusiness) =>
+            `${generator.name}:${hashKey([
+              biz.place_id,
+              normalizeText(options.query),
+              options.vibe ?? "",
+              options.tone ?? "",
+              options.language ?? "",
+              biz.websiteAudit?.findings.map((finding) => finding.code) ?? [],
+              [...(options.channels ?? [])].sort(),
+              options.agency ?? null,
+              options.template ?? null,
+            ])}`;
+
+          const pitches: GroqPitch[] = [];
+          const misses = [];
+          for (const biz of businesses) {
+            const hit = refresh
+              ? undefined
+              : await cache.get<GroqPitch>(`pitch:${keyFor(biz)}`);
+            if (hit) {
+              stats.pitch.hits += 1;
+              pitches.push(hit);
+              onPitch?.(hit);
+            } else {
+              stats.pitch.misses += 1;
+              misses.push(biz);
+            }
+          }
+          if (!misses.length) {
+            return { pitches, errors: {} };
+          }
+
+          const generated = await generator.generate(misses, options, onPitch);
+          for (const pitch of generated.pitches) {
+            const biz = misses.find((item) => item.place_id === pitch.placeId);
+            if (biz) {
+              await cache.set(`pitch:${keyFor(biz)}`, pitch, ttlFor("pitch"));
+            }
+          }
+          return {
+            pitches: [...pitches, ...generated.pitches],
+            errors: generated.errors,
+            usage: generated.usage,
+          };
+        },
+      };
+    },
+    summary() {
+      const kinds = Object.values(stats);
+      return {
+        backend: name,
+        refreshed: refresh,
+        hits: kinds.reduce((sum, kind) => sum + kind.hits, 0),
+        misses: kinds.reduce((sum, kind) => sum + kind.misses, 0),
+        byKind: stats,
+      };
+    },
+  };
+}
@@ -0,0 +1,19 @@
+export type CacheKind = "geocode" | "places" | "details" | "pitch";
+
+export type CacheBackend = {
+  get: <T>(key: string) => Promise<T | undefined>;
+  set: <T>(key: string, value: T, ttlMs: number) => Promise<void>;
+};
+
+export type CacheEntry = {
+  value: unknown;
+  expiresAt: number;
+};
+
+export type CacheSummary = {
+  backend: string;
+  refreshed: boolean;
+  hits: number;
+  misses: number;
+  byKind: Record<CacheKind, { hits: number; misses: number }>;
+};
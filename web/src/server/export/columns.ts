@@ -0,0 +1,62 @@
+import type { CallScript } from "@/server/pitch";
+
+import type { ExportBusiness } from "./types";
+
+export type ExportCell = string | number | null;
+
+function formatCallScript(script: CallScript) {
+  return [
+    script.opening,
+    ...script.points.map((point) => `- ${point}`),
+    ...script.objections.map(
+      ({ objection, answer }) => `« ${objection} » → ${answer}`,
+    ),
+  ].join("\n");
+}
+
+export const EXPORT_COLUMNS: Array<{
+  header: string;
+  value: (business: ExportBusiness) => ExportCell;
+}> = [
+  { header: "Nom", value: (biz) => biz.name ?? null },
+  { header: "Score", value: (biz) => biz.score?.value ?? null },
+  { header: "Adresse", value: (biz) => biz.formatted_address ?? null },
+  { header: "Téléphone", value: (biz) => biz.formatted_phone_number ?? null },
+  { header: "Note", value: (biz) => biz.rating ?? null },
+  { header: "Nombre d'avis", value: (biz) => biz.user_ratings_total ?? null },
+  { header: "Types", value: (biz) => biz.types?.join(", ") ?? null },
+  { header: "URL Maps", value: (biz) => biz.googleMapsUrl ?? null },
+  { header: "Site web", value: (biz) => biz.website ?? null },
+  {
+    header: "Constats site",
+    value: (biz) =>
+      biz.websiteAudit?.findings.map((finding) => finding.message).join(" ") ??
+      null,
+  },
+  { header: "Vibe", value: (biz) => biz.pitch?.vibeSummary ?? null },
+  { header: "Angle", value: (biz) => biz.pitch?.angle ?? null },
+  {
+    header: "Message personnalisé",
+    value: (biz) => biz.pitch?.personalizedMessage ?? null,
+  },
+  {
+    header: "Objet email",
+    value: (biz) => biz.pitch?.channels?.email?.subject ?? null,
+  },
+  { header: "Email", value: (biz) => biz.pitch?.channels?.email?.body ?? null },
+  { header: "SMS", value: (biz) => biz.pitch?.channels?.sms ?? null },
+  { header: "DM", value: (biz) => biz.pitch?.channels?.dm ?? null },
+  {
+    header: "Script d'appel",
+    value: (biz) =>
+      biz.pitch?.channels?.call
+        ? formatCallScript(biz.pitch.channels.call)
+        : null,
+  },
+];
+
+export function toRows(businesses: ExportBusiness[]) {
+  return businesses.map((business) =>
+    EXPORT_COLUMNS.map((column) => column.value(business)),
+  );
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import { buildCsv } from "./csv";
+import type { ExportBusiness } from "./types";
+
+function readCsv(businesses: ExportBusiness[]) {
+  return new TextDecoder("utf-8", { ignoreBOM: true }).decode(
+    buildCsv(businesses).body,
+  );
+}
+
+describe("buildCsv", () => {
+  it("starts with a BOM and a semicolon-separated header", () => {
+    const text = readCsv([]);
+    expect(text.startsWith("﻿Nom;Score;Adresse;Téléphone;")).toBe(true);
+    expect(text.endsWith("\r\n")).toBe(true);
+  });
+
+  it("writes one row per business, empty cells for missing values", () => {
+    const [, row] = readCsv([
+      { place_id: "a", name: "Chez Louise", rating: 4.6, types: ["bar"] },
+    ]).split("\r\n");
+    expect(row.split(";").slice(0, 7)).toEqual([
+      "Chez Louise",
+      "",
+      "",
+      "",
+      "4.6",
+      "",
+      "bar",
+    ]);
+  });
+
+  it("quotes cells holding delimiters, quotes or line breaks", () => {
+    const [, row] = readCsv([
+      {
+        place_id: "a",
+        name: 'Le "Petit"; bar',
+        formatted_address: "1 rue X\r\n75001 Paris",
+      },
+    ]).split("\r\n");
+    expect(row.startsWith('"Le ""Petit""; bar";;"1 rue X\n75001 Paris";')).toBe(
+      true,
+    );
+  });
+
+  it("neutralizes text that a spreadsheet would run as a formula", () => {
+    const [, row] = readCsv([
+      {
+        place_id: "a",
+        name: '=HYPERLINK("http://evil.example")',
+        formatted_address: "@SUM(A1)",
+        formatted_phone_number: "+1+SUM(A1)",
+        website: "-1+1",
+      },
+    ]).split("\r\n");
+    const cells = row.split(";");
+    expect(cells[0]).toBe('"\'=HYPERLINK(""http://evil.example"")"');
+    expect(cells[2]).toBe("'@SUM(A1)");
+    expect(cells[3]).toBe("'+1+SUM(A1)");
+    expect(cells[8]).toBe("'-1+1");
+  });
+
+  it("keeps international phone numbers as they are", () => {
+    const phones = [
+      "+33 1 23 45 67 89",
+      "+1 (555) 010-0199",
+      "+32.2.511.45.67",
+    ];
+    const rows = readCsv(
+      phones.map((phone) => ({
+        place_id: phone,
+        formatted_phone_number: phone,
+      })),
+    )
+      .split("\r\n")
+      .slice(1, -1);
+    expect(rows.map((row) => row.split(";")[3])).toEqual(phones);
+  });
+
+  it("keeps numbers as they are", () => {
+    const [, row] = readCsv([
+      { place_id: "a", score: { value: -3 }, rating: 4 },
+    ]).split("\r\n");
+    expect(row.split(";").slice(1, 5)).toEqual(["-3", "", "", "4"]);
+  });
+});
@@ -0,0 +1,43 @@
+import { EXPORT_COLUMNS, toRows, type ExportCell } from "./columns";
+import type { ExportBusiness, ExportFile } from "./types";
+
+// Semicolons and a BOM let French-locale Excel open the file with accents intact.
+const DELIMITER = ";";
+const BOM = "\uFEFF";
+
+// Spreadsheets run text starting with one of these as a formula, and names,
+// reviews and pitches are not ours: a leading quote keeps them text.
+// International phone numbers start with "+" too and stay as they are.
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PHONE_NUMBER = /^\+[\d\s().-]+$/;
+
+function neutralizeFormula(text: string) {
+  return FORMULA_START.test(text) && !PHONE_NUMBER.test(text)
+    ? `'${text}`
+    : text;
+}
+
+function escapeCell(cell: ExportCell) {
+  if (cell === null) {
+    return "";
+  }
+  const text = (
+    typeof cell === "string" ? neutralizeFormula(cell) : String(cell)
+  ).replace(/\r\n?/g, "\n");
+  return /[";\n]/.test(text) || text !== text.trim()
+    ? `"${text.replaceAll('"', '""')}"`
+    : text;
+}
+
+export function buildCsv(businesses: ExportBusiness[]): ExportFile {
+  const lines = [
+    EXPORT_COLUMNS.map((column) => column.header),
+    ...toRows(businesses),
+  ].map((row) => row.map(escapeCell).join(DELIMITER));
+
+  return {
+    body: new TextEncoder().encode(BOM + lines.join("\r\n") + "\r\n"),
+    contentType: "text/csv; charset=utf-8",
+    extension: "csv",
+  };
+}
@@ -0,0 +1,20 @@
+import { buildCsv } from "./csv";
+import { buildVcards } from "./vcard";
+import { buildXlsx } from "./xlsx";
+import type { ExportBusiness, ExportFile, ExportFormat } from "./types";
+
+export { EXPORT_FORMATS, exportBusinessSchema } from "./types";
+export type * from "./types";
+
+const builders: Record<
+  ExportFormat,
+  (businesses: ExportBusiness[]) => ExportFile
+> = {
+  csv: buildCsv,
+  xlsx: buildXlsx,
+  vcf: buildVcards,
+};
+
+export function buildExport(format: ExportFormat, businesses: ExportBusiness[]) {
+  return builders[format](businesses);
+}
@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+import { outreachSchema } from "@/server/pitch";
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "vcf"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const exportBusinessSchema = z.object({
+  place_id: z.string(),
+  name: z.string().optional(),
+  formatted_address: z.string().optional(),
+  formatted_phone_number: z.string().optional(),
+  rating: z.number().optional(),
+  user_ratings_total: z.number().optional(),
+  types: z.array(z.string()).optional(),
+  googleMapsUrl: z.string().optional(),
+  website: z.string().optional(),
+  score: z.object({ value: z.number() }).optional(),
+  websiteAudit: z
+    .object({
+      findings: z.array(z.object({ code: z.string(), message: z.string() })),
+    })
+    .optional(),
+  pitch: z
+    .object({
+      vibeSummary: z.string(),
+      angle: z.string(),
+      personalizedMessage: z.string(),
+      channels: outreachSchema.optional(),
+    })
+    .nullable()
+    .optional(),
+});
+
+export type ExportBusiness = z.infer<typeof exportBusinessSchema>;
+
+export type ExportFile = {
+  body: Uint8Array;
+  contentType: string;
+  extension: string;
+};
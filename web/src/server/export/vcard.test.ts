@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+
+import { buildVcards } from "./vcard";
+
+function readCards(...args: Parameters<typeof buildVcards>) {
+  return new TextDecoder().decode(buildVcards(...args).body);
+}
+
+describe("buildVcards", () => {
+  it("writes a card for each business with a phone number", () => {
+    const text = readCards([
+      {
+        place_id: "a",
+        name: "Chez Louise",
+        formatted_phone_number: "01 23 45 67 89",
+        formatted_address: "12 rue des Martyrs, 75009 Paris",
+        googleMapsUrl: "https://maps.example/a",
+        pitch: {
+          vibeSummary: "Bistrot",
+          angle: "Réservation; en ligne",
+          personalizedMessage: "Bonjour",
+        },
+      },
+      { place_id: "b", name: "Sans téléphone" },
+    ]);
+
+    expect(text.split("\r\n")).toEqual([
+      "BEGIN:VCARD",
+      "VERSION:3.0",
+      "FN:Chez Louise",
+      "N:Chez Louise;;;;",
+      "ORG:Chez Louise",
+      "TEL;TYPE=WORK,VOICE:01 23 45 67 89",
+      "ADR;TYPE=WORK:;;12 rue des Martyrs\\, 75009 Paris;;;;",
+      "URL:https://maps.example/a",
+      "NOTE:Réservation\\; en ligne",
+      "END:VCARD",
+      "",
+    ]);
+  });
+
+  it("escapes backslashes and line breaks", () => {
+    const text = readCards([
+      {
+        place_id: "a",
+        name: "A\\B\nC",
+        formatted_phone_number: "01",
+      },
+    ]);
+    expect(text).toContain("FN:A\\\\B\\nC\r\n");
+  });
+
+  it("folds lines longer than 75 octets without splitting characters", () => {
+    const name = "é".repeat(60);
+    const text = readCards([
+      { place_id: "a", name, formatted_phone_number: "01" },
+    ]);
+    const lines = text.split("\r\n");
+    const encoder = new TextEncoder();
+    expect(lines.every((line) => encoder.encode(line).length <= 75)).toBe(true);
+    expect(text.replaceAll("\r\n ", "")).toContain(`FN:${name}\r\n`);
+  });
+
+  it("is empty without any phone number", () => {
+    expect(readCards([{ place_id: "a", name: "A" }])).toBe("\r\n");
+  });
+});
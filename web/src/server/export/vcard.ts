@@ -0,0 +1,67 @@
+import type { ExportBusiness, ExportFile } from "./types";
+
+const MAX_LINE_OCTETS = 75;
+
+function escapeValue(value: string) {
+  return value
+    .replaceAll("\\", "\\\\")
+    .replace(/\r\n?|\n/g, "\\n")
+    .replaceAll(",", "\\,")
+    .replaceAll(";", "\\;");
+}
+
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function buildCard(business: ExportBusiness) {
+  const name = business.name ?? "Prospect";
+  const lines = [
+    "BEGIN:VCARD",
+    "VERSION:3.0",
+    `FN:${escapeValue(name)}`,
+    `N:${escapeValue(name)};;;;`,
+    `ORG:${escapeValue(name)}`,
+    `TEL;TYPE=WORK,VOICE:${escapeValue(business.formatted_phone_number ?? "")}`,
+    business.formatted_address
+      ? `ADR;TYPE=WORK:;;${escapeValue(business.formatted_address)};;;;`
+      : null,
+    business.googleMapsUrl ? `URL:${business.googleMapsUrl}` : null,
+    business.pitch?.angle ? `NOTE:${escapeValue(business.pitch.angle)}` : null,
+    "END:VCARD",
+  ];
+
+  return lines
+    .filter((line): line is string => Boolean(line))
+    .map(foldLine)
+    .join("\r\n");
+}
+
+export function buildVcards(businesses: ExportBusiness[]): ExportFile {
+  const cards = businesses
+    .filter((business) => business.formatted_phone_number)
+    .map(buildCard);
+
+  return {
+    body: new TextEncoder().encode(cards.join("\r\n") + "\r\n"),
+    contentType: "text/vcard; charset=utf-8",
+    extension: "vcf",
+  };
+}
@@ -0,0 +1,80 @@
+import { inflateRawSync } from "node:zlib";
+
+import { describe, expect, it } from "vitest";
+
+import type { ExportBusiness } from "./types";
+import { buildXlsx } from "./xlsx";
+
+// Reads the entries back from the local headers written by createZip.
+function unzip(body: Uint8Array) {
+  const buffer = Buffer.from(body);
+  const entries = new Map<string, string>();
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const size = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const start = offset + 30 + nameLength;
+    const name = buffer.toString("utf8", offset + 30, start);
+    entries.set(
+      name,
+      inflateRawSync(buffer.subarray(start, start + size)).toString("utf8"),
+    );
+    offset = start + size;
+  }
+  return entries;
+}
+
+function readSheet(businesses: ExportBusiness[]) {
+  return (
+    unzip(buildXlsx(businesses).body).get("xl/worksheets/sheet1.xml") ?? ""
+  );
+}
+
+describe("buildXlsx", () => {
+  it("packages a workbook with one worksheet", () => {
+    const entries = unzip(buildXlsx([]).body);
+    expect([...entries.keys()]).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+    ]);
+    expect(entries.get("xl/workbook.xml")).toContain('name="Prospects"');
+  });
+
+  it("writes a bold header row and typed cells", () => {
+    const sheet = readSheet([
+      { place_id: "a", name: "Chez Louise", score: { value: 82 } },
+    ]);
+    expect(sheet).toContain(
+      '<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Nom</t></is></c>',
+    );
+    expect(sheet).toContain(
+      '<c r="A2" s="2" t="inlineStr"><is><t xml:space="preserve">Chez Louise</t></is></c>',
+    );
+    expect(sheet).toContain('<c r="B2" s="2"><v>82</v></c>');
+    expect(sheet).not.toContain('r="C2"');
+  });
+
+  it("escapes markup and strips control characters", () => {
+    const sheet = readSheet([
+      { place_id: "a", name: 'Tom & "Jerry" <bar>\u0007' },
+    ]);
+    expect(sheet).toContain(">Tom &amp; &quot;Jerry&quot; &lt;bar&gt;</t>");
+  });
+
+  it("writes formula-like text and phone numbers literally", () => {
+    const sheet = readSheet([
+      {
+        place_id: "a",
+        name: "=1+1",
+        formatted_phone_number: "+33 1 23 45 67 89",
+      },
+    ]);
+    expect(sheet).toContain(">=1+1</t>");
+    expect(sheet).toContain(">+33 1 23 45 67 89</t>");
+    expect(sheet).not.toContain("<f>");
+  });
+});
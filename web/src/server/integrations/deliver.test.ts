@@ -0,0 +1,297 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+import { deliverLead } from "./deliver";
+import { handleMockRequest } from "./mock";
+import { verifySignature } from "./signature";
+import type { Integration, IntegrationKind, LeadPayload } from "./types";
+
+type Received = {
+  method: string;
+  path: string;
+  searchParams: URLSearchParams;
+  headers: IncomingHttpHeaders;
+  body: string;
+};
+
+// The CRM stand-in behind a real HTTP server, so the requests go through
+// the upstream client. `failCreates` answers the next creates with a status.
+let requests: Received[] = [];
+let failCreates: number[] = [];
+let server: Server;
+let baseUrl: string;
+
+const isCreate = (method: string, path: string) =>
+  method === "POST" && !path.endsWith("/search") && path !== "webhook";
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      const url = new URL(request.url ?? "/", "http://localhost");
+      const method = request.method as "GET" | "POST";
+      const path = url.pathname.slice(1);
+      requests.push({
+        method,
+        path,
+        searchParams: url.searchParams,
+        headers: request.headers,
+        body,
+      });
+      const failure = isCreate(method, path) ? failCreates.shift() : undefined;
+      if (failure) {
+        response.writeHead(failure).end("{}");
+        return;
+      }
+      const answer = handleMockRequest({
+        method,
+        path,
+        headers: new Headers(request.headers as Record<string, string>),
+        searchParams: url.searchParams,
+        body,
+      });
+      response.writeHead(answer.status, {
+        "Content-Type": "application/json",
+      });
+      response.end(JSON.stringify(answer.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  requests = [];
+  failCreates = [];
+});
+
+const integration = (
+  kind: IntegrationKind,
+  fields: Partial<Integration> = {},
+): Integration => ({
+  id: `int-${kind}`,
+  name: kind,
+  kind,
+  url: kind === "webhook" ? `${baseUrl}/webhook` : baseUrl,
+  apiToken: kind === "webhook" ? undefined : "jeton",
+  autoPush: false,
+  enabled: true,
+  delivered: {},
+  createdAt: "2026-10-19T08:00:00.000Z",
+  updatedAt: "2026-10-19T08:00:00.000Z",
+  ...fields,
+});
+
+const lead = (
+  name: string,
+  fields: Partial<LeadPayload> = {},
+): LeadPayload => ({
+  placeId: `place-${name}`,
+  name,
+  address: "12 rue des Martyrs, 75009 Paris",
+  phone: "01 23 45 67 89",
+  website: null,
+  rating: 4.6,
+  reviewCount: 182,
+  types: ["restaurant"],
+  googleMapsUrl: "https://maps.example/louise",
+  location: { lat: 48.8789, lng: 2.3397 },
+  score: 82,
+  pitch: {
+    placeId: `place-${name}`,
+    vibeSummary: "Bistrot de quartier",
+    angle: "Réservation en ligne",
+    personalizedMessage: "Bonjour <Louise> !",
+  },
+  search: { query: "restaurant", location: "Paris" },
+  ...fields,
+});
+
+const creates = () =>
+  requests
+    .filter((request) => isCreate(request.method, request.path))
+    .map((request) => ({ path: request.path, body: JSON.parse(request.body) }));
+
+describe("deliverLead to HubSpot", () => {
+  it("creates a contact and a deal linked to it", async () => {
+    const delivery = await deliverLead(
+      integration("hubspot"),
+      lead("Chez Louise"),
+      "manual",
+    );
+    expect(delivery).toMatchObject({ status: "delivered", attempts: 4 });
+    const { contactId } = delivery.remoteIds ?? {};
+    const [contact, deal] = creates();
+    expect(contact).toEqual({
+      path: "crm/v3/objects/contacts",
+      body: {
+        properties: {
+          company: "Chez Louise",
+          phone: "01 23 45 67 89",
+          address: "12 rue des Martyrs, 75009 Paris",
+          lifecyclestage: "lead",
+          hs_lead_status: "NEW",
+        },
+      },
+    });
+    expect(deal.body.properties).toMatchObject({
+      dealname: "Site web · Chez Louise",
+      pipeline: "default",
+    });
+    expect(deal.body.properties.description).toContain("Score : 82/100");
+    expect(deal.body.associations[0].to.id).toBe(contactId);
+    expect(
+      requests.every(
+        (request) => request.headers.authorization === "Bearer jeton",
+      ),
+    ).toBe(true);
+  });
+
+  it("finds the records of a lead pushed again", async () => {
+    const first = await deliverLead(
+      integration("hubspot"),
+      lead("Boulangerie Martin"),
+      "manual",
+    );
+    requests = [];
+    const again = await deliverLead(
+      integration("hubspot"),
+      lead("Boulangerie Martin"),
+      "search",
+    );
+    expect(again).toMatchObject({
+      status: "delivered",
+      attempts: 2,
+      remoteIds: first.remoteIds,
+    });
+    expect(creates()).toEqual([]);
+  });
+
+  it("does not send a create again after a server error", async () => {
+    failCreates = [503];
+    const delivery = await deliverLead(
+      integration("hubspot"),
+      lead("Salon Élégance"),
+      "manual",
+    );
+    expect(delivery).toMatchObject({ status: "failed", attempts: 2 });
+    expect(creates()).toHaveLength(1);
+  });
+
+  it("retries a create the API turned down", async () => {
+    failCreates = [429];
+    const delivery = await deliverLead(
+      integration("hubspot"),
+      lead("Trattoria Nonna"),
+      "manual",
+    );
+    expect(delivery).toMatchObject({ status: "delivered", attempts: 5 });
+    expect(creates().map((create) => create.path)).toEqual([
+      "crm/v3/objects/contacts",
+      "crm/v3/objects/contacts",
+      "crm/v3/objects/deals",
+    ]);
+  });
+});
+
+describe("deliverLead to Pipedrive", () => {
+  it("creates a person, a deal and a note", async () => {
+    const delivery = await deliverLead(
+      integration("pipedrive"),
+      lead("Fleurs de Ménilmontant"),
+      "manual",
+    );
+    expect(delivery.status).toBe("delivered");
+    const { personId, dealId } = delivery.remoteIds ?? {};
+    expect(creates()).toEqual([
+      {
+        path: "api/v1/persons",
+        body: {
+          name: "Fleurs de Ménilmontant",
+          phone: [{ value: "01 23 45 67 89", primary: true, label: "work" }],
+        },
+      },
+      {
+        path: "api/v1/deals",
+        body: {
+          title: "Site web · Fleurs de Ménilmontant",
+          person_id: Number(personId),
+        },
+      },
+      {
+        path: "api/v1/notes",
+        body: {
+          content: expect.stringContaining("Bonjour &lt;Louise&gt; !<br>"),
+          deal_id: Number(dealId),
+        },
+      },
+    ]);
+    expect(
+      requests.every(
+        (request) => request.searchParams.get("api_token") === "jeton",
+      ),
+    ).toBe(true);
+  });
+
+  it("reuses the person, the deal and the note of a lead pushed again", async () => {
+    const first = await deliverLead(
+      integration("pipedrive"),
+      lead("Café des Arts"),
+      "manual",
+    );
+    requests = [];
+    const again = await deliverLead(
+      integration("pipedrive"),
+      lead("Café des Arts"),
+      "manual",
+    );
+    expect(again.remoteIds).toEqual(first.remoteIds);
+    expect(creates()).toEqual([]);
+  });
+
+  it("keeps businesses sharing a name apart by phone", async () => {
+    const first = await deliverLead(
+      integration("pipedrive"),
+      lead("Le Comptoir"),
+      "manual",
+    );
+    const other = await deliverLead(
+      integration("pipedrive"),
+      lead("Le Comptoir", { phone: "04 78 37 64 82" }),
+      "manual",
+    );
+    expect(other.remoteIds?.personId).not.toBe(first.remoteIds?.personId);
+  });
+});
+
+describe("deliverLead to a webhook", () => {
+  it("signs the body and names the delivery", async () => {
+    const secret = "un-secret-de-test-assez-long";
+    const delivery = await deliverLead(
+      integration("webhook", { secret }),
+      lead("Friterie Flagey"),
+      "test",
+    );
+    expect(delivery).toMatchObject({ status: "delivered", attempts: 1 });
+    const [request] = requests;
+    expect(request.headers["x-delivery-id"]).toBe(delivery.id);
+    expect(
+      verifySignature(
+        secret,
+        String(request.headers["x-signature-timestamp"]),
+        request.body,
+        String(request.headers["x-signature"]),
+      ),
+    ).toBe(true);
+    expect(JSON.parse(request.body)).toMatchObject({
+      event: "lead.pushed",
+      deliveryId: delivery.id,
+      lead: { name: "Friterie Flagey" },
+    });
+  });
+});
@@ -0,0 +1,310 @@
+import { randomUUID } from "node:crypto";
+
+import {
+  AppError,
+  requestJson,
+  requestText,
+  toApiError,
+} from "@/server/upstream";
+
+import {
+  toHubSpotContact,
+  toHubSpotContactSearch,
+  toHubSpotDeal,
+  toHubSpotDealSearch,
+  toPipedriveDeal,
+  toPipedriveDealSearch,
+  toPipedriveNote,
+  toPipedrivePerson,
+  toPipedrivePersonSearch,
+} from "./mappers";
+import { SIGNATURE_HEADER, signPayload, TIMESTAMP_HEADER } from "./signature";
+import type {
+  Delivery,
+  DeliveryTrigger,
+  Integration,
+  IntegrationKind,
+  LeadPayload,
+} from "./types";
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+const DELIVERY_RETRIES = 3;
+
+const API_BASE_URLS: Record<Exclude<IntegrationKind, "webhook">, string> = {
+  hubspot: "https://api.hubapi.com",
+  pipedrive: "https://api.pipedrive.com",
+};
+
+const UPSTREAM_NAMES: Record<IntegrationKind, string> = {
+  webhook: "Webhook",
+  hubspot: "HubSpot",
+  pipedrive: "Pipedrive",
+};
+
+type PipedriveResponse = { success: boolean; data?: { id: number } };
+
+type PipedriveSearch = {
+  success: boolean;
+  data?: { items: { item: { id: number; phones?: string[] } }[] };
+};
+
+type PipedriveNotes = {
+  success: boolean;
+  data?: { id: number; content: string }[] | null;
+};
+
+type HubSpotSearch = { results: { id: string }[] };
+
+type SendOptions<T> = {
+  method?: "GET" | "POST";
+  payload?: unknown;
+  headers?: Record<string, string>;
+  check?: (data: T) => AppError | null;
+  // A create that timed out or got a 5xx may have been stored anyway: only
+  // a 429, which the API turned down before acting, is sent again.
+  create?: boolean;
+};
+
+function wasTurnedDown(failure: AppError) {
+  return failure.code === "QUOTA_EXCEEDED";
+}
+
+// Counts HTTP attempts, retries included, for the delivery log.
+function createSender(integration: Integration) {
+  const upstream = UPSTREAM_NAMES[integration.kind];
+  let attempts = 0;
+
+  const options = (
+    method: string,
+    body: string | undefined,
+    headers: Record<string, string>,
+    create: boolean,
+  ) => {
+    attempts += 1;
+    return {
+      upstream,
+      init: {
+        method,
+        headers: { "Content-Type": "application/json", ...headers },
+        body,
+      },
+      timeoutMs: DELIVERY_TIMEOUT_MS,
+      retries: DELIVERY_RETRIES,
+      ...(create ? { shouldRetry: wasTurnedDown } : {}),
+      onRetry: () => {
+        attempts += 1;
+      },
+    };
+  };
+
+  return {
+    get attempts() {
+      return attempts;
+    },
+    sendJson<T>(
+      url: URL,
+      {
+        method = "POST",
+        payload,
+        headers = {},
+        check,
+        create = false,
+      }: SendOptions<T>,
+    ) {
+      return requestJson<T>(url, {
+        ...options(
+          method,
+          payload === undefined ? undefined : JSON.stringify(payload),
+          headers,
+          create,
+        ),
+        check,
+      });
+    },
+    // Receivers deduplicate on X-Delivery-Id, so webhooks are always retried.
+    postText(url: string, body: string, headers: Record<string, string>) {
+      return requestText(url, options("POST", body, headers, false));
+    },
+  };
+}
+
+type Sender = ReturnType<typeof createSender>;
+
+function apiUrl(integration: Integration, path: string) {
+  const base =
+    integration.url ??
+    API_BASE_URLS[integration.kind as Exclude<IntegrationKind, "webhook">];
+  return new URL(path, base.endsWith("/") ? base : `${base}/`);
+}
+
+async function sendWebhook(
+  integration: Integration,
+  lead: LeadPayload,
+  deliveryId: string,
+  sender: Sender,
+) {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const body = JSON.stringify({
+    event: "lead.pushed",
+    deliveryId,
+    sentAt: new Date().toISOString(),
+    lead,
+  });
+  await sender.postText(integration.url ?? "", body, {
+    "X-Delivery-Id": deliveryId,
+    ...(integration.secret
+      ? {
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: signPayload(integration.secret, timestamp, body),
+        }
+      : {}),
+  });
+  return {};
+}
+
+async function sendToHubSpot(
+  integration: Integration,
+  lead: LeadPayload,
+  sender: Sender,
+) {
+  const headers = { Authorization: `Bearer ${integration.apiToken}` };
+  const findOrCreate = async (
+    objects: string,
+    search: unknown,
+    payload: unknown,
+  ) => {
+    const found = await sender.sendJson<HubSpotSearch>(
+      apiUrl(integration, `crm/v3/objects/${objects}/search`),
+      { payload: search, headers },
+    );
+    if (found.results[0]) {
+      return String(found.results[0].id);
+    }
+    const created = await sender.sendJson<{ id: string }>(
+      apiUrl(integration, `crm/v3/objects/${objects}`),
+      { payload, headers, create: true },
+    );
+    return String(created.id);
+  };
+
+  const contactId = await findOrCreate(
+    "contacts",
+    toHubSpotContactSearch(lead),
+    toHubSpotContact(lead),
+  );
+  const dealId = await findOrCreate(
+    "deals",
+    toHubSpotDealSearch(lead, contactId),
+    toHubSpotDeal(lead, contactId),
+  );
+  return { contactId, dealId };
+}
+
+async function sendToPipedrive(
+  integration: Integration,
+  lead: LeadPayload,
+  sender: Sender,
+) {
+  // Pipedrive answers some rejections with a 200 and `success: false`.
+  const rejected = () =>
+    new AppError("UPSTREAM_ERROR", "Pipedrive a refusé la requête.", {
+      upstream: "Pipedrive",
+    });
+  const check = (data: { success: boolean }) =>
+    data.success ? null : rejected();
+  const url = (path: string, params: Record<string, string> = {}) => {
+    const target = apiUrl(integration, path);
+    for (const [key, value] of Object.entries(params)) {
+      target.searchParams.set(key, value);
+    }
+    target.searchParams.set("api_token", integration.apiToken ?? "");
+    return target;
+  };
+  const search = (path: string, params: Record<string, string>) =>
+    sender.sendJson<PipedriveSearch>(url(path, params), {
+      method: "GET",
+      check,
+    });
+  const create = async (path: string, payload: unknown) => {
+    const created = await sender.sendJson<PipedriveResponse>(url(path), {
+      payload,
+      check: (data) => (data.success && data.data ? null : rejected()),
+      create: true,
+    });
+    return String(created.data?.id);
+  };
+
+  // Several businesses share a name: a known phone has to match too.
+  const people = await search(
+    "api/v1/persons/search",
+    toPipedrivePersonSearch(lead),
+  );
+  const person = people.data?.items.find(
+    ({ item }) => !lead.phone || item.phones?.includes(lead.phone),
+  );
+  const personId = person
+    ? String(person.item.id)
+    : await create("api/v1/persons", toPipedrivePerson(lead));
+
+  const deals = await search(
+    "api/v1/deals/search",
+    toPipedriveDealSearch(lead, personId),
+  );
+  const deal = deals.data?.items[0];
+  const dealId = deal
+    ? String(deal.item.id)
+    : await create("api/v1/deals", toPipedriveDeal(lead, personId));
+
+  const note = toPipedriveNote(lead, dealId);
+  const notes = await sender.sendJson<PipedriveNotes>(
+    url("api/v1/notes", { deal_id: dealId }),
+    { method: "GET", check },
+  );
+  if (!notes.data?.some((item) => item.content === note.content)) {
+    await create("api/v1/notes", note);
+  }
+  return { personId, dealId };
+}
+
+// Never throws: failures end up in the delivery log.
+export async function deliverLead(
+  integration: Integration,
+  lead: LeadPayload,
+  trigger: DeliveryTrigger,
+): Promise<Delivery> {
+  const id = randomUUID();
+  const sender = createSender(integration);
+  const delivery = {
+    id,
+    integrationId: integration.id,
+    integrationName: integration.name,
+    kind: integration.kind,
+    trigger,
+    placeId: lead.placeId,
+    name: lead.name,
+  };
+
+  try {
+    const remoteIds =
+      integration.kind === "hubspot"
+        ? await sendToHubSpot(integration, lead, sender)
+        : integration.kind === "pipedrive"
+          ? await sendToPipedrive(integration, lead, sender)
+          : await sendWebhook(integration, lead, id, sender);
+    return {
+      ...delivery,
+      status: "delivered",
+      attempts: sender.attempts,
+      ...(Object.keys(remoteIds).length ? { remoteIds } : {}),
+      createdAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      ...delivery,
+      status: "failed",
+      attempts: sender.attempts,
+      error: toApiError(error).message,
+      createdAt: new Date().toISOString(),
+    };
+  }
+}
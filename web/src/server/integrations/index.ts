@@ -0,0 +1,27 @@
+export { deliverLead } from "./deliver";
+export {
+  handleMockRequest,
+  isMockEnabled,
+  isMockLookup,
+  listMockRequests,
+} from "./mock";
+export { buildLeadPayload } from "./payload";
+export { autoPushLeads, pushProspects, testIntegration } from "./push";
+export {
+  createIntegrationSchema,
+  integrationSchema,
+  pushSchema,
+  type IntegrationInput,
+  type PushRequest,
+} from "./schema";
+export {
+  createIntegration,
+  deleteIntegration,
+  getIntegration,
+  listDeliveries,
+  listIntegrations,
+  replaceIntegration,
+} from "./store";
+export { INTEGRATION_KINDS } from "./types";
+export type * from "./types";
+export { toIntegrationView } from "./view";
@@ -0,0 +1,135 @@
+import { escapeHtml } from "@/server/text";
+
+import type { LeadPayload } from "./types";
+
+// Deal to contact, one of HubSpot's default association types.
+const HUBSPOT_DEAL_TO_CONTACT = 3;
+
+function describeLead(lead: LeadPayload) {
+  return [
+    lead.pitch?.angle,
+    lead.pitch?.personalizedMessage,
+    lead.score !== null ? `Score : ${lead.score}/100` : null,
+    lead.rating !== null
+      ? `Note Google : ${lead.rating} (${lead.reviewCount ?? 0} avis)`
+      : null,
+    `Google Maps : ${lead.googleMapsUrl}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function dealTitle(lead: LeadPayload) {
+  return `Site web · ${lead.name}`;
+}
+
+// Only default HubSpot properties, custom ones would have to be created in
+// the portal first.
+export function toHubSpotContact(lead: LeadPayload) {
+  return {
+    properties: {
+      company: lead.name,
+      ...(lead.phone ? { phone: lead.phone } : {}),
+      ...(lead.website ? { website: lead.website } : {}),
+      ...(lead.address ? { address: lead.address } : {}),
+      lifecyclestage: "lead",
+      hs_lead_status: "NEW",
+    },
+  };
+}
+
+export function toHubSpotDeal(lead: LeadPayload, contactId: string) {
+  return {
+    properties: {
+      dealname: dealTitle(lead),
+      pipeline: "default",
+      dealstage: "appointmentscheduled",
+      description: describeLead(lead),
+    },
+    associations: [
+      {
+        to: { id: contactId },
+        types: [
+          {
+            associationCategory: "HUBSPOT_DEFINED",
+            associationTypeId: HUBSPOT_DEAL_TO_CONTACT,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+// Lookups run before each create, so a lead pushed twice, or a create that
+// timed out after HubSpot stored it, does not end up duplicated.
+export function toHubSpotContactSearch(lead: LeadPayload) {
+  return {
+    filterGroups: [
+      {
+        filters: [
+          { propertyName: "company", operator: "EQ", value: lead.name },
+          ...(lead.address
+            ? [{ propertyName: "address", operator: "EQ", value: lead.address }]
+            : []),
+        ],
+      },
+    ],
+    properties: ["company"],
+    limit: 1,
+  };
+}
+
+export function toHubSpotDealSearch(lead: LeadPayload, contactId: string) {
+  return {
+    filterGroups: [
+      {
+        filters: [
+          { propertyName: "dealname", operator: "EQ", value: dealTitle(lead) },
+          {
+            propertyName: "associations.contact",
+            operator: "EQ",
+            value: contactId,
+          },
+        ],
+      },
+    ],
+    properties: ["dealname"],
+    limit: 1,
+  };
+}
+
+export function toPipedrivePerson(lead: LeadPayload) {
+  return {
+    name: lead.name,
+    ...(lead.phone
+      ? { phone: [{ value: lead.phone, primary: true, label: "work" }] }
+      : {}),
+  };
+}
+
+export function toPipedriveDeal(lead: LeadPayload, personId: string) {
+  return {
+    title: dealTitle(lead),
+    person_id: Number(personId),
+  };
+}
+
+export function toPipedrivePersonSearch(lead: LeadPayload) {
+  return { term: lead.name, fields: "name", exact_match: "true" };
+}
+
+export function toPipedriveDealSearch(lead: LeadPayload, personId: string) {
+  return {
+    term: dealTitle(lead),
+    fields: "title",
+    exact_match: "true",
+    person_id: personId,
+  };
+}
+
+export function toPipedriveNote(lead: LeadPayload, dealId: string) {
+  return {
+    content: escapeHtml(describeLead(lead)).replaceAll("\n", "<br>"),
+    deal_id: Number(dealId),
+  };
+}
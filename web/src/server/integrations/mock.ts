@@ -0,0 +1,203 @@
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifySignature,
+} from "./signature";
+
+// A local stand-in for HubSpot, Pipedrive and webhook receivers, enabled with
+// INTEGRATIONS_MOCK=true. Requests are kept in memory.
+const MAX_REQUESTS = 50;
+
+export type MockRequest = {
+  receivedAt: string;
+  method: "GET" | "POST";
+  path: string;
+  status: number;
+  body: unknown;
+  // null when the request is unsigned or INTEGRATIONS_MOCK_SECRET is unset.
+  signatureValid: boolean | null;
+};
+
+type MockInput = {
+  method: "GET" | "POST";
+  path: string;
+  headers: Headers;
+  searchParams: URLSearchParams;
+  body: string;
+};
+
+type MockRecord = { id: number; fields: Record<string, unknown> };
+
+type HubSpotFilter = { propertyName: string; value: string };
+
+const received: MockRequest[] = [];
+const failuresServed = new Map<string, number>();
+// Created CRM records, by collection path, so lookups find them again.
+const records = new Map<string, MockRecord[]>();
+let nextId = 1;
+
+const HUBSPOT_SEARCH = /crm\/v3\/objects\/(contacts|deals)\/search$/;
+const HUBSPOT_CREATE = /crm\/v3\/objects\/(contacts|deals)$/;
+const PIPEDRIVE_SEARCH = /api\/v1\/(persons|deals)\/search$/;
+const PIPEDRIVE_NOTES = /api\/v1\/notes$/;
+const PIPEDRIVE_CREATE = /api\/v1\/(persons|deals|notes)$/;
+
+export function isMockEnabled() {
+  return process.env.INTEGRATIONS_MOCK === "true";
+}
+
+// Other GETs list the requests received.
+export function isMockLookup(path: string) {
+  return PIPEDRIVE_SEARCH.test(path) || PIPEDRIVE_NOTES.test(path);
+}
+
+function collection(path: string) {
+  const items = records.get(path) ?? [];
+  records.set(path, items);
+  return items;
+}
+
+function store(path: string, fields: Record<string, unknown>) {
+  const id = nextId++;
+  collection(path).push({ id, fields });
+  return id;
+}
+
+// Keeps the fields the lookups filter on, flattened.
+function toFields(path: string, body: Record<string, unknown>) {
+  if (HUBSPOT_CREATE.test(path)) {
+    const associations = body.associations as
+      { to: { id: string } }[] | undefined;
+    return {
+      ...(body.properties as Record<string, unknown>),
+      "associations.contact": associations?.[0]?.to.id,
+    };
+  }
+  const phones = body.phone as { value: string }[] | undefined;
+  return { ...body, phones: phones?.map((phone) => phone.value) ?? [] };
+}
+
+function respond(
+  method: MockInput["method"],
+  path: string,
+  searchParams: URLSearchParams,
+  body: unknown,
+): { status: number; body: unknown } {
+  const payload = (body ?? {}) as Record<string, unknown>;
+  if (method === "GET" && PIPEDRIVE_SEARCH.test(path)) {
+    const field = searchParams.get("fields") ?? "name";
+    const personId = searchParams.get("person_id");
+    const items = collection(path.replace(/\/search$/, "")).filter(
+      ({ fields }) =>
+        fields[field] === searchParams.get("term") &&
+        (!personId || String(fields.person_id) === personId),
+    );
+    return {
+      status: 200,
+      body: {
+        success: true,
+        data: {
+          items: items.map(({ id, fields }) => ({
+            result_score: 1,
+            item: { id, ...fields },
+          })),
+        },
+      },
+    };
+  }
+  if (method === "GET" && PIPEDRIVE_NOTES.test(path)) {
+    const notes = collection(path).filter(
+      ({ fields }) => String(fields.deal_id) === searchParams.get("deal_id"),
+    );
+    return {
+      status: 200,
+      body: {
+        success: true,
+        data: notes.length
+          ? notes.map(({ id, fields }) => ({ id, ...fields }))
+          : null,
+      },
+    };
+  }
+  if (HUBSPOT_SEARCH.test(path)) {
+    const groups = (payload.filterGroups ?? []) as {
+      filters: HubSpotFilter[];
+    }[];
+    const results = collection(path.replace(/\/search$/, "")).filter(
+      ({ fields }) =>
+        groups.some(({ filters }) =>
+          filters.every(
+            ({ propertyName, value }) => String(fields[propertyName]) === value,
+          ),
+        ),
+    );
+    return {
+      status: 200,
+      body: {
+        total: results.length,
+        results: results.map(({ id, fields }) => ({
+          id: String(id),
+          properties: fields,
+        })),
+      },
+    };
+  }
+  if (HUBSPOT_CREATE.test(path)) {
+    const id = store(path, toFields(path, payload));
+    return { status: 201, body: { id: String(id) } };
+  }
+  if (PIPEDRIVE_CREATE.test(path)) {
+    const id = store(path, toFields(path, payload));
+    return { status: 201, body: { success: true, data: { id } } };
+  }
+  return { status: 200, body: { received: true } };
+}
+
+// `?fail=N` answers the first N calls to a path with a 503, to watch
+// retries at work.
+export function handleMockRequest({
+  method,
+  path,
+  headers,
+  searchParams,
+  body,
+}: MockInput) {
+  let parsed: unknown = body;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    // Kept as text.
+  }
+
+  const failures = Number(searchParams.get("fail")) || 0;
+  const served = failuresServed.get(path) ?? 0;
+  const response =
+    served < failures
+      ? { status: 503, body: { error: "Mock indisponible." } }
+      : respond(method, path, searchParams, parsed);
+  if (response.status === 503) {
+    failuresServed.set(path, served + 1);
+  }
+
+  const secret = process.env.INTEGRATIONS_MOCK_SECRET;
+  const signature = headers.get(SIGNATURE_HEADER);
+  const timestamp = headers.get(TIMESTAMP_HEADER);
+
+  received.unshift({
+    receivedAt: new Date().toISOString(),
+    method,
+    path,
+    status: response.status,
+    body: parsed,
+    signatureValid:
+      secret && signature && timestamp
+        ? verifySignature(secret, timestamp, body, signature)
+        : null,
+  });
+  received.length = Math.min(received.length, MAX_REQUESTS);
+  return response;
+}
+
+export function listMockRequests() {
+  return received;
+}
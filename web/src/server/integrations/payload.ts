@@ -0,0 +1,26 @@
+import type { EnrichedBusiness } from "@/server/places";
+import type { GroqPitch } from "@/server/pitch";
+
+import type { LeadPayload } from "./types";
+
+export function buildLeadPayload(
+  business: EnrichedBusiness,
+  pitch: GroqPitch | null,
+  search: LeadPayload["search"] = null,
+): LeadPayload {
+  return {
+    placeId: business.place_id,
+    name: business.name ?? business.place_id,
+    address: business.formatted_address ?? null,
+    phone: business.formatted_phone_number ?? null,
+    website: business.website ?? null,
+    rating: business.rating ?? null,
+    reviewCount: business.user_ratings_total ?? null,
+    types: business.types ?? [],
+    googleMapsUrl: business.googleMapsUrl,
+    location: business.geometry?.location ?? null,
+    score: business.score?.value ?? null,
+    pitch,
+    search,
+  };
+}
@@ -0,0 +1,101 @@
+import { buildTemplatePitch } from "@/server/pitch";
+import { getProspect } from "@/server/prospects";
+import { SAMPLE_BUSINESS } from "@/server/settings";
+
+import { deliverLead } from "./deliver";
+import { buildLeadPayload } from "./payload";
+import { listIntegrations, recordDeliveries } from "./store";
+import type {
+  Delivery,
+  DeliveryTrigger,
+  Integration,
+  LeadPayload,
+} from "./types";
+
+async function deliverAll(
+  workspaceId: string,
+  integrations: Integration[],
+  leads: LeadPayload[],
+  trigger: DeliveryTrigger,
+) {
+  const deliveries: Delivery[] = [];
+  for (const integration of integrations) {
+    for (const lead of leads) {
+      deliveries.push(await deliverLead(integration, lead, trigger));
+    }
+  }
+  await recordDeliveries(workspaceId, deliveries);
+  return deliveries;
+}
+
+export async function pushProspects(
+  workspaceId: string,
+  placeIds: string[],
+  integrationIds?: string[],
+) {
+  const prospects = await Promise.all(
+    placeIds.map((placeId) => getProspect(workspaceId, placeId)),
+  );
+  const leads = prospects
+    .filter((prospect) => prospect !== null)
+    .map((prospect) =>
+      buildLeadPayload(prospect.business, prospect.pitch, {
+        query: prospect.lastSearch.query,
+        location: prospect.lastSearch.location,
+      }),
+    );
+  const integrations = (await listIntegrations(workspaceId)).filter(
+    (integration) =>
+      integrationIds
+        ? integrationIds.includes(integration.id)
+        : integration.enabled,
+  );
+
+  return {
+    deliveries: await deliverAll(workspaceId, integrations, leads, "manual"),
+    missing: placeIds.filter((_, index) => !prospects[index]),
+  };
+}
+
+// Sends the sample business used by prompt previews.
+export async function testIntegration(
+  workspaceId: string,
+  integration: Integration,
+) {
+  const query = "boulangerie";
+  const lead = buildLeadPayload(
+    SAMPLE_BUSINESS,
+    buildTemplatePitch(SAMPLE_BUSINESS, { query }),
+    { query, location: "Paris" },
+  );
+  const [delivery] = await deliverAll(
+    workspaceId,
+    [integration],
+    [lead],
+    "test",
+  );
+  return delivery;
+}
+
+// After a search: each lead goes once to every integration set to push
+// automatically.
+export async function autoPushLeads(
+  workspaceId: string,
+  leads: LeadPayload[],
+) {
+  try {
+    const integrations = (await listIntegrations(workspaceId)).filter(
+      (integration) => integration.enabled && integration.autoPush,
+    );
+    for (const integration of integrations) {
+      await deliverAll(
+        workspaceId,
+        [integration],
+        leads.filter((lead) => !integration.delivered[lead.placeId]),
+        "search",
+      );
+    }
+  } catch {
+    // A broken integrations file must not fail the search.
+  }
+}
@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+import { DEFAULT_LOCALE, getMessages, type Locale } from "@/i18n";
+
+import { INTEGRATION_KINDS } from "./types";
+
+export function createIntegrationSchema(locale: Locale = DEFAULT_LOCALE) {
+  const t = getMessages(locale).validation;
+  return z
+    .object({
+      name: z.string().trim().min(2, t.nameTooShort).max(80),
+      kind: z.enum(INTEGRATION_KINDS),
+      // The webhook address, or a CRM API base URL other than the real one,
+      // such as a local mock server.
+      url: z.string().trim().url(t.urlInvalid).optional(),
+      secret: z.string().min(16, t.secretTooShort).max(200).optional(),
+      apiToken: z.string().trim().min(1).max(500).optional(),
+      autoPush: z.boolean().default(false),
+      enabled: z.boolean().default(true),
+    })
+    .superRefine((integration, ctx) => {
+      if (integration.kind === "webhook" && !integration.url) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["url"],
+          message: t.webhookUrlMissing,
+        });
+      }
+      if (integration.kind !== "webhook" && !integration.apiToken) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["apiToken"],
+          message: t.apiTokenMissing,
+        });
+      }
+    });
+}
+
+export const integrationSchema = createIntegrationSchema();
+
+export const pushSchema = z.object({
+  placeIds: z.array(z.string().min(1)).min(1).max(100),
+  // Every enabled integration by default.
+  integrationIds: z.array(z.string().min(1)).min(1).optional(),
+});
+
+export type IntegrationInput = z.infer<typeof integrationSchema>;
+export type PushRequest = z.infer<typeof pushSchema>;
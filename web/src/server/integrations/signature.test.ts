@@ -0,0 +1,44 @@
+import { createHmac } from "node:crypto";
+
+import { describe, expect, it } from "vitest";
+
+import { signPayload, verifySignature } from "./signature";
+
+const secret = "un-secret-de-test-assez-long";
+const timestamp = "1792396800";
+const body = JSON.stringify({ event: "lead.pushed", lead: { name: "Café" } });
+
+describe("signPayload", () => {
+  it("signs the timestamp and the body together", () => {
+    const digest = createHmac("sha256", secret)
+      .update(`${timestamp}.${body}`)
+      .digest("hex");
+    expect(signPayload(secret, timestamp, body)).toBe(`sha256=${digest}`);
+  });
+});
+
+describe("verifySignature", () => {
+  const signature = signPayload(secret, timestamp, body);
+
+  it("accepts the signature of the same payload", () => {
+    expect(verifySignature(secret, timestamp, body, signature)).toBe(true);
+  });
+
+  it("rejects another body, timestamp or secret", () => {
+    expect(verifySignature(secret, timestamp, `${body} `, signature)).toBe(
+      false,
+    );
+    expect(verifySignature(secret, "1792396801", body, signature)).toBe(false);
+    expect(verifySignature(`${secret}!`, timestamp, body, signature)).toBe(
+      false,
+    );
+  });
+
+  it("rejects malformed signatures without throwing", () => {
+    expect(verifySignature(secret, timestamp, body, "")).toBe(false);
+    expect(verifySignature(secret, timestamp, body, "sha256=abc")).toBe(false);
+    expect(
+      verifySignature(secret, timestamp, body, signature.toUpperCase()),
+    ).toBe(false);
+  });
+});
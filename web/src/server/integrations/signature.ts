@@ -0,0 +1,26 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export const SIGNATURE_HEADER = "X-Signature";
+export const TIMESTAMP_HEADER = "X-Signature-Timestamp";
+
+// HMAC-SHA256 of "<timestamp>.<body>": receivers reject replays by checking
+// the timestamp.
+export function signPayload(secret: string, timestamp: string, body: string) {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+export function verifySignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string,
+) {
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
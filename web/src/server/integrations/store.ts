@@ -0,0 +1,124 @@
+import { randomUUID } from "node:crypto";
+
+import { createWorkspaceFileStore, getOwn } from "@/server/storage";
+
+import type { IntegrationInput } from "./schema";
+import type { Delivery, Integration } from "./types";
+
+const MAX_DELIVERIES = 500;
+
+type IntegrationsFile = {
+  integrations: Record<string, Integration>;
+  deliveries: Delivery[];
+};
+
+const storeFor = createWorkspaceFileStore<IntegrationsFile>(
+  "integrations.json",
+  () => ({ integrations: {}, deliveries: [] }),
+);
+
+export async function createIntegration(
+  workspaceId: string,
+  input: IntegrationInput,
+) {
+  const now = new Date().toISOString();
+  const integration: Integration = {
+    ...input,
+    id: randomUUID(),
+    delivered: {},
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await storeFor(workspaceId).update((data) => {
+    data.integrations[integration.id] = integration;
+  });
+  return integration;
+}
+
+export async function listIntegrations(workspaceId: string) {
+  const { integrations } = await storeFor(workspaceId).read();
+  return Object.values(integrations).sort((a, b) =>
+    a.name.localeCompare(b.name, "fr"),
+  );
+}
+
+export async function getIntegration(
+  workspaceId: string,
+  integrationId: string,
+) {
+  const { integrations } = await storeFor(workspaceId).read();
+  return getOwn(integrations, integrationId) ?? null;
+}
+
+export async function replaceIntegration(
+  workspaceId: string,
+  integrationId: string,
+  input: IntegrationInput,
+) {
+  return storeFor(workspaceId).update((data) => {
+    const existing = getOwn(data.integrations, integrationId);
+    if (!existing) {
+      return null;
+    }
+    const integration: Integration = {
+      ...input,
+      id: existing.id,
+      // Leads sent to another kind of target have not reached this one.
+      delivered: input.kind === existing.kind ? existing.delivered : {},
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+    data.integrations[integrationId] = integration;
+    return integration;
+  });
+}
+
+export async function deleteIntegration(
+  workspaceId: string,
+  integrationId: string,
+) {
+  return storeFor(workspaceId).update((data) => {
+    if (!getOwn(data.integrations, integrationId)) {
+      return false;
+    }
+    delete data.integrations[integrationId];
+    return true;
+  });
+}
+
+export async function recordDeliveries(
+  workspaceId: string,
+  deliveries: Delivery[],
+) {
+  if (!deliveries.length) {
+    return;
+  }
+  await storeFor(workspaceId).update((data) => {
+    for (const delivery of deliveries) {
+      const integration = getOwn(data.integrations, delivery.integrationId);
+      if (
+        integration &&
+        delivery.status === "delivered" &&
+        delivery.trigger !== "test"
+      ) {
+        integration.delivered[delivery.placeId] = delivery.createdAt;
+      }
+    }
+    const newestFirst = [...deliveries].reverse();
+    data.deliveries = [...newestFirst, ...data.deliveries].slice(
+      0,
+      MAX_DELIVERIES,
+    );
+  });
+}
+
+export async function listDeliveries(
+  workspaceId: string,
+  integrationId?: string,
+) {
+  const { deliveries } = await storeFor(workspaceId).read();
+  return integrationId
+    ? deliveries.filter((item) => item.integrationId === integrationId)
+    : deliveries;
+}
@@ -0,0 +1,51 @@
+import type { GroqPitch } from "@/server/pitch";
+
+import type { IntegrationInput } from "./schema";
+
+export const INTEGRATION_KINDS = ["webhook", "hubspot", "pipedrive"] as const;
+
+export type IntegrationKind = (typeof INTEGRATION_KINDS)[number];
+
+export type Integration = IntegrationInput & {
+  id: string;
+  // place_id -> last successful delivery, so automatic pushes send each
+  // lead once.
+  delivered: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// The normalized lead every target receives, before CRM mapping.
+export type LeadPayload = {
+  placeId: string;
+  name: string;
+  address: string | null;
+  phone: string | null;
+  website: string | null;
+  rating: number | null;
+  reviewCount: number | null;
+  types: string[];
+  googleMapsUrl: string;
+  location: { lat: number; lng: number } | null;
+  score: number | null;
+  pitch: GroqPitch | null;
+  search: { query: string; location: string } | null;
+};
+
+export type DeliveryTrigger = "manual" | "search" | "test";
+
+export type Delivery = {
+  id: string;
+  integrationId: string;
+  integrationName: string;
+  kind: IntegrationKind;
+  trigger: DeliveryTrigger;
+  placeId: string;
+  name: string;
+  status: "delivered" | "failed";
+  attempts: number;
+  // Identifiers returned by the CRM (contact, deal...).
+  remoteIds?: Record<string, string>;
+  error?: string;
+  createdAt: string;
+};
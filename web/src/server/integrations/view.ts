@@ -0,0 +1,16 @@
+import type { Integration } from "./types";
+
+// Secrets never leave the server once saved.
+export function toIntegrationView({
+  secret,
+  apiToken,
+  delivered,
+  ...integration
+}: Integration) {
+  return {
+    ...integration,
+    hasSecret: Boolean(secret),
+    hasApiToken: Boolean(apiToken),
+    deliveredLeads: Object.keys(delivered).length,
+  };
+}
@@ -0,0 +1,9 @@
+export { createJob, getJob, listJobs } from "./store";
+export {
+  createJobBodySchema,
+  jobBodySchema,
+  type JobStatus,
+  type SearchJob,
+} from "./types";
+export { toJobView } from "./view";
+export { cancelJob, resumePendingJobs, startJob } from "./worker";
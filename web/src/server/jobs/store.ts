@@ -0,0 +1,68 @@
+import { randomUUID } from "node:crypto";
+
+import type { Locale } from "@/i18n";
+import type { WorkspaceScope } from "@/server/auth";
+import { createSearchState } from "@/server/search";
+import { createWorkspaceFileStore, getOwn } from "@/server/storage";
+
+import type { JobRequest, SearchJob } from "./types";
+
+type JobsFile = {
+  jobs: Record<string, SearchJob>;
+};
+
+const storeFor = createWorkspaceFileStore<JobsFile>("jobs.json", () => ({
+  jobs: {},
+}));
+
+export const TERMINAL_STATUSES = ["completed", "failed", "cancelled"];
+
+export async function createJob(
+  { workspaceId, actor }: WorkspaceScope,
+  request: JobRequest,
+  locale?: Locale,
+) {
+  const now = new Date().toISOString();
+  const job: SearchJob = {
+    id: randomUUID(),
+    status: "queued",
+    request,
+    createdBy: actor,
+    locale,
+    state: createSearchState(),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await storeFor(workspaceId).update((data) => {
+    data.jobs[job.id] = job;
+  });
+  return job;
+}
+
+export async function getJob(workspaceId: string, jobId: string) {
+  const { jobs } = await storeFor(workspaceId).read();
+  return getOwn(jobs, jobId) ?? null;
+}
+
+export async function listJobs(workspaceId: string) {
+  const { jobs } = await storeFor(workspaceId).read();
+  return Object.values(jobs).sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt),
+  );
+}
+
+export async function updateJob(
+  workspaceId: string,
+  jobId: string,
+  patch: Partial<Omit<SearchJob, "id" | "request" | "createdAt">>,
+) {
+  return storeFor(workspaceId).update((data) => {
+    const job = getOwn(data.jobs, jobId);
+    if (!job) {
+      return null;
+    }
+    Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+    return job;
+  });
+}
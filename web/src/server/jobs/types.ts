@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+import { DEFAULT_LOCALE, type Locale } from "@/i18n";
+import type { Actor } from "@/server/auth";
+import {
+  createBodySchema,
+  type SearchMetadata,
+  type SearchState,
+} from "@/server/search";
+import type { ApiError } from "@/server/upstream";
+
+export function createJobBodySchema(locale: Locale = DEFAULT_LOCALE) {
+  return createBodySchema(locale).extend({
+    maxResults: z.number().int().min(1).max(40).default(10).optional(),
+  });
+}
+
+export const jobBodySchema = createJobBodySchema();
+
+export type JobRequest = z.infer<typeof jobBodySchema>;
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type SearchJob = {
+  id: string;
+  status: JobStatus;
+  request: JobRequest;
+  // Missing on jobs created before accounts existed.
+  createdBy?: Actor;
+  // The locale of the request that queued the job; missing on older jobs.
+  locale?: Locale;
+  state: SearchState;
+  metadata?: SearchMetadata;
+  error?: ApiError;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+};
@@ -0,0 +1,41 @@
+import { compareByScore } from "@/server/scoring";
+
+import type { SearchJob } from "./types";
+
+export function toJobView(job: SearchJob, options = { withResults: true }) {
+  const { state } = job;
+  const businesses = options.withResults
+    ? state.businesses.map(
+        (biz) =>
+          state.results.find((item) => item.place_id === biz.place_id) ?? {
+            ...biz,
+            pitch: null,
+          },
+      )
+    : undefined;
+  if (job.request.sortBy === "score") {
+    businesses?.sort(compareByScore);
+  }
+
+  return {
+    id: job.id,
+    status: job.status,
+    step: state.step,
+    request: job.request,
+    createdBy: job.createdBy ?? null,
+    progress: {
+      pagesFetched: state.pagesFetched,
+      totalFound: state.summaries.length,
+      placesScanned: state.placesScanned,
+      businesses: state.businesses.length,
+      pitched: state.results.length,
+      target: job.request.maxResults ?? 10,
+    },
+    businesses,
+    metadata: job.metadata ?? null,
+    error: job.error ?? null,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    finishedAt: job.finishedAt ?? null,
+  };
+}
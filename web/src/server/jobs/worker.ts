@@ -0,0 +1,98 @@
+import { listWorkspaceIds } from "@/server/auth";
+import { createSearchDependencies, runSearch } from "@/server/search";
+import { toApiError } from "@/server/upstream";
+
+import { getJob, listJobs, TERMINAL_STATUSES, updateJob } from "./store";
+
+const running = new Map<string, AbortController>();
+let resumed = false;
+
+async function execute(
+  workspaceId: string,
+  jobId: string,
+  controller: AbortController,
+) {
+  try {
+    const job = await getJob(workspaceId, jobId);
+    if (!job || TERMINAL_STATUSES.includes(job.status)) {
+      return;
+    }
+    await updateJob(workspaceId, jobId, { status: "running" });
+
+    const deps = createSearchDependencies({
+      scope: { workspaceId, actor: job.createdBy },
+      locale: job.locale,
+      refresh: job.request.refresh,
+      clientId: `job:${jobId}`,
+    });
+    const result = await runSearch(job.request, deps, {
+      state: job.state,
+      signal: controller.signal,
+      onCheckpoint: async (state) => {
+        await updateJob(workspaceId, jobId, { state });
+      },
+    });
+    controller.signal.throwIfAborted();
+    await updateJob(workspaceId, jobId, {
+      status: "completed",
+      metadata: result.metadata,
+      finishedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    await updateJob(
+      workspaceId,
+      jobId,
+      controller.signal.aborted
+        ? { status: "cancelled", finishedAt: new Date().toISOString() }
+        : {
+            status: "failed",
+            error: toApiError(error),
+            finishedAt: new Date().toISOString(),
+          },
+    );
+  } finally {
+    running.delete(jobId);
+  }
+}
+
+export function startJob(workspaceId: string, jobId: string) {
+  if (running.has(jobId)) {
+    return;
+  }
+  const controller = new AbortController();
+  running.set(jobId, controller);
+  // A job whose outcome could not be saved stays running: it resumes at the
+  // next start.
+  void execute(workspaceId, jobId, controller).catch(() => undefined);
+}
+
+export async function cancelJob(workspaceId: string, jobId: string) {
+  const job = await getJob(workspaceId, jobId);
+  if (!job || TERMINAL_STATUSES.includes(job.status)) {
+    return job;
+  }
+
+  const controller = running.get(jobId);
+  if (controller) {
+    controller.abort();
+  }
+  return updateJob(workspaceId, jobId, {
+    status: "cancelled",
+    finishedAt: new Date().toISOString(),
+  });
+}
+
+export async function resumePendingJobs() {
+  if (resumed) {
+    return;
+  }
+  resumed = true;
+
+  for (const workspaceId of await listWorkspaceIds()) {
+    for (const job of await listJobs(workspaceId)) {
+      if (job.status === "queued" || job.status === "running") {
+        startJob(workspaceId, job.id);
+      }
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export { sendMail } from "./smtp";
+export type * from "./types";
@@ -0,0 +1,160 @@
+import { randomUUID } from "node:crypto";
+import { createConnection, type Socket } from "node:net";
+
+import { AppError } from "@/server/upstream";
+
+import type { MailMessage } from "./types";
+
+const SMTP_TIMEOUT_MS = 10_000;
+
+type Reply = { code: number; text: string };
+
+// Plain SMTP without TLS nor authentication: meant for a local catcher
+// such as Mailpit or MailHog.
+function getMailConfig() {
+  return {
+    host: process.env.SMTP_HOST ?? "localhost",
+    port: Number(process.env.SMTP_PORT) || 1025,
+    from: process.env.MAIL_FROM ?? "Prospection <no-reply@localhost>",
+  };
+}
+
+function createReplyReader(socket: Socket) {
+  let buffer = "";
+  const lines: string[] = [];
+  let failure: Error | null = null;
+  let pending: {
+    resolve: (reply: Reply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+
+  const deliver = () => {
+    if (!pending) {
+      return;
+    }
+    if (failure) {
+      pending.reject(failure);
+      pending = null;
+      return;
+    }
+    // Multiline replies use `250-` on every line but the last.
+    const last = lines.findIndex((line) => /^\d{3}( |$)/.test(line));
+    if (last < 0) {
+      return;
+    }
+    const reply = lines.splice(0, last + 1);
+    pending.resolve({
+      code: Number(reply[last].slice(0, 3)),
+      text: reply.map((line) => line.slice(4)).join(" "),
+    });
+    pending = null;
+  };
+
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    let index = buffer.indexOf("\r\n");
+    while (index >= 0) {
+      lines.push(buffer.slice(0, index));
+      buffer = buffer.slice(index + 2);
+      index = buffer.indexOf("\r\n");
+    }
+    deliver();
+  });
+  const fail = (error: Error) => {
+    failure ??= error;
+    deliver();
+  };
+  socket.on("error", fail);
+  socket.on("close", () =>
+    fail(
+      new AppError("UPSTREAM_ERROR", "Le serveur SMTP a coupé la connexion.", {
+        upstream: "SMTP",
+      }),
+    ),
+  );
+
+  return () =>
+    new Promise<Reply>((resolve, reject) => {
+      pending = { resolve, reject };
+      deliver();
+    });
+}
+
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+function formatMessage(from: string, { to, subject, text }: MailMessage) {
+  const domain = from.match(/@([^>\s]+)/)?.[1] ?? "localhost";
+  const body = Buffer.from(text.replace(/\r?\n/g, "\r\n"))
+    .toString("base64")
+    .replace(/.{76}/g, "$&\r\n");
+  return [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+export async function sendMail(message: MailMessage) {
+  const { host, port, from } = getMailConfig();
+  const socket = createConnection({ host, port });
+  socket.setEncoding("utf8");
+  socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+    socket.destroy(
+      new AppError(
+        "UPSTREAM_TIMEOUT",
+        "Le serveur SMTP n'a pas répondu à temps.",
+        { upstream: "SMTP" },
+      ),
+    ),
+  );
+  const nextReply = createReplyReader(socket);
+
+  const step = async (command: string | null, expected: number) => {
+    if (command !== null) {
+      socket.write(`${command}\r\n`);
+    }
+    let reply: Reply;
+    try {
+      reply = await nextReply();
+    } catch (error) {
+      throw error instanceof AppError
+        ? error
+        : new AppError(
+            "UPSTREAM_UNAVAILABLE",
+            `Serveur SMTP injoignable (${host}:${port}).`,
+            { upstream: "SMTP" },
+          );
+    }
+    if (reply.code !== expected) {
+      throw new AppError(
+        "UPSTREAM_ERROR",
+        `Le serveur SMTP a refusé l'envoi (${reply.code} ${reply.text}).`,
+        { upstream: "SMTP" },
+      );
+    }
+  };
+
+  const sender = from.match(/<([^>]+)>/)?.[1] ?? from;
+  try {
+    await step(null, 220);
+    await step("EHLO localhost", 250);
+    await step(`MAIL FROM:<${sender}>`, 250);
+    await step(`RCPT TO:<${message.to}>`, 250);
+    await step("DATA", 354);
+    await step(`${formatMessage(from, message)}\r\n.`, 250);
+    await step("QUIT", 221);
+  } finally {
+    socket.destroy();
+  }
+}
@@ -0,0 +1,5 @@
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
@@ -0,0 +1,56 @@
+import type { PitchLanguage } from "@/server/pitch";
+
+export type MockupCopy = {
+  decimalSeparator: string;
+  tagline: string;
+  call: string;
+  directions: string;
+  hours: string;
+  reviews: string;
+  findUs: string;
+  viewOnMaps: string;
+  rating: (rating: string, count?: number) => string;
+  footer: (agency?: string) => string;
+  pitchLine: (url: string) => string;
+};
+
+const fr: MockupCopy = {
+  decimalSeparator: ",",
+  tagline: "Bienvenue chez nous, à deux pas de chez vous.",
+  call: "Appeler",
+  directions: "Itinéraire",
+  hours: "Horaires",
+  reviews: "Ils en parlent",
+  findUs: "Nous trouver",
+  viewOnMaps: "Voir sur Google Maps",
+  rating: (rating, count) =>
+    count ? `★ ${rating}/5 · ${count} avis` : `★ ${rating}/5`,
+  footer: (agency) =>
+    agency
+      ? `Maquette proposée par ${agency}, aperçu non contractuel.`
+      : "Maquette de démonstration, aperçu non contractuel.",
+  pitchLine: (url) => `Voici à quoi pourrait ressembler votre site : ${url}`,
+};
+
+const en: MockupCopy = {
+  decimalSeparator: ".",
+  tagline: "Welcome, right around the corner.",
+  call: "Call",
+  directions: "Directions",
+  hours: "Opening hours",
+  reviews: "What people say",
+  findUs: "Find us",
+  viewOnMaps: "View on Google Maps",
+  rating: (rating, count) =>
+    count ? `★ ${rating}/5 · ${count} reviews` : `★ ${rating}/5`,
+  footer: (agency) =>
+    agency
+      ? `Mockup by ${agency}, for preview only.`
+      : "Demo mockup, for preview only.",
+  pitchLine: (url) => `Here is what your website could look like: ${url}`,
+};
+
+// Like the template pitches, mockups only speak French and English.
+export function getMockupCopy(language: PitchLanguage) {
+  return language === "fr" ? fr : en;
+}
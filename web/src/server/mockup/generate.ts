@@ -0,0 +1,66 @@
+import { randomUUID } from "node:crypto";
+
+import type { EnrichedBusiness } from "@/server/places";
+import type { PitchLanguage } from "@/server/pitch";
+import { normalizeText } from "@/server/text";
+import { createZip } from "@/server/zip";
+
+import { getMockupCopy } from "./copy";
+import { renderMockup } from "./render";
+import { saveMockup } from "./store";
+import { deriveTheme } from "./theme";
+import type { Mockup, MockupSummary } from "./types";
+
+export async function createMockup(
+  workspaceId: string,
+  business: EnrichedBusiness,
+  options: { vibe: string; language: PitchLanguage; agency?: string },
+) {
+  const theme = deriveTheme(options.vibe, business.types);
+  return saveMockup(workspaceId, {
+    id: randomUUID(),
+    placeId: business.place_id,
+    name: business.name ?? business.place_id,
+    language: options.language,
+    theme: theme.name,
+    html: renderMockup({
+      business,
+      theme,
+      language: options.language,
+      agency: options.agency,
+    }),
+    createdAt: new Date().toISOString(),
+  });
+}
+
+// Absolute URLs, so they can be pasted as is in an outreach message.
+export function summarizeMockup(
+  mockup: Mockup,
+  origin: string,
+): MockupSummary {
+  const previewUrl = new URL(`/mockups/${mockup.id}`, origin).toString();
+  return {
+    id: mockup.id,
+    placeId: mockup.placeId,
+    name: mockup.name,
+    language: mockup.language,
+    theme: mockup.theme,
+    createdAt: mockup.createdAt,
+    previewUrl,
+    downloadUrl: new URL(`/api/mockup/${mockup.id}/zip`, origin).toString(),
+    pitchLine: getMockupCopy(mockup.language).pitchLine(previewUrl),
+  };
+}
+
+export function mockupFileName(mockup: Mockup) {
+  const slug = normalizeText(mockup.name)
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "site"}-maquette`;
+}
+
+export function buildMockupArchive(mockup: Mockup) {
+  return createZip([
+    { name: `${mockupFileName(mockup)}/index.html`, content: mockup.html },
+  ]);
+}
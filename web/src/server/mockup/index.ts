@@ -0,0 +1,11 @@
+export {
+  buildMockupArchive,
+  createMockup,
+  mockupFileName,
+  summarizeMockup,
+} from "./generate";
+export { mockupRequestSchema, type MockupRequest } from "./schema";
+export { findSharedMockup, getMockup } from "./store";
+export { deriveTheme } from "./theme";
+export { MOCKUP_THEMES } from "./types";
+export type * from "./types";
@@ -0,0 +1,145 @@
+import type { EnrichedBusiness } from "@/server/places";
+import type { PitchLanguage } from "@/server/pitch";
+import { escapeHtml } from "@/server/text";
+
+import { getMockupCopy } from "./copy";
+import type { MockupTheme } from "./types";
+
+const MAX_REVIEWS = 3;
+const MAX_QUOTE_LENGTH = 280;
+
+export type MockupContent = {
+  business: EnrichedBusiness;
+  theme: MockupTheme;
+  language: PitchLanguage;
+  agency?: string;
+};
+
+function truncate(text: string, max: number) {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > max ? `${clean.slice(0, max - 1).trimEnd()}…` : clean;
+}
+
+// Five-star reviews with text first, the wording a prospect is proudest of.
+function bestReviews(business: EnrichedBusiness) {
+  return (business.reviews ?? [])
+    .filter((review) => review.text?.trim())
+    .sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0))
+    .slice(0, MAX_REVIEWS)
+    .map((review) => ({
+      author: review.author_name,
+      text: truncate(review.text ?? "", MAX_QUOTE_LENGTH),
+    }));
+}
+
+function mapsUrl(business: EnrichedBusiness) {
+  return (
+    business.googleMapsUrl ||
+    `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(
+      [business.name, business.formatted_address].filter(Boolean).join(" "),
+    )}`
+  );
+}
+
+function buildStyles(theme: MockupTheme) {
+  return `
+:root{--bg:${theme.background};--surface:${theme.surface};--text:${theme.text};--muted:${theme.muted};--accent:${theme.accent};--accent-text:${theme.accentText}}
+*{box-sizing:border-box}
+body{margin:0;background:var(--bg);color:var(--text);font-family:system-ui,-apple-system,"Segoe UI",Roboto,sans-serif;line-height:1.6}
+h1,h2{font-family:${theme.headingFont};line-height:1.15;margin:0 0 .5em}
+a{color:var(--accent)}
+.hero{padding:96px 24px 72px;text-align:center;background:linear-gradient(160deg,var(--surface),var(--bg))}
+.hero h1{font-size:clamp(2.2rem,6vw,3.6rem)}
+.rating{display:inline-block;margin-bottom:16px;padding:4px 14px;border-radius:999px;border:1px solid var(--accent);color:var(--accent);font-size:.9rem}
+.tagline{max-width:640px;margin:0 auto 32px;color:var(--muted);font-size:1.15rem}
+.actions{display:flex;flex-wrap:wrap;justify-content:center;gap:12px}
+.button{display:inline-block;padding:12px 26px;border-radius:999px;background:var(--accent);color:var(--accent-text);font-weight:600;text-decoration:none}
+.button.ghost{background:transparent;color:var(--accent);border:2px solid var(--accent)}
+main{max-width:960px;margin:0 auto;padding:24px}
+section{margin:24px 0;padding:32px;border-radius:20px;background:var(--surface)}
+.hours{list-style:none;margin:0;padding:0;columns:2 220px}
+.hours li{padding:4px 0}
+.quotes{display:grid;gap:16px;grid-template-columns:repeat(auto-fit,minmax(240px,1fr))}
+blockquote{margin:0;padding:20px;border-left:4px solid var(--accent);background:var(--bg);border-radius:12px}
+blockquote footer{margin-top:8px;color:var(--muted);font-size:.9rem}
+address{font-style:normal;margin-bottom:12px}
+.site-footer{padding:32px 24px;text-align:center;color:var(--muted);font-size:.85rem}
+`.trim();
+}
+
+export function renderMockup({
+  business,
+  theme,
+  language,
+  agency,
+}: MockupContent) {
+  const copy = getMockupCopy(language);
+  const name = escapeHtml(business.name ?? "");
+  const maps = escapeHtml(mapsUrl(business));
+  const phone = business.formatted_phone_number;
+  const tel = phone && `tel:${phone.replace(/[^\d+]/g, "")}`;
+  const hours = business.opening_hours?.weekday_text ?? [];
+  const reviews = bestReviews(business);
+  const tagline = business.editorial_summary?.overview || copy.tagline;
+
+  const sections = [
+    hours.length
+      ? `<section><h2>${copy.hours}</h2><ul class="hours">${hours
+          .map((line) => `<li>${escapeHtml(line)}</li>`)
+          .join("")}</ul></section>`
+      : null,
+    reviews.length
+      ? `<section><h2>${copy.reviews}</h2><div class="quotes">${reviews
+          .map(
+            (review) =>
+              `<blockquote><p>« ${escapeHtml(review.text)} »</p>${
+                review.author
+                  ? `<footer>${escapeHtml(review.author)}</footer>`
+                  : ""
+              }</blockquote>`,
+          )
+          .join("")}</div></section>`
+      : null,
+    `<section><h2>${copy.findUs}</h2><address>${[
+      business.formatted_address && escapeHtml(business.formatted_address),
+      phone && tel && `<a href="${tel}">${escapeHtml(phone)}</a>`,
+    ]
+      .filter(Boolean)
+      .join("<br>")}</address><a href="${maps}" target="_blank" rel="noreferrer">${
+      copy.viewOnMaps
+    }</a></section>`,
+  ];
+
+  return [
+    "<!doctype html>",
+    `<html lang="${language}">`,
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${name}</title>`,
+    `<meta name="description" content="${escapeHtml(tagline)}">`,
+    `<style>${buildStyles(theme)}</style>`,
+    "</head>",
+    "<body>",
+    '<header class="hero">',
+    business.rating
+      ? `<span class="rating">${copy.rating(
+          business.rating.toFixed(1).replace(".", copy.decimalSeparator),
+          business.user_ratings_total,
+        )}</span>`
+      : "",
+    `<h1>${name}</h1>`,
+    `<p class="tagline">${escapeHtml(tagline)}</p>`,
+    '<div class="actions">',
+    tel ? `<a class="button" href="${tel}">${copy.call}</a>` : "",
+    `<a class="button${tel ? " ghost" : ""}" href="${maps}" target="_blank" rel="noreferrer">${copy.directions}</a>`,
+    "</div>",
+    "</header>",
+    `<main>${sections.filter(Boolean).join("")}</main>`,
+    `<footer class="site-footer">${escapeHtml(copy.footer(agency))}</footer>`,
+    "</body>",
+    "</html>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
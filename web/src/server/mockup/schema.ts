@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+import { enrichedBusinessSchema } from "@/server/places";
+import { PITCH_LANGUAGES } from "@/server/pitch";
+
+export const mockupRequestSchema = z
+  .object({
+    placeId: z.string().min(1).optional(),
+    business: enrichedBusinessSchema.optional(),
+    vibe: z.string().max(1000).optional(),
+    language: z.enum(PITCH_LANGUAGES).optional(),
+  })
+  .superRefine((body, ctx) => {
+    if (!body.placeId && !body.business) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["placeId"],
+        message: "Indique un placeId ou le commerce à traiter.",
+      });
+    }
+  });
+
+export type MockupRequest = z.infer<typeof mockupRequestSchema>;
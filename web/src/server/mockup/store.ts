@@ -0,0 +1,35 @@
+import { listWorkspaceIds } from "@/server/auth";
+import { createWorkspaceFileStore, getOwn } from "@/server/storage";
+
+import type { Mockup } from "./types";
+
+type MockupsFile = {
+  mockups: Record<string, Mockup>;
+};
+
+const storeFor = createWorkspaceFileStore<MockupsFile>("mockups.json", () => ({
+  mockups: {},
+}));
+
+export async function saveMockup(workspaceId: string, mockup: Mockup) {
+  return storeFor(workspaceId).update((data) => {
+    data.mockups[mockup.id] = mockup;
+    return mockup;
+  });
+}
+
+export async function getMockup(workspaceId: string, id: string) {
+  const { mockups } = await storeFor(workspaceId).read();
+  return getOwn(mockups, id) ?? null;
+}
+
+// The preview link is opened without a session: its random id is enough.
+export async function findSharedMockup(id: string) {
+  for (const workspaceId of await listWorkspaceIds()) {
+    const mockup = await getMockup(workspaceId, id);
+    if (mockup) {
+      return mockup;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,152 @@
+import { normalizeText } from "@/server/text";
+
+import type { MockupTheme, MockupThemeName } from "./types";
+
+const SERIF = `Georgia, "Times New Roman", serif`;
+const SANS = `system-ui, -apple-system, "Segoe UI", Roboto, sans-serif`;
+
+const THEMES: Record<MockupThemeName, MockupTheme> = {
+  warm: {
+    name: "warm",
+    background: "#fbf6ef",
+    surface: "#ffffff",
+    text: "#3b2a1e",
+    muted: "#7a6656",
+    accent: "#c2611f",
+    accentText: "#ffffff",
+    headingFont: SERIF,
+  },
+  premium: {
+    name: "premium",
+    background: "#111111",
+    surface: "#1c1c1c",
+    text: "#f4efe6",
+    muted: "#b3a999",
+    accent: "#c9a55a",
+    accentText: "#111111",
+    headingFont: SERIF,
+  },
+  nature: {
+    name: "nature",
+    background: "#f3f7f1",
+    surface: "#ffffff",
+    text: "#1f3324",
+    muted: "#5d7263",
+    accent: "#3f7d4e",
+    accentText: "#ffffff",
+    headingFont: SANS,
+  },
+  vibrant: {
+    name: "vibrant",
+    background: "#fff8fb",
+    surface: "#ffffff",
+    text: "#2a1538",
+    muted: "#6e5a7c",
+    accent: "#e0407b",
+    accentText: "#ffffff",
+    headingFont: SANS,
+  },
+  minimal: {
+    name: "minimal",
+    background: "#f7f7f8",
+    surface: "#ffffff",
+    text: "#18181b",
+    muted: "#62626b",
+    accent: "#2563eb",
+    accentText: "#ffffff",
+    headingFont: SANS,
+  },
+};
+
+// Normalized (lowercase, no accents) French and English stems, matched as
+// substrings: avoid short ones such as "vert", found in "ouvert".
+const VIBE_KEYWORDS: Record<MockupThemeName, string[]> = {
+  premium: [
+    "premium",
+    "luxe",
+    "luxury",
+    "chic",
+    "elegant",
+    "haut de gamme",
+    "raffine",
+    "gastronomique",
+    "refined",
+  ],
+  warm: [
+    "chaleureu",
+    "cosy",
+    "cozy",
+    "convivial",
+    "familial",
+    "warm",
+    "rustique",
+    "authentique",
+    "traditionnel",
+    "artisan",
+    "homemade",
+    "maison",
+  ],
+  nature: [
+    "nature",
+    "bio",
+    "organic",
+    "vegetal",
+    "green",
+    "zen",
+    "calme",
+    "bien-etre",
+    "wellness",
+  ],
+  vibrant: [
+    "fun",
+    "colore",
+    "colorful",
+    "jeune",
+    "festif",
+    "dynamique",
+    "vibrant",
+    "street",
+    "energi",
+    "lively",
+  ],
+  minimal: [
+    "moderne",
+    "modern",
+    "minimal",
+    "epure",
+    "design",
+    "clean",
+    "sobre",
+  ],
+};
+
+const TYPE_THEMES: Record<string, MockupThemeName> = {
+  bakery: "warm",
+  cafe: "warm",
+  restaurant: "warm",
+  bar: "vibrant",
+  night_club: "vibrant",
+  gym: "vibrant",
+  spa: "nature",
+  florist: "nature",
+  beauty_salon: "premium",
+  jewelry_store: "premium",
+  barber: "minimal",
+  hair_care: "minimal",
+  hairdresser: "minimal",
+  clothing_store: "minimal",
+};
+
+// The vibe wins over the business type; ties keep the order of VIBE_KEYWORDS.
+export function deriveTheme(vibe: string, types: string[] = []): MockupTheme {
+  const text = normalizeText(vibe);
+  const [best] = (Object.keys(VIBE_KEYWORDS) as MockupThemeName[])
+    .map((name) => ({
+      name,
+      hits: VIBE_KEYWORDS[name].filter((word) => text.includes(word)).length,
+    }))
+    .filter((item) => item.hits > 0)
+    .sort((a, b) => b.hits - a.hits);
+  const fromType = types.map((type) => TYPE_THEMES[type]).find(Boolean);
+  return THEMES[best?.name ?? fromType ?? "minimal"];
+}
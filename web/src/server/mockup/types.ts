@@ -0,0 +1,40 @@
+import type { PitchLanguage } from "@/server/pitch";
+
+export const MOCKUP_THEMES = [
+  "warm",
+  "premium",
+  "nature",
+  "vibrant",
+  "minimal",
+] as const;
+
+export type MockupThemeName = (typeof MOCKUP_THEMES)[number];
+
+export type MockupTheme = {
+  name: MockupThemeName;
+  background: string;
+  surface: string;
+  text: string;
+  muted: string;
+  accent: string;
+  accentText: string;
+  headingFont: string;
+};
+
+export type Mockup = {
+  id: string;
+  placeId: string;
+  name: string;
+  language: PitchLanguage;
+  theme: MockupThemeName;
+  html: string;
+  createdAt: string;
+};
+
+// What the API returns: the HTML itself is served from the preview URL.
+export type MockupSummary = Omit<Mockup, "html"> & {
+  previewUrl: string;
+  downloadUrl: string;
+  // Ready to paste in the outreach message, in the mockup language.
+  pitchLine: string;
+};
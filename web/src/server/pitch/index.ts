@@ -0,0 +1,71 @@
+import { AppError } from "@/server/upstream";
+
+import { createOpenAICompatibleGenerator } from "./openai";
+import { createTemplateGenerator } from "./template";
+import type { PitchGenerator } from "./types";
+
+export { outreachSchema, pitchSchema, SMS_MAX_LENGTH } from "./parse";
+export { DEFAULT_PITCH_LANGUAGE, languageForCountry } from "./language";
+export { buildPitchMessages } from "./prompt";
+export { buildTemplatePitch, createTemplateGenerator } from "./template";
+export { OUTREACH_CHANNELS, PITCH_LANGUAGES } from "./types";
+export {
+  findUnknownVariables,
+  PROMPT_VARIABLES,
+  usesBusinessVariables,
+  type PromptVariable,
+} from "./variables";
+export type * from "./types";
+
+const GENERATOR_DEFAULTS = {
+  groq: {
+    baseUrl: "https://api.groq.com/openai/v1",
+    model: "llama3-70b-8192",
+  },
+  openai: {
+    baseUrl: "https://api.openai.com/v1",
+    model: "gpt-4o-mini",
+  },
+  ollama: {
+    baseUrl: "http://localhost:11434/v1",
+    model: "llama3.1",
+  },
+};
+
+function readNumber(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export function createPitchGenerator(
+  name = process.env.PITCH_PROVIDER ??
+    (process.env.GROQ_API_KEY ? "groq" : "template"),
+): PitchGenerator {
+  if (name === "template") {
+    return createTemplateGenerator();
+  }
+  if (name !== "groq" && name !== "openai" && name !== "ollama") {
+    throw new AppError(
+      "CONFIG_ERROR",
+      `Générateur de pitch inconnu: "${name}". Valeurs possibles: groq, openai, ollama, template.`,
+    );
+  }
+
+  const apiKey =
+    process.env.LLM_API_KEY ??
+    (name === "groq" ? process.env.GROQ_API_KEY : undefined);
+  if (name !== "ollama" && !apiKey) {
+    return createTemplateGenerator();
+  }
+
+  return createOpenAICompatibleGenerator({
+    name,
+    apiKey,
+    baseUrl: process.env.LLM_BASE_URL ?? GENERATOR_DEFAULTS[name].baseUrl,
+    model: process.env.LLM_MODEL ?? GENERATOR_DEFAULTS[name].model,
+    temperature: readNumber(process.env.LLM_TEMPERATURE, 0.4),
+    maxTokens: readNumber(process.env.LLM_MAX_TOKENS, 1200),
+    repairAttempts: readNumber(process.env.LLM_REPAIR_ATTEMPTS, 1),
+    timeoutMs: readNumber(process.env.LLM_TIMEOUT_MS, 30_000),
+  });
+}
@@ -0,0 +1,40 @@
+import type { PitchLanguage } from "./types";
+
+export const DEFAULT_PITCH_LANGUAGE: PitchLanguage = "fr";
+
+// Written as they appear in the (French) prompt.
+export const PITCH_LANGUAGE_NAMES: Record<PitchLanguage, string> = {
+  fr: "français",
+  en: "anglais",
+  es: "espagnol",
+  nl: "néerlandais",
+  de: "allemand",
+};
+
+// Multilingual countries map to the language most of our prospects use
+// (French for Belgium and Switzerland); a search can set `language` instead.
+const COUNTRY_LANGUAGES: Record<string, PitchLanguage> = {
+  FR: "fr",
+  BE: "fr",
+  CH: "fr",
+  LU: "fr",
+  MC: "fr",
+  ES: "es",
+  AD: "es",
+  NL: "nl",
+  DE: "de",
+  AT: "de",
+  LI: "de",
+  GB: "en",
+  IE: "en",
+  US: "en",
+  AU: "en",
+  NZ: "en",
+};
+
+export function languageForCountry(countryCode?: string): PitchLanguage {
+  return (
+    (countryCode && COUNTRY_LANGUAGES[countryCode.toUpperCase()]) ||
+    DEFAULT_PITCH_LANGUAGE
+  );
+}
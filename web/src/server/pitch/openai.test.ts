@@ -0,0 +1,122 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+import type { EnrichedBusiness } from "@/server/places";
+
+import { createOpenAICompatibleGenerator } from "./openai";
+
+type ChatRequest = { messages: { role: string; content: string }[] };
+
+const businesses: EnrichedBusiness[] = ["a", "b"].map((placeId) => ({
+  place_id: placeId,
+  name: `Commerce ${placeId}`,
+  googleMapsUrl: `https://maps.example/${placeId}`,
+}));
+
+const pitch = (placeId: string) => ({
+  placeId,
+  vibeSummary: "Commerce de quartier",
+  angle: "Être trouvé en ligne",
+  personalizedMessage: "Bonjour !",
+});
+
+// Each request pops the next scripted answer.
+let answers: string[] = [];
+let requests: ChatRequest[] = [];
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      requests.push(JSON.parse(body));
+      response.writeHead(200, { "Content-Type": "application/json" });
+      response.end(
+        JSON.stringify({
+          choices: [{ message: { content: answers.shift() ?? "" } }],
+          usage: { prompt_tokens: 100, completion_tokens: 50 },
+        }),
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  answers = [];
+  requests = [];
+});
+
+const createGenerator = (repairAttempts: number) =>
+  createOpenAICompatibleGenerator({
+    name: "openai",
+    baseUrl,
+    model: "test",
+    temperature: 0,
+    maxTokens: 500,
+    repairAttempts,
+    timeoutMs: 2000,
+  });
+
+describe("createOpenAICompatibleGenerator", () => {
+  it("asks again for the failed places only, with the errors", async () => {
+    answers = [
+      JSON.stringify({ businesses: [pitch("a"), pitch("z")] }),
+      JSON.stringify({ businesses: [pitch("b")] }),
+    ];
+
+    const result = await createGenerator(1).generate(businesses, {
+      query: "restaurant",
+    });
+
+    expect(result.pitches.map((item) => item.placeId)).toEqual(["a", "b"]);
+    expect(result.errors).toEqual({});
+    expect(result.usage).toEqual({
+      requests: 2,
+      promptTokens: 200,
+      completionTokens: 100,
+    });
+
+    const repair = requests[1].messages[1].content;
+    expect(repair).toContain('"placeId":"b"');
+    expect(repair).not.toContain('"placeId":"a"');
+    expect(repair).toContain(
+      "b: Aucune entrée retournée pour ce commerce. ; placeId inconnus: z",
+    );
+  });
+
+  it("reports the places still failing after the repair rounds", async () => {
+    answers = ["Je ne peux pas.", "Toujours pas."];
+
+    const result = await createGenerator(1).generate(businesses, {
+      query: "restaurant",
+      locale: "en",
+    });
+
+    expect(result.pitches).toEqual([]);
+    expect(result.errors).toEqual({
+      a: "Unreadable model response (no JSON object).",
+      b: "Unreadable model response (no JSON object).",
+    });
+    expect(requests).toHaveLength(2);
+  });
+
+  it("does not repair when no attempt is allowed", async () => {
+    answers = [JSON.stringify({ businesses: [pitch("a")] })];
+
+    const result = await createGenerator(0).generate(businesses, {
+      query: "restaurant",
+    });
+
+    expect(result.pitches).toHaveLength(1);
+    expect(Object.keys(result.errors)).toEqual(["b"]);
+    expect(requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  DEFAULT_LOCALE,
+  getMessages,
+  localizeError,
+  type Locale,
+} from "@/i18n";
+import type { EnrichedBusiness } from "@/server/places";
+import { AppError, requestJson, toApiError } from "@/server/upstream";
+
+import { parsePitchResponse, type ParsedPitches } from "./parse";
+import { buildPitchMessages } from "./prompt";
+import type {
+  GroqPitch,
+  PitchGenerator,
+  PitchGeneratorName,
+  PitchUsage,
+} from "./types";
+
+export type OpenAICompatibleOptions = {
+  name: Exclude<PitchGeneratorName, "template">;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  temperature: number;
+  maxTokens: number;
+  repairAttempts: number;
+  timeoutMs: number;
+};
+
+type ChatCompletionResponse = {
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+};
+
+type Completion =
+  | { content: string; promptTokens: number; completionTokens: number }
+  | { error: string };
+
+function buildRepairFeedback({ failures, unknownIds }: ParsedPitches) {
+  const issues = [...failures].map(
+    ([placeId, reason]) => `${placeId}: ${reason}`,
+  );
+  if (unknownIds.length) {
+    issues.push(`placeId inconnus: ${unknownIds.join(", ")}`);
+  }
+  return `Ta réponse précédente comportait des erreurs (${issues.join(" ; ")}). Corrige-les en ne traitant que les commerces ci-dessus et en reprenant exactement leurs placeId.`;
+}
+
+export function createOpenAICompatibleGenerator(
+  options: OpenAICompatibleOptions,
+): PitchGenerator {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  async function requestCompletion(
+    messages: ReturnType<typeof buildPitchMessages>,
+    locale: Locale = DEFAULT_LOCALE,
+  ): Promise<Completion> {
+    let data: ChatCompletionResponse;
+    try {
+      data = await requestJson<ChatCompletionResponse>(endpoint, {
+        upstream: options.name,
+        timeoutMs: options.timeoutMs,
+        init: {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(options.apiKey
+              ? { Authorization: `Bearer ${options.apiKey}` }
+              : {}),
+          },
+          body: JSON.stringify({
+            model: options.model,
+            temperature: options.temperature,
+            max_tokens: options.maxTokens,
+            messages,
+          }),
+        },
+      });
+    } catch (error) {
+      return {
+        error:
+          error instanceof AppError
+            ? localizeError(toApiError(error), locale).message
+            : getMessages(locale).pitchParse.unreachable,
+      };
+    }
+
+    return {
+      content: data.choices?.[0]?.message?.content ?? "",
+      promptTokens: data.usage?.prompt_tokens ?? 0,
+      completionTokens: data.usage?.completion_tokens ?? 0,
+    };
+  }
+
+  return {
+    name: options.name,
+    async generate(businesses, pitchOptions, onPitch) {
+      const pitches: GroqPitch[] = [];
+      let pending: EnrichedBusiness[] = businesses;
+      let failures = new Map<string, string>();
+      let feedback: string | undefined;
+      const usage: PitchUsage = {
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+      };
+
+      for (
+        let round = 0;
+        round <= options.repairAttempts && pending.length;
+        round += 1
+      ) {
+        const completion = await requestCompletion(
+          buildPitchMessages(pending, pitchOptions, feedback),
+          pitchOptions.locale,
+        );
+        usage.requests += 1;
+        if ("error" in completion) {
+          failures = new Map(
+            pending.map((biz) => [biz.place_id, completion.error]),
+          );
+          continue;
+        }
+
+        usage.promptTokens += completion.promptTokens;
+        usage.completionTokens += completion.completionTokens;
+
+        const parsed = parsePitchResponse(
+          completion.content,
+          pending.map((biz) => biz.place_id),
+          pitchOptions.channels,
+          pitchOptions.locale,
+        );
+        pitches.push(...parsed.pitches);
+        parsed.pitches.forEach((pitch) => onPitch?.(pitch));
+        failures = parsed.failures;
+        feedback = buildRepairFeedback(parsed);
+        pending = pending.filter((biz) => failures.has(biz.place_id));
+      }
+
+      return { pitches, errors: Object.fromEntries(failures), usage };
+    },
+  };
+}
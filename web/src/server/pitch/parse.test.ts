@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+
+import { extractJsonObject, parsePitchResponse } from "./parse";
+
+const pitch = (placeId: string, extra: object = {}) => ({
+  placeId,
+  vibeSummary: "Bistrot de quartier",
+  angle: "Réservation en ligne",
+  personalizedMessage: "Bonjour !",
+  ...extra,
+});
+
+const respond = (...businesses: unknown[]) => JSON.stringify({ businesses });
+
+describe("extractJsonObject", () => {
+  it("finds the object inside prose and code fences", () => {
+    const content = 'Voici :\n```json\n{"a":{"b":1}}\n```\nBonne journée.';
+    expect(extractJsonObject(content)).toBe('{"a":{"b":1}}');
+  });
+
+  it("ignores braces inside strings", () => {
+    const content = '{"text":"un } puis un { et un \\" guillemet"} suite }';
+    expect(JSON.parse(extractJsonObject(content) ?? "")).toEqual({
+      text: 'un } puis un { et un " guillemet',
+    });
+  });
+
+  it("returns null without a complete object", () => {
+    expect(extractJsonObject("pas de JSON")).toBeNull();
+    expect(extractJsonObject('{"a": {"b": 1}')).toBeNull();
+  });
+});
+
+describe("parsePitchResponse", () => {
+  it("keeps valid entries and reports the missing ones", () => {
+    const parsed = parsePitchResponse(respond(pitch("a")), ["a", "b"]);
+    expect(parsed.pitches).toEqual([pitch("a")]);
+    expect(parsed.failures).toEqual(
+      new Map([["b", "Aucune entrée retournée pour ce commerce."]]),
+    );
+    expect(parsed.unknownIds).toEqual([]);
+  });
+
+  it("explains why an entry is invalid", () => {
+    const parsed = parsePitchResponse(
+      respond({ placeId: "a", vibeSummary: "" }),
+      ["a"],
+    );
+    expect(parsed.pitches).toEqual([]);
+    expect(parsed.failures.get("a")).toMatch(
+      /^Entrée invalide \(vibeSummary: .*angle: .*\)\.$/,
+    );
+  });
+
+  it("sets aside entries for places that were not asked for", () => {
+    const parsed = parsePitchResponse(respond(pitch("a"), pitch("z")), ["a"]);
+    expect(parsed.pitches.map((item) => item.placeId)).toEqual(["a"]);
+    expect(parsed.unknownIds).toEqual(["z"]);
+    expect(parsed.failures.size).toBe(0);
+  });
+
+  it("requires every requested channel", () => {
+    const parsed = parsePitchResponse(
+      respond(pitch("a", { channels: { sms: "Bonjour" } })),
+      ["a"],
+      ["sms", "dm"],
+    );
+    expect(parsed.failures.get("a")).toContain("Canaux attendus : sms, dm.");
+  });
+
+  it("rejects an SMS over 160 characters", () => {
+    const parsed = parsePitchResponse(
+      respond(pitch("a", { channels: { sms: "x".repeat(161) } })),
+      ["a"],
+      ["sms"],
+    );
+    expect(parsed.failures.get("a")).toContain(
+      "Le SMS doit faire au plus 160 caractères.",
+    );
+  });
+
+  it("fails every place when the response cannot be read", () => {
+    expect(parsePitchResponse("Désolé.", ["a", "b"]).failures).toEqual(
+      new Map([
+        ["a", "Réponse du modèle illisible (aucun objet JSON)."],
+        ["b", "Réponse du modèle illisible (aucun objet JSON)."],
+      ]),
+    );
+    expect(
+      parsePitchResponse('{"businesses": [,]}', ["a"]).failures.get("a"),
+    ).toBe("Réponse du modèle illisible (JSON malformé).");
+    expect(
+      parsePitchResponse('{"pitches": []}', ["a"]).failures.get("a"),
+    ).toMatch(/^Réponse du modèle hors format \(businesses: /);
+  });
+
+  it("writes its errors in the requested locale", () => {
+    const parsed = parsePitchResponse(respond(), ["a"], [], "en");
+    expect(parsed.failures.get("a")).toBe(
+      "No entry returned for this business.",
+    );
+  });
+});
@@ -0,0 +1,190 @@
+import { z } from "zod";
+
+import {
+  DEFAULT_LOCALE,
+  getMessages,
+  type Locale,
+  type Messages,
+} from "@/i18n";
+
+import type { GroqPitch, OutreachChannel } from "./types";
+
+export const SMS_MAX_LENGTH = 160;
+
+type ParseMessages = Messages["pitchParse"];
+
+function createOutreachSchema(t: ParseMessages) {
+  return z.object({
+    email: z
+      .object({
+        subject: z.string().min(1).max(120),
+        body: z.string().min(1),
+      })
+      .optional(),
+    sms: z
+      .string()
+      .min(1)
+      .max(SMS_MAX_LENGTH, t.smsTooLong(SMS_MAX_LENGTH))
+      .optional(),
+    dm: z.string().min(1).optional(),
+    call: z
+      .object({
+        opening: z.string().min(1),
+        points: z.array(z.string().min(1)).min(1),
+        objections: z.array(
+          z.object({
+            objection: z.string().min(1),
+            answer: z.string().min(1),
+          }),
+        ),
+      })
+      .optional(),
+  });
+}
+
+export const outreachSchema = createOutreachSchema(
+  getMessages(DEFAULT_LOCALE).pitchParse,
+);
+
+export const pitchSchema = z.object({
+  placeId: z.string().min(1),
+  vibeSummary: z.string().min(1),
+  angle: z.string().min(1),
+  personalizedMessage: z.string().min(1),
+  channels: outreachSchema.optional(),
+});
+
+function buildPitchSchema(channels: OutreachChannel[], t: ParseMessages) {
+  const outreach = createOutreachSchema(t);
+  return pitchSchema.extend({
+    channels: channels.length
+      ? outreach.refine(
+          (content) =>
+            channels.every((channel) => content[channel] !== undefined),
+          { message: t.missingChannels(channels.join(", ")) },
+        )
+      : outreach.optional(),
+  });
+}
+
+const responseSchema = z.object({
+  businesses: z.array(z.unknown()),
+});
+
+export type ParsedPitches = {
+  pitches: GroqPitch[];
+  failures: Map<string, string>;
+  unknownIds: string[];
+};
+
+export function extractJsonObject(content: string) {
+  const text = content.replace(/```(?:json)?/gi, "");
+  const start = text.indexOf("{");
+  if (start === -1) {
+    return null;
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let index = start; index < text.length; index += 1) {
+    const char = text[index];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      depth += 1;
+    } else if (char === "}") {
+      depth -= 1;
+      if (depth === 0) {
+        return text.slice(start, index + 1);
+      }
+    }
+  }
+  return null;
+}
+
+function describeIssues(error: z.ZodError) {
+  return error.issues
+    .map((issue) =>
+      issue.path.length
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message,
+    )
+    .join(", ");
+}
+
+export function parsePitchResponse(
+  content: string,
+  expectedIds: string[],
+  channels: OutreachChannel[] = [],
+  locale: Locale = DEFAULT_LOCALE,
+): ParsedPitches {
+  const t = getMessages(locale).pitchParse;
+  const failAll = (reason: string): ParsedPitches => ({
+    pitches: [],
+    failures: new Map(expectedIds.map((placeId) => [placeId, reason])),
+    unknownIds: [],
+  });
+
+  const raw = extractJsonObject(content);
+  if (!raw) {
+    return failAll(t.noJson);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return failAll(t.malformedJson);
+  }
+
+  const envelope = responseSchema.safeParse(json);
+  if (!envelope.success) {
+    return failAll(t.wrongShape(describeIssues(envelope.error)));
+  }
+
+  const schema = buildPitchSchema(channels, t);
+  const expected = new Set(expectedIds);
+  const pitches = new Map<string, GroqPitch>();
+  const invalid = new Map<string, string>();
+  const unknownIds: string[] = [];
+
+  for (const entry of envelope.data.businesses) {
+    const result = schema.safeParse(entry);
+    const placeId =
+      typeof (entry as { placeId?: unknown })?.placeId === "string"
+        ? (entry as { placeId: string }).placeId
+        : undefined;
+
+    if (placeId && !expected.has(placeId)) {
+      unknownIds.push(placeId);
+      continue;
+    }
+    if (!result.success) {
+      if (placeId) {
+        invalid.set(placeId, t.invalidEntry(describeIssues(result.error)));
+      }
+      continue;
+    }
+    pitches.set(result.data.placeId, result.data);
+  }
+
+  const failures = new Map<string, string>();
+  for (const placeId of expectedIds) {
+    if (!pitches.has(placeId)) {
+      failures.set(placeId, invalid.get(placeId) ?? t.missingEntry);
+    }
+  }
+
+  return { pitches: [...pitches.values()], failures, unknownIds };
+}
@@ -0,0 +1,188 @@
+import type { EnrichedBusiness } from "@/server/places";
+
+import { DEFAULT_PITCH_LANGUAGE, PITCH_LANGUAGE_NAMES } from "./language";
+import { SMS_MAX_LENGTH } from "./parse";
+import type { OutreachChannel, PitchOptions } from "./types";
+import {
+  buildPromptVariables,
+  renderPromptTemplate,
+  type PromptVariable,
+} from "./variables";
+
+const DEFAULT_SYSTEM_PROMPT =
+  "Tu es un stratège business spécialisé dans la prospection commerciale pour des agences web. Produis uniquement du JSON valide.";
+
+const CHANNEL_FORMATS: Record<
+  OutreachChannel,
+  { instruction: string; example: string }
+> = {
+  email: {
+    instruction:
+      "email : un objet accrocheur de 80 caractères maximum et un email de 120 à 180 mots terminé par un appel à l'action clair.",
+    example: `"email":{"subject":"","body":""}`,
+  },
+  sms: {
+    instruction: `sms : ${SMS_MAX_LENGTH} caractères maximum espaces compris, sans emoji ni lien.`,
+    example: `"sms":""`,
+  },
+  dm: {
+    instruction:
+      "dm : un message privé Instagram décontracté de 300 caractères maximum, qui donne envie de répondre.",
+    example: `"dm":""`,
+  },
+  call: {
+    instruction:
+      "call : un script d'appel avec une phrase d'accroche, 3 à 5 points clés sous forme de puces et au moins 2 objections fréquentes avec leur réponse.",
+    example: `"call":{"opening":"","points":[""],"objections":[{"objection":"","answer":""}]}`,
+  },
+};
+
+function describeChannels(channels: OutreachChannel[]) {
+  if (!channels.length) {
+    return { instructions: null, example: "" };
+  }
+  return {
+    instructions: [
+      "Rédige aussi, dans l'objet \"channels\", une variante par canal demandé :",
+      ...channels.map((channel) => `- ${CHANNEL_FORMATS[channel].instruction}`),
+    ].join("\n"),
+    example: `,"channels":{${channels
+      .map((channel) => CHANNEL_FORMATS[channel].example)
+      .join(",")}}`,
+  };
+}
+
+function describeAgency(
+  options: PitchOptions,
+  variables: Record<PromptVariable, string>,
+) {
+  const { agency } = options;
+  if (!agency) {
+    return [];
+  }
+  return [
+    `Tu écris au nom de l'agence "${agency.name}"${
+      agency.description ? ` (${agency.description})` : ""
+    }.`,
+    agency.offers.length
+      ? `Nos offres : ${variables["agency.offers"]}. Mets en avant celle qui correspond le mieux à chaque commerce.`
+      : null,
+    agency.portfolio.length
+      ? `Tu peux citer nos réalisations : ${variables["agency.portfolio"]}.`
+      : null,
+    agency.signature
+      ? `Termine chaque message par cette signature : "${agency.signature}".`
+      : null,
+  ];
+}
+
+function describeDefaultTask(
+  businesses: EnrichedBusiness[],
+  options: PitchOptions,
+  variables: Record<PromptVariable, string>,
+) {
+  return [
+    `Tu reçois une liste de commerces qui n'ont pas de site web, ou dont le site présente des faiblesses, et que nous souhaitons démarcher pour proposer la création ou la refonte d'un site.`,
+    businesses.some((biz) => biz.websiteAudit?.url)
+      ? `Quand "websiteFindings" est renseigné, appuie l'angle d'approche sur ces constats concrets plutôt que sur l'absence de site.`
+      : null,
+    businesses.some((biz) => biz.insights?.complaints.length)
+      ? `Quand "reviewComplaints" est renseigné, ce sont des irritants relevés dans les avis clients : choisis de préférence un angle où le site les résout (réservation en ligne, horaires à jour, carte consultable, contact simple), sans citer les clients mot pour mot ni les mettre en cause.`
+      : null,
+    `Analyse le profil de chaque commerce et résume la vibe perçue, identifie un angle d'approche hyper pertinent et rédige un message personnalisé et chaleureux (max 120 mots).`,
+    ...describeAgency(options, variables),
+    options.vibe
+      ? `Prends en compte le style ou vibe recherchée: "${options.vibe}".`
+      : null,
+    `Adopte un ton "${variables.tone}".`,
+  ];
+}
+
+function describeRevision(options: PitchOptions) {
+  if (!options.previous && !options.instructions) {
+    return [];
+  }
+  return [
+    options.previous
+      ? `Version actuelle du pitch (JSON) : ${JSON.stringify(options.previous)}`
+      : null,
+    options.instructions
+      ? `Retravaille-la en appliquant cette consigne : "${options.instructions}". Garde ce que la consigne ne concerne pas.`
+      : "Propose une nouvelle version, avec un angle ou une formulation différente.",
+  ];
+}
+
+// A custom template replaces the system prompt and the task description; the
+// data, channels and response format stay fixed so the parser keeps working.
+export function buildPitchMessages(
+  businesses: EnrichedBusiness[],
+  options: PitchOptions,
+  feedback?: string,
+) {
+  const channels = describeChannels(options.channels ?? []);
+  const language =
+    PITCH_LANGUAGE_NAMES[options.language ?? DEFAULT_PITCH_LANGUAGE];
+  const variables = buildPromptVariables(
+    options,
+    businesses.length === 1 ? businesses[0] : undefined,
+  );
+  const { template } = options;
+  return [
+    {
+      role: "system",
+      content: template?.system
+        ? renderPromptTemplate(template.system, variables)
+        : DEFAULT_SYSTEM_PROMPT,
+    },
+    {
+      role: "user",
+      content: [
+        ...(template
+          ? [renderPromptTemplate(template.instructions, variables)]
+          : describeDefaultTask(businesses, options, variables)),
+        `Rédige tous les textes (vibeSummary, angle, personalizedMessage${
+          channels.instructions ? " et canaux" : ""
+        }) en ${language}, quelle que soit la langue des données.`,
+        ...describeRevision(options),
+        `Les données des commerces (JSON): ${JSON.stringify(
+          businesses.map((biz) => ({
+            placeId: biz.place_id,
+            name: biz.name,
+            address: biz.formatted_address,
+            phone: biz.formatted_phone_number,
+            rating: biz.rating,
+            reviews: biz.user_ratings_total,
+            types: biz.types,
+            summary: biz.editorial_summary?.overview,
+            reviewsSamples: biz.reviews?.slice(0, 2),
+            ...(biz.insights
+              ? {
+                  reviewSentiment: biz.insights.sentiment,
+                  reviewPraised: biz.insights.praised.map(
+                    (item) => item.message,
+                  ),
+                  reviewComplaints: biz.insights.complaints.map(
+                    (item) => item.message,
+                  ),
+                }
+              : {}),
+            ...(biz.websiteAudit?.url
+              ? {
+                  website: biz.websiteAudit.url,
+                  websiteFindings: biz.websiteAudit.findings.map(
+                    (finding) => finding.message,
+                  ),
+                }
+              : {}),
+          })),
+        )}`,
+        channels.instructions,
+        `Réponds STRICTEMENT au format JSON suivant: {"businesses":[{"placeId":"","vibeSummary":"","angle":"","personalizedMessage":""${channels.example}}]}.`,
+        `Ne retourne jamais de texte hors JSON.`,
+        feedback ?? null,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+    },
+  ];
+}
@@ -0,0 +1,353 @@
+import type { WebsiteFindingCode } from "@/server/audit";
+import type { WebsiteFixableTheme } from "@/server/reviews";
+
+import type { CallScript, PitchLanguage } from "./types";
+
+type FindingCode = Exclude<WebsiteFindingCode, "none">;
+
+// Facts about the business, already formatted for the target language.
+// `finding` is the strongest website finding, starting with a lowercase letter.
+export type TemplateContext = {
+  name?: string;
+  label: string;
+  address?: string;
+  rating?: string;
+  reviews?: number;
+  finding?: string;
+  angle: string;
+  vibe?: string;
+};
+
+export type TemplateCopy = {
+  typeLabels: Record<string, string>;
+  decimalSeparator: string;
+  // Audit messages follow the interface locale, not the pitch language:
+  // findings are described from their code.
+  findings: Record<FindingCode, string>;
+  findingAngles: Record<FindingCode, string>;
+  complaintAngles: Record<WebsiteFixableTheme, string>;
+  angles: {
+    reputation: (reviews: number) => string;
+    openingHours: string;
+    contact: string;
+    visibility: string;
+  };
+  vibeSummary: (context: TemplateContext) => string;
+  message: (context: TemplateContext) => string[];
+  email: (
+    context: TemplateContext,
+    message: string[],
+  ) => { subject: string; body: string };
+  sms: (context: TemplateContext) => string;
+  dm: (context: TemplateContext) => string;
+  call: (context: TemplateContext) => CallScript;
+};
+
+const fr: TemplateCopy = {
+  typeLabels: {
+    bakery: "boulangerie",
+    bar: "bar",
+    barber: "barbier",
+    beauty_salon: "institut de beauté",
+    cafe: "café",
+    clothing_store: "boutique de vêtements",
+    florist: "fleuriste",
+    gym: "salle de sport",
+    hair_care: "salon de coiffure",
+    hairdresser: "salon de coiffure",
+    restaurant: "restaurant",
+    spa: "spa",
+    store: "boutique",
+  },
+  decimalSeparator: ",",
+  findings: {
+    unreachable: "votre site est inaccessible.",
+    "social-only":
+      "le lien de votre site renvoie uniquement vers un réseau social.",
+    "not-mobile-friendly": "votre site n'est pas adapté aux smartphones.",
+    "no-https": "votre site n'est pas servi en HTTPS.",
+    "outdated-copyright": "la mention de copyright de votre site paraît datée.",
+    "no-meta-description":
+      "votre site n'a pas de meta description pour le référencement.",
+  },
+  findingAngles: {
+    unreachable:
+      "Remettre en ligne un site aujourd'hui inaccessible : chaque visite perdue est un client qui part chez un concurrent.",
+    "social-only":
+      "Passer d'une page de réseau social à un site à votre nom, que vous maîtrisez et que Google met en avant.",
+    "not-mobile-friendly":
+      "Rendre le site agréable sur smartphone, là où se font aujourd'hui la plupart des recherches locales.",
+    "no-https":
+      "Sécuriser le site en HTTPS : les navigateurs l'affichent comme « Non sécurisé » et Google le pénalise.",
+    "outdated-copyright":
+      "Moderniser un site qui paraît daté, pour qu'il reflète enfin la qualité actuelle de l'établissement.",
+    "no-meta-description":
+      "Soigner le référencement du site pour qu'il apparaisse avec une description claire dans les résultats Google.",
+  },
+  complaintAngles: {
+    booking:
+      "Permettre de réserver en ligne en quelques clics : plusieurs clients regrettent dans leurs avis qu'il soit difficile de réserver.",
+    hours:
+      "Afficher des horaires fiables et à jour : des clients disent dans leurs avis ne pas les avoir trouvés.",
+    menu: "Mettre la carte en ligne, claire et à jour : des clients ont du mal à la consulter.",
+    online:
+      "Donner enfin des informations complètes en ligne : des avis regrettent de ne rien trouver sur internet.",
+    phone:
+      "Offrir un contact simple, formulaire ou réservation en ligne : des clients peinent à vous joindre par téléphone.",
+  },
+  angles: {
+    reputation: (reviews) =>
+      `Transformer une réputation déjà solide (${reviews} avis) en réservations et demandes directes grâce à un site qui met ces avis en avant.`,
+    openingHours:
+      "Centraliser horaires, menu ou prestations et coordonnées sur un site clair, pour que les clients trouvent l'essentiel sans passer par des plateformes tierces.",
+    contact:
+      "Offrir un point de contact fiable en ligne : sans site ni téléphone visible, les clients potentiels n'ont aucun moyen simple de vous joindre.",
+    visibility:
+      "Gagner en visibilité locale : un site optimisé pour Google fait remonter le commerce devant les concurrents du quartier.",
+  },
+  vibeSummary: ({ name, label, address, rating, reviews }) => {
+    const intro = [
+      `${name ?? "Ce commerce"} est un ${label}`,
+      address ? `installé ${address}` : null,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    const reputation =
+      rating && reviews
+        ? `noté ${rating}/5 sur ${reviews} avis`
+        : "encore discret sur les avis en ligne";
+    return `${intro}, ${reputation}.`;
+  },
+  message: ({ name, label, rating, reviews, finding, angle, vibe }) => [
+    `Bonjour l'équipe de ${name ?? "votre établissement"},`,
+    rating && reviews
+      ? `En cherchant un ${label} dans le coin, je suis tombé sur vos ${reviews} avis (${rating}/5) : bravo !`
+      : `En cherchant un ${label} dans le coin, je suis tombé sur votre fiche Google.`,
+    finding
+      ? `En regardant votre présence en ligne, j'ai relevé un point à améliorer : ${finding}`
+      : "J'ai remarqué que vous n'aviez pas encore de site web.",
+    `Notre idée : ${angle}`,
+    vibe
+      ? `Nous imaginons un site dans un esprit ${vibe}, fidèle à votre identité.`
+      : "Nous imaginons un site simple, rapide et fidèle à votre identité.",
+    "Seriez-vous disponible 15 minutes cette semaine pour en parler ?",
+  ],
+  email: ({ name, label, finding }, [greeting, ...message]) => ({
+    subject: finding
+      ? `${name ?? "Votre site"} : une piste pour attirer plus de clients`
+      : `Un site web pour ${name ?? `votre ${label}`} ?`,
+    body: [
+      greeting,
+      message.join(" "),
+      "Je peux vous envoyer une maquette gratuite de la page d'accueil, sans engagement, pour que vous puissiez juger sur pièce.",
+      "Bonne journée,",
+    ].join("\n\n"),
+  }),
+  sms: ({ name, label, finding }) =>
+    [
+      name ? `Bonjour ${name},` : "Bonjour,",
+      finding
+        ? "j'ai repéré quelques points à améliorer sur votre site."
+        : `votre ${label} n'a pas encore de site web.`,
+      "Je vous propose une maquette gratuite, partant pour en parler 15 min ?",
+    ].join(" "),
+  dm: ({ name, label, rating, reviews, finding }) =>
+    [
+      name ? `Hello ${name} !` : "Hello !",
+      rating && reviews
+        ? `Vos ${reviews} avis donnent vraiment envie de passer 👏`
+        : `Super ${label}, ça donne envie de passer 👏`,
+      finding
+        ? "On aide les commerces du coin à avoir un site qui leur ressemble, j'ai quelques idées pour le vôtre."
+        : "On aide les commerces du coin à avoir leur propre site, j'ai quelques idées pour vous.",
+      "Je vous envoie une maquette ?",
+    ].join(" "),
+  call: ({ name, label, rating, reviews, finding, angle }) => ({
+    opening: `Bonjour, je suis bien chez ${name ?? `le ${label}`} ? Je vous appelle parce que je travaille avec des commerces du quartier sur leur présence en ligne, vous avez deux minutes ?`,
+    points: [
+      finding
+        ? `Constat : ${finding}`
+        : "Constat : pas de site web à votre nom aujourd'hui.",
+      `Proposition : ${angle}`,
+      rating && reviews
+        ? `Preuve : vos ${reviews} avis à ${rating}/5 méritent d'être mis en avant.`
+        : "Preuve : un site bien référencé fait remonter le commerce dans les recherches locales.",
+      "Prochaine étape : une maquette gratuite à vous montrer lors d'un rendez-vous de 15 minutes.",
+    ],
+    objections: [
+      {
+        objection: "Je n'ai pas le temps.",
+        answer:
+          "Justement, on s'occupe de tout : il me faut 15 minutes avec vous, le reste est de notre côté.",
+      },
+      {
+        objection: "C'est trop cher.",
+        answer:
+          "La maquette est gratuite, et il suffit de quelques clients en plus par mois pour rentabiliser le site.",
+      },
+      {
+        objection: "Ma page Facebook ou Google suffit.",
+        answer:
+          "Elles sont utiles, mais vous n'en maîtrisez ni l'affichage ni le référencement : un site à votre nom les complète et rassure les nouveaux clients.",
+      },
+    ],
+  }),
+};
+
+const withArticle = (label: string) =>
+  `${/^[aeiou]/i.test(label) ? "an" : "a"} ${label}`;
+
+const en: TemplateCopy = {
+  typeLabels: {
+    bakery: "bakery",
+    bar: "bar",
+    barber: "barber shop",
+    beauty_salon: "beauty salon",
+    cafe: "café",
+    clothing_store: "clothing store",
+    florist: "florist",
+    gym: "gym",
+    hair_care: "hair salon",
+    hairdresser: "hair salon",
+    restaurant: "restaurant",
+    spa: "spa",
+    store: "shop",
+  },
+  decimalSeparator: ".",
+  findings: {
+    unreachable: "your website cannot be reached.",
+    "social-only": "your website link only leads to a social media page.",
+    "not-mobile-friendly": "your website is not adapted to smartphones.",
+    "no-https": "your website is not served over HTTPS.",
+    "outdated-copyright": "your website's copyright notice looks outdated.",
+    "no-meta-description":
+      "your website has no meta description for search engines.",
+  },
+  findingAngles: {
+    unreachable:
+      "Bring an unreachable website back online: every lost visit is a customer going to a competitor.",
+    "social-only":
+      "Move from a social media page to a website in your own name, which you control and Google puts forward.",
+    "not-mobile-friendly":
+      "Make the website pleasant on smartphones, where most local searches now happen.",
+    "no-https":
+      "Secure the website with HTTPS: browsers flag it as “Not secure” and Google penalizes it.",
+    "outdated-copyright":
+      "Refresh a website that looks dated, so it finally reflects the quality of the business today.",
+    "no-meta-description":
+      "Improve the website's SEO so it shows up with a clear description in Google results.",
+  },
+  complaintAngles: {
+    booking:
+      "Let customers book online in a few clicks: several reviews say it is hard to get a reservation.",
+    hours:
+      "Show reliable, up-to-date opening hours: reviews mention customers could not find them.",
+    menu: "Put a clear, up-to-date menu online: customers struggle to find it.",
+    online:
+      "Finally give complete information online: reviews regret finding nothing on the internet.",
+    phone:
+      "Offer a simple way to get in touch, a form or online booking: customers struggle to reach you by phone.",
+  },
+  angles: {
+    reputation: (reviews) =>
+      `Turn an already strong reputation (${reviews} reviews) into direct bookings and enquiries with a website that showcases those reviews.`,
+    openingHours:
+      "Bring opening hours, menu or services and contact details together on a clear website, so customers find the essentials without third-party platforms.",
+    contact:
+      "Offer a reliable point of contact online: with no website or visible phone number, potential customers have no easy way to reach you.",
+    visibility:
+      "Gain local visibility: a website optimized for Google puts the business ahead of neighbourhood competitors.",
+  },
+  vibeSummary: ({ name, label, address, rating, reviews }) => {
+    const intro = [
+      `${name ?? "This business"} is ${withArticle(label)}`,
+      address ? `located at ${address}` : null,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    const reputation =
+      rating && reviews
+        ? `rated ${rating}/5 from ${reviews} reviews`
+        : "still low-key on online reviews";
+    return `${intro}, ${reputation}.`;
+  },
+  message: ({ name, label, rating, reviews, finding, angle, vibe }) => [
+    `Hello ${name ?? "there"} team,`,
+    rating && reviews
+      ? `While looking for ${withArticle(label)} nearby, I came across your ${reviews} reviews (${rating}/5): well done!`
+      : `While looking for ${withArticle(label)} nearby, I came across your Google listing.`,
+    finding
+      ? `Looking at your online presence, I noticed something worth improving: ${finding}`
+      : "I noticed you don't have a website yet.",
+    `Our idea: ${angle}`,
+    vibe
+      ? `We picture a website with a ${vibe} feel, true to your identity.`
+      : "We picture a simple, fast website that is true to your identity.",
+    "Would you have 15 minutes this week to talk about it?",
+  ],
+  email: ({ name, label, finding }, [greeting, ...message]) => ({
+    subject: finding
+      ? `${name ?? "Your website"}: an idea to attract more customers`
+      : `A website for ${name ?? `your ${label}`}?`,
+    body: [
+      greeting,
+      message.join(" "),
+      "I can send you a free mockup of the home page, with no commitment, so you can judge for yourself.",
+      "Have a great day,",
+    ].join("\n\n"),
+  }),
+  sms: ({ name, label, finding }) =>
+    [
+      name ? `Hello ${name},` : "Hello,",
+      finding
+        ? "I spotted a few things to improve on your website."
+        : `your ${label} doesn't have a website yet.`,
+      "I'd like to offer you a free mockup, up for a 15 min chat?",
+    ].join(" "),
+  dm: ({ name, label, rating, reviews, finding }) =>
+    [
+      name ? `Hi ${name}!` : "Hi!",
+      rating && reviews
+        ? `Your ${reviews} reviews really make me want to drop by 👏`
+        : `Great ${label}, it really makes me want to drop by 👏`,
+      finding
+        ? "We help local businesses get a website that looks like them, and I have a few ideas for yours."
+        : "We help local businesses get their own website, and I have a few ideas for you.",
+      "Shall I send you a mockup?",
+    ].join(" "),
+  call: ({ name, label, rating, reviews, finding, angle }) => ({
+    opening: `Hello, is this ${name ?? `the ${label}`}? I'm calling because I work with local businesses on their online presence, do you have two minutes?`,
+    points: [
+      finding
+        ? `Observation: ${finding}`
+        : "Observation: no website in your name today.",
+      `Proposal: ${angle}`,
+      rating && reviews
+        ? `Proof: your ${reviews} reviews at ${rating}/5 deserve to be showcased.`
+        : "Proof: a well-referenced website puts the business forward in local searches.",
+      "Next step: a free mockup to show you during a 15-minute meeting.",
+    ],
+    objections: [
+      {
+        objection: "I don't have time.",
+        answer:
+          "That's exactly why we handle everything: I need 15 minutes with you, we take care of the rest.",
+      },
+      {
+        objection: "It's too expensive.",
+        answer:
+          "The mockup is free, and a few extra customers a month are enough to pay for the website.",
+      },
+      {
+        objection: "My Facebook or Google page is enough.",
+        answer:
+          "They are useful, but you control neither their layout nor their ranking: a website in your name complements them and reassures new customers.",
+      },
+    ],
+  }),
+};
+
+// The template only speaks French and English; other languages get English.
+export function getTemplateCopy(language: PitchLanguage) {
+  return language === "fr" ? fr : en;
+}
@@ -0,0 +1,178 @@
+import {
+  WEBSITE_FINDING_CODES,
+  type WebsiteFinding,
+  type WebsiteFindingCode,
+} from "@/server/audit";
+import type { EnrichedBusiness } from "@/server/places";
+import {
+  WEBSITE_FIXABLE_THEMES,
+  type WebsiteFixableTheme,
+} from "@/server/reviews";
+
+import { DEFAULT_PITCH_LANGUAGE } from "./language";
+import { SMS_MAX_LENGTH } from "./parse";
+import {
+  getTemplateCopy,
+  type TemplateContext,
+  type TemplateCopy,
+} from "./template-copy";
+import type {
+  GroqPitch,
+  OutreachContent,
+  PitchGenerator,
+  PitchOptions,
+} from "./types";
+
+// The strongest finding drives the angle; "none" keeps the no-website pitch.
+function mainFinding(biz: EnrichedBusiness) {
+  const findings = biz.websiteAudit?.findings ?? [];
+  return WEBSITE_FINDING_CODES.map((code) =>
+    findings.find((finding) => finding.code === code),
+  ).find(
+    (
+      finding,
+    ): finding is WebsiteFinding & {
+      code: Exclude<WebsiteFindingCode, "none">;
+    } => finding !== undefined && finding.code !== "none",
+  );
+}
+
+// The most cited review complaint a website would solve, if any.
+function mainComplaint(biz: EnrichedBusiness) {
+  return biz.insights?.complaints
+    .map((complaint) => complaint.theme)
+    .find((theme): theme is WebsiteFixableTheme =>
+      WEBSITE_FIXABLE_THEMES.includes(theme as WebsiteFixableTheme),
+    );
+}
+
+function describeType(
+  types: string[] = [],
+  fallback: string,
+  copy: TemplateCopy,
+) {
+  const match = types.find((type) => copy.typeLabels[type]);
+  return match ? copy.typeLabels[match] : fallback;
+}
+
+function lowerFirst(text: string) {
+  return `${text.charAt(0).toLowerCase()}${text.slice(1)}`;
+}
+
+function buildAngle(biz: EnrichedBusiness, copy: TemplateCopy) {
+  const finding = mainFinding(biz);
+  if (finding) {
+    return copy.findingAngles[finding.code];
+  }
+  const complaint = mainComplaint(biz);
+  if (complaint) {
+    return copy.complaintAngles[complaint];
+  }
+  if (biz.rating && biz.rating >= 4.3 && (biz.user_ratings_total ?? 0) >= 50) {
+    return copy.angles.reputation(biz.user_ratings_total ?? 0);
+  }
+  if (biz.opening_hours?.weekday_text?.length) {
+    return copy.angles.openingHours;
+  }
+  if (!biz.formatted_phone_number) {
+    return copy.angles.contact;
+  }
+  return copy.angles.visibility;
+}
+
+function buildContext(
+  biz: EnrichedBusiness,
+  angle: string,
+  options: PitchOptions,
+  copy: TemplateCopy,
+): TemplateContext {
+  const finding = mainFinding(biz);
+  return {
+    name: biz.name,
+    label: describeType(biz.types, options.query, copy),
+    address: biz.formatted_address,
+    rating: biz.rating
+      ? biz.rating.toFixed(1).replace(".", copy.decimalSeparator)
+      : undefined,
+    reviews: biz.user_ratings_total,
+    finding:
+      finding && lowerFirst(copy.findings[finding.code]),
+    angle: lowerFirst(angle),
+    vibe: options.vibe,
+  };
+}
+
+// Cuts on a word boundary so the SMS never ends mid-word.
+function truncate(text: string, max: number) {
+  if (text.length <= max) {
+    return text;
+  }
+  const cut = text.slice(0, max - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:.]+$/, "")}…`;
+}
+
+function buildChannels(
+  context: TemplateContext,
+  message: string[],
+  options: PitchOptions,
+  copy: TemplateCopy,
+): OutreachContent | undefined {
+  const channels = options.channels ?? [];
+  if (!channels.length) {
+    return undefined;
+  }
+  const email = channels.includes("email")
+    ? copy.email(context, message)
+    : undefined;
+  const signature = options.agency?.signature;
+  return {
+    ...(email
+      ? {
+          email: {
+            ...email,
+            body: signature ? `${email.body}\n${signature}` : email.body,
+          },
+        }
+      : {}),
+    ...(channels.includes("sms")
+      ? { sms: truncate(copy.sms(context), SMS_MAX_LENGTH) }
+      : {}),
+    ...(channels.includes("dm") ? { dm: copy.dm(context) } : {}),
+    ...(channels.includes("call") ? { call: copy.call(context) } : {}),
+  };
+}
+
+export function buildTemplatePitch(
+  biz: EnrichedBusiness,
+  options: PitchOptions,
+): GroqPitch {
+  const copy = getTemplateCopy(options.language ?? DEFAULT_PITCH_LANGUAGE);
+  const angle = buildAngle(biz, copy);
+  const context = buildContext(biz, angle, options, copy);
+  const message = copy.message(context);
+  const channels = buildChannels(context, message, options, copy);
+
+  return {
+    placeId: biz.place_id,
+    vibeSummary: [copy.vibeSummary(context), biz.editorial_summary?.overview]
+      .filter(Boolean)
+      .join(" "),
+    angle,
+    personalizedMessage: [message.join(" "), options.agency?.signature]
+      .filter(Boolean)
+      .join("\n\n"),
+    ...(channels ? { channels } : {}),
+  };
+}
+
+export function createTemplateGenerator(): PitchGenerator {
+  return {
+    name: "template",
+    async generate(businesses, options, onPitch) {
+      const pitches = businesses.map((biz) => buildTemplatePitch(biz, options));
+      pitches.forEach((pitch) => onPitch?.(pitch));
+      return { pitches, errors: {} };
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import type { Locale } from "@/i18n";
+import type { EnrichedBusiness } from "@/server/places";
+import type {
+  AgencyProfile,
+  ResolvedPromptTemplate,
+} from "@/server/settings";
+
+export const PITCH_LANGUAGES = ["fr", "en", "es", "nl", "de"] as const;
+
+export type PitchLanguage = (typeof PITCH_LANGUAGES)[number];
+
+export const OUTREACH_CHANNELS = ["email", "sms", "dm", "call"] as const;
+
+export type OutreachChannel = (typeof OUTREACH_CHANNELS)[number];
+
+export type CallScript = {
+  opening: string;
+  points: string[];
+  objections: Array<{ objection: string; answer: string }>;
+};
+
+export type OutreachContent = {
+  email?: { subject: string; body: string };
+  sms?: string;
+  dm?: string;
+  call?: CallScript;
+};
+
+export type GroqPitch = {
+  placeId: string;
+  vibeSummary: string;
+  angle: string;
+  personalizedMessage: string;
+  channels?: OutreachContent;
+};
+
+export type PitchOptions = {
+  query: string;
+  vibe?: string;
+  tone?: string;
+  language?: PitchLanguage;
+  channels?: OutreachChannel[];
+  agency?: AgencyProfile;
+  template?: ResolvedPromptTemplate;
+  // Regeneration of a single pitch: the version to rework and what to change.
+  previous?: Omit<GroqPitch, "placeId">;
+  instructions?: string;
+  // Language of the errors reported for pitches the model got wrong.
+  locale?: Locale;
+};
+
+export type PitchUsage = {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type PitchGenerationResult = {
+  pitches: GroqPitch[];
+  errors: Record<string, string>;
+  usage?: PitchUsage;
+};
+
+export type PitchGeneratorName = "groq" | "openai" | "ollama" | "template";
+
+export type PitchGenerator = {
+  name: PitchGeneratorName;
+  generate: (
+    businesses: EnrichedBusiness[],
+    options: PitchOptions,
+    onPitch?: (pitch: GroqPitch) => void,
+  ) => Promise<PitchGenerationResult>;
+};
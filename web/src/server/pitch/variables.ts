@@ -0,0 +1,100 @@
+import type { EnrichedBusiness } from "@/server/places";
+
+import { DEFAULT_PITCH_LANGUAGE, PITCH_LANGUAGE_NAMES } from "./language";
+import type { PitchOptions } from "./types";
+
+export const PROMPT_VARIABLES = [
+  "business.name",
+  "business.address",
+  "business.phone",
+  "business.rating",
+  "business.reviews",
+  "business.types",
+  "business.summary",
+  "business.findings",
+  "business.praised",
+  "business.complaints",
+  "query",
+  "vibe",
+  "tone",
+  "language",
+  "agency.name",
+  "agency.description",
+  "agency.offers",
+  "agency.portfolio",
+  "agency.signature",
+] as const;
+
+export type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+
+export const DEFAULT_TONE = "confiant, empathique et orienté résultats";
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export function listTemplateVariables(text: string) {
+  return [
+    ...new Set([...text.matchAll(VARIABLE_PATTERN)].map(([, name]) => name)),
+  ];
+}
+
+export function findUnknownVariables(text: string) {
+  return listTemplateVariables(text).filter(
+    (name) => !PROMPT_VARIABLES.includes(name as PromptVariable),
+  );
+}
+
+// Business variables only make sense when the prompt covers one business.
+export function usesBusinessVariables(texts: string[]) {
+  return texts.some((text) =>
+    listTemplateVariables(text).some((name) => name.startsWith("business.")),
+  );
+}
+
+export function buildPromptVariables(
+  options: PitchOptions,
+  business?: EnrichedBusiness,
+): Record<PromptVariable, string> {
+  const { agency } = options;
+  return {
+    "business.name": business?.name ?? "",
+    "business.address": business?.formatted_address ?? "",
+    "business.phone": business?.formatted_phone_number ?? "",
+    "business.rating": business?.rating?.toFixed(1) ?? "",
+    "business.reviews": String(business?.user_ratings_total ?? ""),
+    "business.types": business?.types?.join(", ") ?? "",
+    "business.summary": business?.editorial_summary?.overview ?? "",
+    "business.findings":
+      business?.websiteAudit?.findings
+        .map((finding) => finding.message)
+        .join(" ") ?? "",
+    "business.praised":
+      business?.insights?.praised.map((item) => item.message).join(", ") ?? "",
+    "business.complaints":
+      business?.insights?.complaints.map((item) => item.message).join(", ") ??
+      "",
+    query: options.query,
+    vibe: options.vibe ?? "",
+    tone: options.tone ?? DEFAULT_TONE,
+    language: PITCH_LANGUAGE_NAMES[options.language ?? DEFAULT_PITCH_LANGUAGE],
+    "agency.name": agency?.name ?? "",
+    "agency.description": agency?.description ?? "",
+    "agency.offers":
+      agency?.offers
+        .map((offer) =>
+          offer.price ? `${offer.name} (${offer.price})` : offer.name,
+        )
+        .join(", ") ?? "",
+    "agency.portfolio": agency?.portfolio.join(", ") ?? "",
+    "agency.signature": agency?.signature ?? "",
+  };
+}
+
+export function renderPromptTemplate(
+  text: string,
+  variables: Record<PromptVariable, string>,
+) {
+  return text.replace(
+    VARIABLE_PATTERN,
+    (match, name: string) => variables[name as PromptVariable] ?? match,
+  );
+}
@@ -0,0 +1,208 @@
+import type { PlacesFixture } from "./types";
+
+// Served by the fixture provider when PLACES_FIXTURE_PATH is unset. Sites use
+// the reserved `.example` domain so audits stay offline and deterministic.
+export const SAMPLE_PLACES_FIXTURE: PlacesFixture = {
+  locations: {
+    "Paris, France": { lat: 48.8566, lng: 2.3522 },
+    Paris: { lat: 48.8566, lng: 2.3522 },
+    "Lyon, France": { lat: 45.764, lng: 4.8357 },
+    "Bruxelles, Belgique": { lat: 50.8503, lng: 4.3517 },
+  },
+  defaultLocation: { lat: 48.8566, lng: 2.3522 },
+  pageSize: 6,
+  places: [
+    {
+      place_id: "fixture-paris-1",
+      name: "Chez Louise",
+      formatted_address: "12 rue des Martyrs, 75009 Paris",
+      formatted_phone_number: "01 23 45 67 89",
+      geometry: { location: { lat: 48.8789, lng: 2.3397 } },
+      rating: 4.6,
+      user_ratings_total: 182,
+      business_status: "OPERATIONAL",
+      types: ["restaurant", "food"],
+      opening_hours: {
+        weekday_text: ["lundi: 12:00–14:30, 19:00–22:30", "dimanche: Fermé"],
+      },
+      editorial_summary: {
+        overview: "Bistrot de quartier, cuisine du marché.",
+      },
+      reviews: [
+        {
+          author_name: "Claire",
+          rating: 5,
+          text: "Cuisine excellente et accueil chaleureux, mais impossible de réserver en ligne.",
+        },
+        {
+          author_name: "Marc",
+          rating: 4,
+          text: "Très bon, dommage qu'il n'y ait pas de site pour voir la carte.",
+        },
+      ],
+    },
+    {
+      place_id: "fixture-paris-2",
+      name: "Boulangerie Martin",
+      formatted_address: "48 rue Oberkampf, 75011 Paris",
+      formatted_phone_number: "01 43 55 12 90",
+      geometry: { location: { lat: 48.8649, lng: 2.3767 } },
+      rating: 4.8,
+      user_ratings_total: 264,
+      business_status: "OPERATIONAL",
+      types: ["bakery", "food", "store"],
+      opening_hours: { weekday_text: ["lundi: 07:00–20:00"] },
+      reviews: [
+        {
+          author_name: "Sophie",
+          rating: 5,
+          text: "Le meilleur croissant du quartier, service rapide.",
+        },
+        {
+          author_name: "Hugo",
+          rating: 3,
+          text: "Bon pain mais les horaires changent souvent, on ne les trouve nulle part.",
+        },
+      ],
+    },
+    {
+      place_id: "fixture-paris-3",
+      name: "Salon Élégance",
+      formatted_address: "5 rue de Charonne, 75011 Paris",
+      formatted_phone_number: "01 48 06 22 31",
+      website: "https://www.instagram.com/salonelegance.paris",
+      geometry: { location: { lat: 48.8533, lng: 2.3745 } },
+      rating: 4.4,
+      user_ratings_total: 96,
+      business_status: "OPERATIONAL",
+      types: ["hair_care", "beauty_salon"],
+      reviews: [
+        {
+          author_name: "Inès",
+          rating: 2,
+          text: "Coupe réussie mais injoignable par téléphone pour prendre rendez-vous.",
+        },
+      ],
+    },
+    {
+      place_id: "fixture-paris-4",
+      name: "Le Comptoir Saint-Paul",
+      formatted_address: "21 rue Saint-Paul, 75004 Paris",
+      formatted_phone_number: "01 42 72 18 04",
+      website: "http://comptoir-saint-paul.example",
+      geometry: { location: { lat: 48.8531, lng: 2.3623 } },
+      rating: 4.1,
+      user_ratings_total: 57,
+      business_status: "OPERATIONAL",
+      types: ["restaurant", "bar", "food"],
+    },
+    {
+      place_id: "fixture-paris-5",
+      name: "Fleurs de Ménilmontant",
+      formatted_address: "102 rue de Ménilmontant, 75020 Paris",
+      formatted_phone_number: "01 46 36 40 12",
+      geometry: { location: { lat: 48.8694, lng: 2.3931 } },
+      rating: 4.7,
+      user_ratings_total: 41,
+      business_status: "OPERATIONAL",
+      types: ["florist", "store"],
+    },
+    {
+      place_id: "fixture-paris-6",
+      name: "Trattoria Nonna",
+      formatted_address: "9 rue Lepic, 75018 Paris",
+      formatted_phone_number: "01 42 58 77 03",
+      geometry: { location: { lat: 48.8846, lng: 2.3336 } },
+      rating: 3.9,
+      user_ratings_total: 133,
+      business_status: "OPERATIONAL",
+      types: ["restaurant", "food"],
+      reviews: [
+        {
+          author_name: "Julien",
+          rating: 2,
+          text: "Attente beaucoup trop longue et prix élevés pour la quantité.",
+        },
+        {
+          author_name: "Léa",
+          rating: 4,
+          text: "Pâtes fraîches délicieuses, ambiance familiale.",
+        },
+      ],
+    },
+    {
+      place_id: "fixture-paris-7",
+      name: "Café des Arts",
+      formatted_address: "3 place du Tertre, 75018 Paris",
+      geometry: { location: { lat: 48.8865, lng: 2.3408 } },
+      rating: 4.0,
+      user_ratings_total: 12,
+      business_status: "CLOSED_TEMPORARILY",
+      types: ["cafe", "food"],
+    },
+    {
+      place_id: "fixture-paris-8",
+      name: "Brasserie du Canal",
+      formatted_address: "64 quai de Jemmapes, 75010 Paris",
+      formatted_phone_number: "01 42 08 55 90",
+      website: "https://brasserie-du-canal.example",
+      geometry: { location: { lat: 48.8712, lng: 2.3659 } },
+      rating: 4.3,
+      user_ratings_total: 310,
+      business_status: "OPERATIONAL",
+      types: ["restaurant", "bar", "food"],
+    },
+    {
+      place_id: "fixture-lyon-1",
+      name: "Bouchon Les Lyonnais",
+      formatted_address: "19 rue de la Bombarde, 69005 Lyon",
+      formatted_phone_number: "04 78 37 64 82",
+      geometry: { location: { lat: 45.7629, lng: 4.8275 } },
+      rating: 4.5,
+      user_ratings_total: 412,
+      business_status: "OPERATIONAL",
+      types: ["restaurant", "food"],
+      reviews: [
+        {
+          author_name: "Paul",
+          rating: 5,
+          text: "Cuisine lyonnaise authentique, réservation par téléphone uniquement.",
+        },
+      ],
+    },
+    {
+      place_id: "fixture-lyon-2",
+      name: "Atelier Coiffure Croix-Rousse",
+      formatted_address: "7 boulevard de la Croix-Rousse, 69004 Lyon",
+      formatted_phone_number: "04 72 00 18 26",
+      geometry: { location: { lat: 45.7745, lng: 4.8302 } },
+      rating: 4.9,
+      user_ratings_total: 64,
+      business_status: "OPERATIONAL",
+      types: ["hair_care", "beauty_salon"],
+    },
+    {
+      place_id: "fixture-bruxelles-1",
+      name: "Friterie Flagey",
+      formatted_address: "Place Eugène Flagey 1, 1050 Ixelles",
+      formatted_phone_number: "+32 2 640 12 34",
+      geometry: { location: { lat: 50.8275, lng: 4.3723 } },
+      rating: 4.2,
+      user_ratings_total: 880,
+      business_status: "OPERATIONAL",
+      types: ["restaurant", "meal_takeaway", "food"],
+    },
+    {
+      place_id: "fixture-bruxelles-2",
+      name: "Pâtisserie Sablon",
+      formatted_address: "Rue de Rollebeek 8, 1000 Bruxelles",
+      formatted_phone_number: "+32 2 511 45 67",
+      website: "https://facebook.com/patisseriesablon",
+      geometry: { location: { lat: 50.8406, lng: 4.3512 } },
+      rating: 4.6,
+      user_ratings_total: 205,
+      business_status: "OPERATIONAL",
+      types: ["bakery", "cafe", "food"],
+    },
+  ],
+};
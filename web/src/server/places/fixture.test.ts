@@ -0,0 +1,123 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { createFixturePlacesProvider } from "./fixture";
+import { SAMPLE_PLACES_FIXTURE } from "./fixture-data";
+
+const origin = { lat: 48.8566, lng: 2.3522 };
+
+describe("createFixturePlacesProvider", () => {
+  describe("with the sample data", () => {
+    const provider = createFixturePlacesProvider();
+
+    it("geocodes known locations whatever their case or accents", async () => {
+      await expect(provider.geocode("bruxelles, belgique")).resolves.toEqual({
+        lat: 50.8503,
+        lng: 4.3517,
+      });
+    });
+
+    it("falls back to the default location", async () => {
+      await expect(provider.geocode("Nulle part")).resolves.toEqual(origin);
+    });
+
+    it("matches the query against names, addresses and types", async () => {
+      const { results } = await provider.searchText({
+        query: "boulangerie",
+        location: origin,
+        radius: 5000,
+      });
+      expect(results.map((place) => place.place_id)).toEqual([
+        "fixture-paris-2",
+      ]);
+
+      const bakeries = await provider.searchText({
+        query: "bakery",
+        location: origin,
+        radius: 5000,
+      });
+      expect(bakeries.results).toHaveLength(2);
+    });
+
+    it("pages results by pageSize", async () => {
+      const food = SAMPLE_PLACES_FIXTURE.places.filter((place) =>
+        place.types?.includes("food"),
+      );
+      const first = await provider.searchText({
+        query: "food",
+        location: origin,
+        radius: 5000,
+      });
+      expect(first.results).toHaveLength(6);
+      expect(first.nextPageToken).toBe("6");
+
+      const second = await provider.searchText({
+        query: "food",
+        location: origin,
+        radius: 5000,
+        pageToken: first.nextPageToken,
+      });
+      expect(second.results).toHaveLength(food.length - 6);
+      expect(second.nextPageToken).toBeUndefined();
+    });
+
+    it("returns full details, or null for an unknown place", async () => {
+      const details = await provider.getDetails("fixture-paris-1");
+      expect(details?.reviews).toHaveLength(2);
+      await expect(provider.getDetails("unknown")).resolves.toBeNull();
+    });
+  });
+
+  describe("with a fixture file", () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), "places-fixture-"));
+      await writeFile(
+        path.join(dir, "places.json"),
+        JSON.stringify({
+          places: [
+            { place_id: "a", name: "Garage Dupont", types: ["car_repair"] },
+          ],
+        }),
+      );
+    });
+
+    afterAll(() => rm(dir, { recursive: true, force: true }));
+
+    it("reads places from the file", async () => {
+      const provider = createFixturePlacesProvider(
+        path.join(dir, "places.json"),
+      );
+      const { results } = await provider.searchText({
+        query: "garage",
+        location: origin,
+        radius: 1000,
+      });
+      expect(results).toEqual([
+        expect.objectContaining({ place_id: "a", name: "Garage Dupont" }),
+      ]);
+    });
+
+    it("rejects with LOCATION_NOT_FOUND without locations", async () => {
+      const provider = createFixturePlacesProvider(
+        path.join(dir, "places.json"),
+      );
+      await expect(provider.geocode("Paris")).rejects.toMatchObject({
+        code: "LOCATION_NOT_FOUND",
+      });
+    });
+
+    it("rejects with CONFIG_ERROR when the file is missing", async () => {
+      const provider = createFixturePlacesProvider(
+        path.join(dir, "missing.json"),
+      );
+      await expect(provider.getDetails("a")).rejects.toMatchObject({
+        code: "CONFIG_ERROR",
+      });
+    });
+  });
+});
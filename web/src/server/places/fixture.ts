@@ -0,0 +1,105 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { normalizeText } from "@/server/text";
+import { AppError } from "@/server/upstream";
+
+import { SAMPLE_PLACES_FIXTURE } from "./fixture-data";
+import type {
+  GooglePlaceDetails,
+  PlacesFixture,
+  PlacesProvider,
+} from "./types";
+
+const DEFAULT_PAGE_SIZE = 20;
+
+function matchesQuery(place: GooglePlaceDetails, query: string) {
+  const haystack = normalizeText(
+    [place.name, place.formatted_address, ...(place.types ?? [])]
+      .filter(Boolean)
+      .join(" "),
+  );
+  return normalizeText(query)
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .some((term) => haystack.includes(term));
+}
+
+// Without a path, the sample data shipped in fixture-data.ts is served.
+export function createFixturePlacesProvider(
+  fixturePath?: string,
+): PlacesProvider {
+  let fixture: Promise<PlacesFixture> | null = null;
+
+  const loadFixture = () => {
+    if (!fixturePath) {
+      return Promise.resolve(SAMPLE_PLACES_FIXTURE);
+    }
+    fixture ??= readFile(path.resolve(process.cwd(), fixturePath), "utf8")
+      .then((raw) => JSON.parse(raw) as PlacesFixture)
+      .catch(() => {
+        fixture = null;
+        throw new AppError(
+          "CONFIG_ERROR",
+          `Impossible de lire le fichier de données local "${fixturePath}".`,
+        );
+      });
+    return fixture;
+  };
+
+  return {
+    name: "fixture",
+    async geocode(address) {
+      const { locations = {}, defaultLocation } = await loadFixture();
+      const match = Object.entries(locations).find(
+        ([key]) => normalizeText(key) === normalizeText(address),
+      );
+      const coords = match?.[1] ?? defaultLocation;
+      if (!coords) {
+        throw new AppError(
+          "LOCATION_NOT_FOUND",
+          "Impossible de localiser cette zone.",
+          { upstream: "fixture" },
+        );
+      }
+      return coords;
+    },
+    async searchText({ query, pageToken }) {
+      const { places, pageSize = DEFAULT_PAGE_SIZE } = await loadFixture();
+      const matching = places.filter((place) => matchesQuery(place, query));
+      const offset = pageToken ? Number(pageToken) : 0;
+      const next = offset + pageSize;
+
+      return {
+        results: matching
+          .slice(offset, next)
+          .map(
+            ({
+              place_id,
+              name,
+              formatted_address,
+              rating,
+              user_ratings_total,
+              business_status,
+              types,
+            }) => ({
+              place_id,
+              name,
+              formatted_address,
+              rating,
+              user_ratings_total,
+              business_status,
+              types,
+            }),
+          ),
+        nextPageToken: next < matching.length ? String(next) : undefined,
+      };
+    },
+    async getDetails(placeId) {
+      const { places } = await loadFixture();
+      return places.find((place) => place.place_id === placeId) ?? null;
+    },
+    buildMapsUrl: (placeId) =>
+      `https://www.google.com/maps/place/?q=place_id:${placeId}`,
+  };
+}
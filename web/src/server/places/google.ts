@@ -0,0 +1,197 @@
+import { DEFAULT_LOCALE, getMessages } from "@/i18n";
+import { AppError, requestJson } from "@/server/upstream";
+
+import type {
+  Coordinates,
+  GeocodedLocation,
+  GooglePlaceDetails,
+  GooglePlaceSummary,
+  PlacesProvider,
+  TextSearchParams,
+} from "./types";
+
+type GoogleGeocodeResult = {
+  address_components?: Array<{ short_name: string; types: string[] }>;
+  geometry: {
+    location: Coordinates;
+  };
+};
+
+type GoogleResponse<T> = {
+  status: string;
+  error_message?: string;
+} & T;
+
+const GOOGLE_PLACES_TEXT_SEARCH =
+  "https://maps.googleapis.com/maps/api/place/textsearch/json";
+const GOOGLE_PLACES_DETAILS =
+  "https://maps.googleapis.com/maps/api/place/details/json";
+const GOOGLE_GEOCODE =
+  "https://maps.googleapis.com/maps/api/geocode/json";
+
+// Google only activates a next_page_token a couple of seconds after issuing it.
+const PAGE_TOKEN_DELAY_MS = 2000;
+const PAGE_TOKEN_MAX_ATTEMPTS = 3;
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function checkStatus(
+  upstream: string,
+  accepted: string[],
+): (data: GoogleResponse<object>) => AppError | null {
+  return ({ status, error_message }) => {
+    if (accepted.includes(status)) {
+      return null;
+    }
+    const t = getMessages(DEFAULT_LOCALE).upstreamErrors;
+    const detail = error_message ? ` (${error_message})` : "";
+    switch (status) {
+      case "OVER_QUERY_LIMIT":
+      case "OVER_DAILY_LIMIT":
+        return new AppError("QUOTA_EXCEEDED", t.googleQuota(detail), {
+          upstream,
+          retryable: status === "OVER_QUERY_LIMIT",
+        });
+      case "REQUEST_DENIED":
+        return new AppError("REQUEST_DENIED", t.googleDenied(detail), {
+          upstream,
+        });
+      case "UNKNOWN_ERROR":
+        return new AppError(
+          "UPSTREAM_UNAVAILABLE",
+          t.googleUnavailable(detail),
+          { upstream, retryable: true },
+        );
+      case "INVALID_REQUEST":
+        return new AppError("INVALID_REQUEST", t.googleInvalid(detail), {
+          upstream,
+        });
+      default:
+        return new AppError("UPSTREAM_ERROR", t.googleStatus(status, detail), {
+          upstream,
+        });
+    }
+  };
+}
+
+async function geocodeLocation(
+  address: string,
+  apiKey: string,
+): Promise<GeocodedLocation> {
+  const geocodeUrl = new URL(GOOGLE_GEOCODE);
+  geocodeUrl.searchParams.set("address", address);
+  geocodeUrl.searchParams.set("key", apiKey);
+
+  const data = await requestJson<
+    GoogleResponse<{ results?: GoogleGeocodeResult[] }>
+  >(geocodeUrl, {
+    upstream: "google-geocoding",
+    check: checkStatus("google-geocoding", ["OK", "ZERO_RESULTS"]),
+  });
+  if (!data.results?.length) {
+    throw new AppError(
+      "LOCATION_NOT_FOUND",
+      getMessages(DEFAULT_LOCALE).errors.LOCATION_NOT_FOUND,
+      { upstream: "google-geocoding" },
+    );
+  }
+
+  const [result] = data.results;
+  const country = result.address_components?.find((component) =>
+    component.types.includes("country"),
+  );
+  return { ...result.geometry.location, countryCode: country?.short_name };
+}
+
+async function fetchPlaces(
+  { query, location, radius, pageToken }: TextSearchParams,
+  apiKey: string,
+) {
+  const url = new URL(GOOGLE_PLACES_TEXT_SEARCH);
+  if (pageToken) {
+    url.searchParams.set("pagetoken", pageToken);
+  } else {
+    url.searchParams.set("query", query);
+    url.searchParams.set("location", `${location.lat},${location.lng}`);
+    url.searchParams.set("radius", String(radius));
+  }
+  url.searchParams.set("key", apiKey);
+
+  for (let attempt = 1; ; attempt += 1) {
+    if (pageToken) {
+      await wait(PAGE_TOKEN_DELAY_MS);
+    }
+
+    const data = await requestJson<
+      GoogleResponse<{
+        results?: GooglePlaceSummary[];
+        next_page_token?: string;
+      }>
+    >(url, {
+      upstream: "google-places",
+      check: checkStatus(
+        "google-places",
+        pageToken && attempt < PAGE_TOKEN_MAX_ATTEMPTS
+          ? ["OK", "ZERO_RESULTS", "INVALID_REQUEST"]
+          : ["OK", "ZERO_RESULTS"],
+      ),
+    });
+    if (data.status === "INVALID_REQUEST") {
+      continue;
+    }
+
+    return {
+      results: data.results ?? [],
+      nextPageToken: data.next_page_token,
+    };
+  }
+}
+
+async function fetchPlaceDetails(
+  placeId: string,
+  apiKey: string,
+): Promise<GooglePlaceDetails | null> {
+  const url = new URL(GOOGLE_PLACES_DETAILS);
+  url.searchParams.set("place_id", placeId);
+  url.searchParams.set(
+    "fields",
+    [
+      "place_id",
+      "name",
+      "formatted_address",
+      "formatted_phone_number",
+      "website",
+      "geometry/location",
+      "rating",
+      "user_ratings_total",
+      "business_status",
+      "types",
+      "opening_hours",
+      "editorial_summary",
+      "reviews",
+    ].join(","),
+  );
+  url.searchParams.set("key", apiKey);
+
+  // NOT_FOUND means the place was removed since the text search: skip it.
+  const data = await requestJson<
+    GoogleResponse<{ result?: GooglePlaceDetails }>
+  >(url, {
+    upstream: "google-places",
+    check: checkStatus("google-places", ["OK", "NOT_FOUND", "ZERO_RESULTS"]),
+  });
+  return data.status === "OK" ? (data.result ?? null) : null;
+}
+
+export function createGooglePlacesProvider(apiKey: string): PlacesProvider {
+  return {
+    name: "google",
+    geocode: (address) => geocodeLocation(address, apiKey),
+    searchText: (params) => fetchPlaces(params, apiKey),
+    getDetails: (placeId) => fetchPlaceDetails(placeId, apiKey),
+    buildMapsUrl: (placeId) =>
+      `https://www.google.com/maps/place/?q=place_id:${placeId}`,
+  };
+}
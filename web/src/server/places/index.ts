@@ -0,0 +1,39 @@
+import { AppError } from "@/server/upstream";
+
+import { createFixturePlacesProvider } from "./fixture";
+import { createGooglePlacesProvider } from "./google";
+import { createOverpassPlacesProvider } from "./overpass";
+import type { PlacesProvider } from "./types";
+
+export { enrichedBusinessSchema } from "./schema";
+export type * from "./types";
+
+export function createPlacesProvider(
+  name = process.env.PLACES_PROVIDER ?? "google",
+): PlacesProvider {
+  switch (name) {
+    case "google": {
+      const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+      if (!apiKey) {
+        throw new AppError(
+          "CONFIG_ERROR",
+          "Configure la variable d'environnement GOOGLE_MAPS_API_KEY avant d'utiliser ce service.",
+        );
+      }
+      return createGooglePlacesProvider(apiKey);
+    }
+    case "overpass":
+      return createOverpassPlacesProvider({
+        overpassUrl: process.env.OVERPASS_API_URL,
+        nominatimUrl: process.env.NOMINATIM_URL,
+        userAgent: process.env.OSM_USER_AGENT,
+      });
+    case "fixture":
+      return createFixturePlacesProvider(process.env.PLACES_FIXTURE_PATH);
+    default:
+      throw new AppError(
+        "CONFIG_ERROR",
+        `Fournisseur de lieux inconnu: "${name}". Valeurs possibles: google, overpass, fixture.`,
+      );
+  }
+}
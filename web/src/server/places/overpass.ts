@@ -0,0 +1,229 @@
+import { DEFAULT_LOCALE, getMessages } from "@/i18n";
+import { normalizeText } from "@/server/text";
+import { AppError, requestJson } from "@/server/upstream";
+
+import type {
+  GeocodedLocation,
+  GooglePlaceDetails,
+  GooglePlaceSummary,
+  PlacesProvider,
+  TextSearchParams,
+} from "./types";
+
+type OverpassElement = {
+  type: "node" | "way" | "relation";
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+};
+
+type OverpassOptions = {
+  overpassUrl?: string;
+  nominatimUrl?: string;
+  userAgent?: string;
+};
+
+const DEFAULT_OVERPASS_URL = "https://overpass-api.de/api/interpreter";
+const DEFAULT_NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+const DEFAULT_USER_AGENT = "prospection-agent/1.0";
+const OVERPASS_RESULT_LIMIT = 200;
+// Overpass queries declare [timeout:25]; leave room for the transfer.
+const OVERPASS_TIMEOUT_MS = 30_000;
+
+const CATEGORY_TAGS: Record<string, string[]> = {
+  barbier: ["hairdresser", "barber"],
+  boucherie: ["butcher"],
+  boulangerie: ["bakery"],
+  cafe: ["cafe"],
+  caviste: ["wine"],
+  coiffeur: ["hairdresser"],
+  electricien: ["electrician"],
+  epicerie: ["convenience", "deli", "greengrocer"],
+  fleuriste: ["florist"],
+  fromagerie: ["cheese"],
+  garage: ["car_repair"],
+  librairie: ["books"],
+  manucure: ["beauty", "nails"],
+  onglerie: ["beauty", "nails"],
+  patisserie: ["pastry", "confectionery"],
+  plombier: ["plumber"],
+  pressing: ["dry_cleaning", "laundry"],
+  traiteur: ["deli"],
+};
+
+const MATCHED_TAGS = ["amenity", "shop", "craft", "cuisine", "leisure"];
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\"]/g, "\\$&");
+}
+
+function buildSearchQuery({ query, location, radius }: TextSearchParams) {
+  const terms = normalizeText(query).split(/[\s,]+/).filter(Boolean);
+  const values = new Set<string>();
+  for (const term of terms) {
+    values.add(term);
+    for (const tag of CATEGORY_TAGS[term] ?? []) {
+      values.add(tag);
+    }
+  }
+
+  const pattern = [...values].map(escapeRegex).join("|");
+  const around = `(around:${radius},${location.lat},${location.lng})`;
+  const statements = [
+    ...MATCHED_TAGS.map(
+      (tag) => `nwr["name"]["${tag}"~"^(${pattern})$",i]${around};`,
+    ),
+    `nwr["name"~"${escapeRegex(query.trim())}",i]${around};`,
+  ];
+
+  return `[out:json][timeout:25];(${statements.join("")});out tags center ${OVERPASS_RESULT_LIMIT};`;
+}
+
+function toPlaceId(element: OverpassElement) {
+  return `osm:${element.type}:${element.id}`;
+}
+
+function parsePlaceId(placeId: string) {
+  const match = /^osm:(node|way|relation):(\d+)$/.exec(placeId);
+  return match ? { type: match[1], id: match[2] } : null;
+}
+
+function formatAddress(tags: Record<string, string>) {
+  const street = [tags["addr:housenumber"], tags["addr:street"]]
+    .filter(Boolean)
+    .join(" ");
+  const city = [tags["addr:postcode"], tags["addr:city"]]
+    .filter(Boolean)
+    .join(" ");
+  return [street, city].filter(Boolean).join(", ") || undefined;
+}
+
+function toTypes(tags: Record<string, string>) {
+  return MATCHED_TAGS.flatMap((tag) => tags[tag]?.split(";") ?? []).map(
+    (value) => value.trim(),
+  );
+}
+
+function toGeometry(element: OverpassElement) {
+  const lat = element.lat ?? element.center?.lat;
+  const lng = element.lon ?? element.center?.lon;
+  return lat !== undefined && lng !== undefined
+    ? { location: { lat, lng } }
+    : undefined;
+}
+
+function toDetails(element: OverpassElement): GooglePlaceDetails {
+  const tags = element.tags ?? {};
+  return {
+    place_id: toPlaceId(element),
+    name: tags.name,
+    geometry: toGeometry(element),
+    formatted_address: formatAddress(tags),
+    formatted_phone_number: tags.phone ?? tags["contact:phone"],
+    website: tags.website ?? tags["contact:website"] ?? tags.url,
+    types: toTypes(tags),
+    opening_hours: tags.opening_hours
+      ? { weekday_text: tags.opening_hours.split(/;\s*/) }
+      : undefined,
+    editorial_summary: tags.description
+      ? { overview: tags.description }
+      : undefined,
+  };
+}
+
+function toSummary(element: OverpassElement): GooglePlaceSummary {
+  const { place_id, name, formatted_address, types, geometry } =
+    toDetails(element);
+  return { place_id, name, formatted_address, types, geometry };
+}
+
+export function createOverpassPlacesProvider(
+  options: OverpassOptions = {},
+): PlacesProvider {
+  const overpassUrl = options.overpassUrl ?? DEFAULT_OVERPASS_URL;
+  const nominatimUrl = options.nominatimUrl ?? DEFAULT_NOMINATIM_URL;
+  const userAgent = options.userAgent ?? DEFAULT_USER_AGENT;
+  const elements = new Map<string, OverpassElement>();
+
+  async function runQuery(query: string) {
+    const data = await requestJson<{ elements?: OverpassElement[] }>(
+      overpassUrl,
+      {
+        upstream: "overpass",
+        timeoutMs: OVERPASS_TIMEOUT_MS,
+        init: {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+            "User-Agent": userAgent,
+          },
+          body: new URLSearchParams({ data: query }).toString(),
+        },
+      },
+    );
+    return data.elements ?? [];
+  }
+
+  return {
+    name: "overpass",
+    async geocode(address) {
+      const url = new URL("/search", nominatimUrl);
+      url.searchParams.set("q", address);
+      url.searchParams.set("format", "jsonv2");
+      url.searchParams.set("limit", "1");
+      url.searchParams.set("addressdetails", "1");
+
+      const data = await requestJson<
+        Array<{ lat: string; lon: string; address?: { country_code?: string } }>
+      >(url, {
+        upstream: "nominatim",
+        init: { headers: { "User-Agent": userAgent } },
+      });
+      if (!data.length) {
+        throw new AppError(
+          "LOCATION_NOT_FOUND",
+          getMessages(DEFAULT_LOCALE).errors.LOCATION_NOT_FOUND,
+          { upstream: "nominatim" },
+        );
+      }
+
+      const coords: GeocodedLocation = {
+        lat: Number(data[0].lat),
+        lng: Number(data[0].lon),
+        countryCode: data[0].address?.country_code?.toUpperCase(),
+      };
+      return coords;
+    },
+    async searchText(params) {
+      const found = await runQuery(buildSearchQuery(params));
+      const named = found.filter((element) => element.tags?.name);
+      for (const element of named) {
+        elements.set(toPlaceId(element), element);
+      }
+      return { results: named.map(toSummary) };
+    },
+    async getDetails(placeId) {
+      const cached = elements.get(placeId);
+      if (cached) {
+        return toDetails(cached);
+      }
+
+      const parsed = parsePlaceId(placeId);
+      if (!parsed) {
+        return null;
+      }
+      const [element] = await runQuery(
+        `[out:json][timeout:25];${parsed.type}(${parsed.id});out tags center;`,
+      );
+      return element ? toDetails(element) : null;
+    },
+    buildMapsUrl(placeId) {
+      const parsed = parsePlaceId(placeId);
+      return parsed
+        ? `https://www.openstreetmap.org/${parsed.type}/${parsed.id}`
+        : "https://www.openstreetmap.org/";
+    },
+  };
+}
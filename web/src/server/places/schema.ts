@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+import { WEBSITE_FINDING_CODES } from "@/server/audit";
+
+// A business sent back by the client, e.g. a search result that was never
+// stored. Extra fields such as the pitch or the score are dropped.
+export const enrichedBusinessSchema = z.object({
+  place_id: z.string().min(1),
+  name: z.string().optional(),
+  formatted_address: z.string().optional(),
+  formatted_phone_number: z.string().optional(),
+  website: z.string().optional(),
+  rating: z.number().optional(),
+  user_ratings_total: z.number().int().optional(),
+  business_status: z.string().optional(),
+  types: z.array(z.string()).optional(),
+  opening_hours: z
+    .object({ weekday_text: z.array(z.string()).max(7).optional() })
+    .optional(),
+  editorial_summary: z.object({ overview: z.string().optional() }).optional(),
+  reviews: z
+    .array(
+      z.object({
+        author_name: z.string().optional(),
+        text: z.string().optional(),
+        rating: z.number().optional(),
+      }),
+    )
+    .max(5)
+    .optional(),
+  googleMapsUrl: z.string().default(""),
+  websiteAudit: z
+    .object({
+      url: z.string().nullable(),
+      findings: z.array(
+        z.object({
+          code: z.enum(WEBSITE_FINDING_CODES),
+          message: z.string(),
+        }),
+      ),
+      checkedAt: z.string(),
+    })
+    .optional(),
+});
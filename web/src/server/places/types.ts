@@ -0,0 +1,89 @@
+import type { WebsiteAudit } from "@/server/audit";
+import type { ReviewInsights } from "@/server/reviews";
+import type { LeadScore } from "@/server/scoring";
+
+export type Coordinates = {
+  lat: number;
+  lng: number;
+};
+
+// ISO 3166-1 alpha-2 code of the geocoded area, when the provider reports it.
+export type GeocodedLocation = Coordinates & {
+  countryCode?: string;
+};
+
+export type PlaceGeometry = {
+  location: Coordinates;
+};
+
+export type GooglePlaceSummary = {
+  formatted_address?: string;
+  name?: string;
+  rating?: number;
+  user_ratings_total?: number;
+  business_status?: string;
+  types?: string[];
+  geometry?: PlaceGeometry;
+  place_id: string;
+};
+
+export type GooglePlaceDetails = {
+  place_id: string;
+  name?: string;
+  formatted_address?: string;
+  formatted_phone_number?: string;
+  website?: string;
+  geometry?: PlaceGeometry;
+  rating?: number;
+  user_ratings_total?: number;
+  business_status?: string;
+  types?: string[];
+  opening_hours?: {
+    weekday_text?: string[];
+  };
+  editorial_summary?: {
+    overview?: string;
+  };
+  reviews?: Array<{
+    author_name?: string;
+    text?: string;
+    rating?: number;
+  }>;
+};
+
+export type PlacesFixture = {
+  locations?: Record<string, GeocodedLocation>;
+  defaultLocation?: GeocodedLocation;
+  pageSize?: number;
+  places: GooglePlaceDetails[];
+};
+
+export type EnrichedBusiness = GooglePlaceDetails & {
+  googleMapsUrl: string;
+  distanceText?: string;
+  websiteAudit?: WebsiteAudit;
+  insights?: ReviewInsights;
+  score?: LeadScore;
+};
+
+export type PlacesPage = {
+  results: GooglePlaceSummary[];
+  nextPageToken?: string;
+};
+
+export type TextSearchParams = {
+  query: string;
+  location: Coordinates;
+  radius: number;
+  pageToken?: string;
+};
+
+export type PlacesProviderName = "google" | "overpass" | "fixture";
+
+export type PlacesProvider = {
+  name: PlacesProviderName;
+  geocode: (address: string) => Promise<GeocodedLocation>;
+  searchText: (params: TextSearchParams) => Promise<PlacesPage>;
+  getDetails: (placeId: string) => Promise<GooglePlaceDetails | null>;
+  buildMapsUrl: (placeId: string) => string;
+};
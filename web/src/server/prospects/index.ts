@@ -0,0 +1,16 @@
+export {
+  pitchRequestSchema,
+  regeneratePitch,
+  type PitchRequest,
+} from "./regenerate";
+export {
+  deleteProspect,
+  getProspect,
+  listProspects,
+  listSeenPlaceIds,
+  recordPitchVersion,
+  updateProspect,
+  upsertProspects,
+} from "./store";
+export { PROSPECT_STATUSES } from "./types";
+export type * from "./types";
@@ -0,0 +1,129 @@
+import { z } from "zod";
+
+import { DEFAULT_LOCALE, getMessages, type Locale } from "@/i18n";
+import type { WorkspaceScope } from "@/server/auth";
+import {
+  enrichedBusinessSchema,
+  type EnrichedBusiness,
+} from "@/server/places";
+import {
+  buildTemplatePitch,
+  createPitchGenerator,
+  OUTREACH_CHANNELS,
+  PITCH_LANGUAGES,
+  pitchSchema,
+  type OutreachChannel,
+  type PitchOptions,
+} from "@/server/pitch";
+import { analyzeReviews } from "@/server/reviews";
+import { loadPitchSettings } from "@/server/settings";
+import { createUsageMeter } from "@/server/usage";
+
+import { recordPitchVersion } from "./store";
+import type { PitchRegeneration, Prospect } from "./types";
+
+// A stored prospect (placeId) or a business sent as is, e.g. from a search
+// whose results were never saved.
+export const pitchRequestSchema = z
+  .object({
+    placeId: z.string().min(1).optional(),
+    business: enrichedBusinessSchema.optional(),
+    query: z.string().trim().min(2).optional(),
+    vibe: z.string().max(280).optional(),
+    tone: z.string().max(120).optional(),
+    language: z.enum(PITCH_LANGUAGES).optional(),
+    channels: z.array(z.enum(OUTREACH_CHANNELS)).max(4).optional(),
+    promptTemplateId: z.string().min(1).optional(),
+    promptTemplateVersion: z.number().int().min(1).optional(),
+    instructions: z.string().trim().min(1).max(280).optional(),
+    previous: pitchSchema.omit({ placeId: true }).optional(),
+  })
+  .superRefine((body, ctx) => {
+    if (!body.placeId && !body.business) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["placeId"],
+        message: "Indique un placeId ou le commerce à traiter.",
+      });
+    }
+  });
+
+export type PitchRequest = z.infer<typeof pitchRequestSchema>;
+
+// Goes straight to the generator: a reworded pitch must not replace the one
+// cached for the search.
+export async function regeneratePitch(
+  supplied: EnrichedBusiness,
+  request: PitchRequest,
+  {
+    clientId,
+    prospect,
+    scope,
+    locale = DEFAULT_LOCALE,
+  }: {
+    clientId: string;
+    prospect: Prospect | null;
+    scope: WorkspaceScope;
+    locale?: Locale;
+  },
+): Promise<PitchRegeneration> {
+  // Businesses sent by the client or saved before insights existed.
+  const business = supplied.insights
+    ? supplied
+    : { ...supplied, insights: analyzeReviews(supplied.reviews) };
+  const { agency, template } = await loadPitchSettings(
+    scope.workspaceId,
+    request.promptTemplateId,
+    request.promptTemplateVersion,
+  );
+  const previous = request.previous ?? prospect?.pitch ?? undefined;
+  const query =
+    request.query ??
+    prospect?.lastSearch.query ??
+    business.types?.[0] ??
+    "commerce";
+  const options: PitchOptions = {
+    query,
+    vibe: request.vibe,
+    tone: request.tone,
+    language: request.language,
+    channels:
+      request.channels ??
+      (Object.keys(previous?.channels ?? {}) as OutreachChannel[]),
+    agency,
+    template,
+    previous,
+    instructions: request.instructions,
+    locale,
+  };
+
+  const usage = createUsageMeter(clientId, scope);
+  const generator = usage.withPitch(createPitchGenerator());
+  const { pitches, errors } = await generator
+    .generate([business], options)
+    .finally(() =>
+      usage.flush({
+        query,
+        location:
+          prospect?.lastSearch.location ?? business.formatted_address ?? "",
+      }),
+    );
+
+  const generated = pitches.find((item) => item.placeId === business.place_id);
+  const result = generated
+    ? { pitch: generated, pitchGenerator: generator.name, pitchError: null }
+    : {
+        pitch: buildTemplatePitch(business, options),
+        pitchGenerator: "template" as const,
+        pitchError:
+          errors[business.place_id] ?? getMessages(locale).searchRun.noPitch,
+      };
+
+  const saved = prospect
+    ? await recordPitchVersion(scope, prospect.placeId, result.pitch, {
+        source: result.pitchGenerator,
+        instructions: request.instructions,
+      })
+    : null;
+  return { ...result, history: saved?.pitchHistory ?? null };
+}
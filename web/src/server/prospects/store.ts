@@ -0,0 +1,193 @@
+import { randomUUID } from "node:crypto";
+
+import type { Actor, WorkspaceScope } from "@/server/auth";
+import type { EnrichedBusiness } from "@/server/places";
+import type { GroqPitch, PitchGeneratorName } from "@/server/pitch";
+import { createWorkspaceFileStore, getOwn } from "@/server/storage";
+
+import type {
+  PitchVersionSource,
+  Prospect,
+  ProspectStatus,
+  ProspectUpdate,
+} from "./types";
+
+const MAX_PITCH_VERSIONS = 20;
+
+type ProspectsFile = {
+  prospects: Record<string, Prospect>;
+};
+
+const storeFor = createWorkspaceFileStore<ProspectsFile>(
+  "prospects.json",
+  () => ({ prospects: {} }),
+);
+
+function pushPitchVersion(
+  prospect: Prospect,
+  pitch: GroqPitch,
+  version: {
+    source: PitchVersionSource;
+    instructions?: string;
+    by?: Actor;
+    at: string;
+  },
+) {
+  prospect.pitch = pitch;
+  if (version.source !== "edit") {
+    prospect.pitchGenerator = version.source;
+  }
+  // Cached pitches come back unchanged on every search of the same area.
+  const last = prospect.pitchHistory?.at(-1);
+  if (last && JSON.stringify(last.pitch) === JSON.stringify(pitch)) {
+    return;
+  }
+  prospect.pitchHistory = [
+    ...(prospect.pitchHistory ?? []),
+    {
+      id: randomUUID(),
+      pitch,
+      source: version.source,
+      instructions: version.instructions,
+      by: version.by,
+      createdAt: version.at,
+    },
+  ].slice(-MAX_PITCH_VERSIONS);
+}
+
+export async function listProspects(
+  workspaceId: string,
+  filter: { status?: ProspectStatus } = {},
+) {
+  const { prospects } = await storeFor(workspaceId).read();
+  return Object.values(prospects)
+    .filter((prospect) => !filter.status || prospect.status === filter.status)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getProspect(workspaceId: string, placeId: string) {
+  const { prospects } = await storeFor(workspaceId).read();
+  return getOwn(prospects, placeId) ?? null;
+}
+
+export async function listSeenPlaceIds(workspaceId: string) {
+  const { prospects } = await storeFor(workspaceId).read();
+  return new Set(Object.keys(prospects));
+}
+
+export async function upsertProspects(
+  { workspaceId, actor }: WorkspaceScope,
+  businesses: Array<
+    EnrichedBusiness & {
+      pitch: GroqPitch | null;
+      pitchGenerator?: PitchGeneratorName;
+    }
+  >,
+  search: { query: string; location: string },
+) {
+  const now = new Date().toISOString();
+  const lastSearch = { ...search, by: actor, executedAt: now };
+
+  return storeFor(workspaceId).update((data) =>
+    businesses.map(({ pitch, pitchGenerator, ...business }) => {
+      const existing = getOwn(data.prospects, business.place_id);
+      const prospect: Prospect = existing
+        ? {
+            ...existing,
+            business,
+            lastSearch,
+            updatedAt: now,
+          }
+        : {
+            placeId: business.place_id,
+            business,
+            pitch: null,
+            status: "nouveau",
+            notes: [],
+            history: [{ status: "nouveau", changedAt: now, by: actor }],
+            lastSearch,
+            createdAt: now,
+            updatedAt: now,
+          };
+      if (pitch) {
+        pushPitchVersion(prospect, pitch, {
+          source: pitchGenerator ?? "template",
+          by: actor,
+          at: now,
+        });
+      }
+      data.prospects[business.place_id] = prospect;
+      return prospect;
+    }),
+  );
+}
+
+export async function updateProspect(
+  { workspaceId, actor }: WorkspaceScope,
+  placeId: string,
+  update: ProspectUpdate,
+) {
+  const now = new Date().toISOString();
+
+  return storeFor(workspaceId).update((data) => {
+    const prospect = getOwn(data.prospects, placeId);
+    if (!prospect) {
+      return null;
+    }
+
+    if (update.status && update.status !== prospect.status) {
+      prospect.status = update.status;
+      prospect.history.push({
+        status: update.status,
+        changedAt: now,
+        by: actor,
+      });
+    }
+    if (update.note) {
+      prospect.notes.push({
+        id: randomUUID(),
+        text: update.note,
+        by: actor,
+        createdAt: now,
+      });
+    }
+    if (update.pitch) {
+      pushPitchVersion(
+        prospect,
+        { ...update.pitch, placeId },
+        { source: "edit", by: actor, at: now },
+      );
+    }
+    prospect.updatedAt = now;
+    return prospect;
+  });
+}
+
+export async function recordPitchVersion(
+  { workspaceId, actor }: WorkspaceScope,
+  placeId: string,
+  pitch: GroqPitch,
+  version: { source: PitchVersionSource; instructions?: string },
+) {
+  const now = new Date().toISOString();
+
+  return storeFor(workspaceId).update((data) => {
+    const prospect = getOwn(data.prospects, placeId);
+    if (!prospect) {
+      return null;
+    }
+    pushPitchVersion(prospect, pitch, { ...version, by: actor, at: now });
+    prospect.updatedAt = now;
+    return prospect;
+  });
+}
+
+export async function deleteProspect(workspaceId: string, placeId: string) {
+  return storeFor(workspaceId).update((data) => {
+    if (!getOwn(data.prospects, placeId)) {
+      return false;
+    }
+    delete data.prospects[placeId];
+    return true;
+  });
+}
@@ -0,0 +1,74 @@
+import type { Actor } from "@/server/auth";
+import type { EnrichedBusiness } from "@/server/places";
+import type { GroqPitch, PitchGeneratorName } from "@/server/pitch";
+
+export const PROSPECT_STATUSES = [
+  "nouveau",
+  "contacte",
+  "relance",
+  "rdv",
+  "signe",
+  "perdu",
+] as const;
+
+export type ProspectStatus = (typeof PROSPECT_STATUSES)[number];
+
+// `by` is missing on records saved before accounts existed.
+export type ProspectNote = {
+  id: string;
+  text: string;
+  by?: Actor;
+  createdAt: string;
+};
+
+export type ProspectStatusChange = {
+  status: ProspectStatus;
+  changedAt: string;
+  by?: Actor;
+};
+
+export type PitchVersionSource = PitchGeneratorName | "edit";
+
+export type PitchVersion = {
+  id: string;
+  pitch: GroqPitch;
+  source: PitchVersionSource;
+  instructions?: string;
+  by?: Actor;
+  createdAt: string;
+};
+
+export type Prospect = {
+  placeId: string;
+  business: EnrichedBusiness;
+  pitch: GroqPitch | null;
+  pitchGenerator?: PitchGeneratorName;
+  // Oldest first, the last entry is the current pitch. Missing on prospects
+  // saved before versions were kept.
+  pitchHistory?: PitchVersion[];
+  status: ProspectStatus;
+  notes: ProspectNote[];
+  history: ProspectStatusChange[];
+  lastSearch: {
+    query: string;
+    location: string;
+    by?: Actor;
+    executedAt: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PitchRegeneration = {
+  pitch: GroqPitch;
+  pitchGenerator: PitchGeneratorName;
+  pitchError: string | null;
+  // Null when the business is not a saved prospect.
+  history: PitchVersion[] | null;
+};
+
+export type ProspectUpdate = {
+  status?: ProspectStatus;
+  note?: string;
+  pitch?: Omit<GroqPitch, "placeId">;
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+
+import { analyzeReviews } from "./analyze";
+
+const review = (rating: number | undefined, text?: string) => ({
+  author_name: "Client",
+  rating,
+  text,
+});
+
+describe("analyzeReviews", () => {
+  it("skips listings without usable reviews", () => {
+    expect(analyzeReviews()).toBeUndefined();
+    expect(analyzeReviews([review(undefined, "  ")])).toBeUndefined();
+  });
+
+  it("splits praise and complaints within one review", () => {
+    const insights = analyzeReviews([
+      review(
+        5,
+        "Cuisine excellente et accueil chaleureux, mais impossible de réserver en ligne.",
+      ),
+    ]);
+    expect(insights).toMatchObject({
+      analyzed: 1,
+      score: 73,
+      sentiment: "positive",
+    });
+    expect(insights?.praised.map((item) => item.theme)).toEqual([
+      "service",
+      "quality",
+    ]);
+    expect(insights?.complaints).toEqual([
+      {
+        theme: "booking",
+        message: "Difficile de réserver",
+        mentions: 1,
+        quote: "impossible de réserver en ligne",
+      },
+      {
+        theme: "online",
+        message: "Informations en ligne manquantes",
+        mentions: 1,
+        quote: "impossible de réserver en ligne",
+      },
+    ]);
+  });
+
+  it("reads negations", () => {
+    const insights = analyzeReviews([review(undefined, "Pas cher du tout")]);
+    expect(insights?.themes).toEqual([
+      { theme: "price", positive: 1, negative: 0 },
+    ]);
+    const unfriendly = analyzeReviews([
+      review(undefined, "Service pas agréable"),
+    ]);
+    expect(unfriendly?.complaints[0]).toMatchObject({
+      theme: "service",
+      mentions: 1,
+    });
+    expect(unfriendly?.sentiment).toBe("negative");
+  });
+
+  it("lets the stars decide for neutral clauses", () => {
+    const insights = analyzeReviews([review(1, "Une heure d'attente.")]);
+    expect(insights).toMatchObject({ score: -60, sentiment: "negative" });
+    expect(insights?.complaints.map((item) => item.theme)).toEqual(["wait"]);
+  });
+
+  it("averages mixed reviews and keeps the shortest quote", () => {
+    const insights = analyzeReviews([
+      review(5, "Super accueil"),
+      review(2, "Attente beaucoup trop longue et décevante"),
+      review(1, "Attente horrible"),
+    ]);
+    expect(insights?.analyzed).toBe(3);
+    expect(insights?.sentiment).toBe("mixed");
+    expect(insights?.complaints).toEqual([
+      {
+        theme: "wait",
+        message: "Attente jugée trop longue",
+        mentions: 2,
+        quote: "Attente horrible",
+      },
+    ]);
+  });
+
+  it("truncates long quotes", () => {
+    const text = `Impossible de joindre le restaurant par téléphone ${"vraiment ".repeat(20)}`;
+    const [complaint] = analyzeReviews([review(2, text)])?.complaints ?? [];
+    expect(complaint.theme).toBe("phone");
+    expect(complaint.quote).toHaveLength(140);
+    expect(complaint.quote?.endsWith("…")).toBe(true);
+  });
+});
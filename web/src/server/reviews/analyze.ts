@@ -0,0 +1,157 @@
+import type { GooglePlaceDetails } from "@/server/places";
+import { normalizeText } from "@/server/text";
+
+import {
+  COMPLAINT_MESSAGES,
+  NEGATIONS,
+  NEGATIVE_WORDS,
+  POSITIVE_WORDS,
+  PRAISE_MESSAGES,
+  THEME_WORDS,
+} from "./lexicon";
+import {
+  REVIEW_THEMES,
+  type ReviewInsights,
+  type ReviewTheme,
+  type ReviewThemeCount,
+} from "./types";
+
+type Review = NonNullable<GooglePlaceDetails["reviews"]>[number];
+
+const SENTIMENT_THRESHOLD = 25;
+// Share of the star rating in a review's sentiment, the rest is the text.
+const STAR_WEIGHT = 0.6;
+const MAX_QUOTE_LENGTH = 140;
+
+function matchesWord(word: string, entry: string) {
+  return entry.length >= 5 ? word.startsWith(entry) : word === entry;
+}
+
+function tokenize(text: string) {
+  return normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// "Délicieux mais impossible de réserver" praises and complains at once:
+// each clause gets its own polarity.
+function splitClauses(text: string) {
+  return text
+    .split(/[.!?…;,\n]+|\s(?:mais|but|cependant|however|sauf)\s/i)
+    .map((clause) => clause.trim())
+    .filter(Boolean);
+}
+
+function scoreWords(words: string[]) {
+  return words.reduce((score, word, index) => {
+    const negated = words
+      .slice(Math.max(0, index - 2), index)
+      .some((previous) => NEGATIONS.has(previous));
+    if (POSITIVE_WORDS.some((entry) => matchesWord(word, entry))) {
+      return score + (negated ? -1 : 1);
+    }
+    if (NEGATIVE_WORDS.some((entry) => matchesWord(word, entry))) {
+      // "pas cher", "jamais déçu": mildly positive.
+      return score + (negated ? 0.5 : -1);
+    }
+    return score;
+  }, 0);
+}
+
+function truncate(text: string) {
+  return text.length > MAX_QUOTE_LENGTH
+    ? `${text.slice(0, MAX_QUOTE_LENGTH - 1).trimEnd()}…`
+    : text;
+}
+
+export function analyzeReviews(
+  reviews: Review[] = [],
+): ReviewInsights | undefined {
+  const analyzed = reviews.filter(
+    (review) => review.text?.trim() || review.rating,
+  );
+  if (!analyzed.length) {
+    return undefined;
+  }
+
+  const counts = new Map<
+    ReviewTheme,
+    ReviewThemeCount & { quote?: string }
+  >();
+  let total = 0;
+  for (const review of analyzed) {
+    const stars = review.rating ? (review.rating - 3) / 2 : 0;
+    let textScore = 0;
+    for (const clause of splitClauses(review.text ?? "")) {
+      const words = tokenize(clause);
+      const score = scoreWords(words);
+      textScore += score;
+      // A neutral clause ("on a réservé la veille") follows the stars.
+      const polarity = Math.sign(score || stars);
+      if (!polarity) {
+        continue;
+      }
+      for (const theme of REVIEW_THEMES) {
+        if (
+          !words.some((word) =>
+            THEME_WORDS[theme].some((entry) => matchesWord(word, entry)),
+          )
+        ) {
+          continue;
+        }
+        const count = counts.get(theme) ?? { theme, positive: 0, negative: 0 };
+        if (polarity > 0) {
+          count.positive += 1;
+        } else {
+          count.negative += 1;
+          if (!count.quote || clause.length < count.quote.length) {
+            count.quote = clause;
+          }
+        }
+        counts.set(theme, count);
+      }
+    }
+    const text = Math.max(-1, Math.min(1, textScore / 3));
+    total += review.rating
+      ? STAR_WEIGHT * stars + (1 - STAR_WEIGHT) * text
+      : text;
+  }
+
+  const score = Math.round((total / analyzed.length) * 100);
+  const themes = REVIEW_THEMES.flatMap((theme) => {
+    const count = counts.get(theme);
+    return count ? [count] : [];
+  });
+  return {
+    analyzed: analyzed.length,
+    score,
+    sentiment:
+      score >= SENTIMENT_THRESHOLD
+        ? "positive"
+        : score <= -SENTIMENT_THRESHOLD
+          ? "negative"
+          : "mixed",
+    themes: themes.map(({ theme, positive, negative }) => ({
+      theme,
+      positive,
+      negative,
+    })),
+    praised: themes
+      .filter((count) => count.positive > count.negative)
+      .sort((a, b) => b.positive - a.positive)
+      .map(({ theme, positive }) => ({
+        theme,
+        message: PRAISE_MESSAGES[theme],
+        mentions: positive,
+      })),
+    complaints: themes
+      .filter((count) => count.negative > 0)
+      .sort((a, b) => b.negative - a.negative)
+      .map(({ theme, negative, quote }) => ({
+        theme,
+        message: COMPLAINT_MESSAGES[theme],
+        mentions: negative,
+        quote: quote && truncate(quote),
+      })),
+  };
+}
@@ -0,0 +1,3 @@
+export { analyzeReviews } from "./analyze";
+export { REVIEW_THEMES, WEBSITE_FIXABLE_THEMES } from "./types";
+export type * from "./types";
@@ -0,0 +1,210 @@
+import type { ReviewTheme } from "./types";
+
+// Normalized words (lowercase, no accents). Entries of five letters or more
+// also match longer words ("delicieu" for "delicieux", "delicieuse"), shorter
+// ones only match exactly so "bon" does not catch "bonjour".
+export const POSITIVE_WORDS = [
+  "excellent",
+  "super",
+  "parfait",
+  "delicieu",
+  "genial",
+  "top",
+  "bon",
+  "bonne",
+  "bons",
+  "sympa",
+  "chaleureu",
+  "agreable",
+  "recommande",
+  "adore",
+  "accueillant",
+  "rapide",
+  "propre",
+  "frais",
+  "fraiche",
+  "magnifique",
+  "incroyable",
+  "meilleur",
+  "facile",
+  "pratique",
+  "great",
+  "good",
+  "amazing",
+  "delicious",
+  "friendly",
+  "perfect",
+  "love",
+  "loved",
+  "best",
+  "nice",
+  "recommend",
+  "clean",
+  "fast",
+  "fresh",
+  "lovely",
+  "wonderful",
+  "easy",
+];
+
+export const NEGATIVE_WORDS = [
+  "mauvais",
+  "decu",
+  "decevant",
+  "horrible",
+  "nul",
+  "nulle",
+  "cher",
+  "chere",
+  "chers",
+  "sale",
+  "sales",
+  "lent",
+  "lente",
+  "impoli",
+  "desagreable",
+  "difficile",
+  "impossible",
+  "introuvable",
+  "injoignable",
+  "vide",
+  "dommage",
+  "pire",
+  "arnaque",
+  "bad",
+  "rude",
+  "slow",
+  "dirty",
+  "expensive",
+  "overpriced",
+  "disappoint",
+  "awful",
+  "worst",
+  "hard",
+  "difficult",
+];
+
+export const NEGATIONS = new Set([
+  "pas",
+  "jamais",
+  "ne",
+  "n",
+  "sans",
+  "aucun",
+  "aucune",
+  "rien",
+  "not",
+  "no",
+  "never",
+  "t",
+]);
+
+export const THEME_WORDS: Record<ReviewTheme, string[]> = {
+  booking: ["reserv", "booking", "book", "booked"],
+  hours: [
+    "horaire",
+    "ouvert",
+    "ferme",
+    "hours",
+    "opening",
+    "open",
+    "closed",
+  ],
+  phone: [
+    "telephon",
+    "appel",
+    "joindre",
+    "repondeur",
+    "phone",
+    "call",
+    "called",
+    "answer",
+  ],
+  online: ["site", "sites", "internet", "ligne", "website", "online"],
+  menu: ["carte", "menu", "menus", "choix"],
+  wait: [
+    "attente",
+    "attendre",
+    "attendu",
+    "queue",
+    "wait",
+    "waited",
+    "long",
+    "longue",
+  ],
+  price: [
+    "prix",
+    "tarif",
+    "cher",
+    "chere",
+    "chers",
+    "price",
+    "prices",
+    "expensive",
+    "overpriced",
+    "cheap",
+  ],
+  service: [
+    "accueil",
+    "service",
+    "serveu",
+    "personnel",
+    "equipe",
+    "staff",
+    "patron",
+    "vendeu",
+    "friendly",
+    "welcom",
+  ],
+  quality: [
+    "delicieu",
+    "qualite",
+    "gout",
+    "saveur",
+    "produit",
+    "cuisine",
+    "food",
+    "taste",
+    "quality",
+    "delicious",
+  ],
+  ambiance: [
+    "ambiance",
+    "cadre",
+    "decor",
+    "atmosphere",
+    "musique",
+    "terrasse",
+    "cosy",
+    "cozy",
+  ],
+  cleanliness: ["propre", "sale", "sales", "hygiene", "clean", "dirty"],
+};
+
+export const PRAISE_MESSAGES: Record<ReviewTheme, string> = {
+  booking: "Réservation facile",
+  hours: "Horaires pratiques",
+  phone: "Facile à joindre",
+  online: "Informations en ligne appréciées",
+  menu: "Carte appréciée",
+  wait: "Service rapide",
+  price: "Bon rapport qualité-prix",
+  service: "Accueil chaleureux",
+  quality: "Qualité des produits saluée",
+  ambiance: "Ambiance appréciée",
+  cleanliness: "Lieu propre",
+};
+
+export const COMPLAINT_MESSAGES: Record<ReviewTheme, string> = {
+  booking: "Difficile de réserver",
+  hours: "Horaires introuvables ou peu fiables",
+  phone: "Difficile à joindre par téléphone",
+  online: "Informations en ligne manquantes",
+  menu: "Carte difficile à consulter",
+  wait: "Attente jugée trop longue",
+  price: "Prix jugés élevés",
+  service: "Accueil inégal",
+  quality: "Qualité inégale",
+  ambiance: "Cadre à revoir",
+  cleanliness: "Propreté à améliorer",
+};
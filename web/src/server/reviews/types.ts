@@ -0,0 +1,51 @@
+export const REVIEW_THEMES = [
+  "booking",
+  "hours",
+  "phone",
+  "online",
+  "menu",
+  "wait",
+  "price",
+  "service",
+  "quality",
+  "ambiance",
+  "cleanliness",
+] as const;
+
+export type ReviewTheme = (typeof REVIEW_THEMES)[number];
+
+// Complaints a website answers directly: they make the strongest pitch angle.
+export const WEBSITE_FIXABLE_THEMES = [
+  "booking",
+  "hours",
+  "menu",
+  "online",
+  "phone",
+] as const satisfies readonly ReviewTheme[];
+
+export type WebsiteFixableTheme = (typeof WEBSITE_FIXABLE_THEMES)[number];
+
+export type ReviewSentiment = "positive" | "mixed" | "negative";
+
+export type ReviewInsight = {
+  theme: ReviewTheme;
+  message: string;
+  mentions: number;
+  quote?: string;
+};
+
+export type ReviewThemeCount = {
+  theme: ReviewTheme;
+  positive: number;
+  negative: number;
+};
+
+export type ReviewInsights = {
+  analyzed: number;
+  // From -100 (all negative) to 100 (all positive).
+  score: number;
+  sentiment: ReviewSentiment;
+  themes: ReviewThemeCount[];
+  praised: ReviewInsight[];
+  complaints: ReviewInsight[];
+};
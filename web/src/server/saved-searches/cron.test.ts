@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import { nextCronRun, parseCron } from "./cron";
+
+// Local time, like the scheduler.
+const at = (month: number, day: number, hour = 0, minute = 0, year = 2026) =>
+  new Date(year, month - 1, day, hour, minute);
+
+describe("parseCron", () => {
+  it("rejects malformed expressions", () => {
+    for (const expression of [
+      "* * * *",
+      "* * * * * *",
+      "60 * * * *",
+      "* 24 * * *",
+      "* * 0 * *",
+      "5-1 * * * *",
+      "*/0 * * * *",
+      "a * * * *",
+      "1,,2 * * * *",
+    ]) {
+      expect(parseCron(expression), expression).toBeNull();
+    }
+  });
+
+  it("expands lists, ranges and steps", () => {
+    const schedule = parseCron("5/20 9-17/4 1,15 * 1-5");
+    expect([...(schedule?.minutes ?? [])]).toEqual([5, 25, 45]);
+    expect([...(schedule?.hours ?? [])]).toEqual([9, 13, 17]);
+    expect([...(schedule?.days ?? [])]).toEqual([1, 15]);
+    expect(schedule).toMatchObject({ anyDay: false, anyWeekday: false });
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect(parseCron("0 0 * * 7")?.weekdays.has(0)).toBe(true);
+  });
+});
+
+describe("nextCronRun", () => {
+  it("finds the next weekly run", () => {
+    // 18 October 2026 is a Sunday.
+    expect(nextCronRun("0 8 * * 1", at(10, 18, 12))).toEqual(at(10, 19, 8));
+  });
+
+  it("runs strictly after the given time", () => {
+    expect(nextCronRun("30 9 * * *", at(10, 19, 9, 30))).toEqual(
+      at(10, 20, 9, 30),
+    );
+    expect(
+      nextCronRun("*/15 * * * *", new Date(2026, 9, 19, 10, 7, 30)),
+    ).toEqual(at(10, 19, 10, 15));
+  });
+
+  it("matches either the day of month or the weekday", () => {
+    // Wednesday 28 October: Friday 30 comes before 1 November.
+    expect(nextCronRun("0 0 1 * 5", at(10, 28))).toEqual(at(10, 30));
+    expect(nextCronRun("0 0 1 * 5", at(10, 31))).toEqual(at(11, 1));
+  });
+
+  it("crosses months and years", () => {
+    expect(nextCronRun("0 6 1 1 *", at(10, 19))).toEqual(at(1, 1, 6, 0, 2027));
+    expect(nextCronRun("0 0 29 2 *", at(3, 1))).toEqual(at(2, 29, 0, 0, 2028));
+  });
+
+  it("gives up on dates that never come", () => {
+    expect(nextCronRun("0 0 31 2 *", at(10, 19))).toBeNull();
+    expect(nextCronRun("not a cron", at(10, 19))).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+// Standard 5-field cron expressions ("minute hour day month weekday") with
+// `*`, lists, ranges and steps, evaluated in the server's time zone.
+type CronField = { min: number; max: number };
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12 },
+  { min: 0, max: 7 },
+];
+
+// Long enough for "29 February" schedules.
+const SEARCH_HORIZON_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+};
+
+function parseField(text: string, { min, max }: CronField) {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      return null;
+    }
+    const step = match[2] ? Number(match[2]) : 1;
+    const [start, end] =
+      match[1] === "*"
+        ? [min, max]
+        : match[1].includes("-")
+          ? match[1].split("-").map(Number)
+          : [Number(match[1]), match[2] ? max : Number(match[1])];
+    if (start < min || end > max || start > end || step < 1) {
+      return null;
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule | null {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    return null;
+  }
+  const sets = parts.map((part, index) => parseField(part, FIELDS[index]));
+  const [minutes, hours, days, months, weekdays] = sets;
+  if (!minutes || !hours || !days || !months || !weekdays) {
+    return null;
+  }
+  if (weekdays.has(7)) {
+    weekdays.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: parts[2] === "*",
+    anyWeekday: parts[4] === "*",
+  };
+}
+
+// As in cron, a restricted day of month and day of week match either way.
+function matchesDay(schedule: CronSchedule, date: Date) {
+  const day = schedule.days.has(date.getDate());
+  const weekday = schedule.weekdays.has(date.getDay());
+  if (schedule.anyDay) {
+    return weekday;
+  }
+  if (schedule.anyWeekday) {
+    return day;
+  }
+  return day || weekday;
+}
+
+export function nextCronRun(expression: string, after = new Date()) {
+  const schedule = parseCron(expression);
+  if (!schedule) {
+    return null;
+  }
+
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after.getTime() + SEARCH_HORIZON_MS;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import { diffPlaces } from "./diff";
+import type { KnownPlace, ScannedPlace } from "./types";
+
+const before = "2026-10-12T08:00:00.000Z";
+const seenAt = "2026-10-19T08:00:00.000Z";
+
+const place = (placeId: string, hasWebsite: boolean, name?: string) =>
+  ({ placeId, hasWebsite, name }) satisfies ScannedPlace;
+
+describe("diffPlaces", () => {
+  const known: Record<string, KnownPlace> = {
+    kept: { name: "Chez Louise", hasWebsite: false, seenAt: before },
+    closed: { name: "Salon Élégance", hasWebsite: true, seenAt: before },
+    absent: { name: "Café des Arts", hasWebsite: false, seenAt: before },
+  };
+
+  it("alerts on new prospects and removed websites only", () => {
+    const scanned = [
+      place("new", false, "Boulangerie Martin"),
+      place("listed", true, "Brasserie du Canal"),
+      place("kept", false),
+      place("closed", false, "Salon Élégance"),
+    ];
+    const { changes } = diffPlaces(known, scanned, seenAt);
+    expect(changes).toEqual([
+      { kind: "new-prospect", place: scanned[0] },
+      { kind: "website-removed", place: scanned[3] },
+    ]);
+  });
+
+  it("remembers every scanned place and keeps the missing ones", () => {
+    const result = diffPlaces(
+      known,
+      [place("kept", true), place("new", false, "Boulangerie Martin")],
+      seenAt,
+    );
+    expect(result.known).toEqual({
+      kept: { name: "Chez Louise", hasWebsite: true, seenAt },
+      closed: known.closed,
+      absent: known.absent,
+      new: { name: "Boulangerie Martin", hasWebsite: false, seenAt },
+    });
+    expect(known.kept.hasWebsite).toBe(false);
+  });
+
+  it("does not mistake inherited keys for known places", () => {
+    const { changes } = diffPlaces(
+      {},
+      [place("constructor", false), place("toString", false)],
+      seenAt,
+    );
+    expect(changes.map((change) => change.kind)).toEqual([
+      "new-prospect",
+      "new-prospect",
+    ]);
+  });
+});
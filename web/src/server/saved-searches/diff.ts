@@ -0,0 +1,37 @@
+import { getOwn } from "@/server/storage";
+
+import type { AlertKind, KnownPlace, ScannedPlace } from "./types";
+
+export type PlaceChange = {
+  kind: AlertKind;
+  place: ScannedPlace;
+};
+
+// Places missing from a run are kept as they were: pagination and
+// maxResults mean a run rarely scans the whole area.
+export function diffPlaces(
+  known: Record<string, KnownPlace>,
+  scanned: ScannedPlace[],
+  seenAt: string,
+) {
+  const changes: PlaceChange[] = [];
+  const next = { ...known };
+
+  for (const place of scanned) {
+    const previous = getOwn(known, place.placeId);
+    if (!place.hasWebsite) {
+      if (!previous) {
+        changes.push({ kind: "new-prospect", place });
+      } else if (previous.hasWebsite) {
+        changes.push({ kind: "website-removed", place });
+      }
+    }
+    next[place.placeId] = {
+      name: place.name ?? previous?.name,
+      hasWebsite: place.hasWebsite,
+      seenAt,
+    };
+  }
+
+  return { changes, known: next };
+}
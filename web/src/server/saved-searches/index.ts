@@ -0,0 +1,21 @@
+export { runSavedSearch } from "./run";
+export { startScheduler } from "./scheduler";
+export {
+  createSavedSearchSchema,
+  createSavedSearchUpdateSchema,
+  savedSearchSchema,
+  savedSearchUpdateSchema,
+  type SavedSearchInput,
+  type SavedSearchUpdate,
+} from "./schema";
+export {
+  createSavedSearch,
+  deleteSavedSearch,
+  getSavedSearch,
+  listAlerts,
+  listSavedSearches,
+  markAlertsRead,
+  updateSavedSearch,
+} from "./store";
+export type * from "./types";
+export { toSavedSearchView } from "./view";
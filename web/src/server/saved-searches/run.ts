@@ -0,0 +1,86 @@
+import type { Actor } from "@/server/auth";
+import {
+  createSearchDependencies,
+  createSearchState,
+  runSearch,
+  type SearchBusiness,
+  type SearchState,
+} from "@/server/search";
+import { toApiError } from "@/server/upstream";
+import { assertWithinBudget } from "@/server/usage";
+
+import {
+  completeRun,
+  failRun,
+  recordWebhookDelivery,
+  startRun,
+} from "./store";
+import type { SavedSearchTrigger, ScannedPlace } from "./types";
+import { sendAlertWebhook } from "./webhook";
+
+function collectScannedPlaces(
+  businesses: SearchBusiness[],
+  state: SearchState,
+): ScannedPlace[] {
+  return [
+    ...businesses.map((business) => ({
+      placeId: business.place_id,
+      name: business.name,
+      address: business.formatted_address,
+      googleMapsUrl: business.googleMapsUrl,
+      score: business.score?.value,
+      hasWebsite: Boolean(business.website),
+    })),
+    ...(state.websitePlaceIds ?? [])
+      .filter((placeId) => !businesses.some((b) => b.place_id === placeId))
+      .map((placeId) => ({ placeId, hasWebsite: true })),
+  ];
+}
+
+// Failures are recorded on the run: scheduled runs have no caller to report
+// to.
+export async function runSavedSearch(
+  workspaceId: string,
+  searchId: string,
+  trigger: SavedSearchTrigger,
+  by?: Actor,
+) {
+  const started = await startRun(workspaceId, searchId, trigger, by);
+  if (!started) {
+    return;
+  }
+  const { search, runId } = started;
+
+  try {
+    await assertWithinBudget();
+    const state = createSearchState();
+    const deps = createSearchDependencies({
+      scope: { workspaceId, actor: by ?? search.createdBy },
+      refresh: true,
+      clientId: `saved:${searchId}`,
+    });
+    const result = await runSearch(
+      { ...search.request, refresh: true },
+      deps,
+      { state },
+    );
+    const alerts = await completeRun(
+      workspaceId,
+      searchId,
+      runId,
+      collectScannedPlaces(result.businesses, state),
+    );
+
+    if (search.webhookUrl) {
+      for (const alert of alerts) {
+        await recordWebhookDelivery(
+          workspaceId,
+          alert.id,
+          await sendAlertWebhook(search.webhookUrl, alert),
+        );
+      }
+    }
+  } catch (error) {
+    await failRun(workspaceId, searchId, runId, toApiError(error));
+  }
+}
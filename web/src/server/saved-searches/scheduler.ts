@@ -0,0 +1,53 @@
+import { listWorkspaceIds } from "@/server/auth";
+
+import { runSavedSearch } from "./run";
+import { failInterruptedRuns, listSavedSearches } from "./store";
+
+const TICK_MS = 60_000;
+
+let started = false;
+let ticking = false;
+
+// Due searches run one after the other, a minute is the cron resolution.
+async function tick() {
+  if (ticking) {
+    return;
+  }
+  ticking = true;
+  try {
+    const now = new Date().toISOString();
+    for (const workspaceId of await listWorkspaceIds()) {
+      const due = (await listSavedSearches(workspaceId)).filter(
+        (search) =>
+          search.enabled && search.nextRunAt && search.nextRunAt <= now,
+      );
+      for (const search of due) {
+        await runSavedSearch(workspaceId, search.id, "schedule");
+      }
+    }
+  } finally {
+    ticking = false;
+  }
+}
+
+// Called once per server process, from instrumentation.ts.
+export async function startScheduler() {
+  if (started) {
+    return;
+  }
+  started = true;
+  for (const workspaceId of await listWorkspaceIds()) {
+    await failInterruptedRuns(workspaceId, {
+      code: "INTERNAL_ERROR",
+      message: "Exécution interrompue par un redémarrage du serveur.",
+      upstream: null,
+    });
+  }
+  if (process.env.SCHEDULER_ENABLED === "false") {
+    return;
+  }
+
+  const runTick = () => void tick().catch(() => undefined);
+  setInterval(runTick, TICK_MS).unref();
+  runTick();
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import { createScheduleSchema, scheduleSchema } from "./schema";
+
+describe("scheduleSchema", () => {
+  it("accepts schedules at most hourly", () => {
+    for (const expression of ["0 8 * * 1", "15 * * * *", "0 8-18 * * 1-5"]) {
+      expect(scheduleSchema.safeParse(expression).success, expression).toBe(
+        true,
+      );
+    }
+  });
+
+  // Checked without a clock: "0,30 8" used to pass when saved after 8:30.
+  it("rejects several runs in the same hour", () => {
+    for (const expression of ["0,30 8 * * *", "*/30 * * * *", "0-1 9 * * 1"]) {
+      expect(scheduleSchema.safeParse(expression).success, expression).toBe(
+        false,
+      );
+    }
+  });
+
+  it("rejects invalid and never-matching expressions", () => {
+    for (const expression of ["every monday", "0 8 * *", "0 0 31 2 *"]) {
+      expect(scheduleSchema.safeParse(expression).success, expression).toBe(
+        false,
+      );
+    }
+  });
+
+  it("words its errors in the caller's locale", () => {
+    const messages = (locale: "fr" | "en") =>
+      createScheduleSchema(locale)
+        .safeParse("*/30 * * * *")
+        .error?.issues.map((issue) => issue.message);
+    expect(messages("fr")).toEqual([
+      "Une recherche enregistrée tourne au plus une fois par heure : indique une seule minute.",
+    ]);
+    expect(messages("en")).toEqual([
+      "A saved search runs at most once an hour: enter a single minute.",
+    ]);
+  });
+});
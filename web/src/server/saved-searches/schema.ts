@@ -0,0 +1,71 @@
+import { z } from "zod";
+
+import { DEFAULT_LOCALE, getMessages, type Locale } from "@/i18n";
+import { createBodySchema } from "@/server/search";
+
+import { nextCronRun, parseCron } from "./cron";
+
+// Re-runs always scan every place and bypass the cache, so these options
+// are not saved.
+export function createSavedSearchRequestSchema(
+  locale: Locale = DEFAULT_LOCALE,
+) {
+  return createBodySchema(locale).omit({
+    excludeSeen: true,
+    excludePlaceIds: true,
+    refresh: true,
+  });
+}
+
+export function createScheduleSchema(locale: Locale = DEFAULT_LOCALE) {
+  const t = getMessages(locale).validation;
+  return z
+    .string()
+    .trim()
+    .superRefine((expression, ctx) => {
+      const schedule = parseCron(expression);
+      if (!schedule || !nextCronRun(expression)) {
+        ctx.addIssue({ code: "custom", message: t.cronInvalid });
+        return;
+      }
+      // A single minute keeps runs at least an hour apart; two of them share
+      // an hour every day the schedule runs, whenever it is saved.
+      if (schedule.minutes.size > 1) {
+        ctx.addIssue({ code: "custom", message: t.cronTooFrequent });
+      }
+    });
+}
+
+export function createSavedSearchSchema(locale: Locale = DEFAULT_LOCALE) {
+  const t = getMessages(locale).validation;
+  return z.object({
+    name: z.string().trim().min(2, t.nameTooShort).max(80),
+    request: createSavedSearchRequestSchema(locale),
+    schedule: createScheduleSchema(locale),
+    enabled: z.boolean().default(true),
+    webhookUrl: z.string().trim().url(t.webhookUrlInvalid).optional(),
+  });
+}
+
+export function createSavedSearchUpdateSchema(locale: Locale = DEFAULT_LOCALE) {
+  const t = getMessages(locale).validation;
+  return createSavedSearchSchema(locale)
+    .partial()
+    .extend({
+      // null removes the webhook.
+      webhookUrl: z
+        .string()
+        .trim()
+        .url(t.webhookUrlInvalid)
+        .nullable()
+        .optional(),
+    });
+}
+
+export const savedSearchRequestSchema = createSavedSearchRequestSchema();
+export const scheduleSchema = createScheduleSchema();
+export const savedSearchSchema = createSavedSearchSchema();
+export const savedSearchUpdateSchema = createSavedSearchUpdateSchema();
+
+export type SavedSearchInput = z.infer<typeof savedSearchSchema>;
+export type SavedSearchUpdate = z.infer<typeof savedSearchUpdateSchema>;
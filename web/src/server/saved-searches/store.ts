@@ -0,0 +1,259 @@
+import { randomUUID } from "node:crypto";
+
+import type { Actor, WorkspaceScope } from "@/server/auth";
+import { createWorkspaceFileStore, getOwn } from "@/server/storage";
+import type { ApiError } from "@/server/upstream";
+
+import { nextCronRun } from "./cron";
+import { diffPlaces } from "./diff";
+import type { SavedSearchInput, SavedSearchUpdate } from "./schema";
+import type {
+  SavedSearch,
+  SavedSearchTrigger,
+  ScannedPlace,
+  SearchAlert,
+  WebhookDelivery,
+} from "./types";
+
+const MAX_RUNS = 10;
+const MAX_ALERTS = 500;
+
+type SavedSearchesFile = {
+  searches: Record<string, SavedSearch>;
+  alerts: SearchAlert[];
+};
+
+const storeFor = createWorkspaceFileStore<SavedSearchesFile>(
+  "saved-searches.json",
+  () => ({ searches: {}, alerts: [] }),
+);
+
+function scheduleNextRun(search: SavedSearch, from = new Date()) {
+  search.nextRunAt = search.enabled
+    ? (nextCronRun(search.schedule, from)?.toISOString() ?? null)
+    : null;
+}
+
+export async function createSavedSearch(
+  { workspaceId, actor }: WorkspaceScope,
+  input: SavedSearchInput,
+) {
+  const now = new Date().toISOString();
+  const search: SavedSearch = {
+    ...input,
+    id: randomUUID(),
+    nextRunAt: null,
+    runs: [],
+    known: {},
+    createdBy: actor,
+    createdAt: now,
+    updatedAt: now,
+  };
+  scheduleNextRun(search);
+
+  await storeFor(workspaceId).update((data) => {
+    data.searches[search.id] = search;
+  });
+  return search;
+}
+
+export async function listSavedSearches(workspaceId: string) {
+  const { searches } = await storeFor(workspaceId).read();
+  return Object.values(searches).sort((a, b) =>
+    a.name.localeCompare(b.name, "fr"),
+  );
+}
+
+export async function getSavedSearch(workspaceId: string, searchId: string) {
+  const { searches } = await storeFor(workspaceId).read();
+  return getOwn(searches, searchId) ?? null;
+}
+
+export async function updateSavedSearch(
+  workspaceId: string,
+  searchId: string,
+  { webhookUrl, ...update }: SavedSearchUpdate,
+) {
+  return storeFor(workspaceId).update((data) => {
+    const search = getOwn(data.searches, searchId);
+    if (!search) {
+      return null;
+    }
+    // Another query or area: what was seen before says nothing about it.
+    if (
+      update.request &&
+      JSON.stringify(update.request) !== JSON.stringify(search.request)
+    ) {
+      search.known = {};
+    }
+    Object.assign(search, update, { updatedAt: new Date().toISOString() });
+    if (webhookUrl === null) {
+      delete search.webhookUrl;
+    } else if (webhookUrl !== undefined) {
+      search.webhookUrl = webhookUrl;
+    }
+    scheduleNextRun(search);
+    return search;
+  });
+}
+
+export async function deleteSavedSearch(
+  workspaceId: string,
+  searchId: string,
+) {
+  return storeFor(workspaceId).update((data) => {
+    if (!getOwn(data.searches, searchId)) {
+      return false;
+    }
+    delete data.searches[searchId];
+    return true;
+  });
+}
+
+export async function startRun(
+  workspaceId: string,
+  searchId: string,
+  trigger: SavedSearchTrigger,
+  by?: Actor,
+) {
+  return storeFor(workspaceId).update((data) => {
+    const search = getOwn(data.searches, searchId);
+    // One run at a time per search, whether scheduled or started by hand.
+    if (!search || search.runs.some((item) => item.status === "running")) {
+      return null;
+    }
+    const run = {
+      id: randomUUID(),
+      trigger,
+      by,
+      status: "running" as const,
+      startedAt: new Date().toISOString(),
+    };
+    search.runs = [run, ...search.runs].slice(0, MAX_RUNS);
+    scheduleNextRun(search);
+    return { search, runId: run.id };
+  });
+}
+
+export async function completeRun(
+  workspaceId: string,
+  searchId: string,
+  runId: string,
+  scanned: ScannedPlace[],
+) {
+  return storeFor(workspaceId).update((data) => {
+    const search = getOwn(data.searches, searchId);
+    const run = search?.runs.find((item) => item.id === runId);
+    if (!search || !run) {
+      return [];
+    }
+
+    const now = new Date().toISOString();
+    const baseline = !search.runs.some((item) => item.status === "completed");
+    const { changes, known } = diffPlaces(search.known, scanned, now);
+    const alerts: SearchAlert[] = baseline
+      ? []
+      : changes.map(({ kind, place }) => ({
+          id: randomUUID(),
+          kind,
+          savedSearchId: search.id,
+          savedSearchName: search.name,
+          placeId: place.placeId,
+          name: place.name,
+          address: place.address,
+          googleMapsUrl: place.googleMapsUrl,
+          score: place.score,
+          createdAt: now,
+        }));
+
+    search.known = known;
+    Object.assign(run, {
+      status: "completed",
+      finishedAt: now,
+      placesScanned: scanned.length,
+      alerts: alerts.length,
+      baseline,
+    });
+    data.alerts = [...alerts, ...data.alerts].slice(0, MAX_ALERTS);
+    return alerts;
+  });
+}
+
+export async function failRun(
+  workspaceId: string,
+  searchId: string,
+  runId: string,
+  error: ApiError,
+) {
+  await storeFor(workspaceId).update((data) => {
+    const run = getOwn(data.searches, searchId)?.runs.find(
+      (item) => item.id === runId,
+    );
+    if (run) {
+      Object.assign(run, {
+        status: "failed",
+        finishedAt: new Date().toISOString(),
+        error,
+      });
+    }
+  });
+}
+
+// Runs still marked as running when the server starts were cut short.
+export async function failInterruptedRuns(
+  workspaceId: string,
+  error: ApiError,
+) {
+  await storeFor(workspaceId).update((data) => {
+    for (const search of Object.values(data.searches)) {
+      for (const run of search.runs) {
+        if (run.status === "running") {
+          Object.assign(run, {
+            status: "failed",
+            finishedAt: new Date().toISOString(),
+            error,
+          });
+        }
+      }
+    }
+  });
+}
+
+export async function listAlerts(
+  workspaceId: string,
+  { unreadOnly = false } = {},
+) {
+  const { alerts } = await storeFor(workspaceId).read();
+  return unreadOnly ? alerts.filter((alert) => !alert.readAt) : alerts;
+}
+
+// Without ids, marks every alert as read.
+export async function markAlertsRead(
+  workspaceId: string,
+  alertIds?: string[],
+) {
+  return storeFor(workspaceId).update((data) => {
+    const now = new Date().toISOString();
+    let marked = 0;
+    for (const alert of data.alerts) {
+      if (!alert.readAt && (!alertIds || alertIds.includes(alert.id))) {
+        alert.readAt = now;
+        marked += 1;
+      }
+    }
+    return marked;
+  });
+}
+
+export async function recordWebhookDelivery(
+  workspaceId: string,
+  alertId: string,
+  delivery: WebhookDelivery,
+) {
+  await storeFor(workspaceId).update((data) => {
+    const alert = data.alerts.find((item) => item.id === alertId);
+    if (alert) {
+      alert.webhook = delivery;
+    }
+  });
+}
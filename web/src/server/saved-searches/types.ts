@@ -0,0 +1,73 @@
+import type { Actor } from "@/server/auth";
+import type { ApiError } from "@/server/upstream";
+
+import type { SavedSearchInput } from "./schema";
+
+export type AlertKind = "new-prospect" | "website-removed";
+
+export type SavedSearchTrigger = "schedule" | "manual";
+
+export type SavedSearchRun = {
+  id: string;
+  trigger: SavedSearchTrigger;
+  // Who started a manual run.
+  by?: Actor;
+  status: "running" | "completed" | "failed";
+  startedAt: string;
+  finishedAt?: string;
+  placesScanned?: number;
+  alerts?: number;
+  // The first run only records what exists, it raises no alert.
+  baseline?: boolean;
+  error?: ApiError;
+};
+
+// What the last run that scanned a place saw, to diff the next runs by
+// place_id.
+export type KnownPlace = {
+  name?: string;
+  hasWebsite: boolean;
+  seenAt: string;
+};
+
+export type SavedSearch = SavedSearchInput & {
+  id: string;
+  nextRunAt: string | null;
+  runs: SavedSearchRun[];
+  known: Record<string, KnownPlace>;
+  // Scheduled runs are credited to them. Missing on searches saved before
+  // accounts existed.
+  createdBy?: Actor;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WebhookDelivery = {
+  status: "sent" | "failed";
+  at: string;
+  error?: string;
+};
+
+export type SearchAlert = {
+  id: string;
+  kind: AlertKind;
+  savedSearchId: string;
+  savedSearchName: string;
+  placeId: string;
+  name?: string;
+  address?: string;
+  googleMapsUrl?: string;
+  score?: number;
+  createdAt: string;
+  readAt?: string;
+  webhook?: WebhookDelivery;
+};
+
+export type ScannedPlace = {
+  placeId: string;
+  name?: string;
+  address?: string;
+  googleMapsUrl?: string;
+  score?: number;
+  hasWebsite: boolean;
+};
@@ -0,0 +1,10 @@
+import type { SavedSearch } from "./types";
+
+// The snapshot of known places only matters to the diff.
+export function toSavedSearchView({ known, ...search }: SavedSearch) {
+  return {
+    ...search,
+    knownPlaces: Object.keys(known).length,
+    running: search.runs.some((run) => run.status === "running"),
+  };
+}
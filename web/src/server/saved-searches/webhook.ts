@@ -0,0 +1,30 @@
+import { requestText, toApiError } from "@/server/upstream";
+
+import type { SearchAlert, WebhookDelivery } from "./types";
+
+const WEBHOOK_TIMEOUT_MS = 5_000;
+
+export async function sendAlertWebhook(
+  url: string,
+  alert: SearchAlert,
+): Promise<WebhookDelivery> {
+  try {
+    await requestText(url, {
+      upstream: "Webhook",
+      init: {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event: "saved-search.alert", alert }),
+      },
+      timeoutMs: WEBHOOK_TIMEOUT_MS,
+      retries: 1,
+    });
+    return { status: "sent", at: new Date().toISOString() };
+  } catch (error) {
+    return {
+      status: "failed",
+      at: new Date().toISOString(),
+      error: toApiError(error).message,
+    };
+  }
+}
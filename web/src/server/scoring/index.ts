@@ -0,0 +1,2 @@
+export { compareByScore, scoreBusiness } from "./score";
+export type * from "./types";
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+
+import type { EnrichedBusiness } from "@/server/places";
+
+import { compareByScore, scoreBusiness } from "./score";
+
+const WEEK = [
+  "lundi: 09:00–18:00",
+  "mardi: 09:00–18:00",
+  "mercredi: 09:00–18:00",
+  "jeudi: 09:00–18:00",
+  "vendredi: 09:00–18:00",
+  "samedi: 10:00–16:00",
+  "dimanche: 10:00–13:00",
+];
+
+const business = (
+  fields: Partial<EnrichedBusiness> = {},
+): EnrichedBusiness => ({
+  place_id: "p1",
+  name: "Chez Louise",
+  googleMapsUrl: "https://maps.example/p1",
+  ...fields,
+});
+
+const factor = (biz: EnrichedBusiness, key: string) =>
+  scoreBusiness(biz).factors.find((item) => item.key === key);
+
+describe("scoreBusiness", () => {
+  it("gives full marks to a busy, well-rated shop without a website", () => {
+    const score = scoreBusiness(
+      business({
+        rating: 4.5,
+        user_ratings_total: 499,
+        business_status: "OPERATIONAL",
+        types: ["restaurant", "food"],
+        opening_hours: { weekday_text: WEEK },
+        formatted_phone_number: "01 23 45 67 89",
+      }),
+    );
+    expect(score.value).toBe(100);
+    expect(score.factors.map((item) => [item.key, item.points])).toEqual([
+      ["rating", 25],
+      ["reviews", 20],
+      ["status", 0],
+      ["category", 10],
+      ["openingHours", 10],
+      ["phone", 10],
+      ["website", 25],
+    ]);
+  });
+
+  it("scores an empty listing on its missing website only", () => {
+    const score = scoreBusiness(business());
+    expect(score.value).toBe(30);
+    expect(factor(business(), "rating")?.detail).toBe("Aucune note publique");
+    expect(factor(business(), "status")?.detail).toBe("Statut inconnu");
+  });
+
+  it("clamps the rating and the total", () => {
+    expect(factor(business({ rating: 2.5 }), "rating")?.points).toBe(0);
+    const closed = scoreBusiness(
+      business({ rating: 4.8, business_status: "CLOSED_PERMANENTLY" }),
+    );
+    expect(closed.value).toBe(0);
+    const paused = business({ business_status: "CLOSED_TEMPORARILY" });
+    expect(factor(paused, "status")?.points).toBe(-30);
+  });
+
+  it("counts open days and free-form opening hours", () => {
+    const week = WEEK.slice(0, 5).concat(["samedi: Fermé", "Sunday: Closed"]);
+    const weekly = factor(
+      business({ opening_hours: { weekday_text: week } }),
+      "openingHours",
+    );
+    expect(weekly).toMatchObject({ points: 7, detail: "Ouvert 5 j/7" });
+    const freeForm = factor(
+      business({ opening_hours: { weekday_text: ["Mo-Fr 09:00-18:00"] } }),
+      "openingHours",
+    );
+    expect(freeForm?.points).toBe(5);
+  });
+
+  it("prefers high-value categories", () => {
+    expect(factor(business({ types: ["store"] }), "category")?.points).toBe(5);
+    expect(
+      factor(business({ types: ["store", "florist"] }), "category"),
+    ).toMatchObject({
+      points: 10,
+      detail: "florist : fort besoin de visibilité",
+    });
+  });
+
+  it("scores the website on its strongest finding", () => {
+    const checkedAt = "2026-03-01T10:00:00.000Z";
+    const audited = factor(
+      business({
+        website: "http://chez-louise.example",
+        websiteAudit: {
+          url: "http://chez-louise.example",
+          findings: [
+            { code: "no-https", message: "Pas de HTTPS" },
+            { code: "not-mobile-friendly", message: "Pas de viewport" },
+            { code: "no-meta-description", message: "Pas de description" },
+          ],
+          checkedAt,
+        },
+      }),
+      "website",
+    );
+    expect(audited).toMatchObject({ points: 15, detail: "Pas de viewport" });
+
+    const clean = factor(
+      business({
+        website: "https://chez-louise.example",
+        websiteAudit: {
+          url: "https://chez-louise.example",
+          findings: [],
+          checkedAt,
+        },
+      }),
+      "website",
+    );
+    expect(clean).toMatchObject({
+      points: 0,
+      detail: "Site sans défaut détecté",
+    });
+
+    const unaudited = business({ website: "https://chez-louise.example" });
+    expect(factor(unaudited, "website")?.points).toBe(0);
+  });
+});
+
+describe("compareByScore", () => {
+  it("sorts the best leads first and unscored ones last", () => {
+    const leads = [
+      { name: "a", score: { value: 40, factors: [] } },
+      { name: "b" },
+      { name: "c", score: { value: 80, factors: [] } },
+    ];
+    expect(leads.sort(compareByScore).map((lead) => lead.name)).toEqual([
+      "c",
+      "a",
+      "b",
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+import type { WebsiteFindingCode } from "@/server/audit";
+import type { EnrichedBusiness } from "@/server/places";
+
+import type { LeadScore, ScoreFactor } from "./types";
+
+// Categories where a website directly drives bookings, orders or quotes.
+const HIGH_VALUE_TYPES = new Set([
+  "bakery",
+  "bar",
+  "beauty_salon",
+  "cafe",
+  "car_repair",
+  "dentist",
+  "doctor",
+  "electrician",
+  "florist",
+  "gym",
+  "hair_care",
+  "hairdresser",
+  "lawyer",
+  "lodging",
+  "plumber",
+  "real_estate_agency",
+  "restaurant",
+  "spa",
+]);
+
+const WEBSITE_POINTS: Record<WebsiteFindingCode, number> = {
+  none: 25,
+  unreachable: 22,
+  "social-only": 20,
+  "not-mobile-friendly": 15,
+  "no-https": 10,
+  "outdated-copyright": 10,
+  "no-meta-description": 5,
+};
+
+const REVIEWS_FOR_FULL_SCORE = 500;
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+function scoreRating(biz: EnrichedBusiness): ScoreFactor {
+  const max = 25;
+  if (!biz.rating) {
+    return {
+      key: "rating",
+      label: "Note",
+      points: 5,
+      max,
+      detail: "Aucune note publique",
+    };
+  }
+  return {
+    key: "rating",
+    label: "Note",
+    points: Math.round(clamp(((biz.rating - 3) / 1.5) * max, 0, max)),
+    max,
+    detail: `${biz.rating.toFixed(1)}/5`,
+  };
+}
+
+function scoreReviews(biz: EnrichedBusiness): ScoreFactor {
+  const max = 20;
+  const count = biz.user_ratings_total ?? 0;
+  return {
+    key: "reviews",
+    label: "Volume d'avis",
+    points: Math.round(
+      clamp(
+        (Math.log10(count + 1) / Math.log10(REVIEWS_FOR_FULL_SCORE)) * max,
+        0,
+        max,
+      ),
+    ),
+    max,
+    detail: count ? `${count} avis` : "Aucun avis",
+  };
+}
+
+function scoreStatus(biz: EnrichedBusiness): ScoreFactor {
+  switch (biz.business_status) {
+    case "CLOSED_PERMANENTLY":
+      return {
+        key: "status",
+        label: "Activité",
+        points: -100,
+        max: 0,
+        detail: "Fermé définitivement",
+      };
+    case "CLOSED_TEMPORARILY":
+      return {
+        key: "status",
+        label: "Activité",
+        points: -30,
+        max: 0,
+        detail: "Fermé temporairement",
+      };
+    default:
+      return {
+        key: "status",
+        label: "Activité",
+        points: 0,
+        max: 0,
+        detail: biz.business_status ? "En activité" : "Statut inconnu",
+      };
+  }
+}
+
+function scoreCategory(biz: EnrichedBusiness): ScoreFactor {
+  const max = 10;
+  const highValue = biz.types?.find((type) => HIGH_VALUE_TYPES.has(type));
+  return {
+    key: "category",
+    label: "Catégorie",
+    points: highValue ? max : biz.types?.length ? 5 : 0,
+    max,
+    detail: highValue
+      ? `${highValue} : fort besoin de visibilité`
+      : biz.types?.length
+        ? "Catégorie standard"
+        : "Catégorie inconnue",
+  };
+}
+
+function scoreOpeningHours(biz: EnrichedBusiness): ScoreFactor {
+  const max = 10;
+  const lines = biz.opening_hours?.weekday_text ?? [];
+  if (!lines.length) {
+    return {
+      key: "openingHours",
+      label: "Horaires",
+      points: 0,
+      max,
+      detail: "Horaires non renseignés",
+    };
+  }
+  // Google lists one line per weekday; OSM gives free-form rules instead.
+  if (lines.length !== 7) {
+    return {
+      key: "openingHours",
+      label: "Horaires",
+      points: max / 2,
+      max,
+      detail: "Horaires renseignés",
+    };
+  }
+  const openDays = lines.filter((line) => !/closed|fermé/i.test(line)).length;
+  return {
+    key: "openingHours",
+    label: "Horaires",
+    points: Math.round((openDays / 7) * max),
+    max,
+    detail: `Ouvert ${openDays} j/7`,
+  };
+}
+
+function scorePhone(biz: EnrichedBusiness): ScoreFactor {
+  const max = 10;
+  return {
+    key: "phone",
+    label: "Téléphone",
+    points: biz.formatted_phone_number ? max : 0,
+    max,
+    detail: biz.formatted_phone_number
+      ? "Joignable par téléphone"
+      : "Aucun numéro",
+  };
+}
+
+function scoreWebsite(biz: EnrichedBusiness): ScoreFactor {
+  const max = 25;
+  const findings = biz.websiteAudit?.findings;
+  if (!findings) {
+    return {
+      key: "website",
+      label: "Site web",
+      points: biz.website ? 0 : max,
+      max,
+      detail: biz.website ? "Site existant" : "Aucun site web",
+    };
+  }
+  const strongest = findings.reduce<(typeof findings)[number] | null>(
+    (best, finding) =>
+      !best || WEBSITE_POINTS[finding.code] > WEBSITE_POINTS[best.code]
+        ? finding
+        : best,
+    null,
+  );
+  return {
+    key: "website",
+    label: "Site web",
+    points: strongest ? WEBSITE_POINTS[strongest.code] : 0,
+    max,
+    detail: strongest?.message ?? "Site sans défaut détecté",
+  };
+}
+
+export function compareByScore(
+  a: { score?: LeadScore },
+  b: { score?: LeadScore },
+) {
+  return (b.score?.value ?? 0) - (a.score?.value ?? 0);
+}
+
+export function scoreBusiness(biz: EnrichedBusiness): LeadScore {
+  const factors = [
+    scoreRating(biz),
+    scoreReviews(biz),
+    scoreStatus(biz),
+    scoreCategory(biz),
+    scoreOpeningHours(biz),
+    scorePhone(biz),
+    scoreWebsite(biz),
+  ];
+  return {
+    value: clamp(
+      factors.reduce((sum, factor) => sum + factor.points, 0),
+      0,
+      100,
+    ),
+    factors,
+  };
+}
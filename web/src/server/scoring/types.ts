@@ -0,0 +1,21 @@
+export type ScoreFactorKey =
+  | "rating"
+  | "reviews"
+  | "status"
+  | "category"
+  | "openingHours"
+  | "phone"
+  | "website";
+
+export type ScoreFactor = {
+  key: ScoreFactorKey;
+  label: string;
+  points: number;
+  max: number;
+  detail: string;
+};
+
+export type LeadScore = {
+  value: number;
+  factors: ScoreFactor[];
+};
@@ -0,0 +1,69 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { createFixturePlacesProvider } from "@/server/places/fixture";
+import { createTemplateGenerator, type PitchGenerator } from "@/server/pitch";
+
+type Batch = typeof import("./batch");
+
+// Found prospects are saved: the stores resolve DATA_DIR when first imported.
+let dataDir: string;
+let batch: Batch;
+
+beforeAll(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), "batch-test-"));
+  process.env.DATA_DIR = dataDir;
+  batch = await import("./batch");
+});
+
+afterAll(async () => {
+  delete process.env.DATA_DIR;
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+describe("runBatchSearch", () => {
+  it("pitches a place found by several combinations once", async () => {
+    const pitched: string[] = [];
+    const template = createTemplateGenerator();
+    const pitchGenerator: PitchGenerator = {
+      ...template,
+      generate(businesses, options, onPitch) {
+        pitched.push(...businesses.map((business) => business.place_id));
+        return template.generate(businesses, options, onPitch);
+      },
+    };
+
+    const { businesses, metadata } = await batch.runBatchSearch(
+      batch.batchBodySchema.parse({
+        queries: ["restaurant", "food"],
+        locations: ["Paris"],
+        maxResults: 8,
+      }),
+      {
+        scope: {
+          workspaceId: "workspace-1",
+          actor: { userId: "user-1", name: "Alice" },
+        },
+        locale: "fr",
+        places: createFixturePlacesProvider(),
+        pitchGenerator,
+      },
+    );
+
+    expect(pitched).toEqual([...new Set(pitched)]);
+    const restaurant = businesses.find((business) =>
+      business.types?.includes("restaurant"),
+    );
+    expect(restaurant?.sources).toEqual([
+      { query: "restaurant", location: "Paris" },
+      { query: "food", location: "Paris" },
+    ]);
+    expect(metadata.duplicatesRemoved).toBeGreaterThan(0);
+    expect(metadata.combinations[1].duplicates).toBe(
+      metadata.duplicatesRemoved,
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import { z } from "zod";
+
+import { DEFAULT_LOCALE, getMessages, type Locale } from "@/i18n";
+import { mapWithConcurrency } from "@/server/concurrency";
+import type { PitchLanguage } from "@/server/pitch";
+import { compareByScore } from "@/server/scoring";
+import { toApiError, type ApiError } from "@/server/upstream";
+
+import { runSearch } from "./run";
+import { createBodySchema } from "./schema";
+import type { SearchBusiness, SearchDependencies } from "./types";
+
+const MAX_COMBINATIONS = 30;
+
+export function createBatchBodySchema(locale: Locale = DEFAULT_LOCALE) {
+  const t = getMessages(locale).validation;
+  return createBodySchema(locale)
+    .omit({ query: true, location: true })
+    .extend({
+      queries: z
+        .array(z.string().min(2, t.batchQueryTooShort))
+        .min(1, t.batchQueriesMissing)
+        .max(10),
+      locations: z
+        .array(z.string().min(2, t.batchLocationInvalid))
+        .min(1, t.batchLocationsMissing)
+        .max(10),
+      concurrency: z.number().int().min(1).max(4).default(2).optional(),
+    })
+    .refine(
+      (body) =>
+        body.queries.length * body.locations.length <= MAX_COMBINATIONS,
+      { message: t.batchTooLarge(MAX_COMBINATIONS), path: ["queries"] },
+    );
+}
+
+export const batchBodySchema = createBatchBodySchema();
+
+export type BatchSearchRequest = z.infer<typeof batchBodySchema>;
+
+export type BatchCombination = {
+  query: string;
+  location: string;
+  totalFound: number;
+  totalWithoutWebsite: number;
+  duplicates: number;
+  warnings: number;
+  language?: PitchLanguage;
+  error?: ApiError;
+};
+
+export type BatchBusiness = SearchBusiness & {
+  sources: Array<{ query: string; location: string }>;
+};
+
+export async function runBatchSearch(
+  { queries, locations, concurrency, ...options }: BatchSearchRequest,
+  deps: SearchDependencies,
+) {
+  const combinations = queries.flatMap((query) =>
+    locations.map((location) => ({ query, location })),
+  );
+
+  // Combinations share one meter, so usage is recorded once for the batch.
+  const { usage, ...sharedDeps } = deps;
+  // A place goes to the first combination reaching it, so it is pitched and
+  // saved once; the later ones are only added to its sources.
+  const sources = new Map<string, typeof combinations>();
+  const outcomes = await mapWithConcurrency(
+    combinations,
+    concurrency ?? 2,
+    async (combination) => {
+      const claim = (placeId: string) => {
+        const claimed = sources.get(placeId);
+        if (claimed) {
+          claimed.push(combination);
+          return false;
+        }
+        sources.set(placeId, [combination]);
+        return true;
+      };
+      try {
+        return {
+          ...combination,
+          result: await runSearch({ ...options, ...combination }, sharedDeps, {
+            claim,
+          }),
+        };
+      } catch (error) {
+        return { ...combination, error: toApiError(error) };
+      }
+    },
+  );
+
+  const merged = new Map<string, BatchBusiness>();
+  for (const outcome of outcomes) {
+    if ("result" in outcome) {
+      for (const business of outcome.result.businesses) {
+        merged.set(business.place_id, {
+          ...business,
+          sources: sources.get(business.place_id) ?? [],
+        });
+      }
+    }
+  }
+
+  const summary: BatchCombination[] = outcomes.map((outcome, index) => {
+    const { query, location } = outcome;
+    if ("error" in outcome) {
+      return {
+        query,
+        location,
+        totalFound: 0,
+        totalWithoutWebsite: 0,
+        duplicates: 0,
+        warnings: 0,
+        error: outcome.error,
+      };
+    }
+
+    const duplicates = [...merged.values()].filter(
+      (business) => business.sources.indexOf(combinations[index]) > 0,
+    ).length;
+
+    return {
+      query,
+      location,
+      totalFound: outcome.result.metadata.totalFound,
+      totalWithoutWebsite: outcome.result.metadata.totalWithoutWebsite,
+      duplicates,
+      warnings: outcome.result.metadata.warnings.reduce(
+        (sum, warning) => sum + warning.count,
+        0,
+      ),
+      language: outcome.result.metadata.language,
+    };
+  });
+
+  const recorded = await usage?.flush({
+    query: queries.join(", "),
+    location: locations.join(", "),
+  });
+
+  return {
+    businesses:
+      options.sortBy === "score"
+        ? [...merged.values()].sort(compareByScore)
+        : [...merged.values()],
+    metadata: {
+      totalFound: summary.reduce((sum, item) => sum + item.totalFound, 0),
+      totalWithoutWebsite: merged.size,
+      duplicatesRemoved: summary.reduce(
+        (sum, item) => sum + item.duplicates,
+        0,
+      ),
+      combinations: summary,
+      cache: deps.cache?.summary(),
+      usage: recorded,
+      query: queries.join(", "),
+      executedAt: new Date().toISOString(),
+    },
+  };
+}
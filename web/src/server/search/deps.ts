@@ -0,0 +1,32 @@
+import { DEFAULT_LOCALE, type Locale } from "@/i18n";
+import type { WorkspaceScope } from "@/server/auth";
+import { createCacheSession } from "@/server/cache";
+import { createPitchGenerator } from "@/server/pitch";
+import { createPlacesProvider } from "@/server/places";
+import { createUsageMeter } from "@/server/usage";
+
+import type { SearchDependencies } from "./types";
+
+export function createSearchDependencies({
+  scope,
+  locale = DEFAULT_LOCALE,
+  refresh = false,
+  clientId = "local",
+}: {
+  scope: WorkspaceScope;
+  locale?: Locale;
+  refresh?: boolean;
+  clientId?: string;
+}): SearchDependencies {
+  const cache = createCacheSession({ refresh });
+  // The meter sits under the cache so that only upstream calls are billed.
+  const usage = createUsageMeter(clientId, scope);
+  return {
+    scope,
+    locale,
+    places: cache.withPlaces(usage.withPlaces(createPlacesProvider())),
+    pitchGenerator: cache.withPitch(usage.withPitch(createPitchGenerator())),
+    cache,
+    usage,
+  };
+}
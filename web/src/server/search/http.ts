@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { localeFromRequest, type Locale } from "@/i18n";
+import { requireAuth } from "@/server/auth";
+import { AppError, errorResponse } from "@/server/upstream";
+import { guardSearchQuota } from "@/server/usage";
+
+import { createSearchDependencies } from "./deps";
+import { createBodySchema, type SearchRequest } from "./schema";
+import type { SearchDependencies } from "./types";
+
+type PreparedSearch<T> =
+  | { ok: true; body: T; deps: SearchDependencies }
+  | { ok: false; response: NextResponse };
+
+export async function prepareSearch(
+  request: NextRequest,
+): Promise<PreparedSearch<SearchRequest>>;
+export async function prepareSearch<T>(
+  request: NextRequest,
+  createSchema: (locale: Locale) => z.ZodType<T>,
+): Promise<PreparedSearch<T>>;
+export async function prepareSearch(
+  request: NextRequest,
+  createSchema: (locale: Locale) => z.ZodType<unknown> = createBodySchema,
+): Promise<PreparedSearch<unknown>> {
+  const locale = localeFromRequest(request);
+  const authenticated = await requireAuth(request);
+  if (!authenticated.ok) {
+    return authenticated;
+  }
+  const { scope, user } = authenticated.auth;
+
+  let body: unknown;
+  try {
+    body = createSchema(locale).parse(await request.json());
+  } catch (error) {
+    return {
+      ok: false,
+      response:
+        error instanceof z.ZodError
+          ? errorResponse(new AppError("INVALID_INPUT", "Entrée invalide."), {
+              details: error.flatten().fieldErrors,
+              locale,
+            })
+          : errorResponse(new AppError("INVALID_INPUT", "Requête invalide."), {
+              locale,
+            }),
+    };
+  }
+
+  // Quotas follow the user rather than the network they search from.
+  const clientId = `user:${user.id}`;
+  const rejected = await guardSearchQuota(clientId, locale);
+  if (rejected) {
+    return { ok: false, response: rejected };
+  }
+
+  try {
+    const { refresh } = body as { refresh?: boolean };
+    return {
+      ok: true,
+      body,
+      deps: createSearchDependencies({ scope, locale, refresh, clientId }),
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      response: errorResponse(
+        error instanceof AppError
+          ? error
+          : new AppError(
+              "CONFIG_ERROR",
+              error instanceof Error
+                ? error.message
+                : "Configuration du service invalide.",
+            ),
+        { locale },
+      ),
+    };
+  }
+}
@@ -0,0 +1,21 @@
+export {
+  batchBodySchema,
+  createBatchBodySchema,
+  runBatchSearch,
+  type BatchBusiness,
+  type BatchCombination,
+  type BatchSearchRequest,
+} from "./batch";
+export { createSearchDependencies } from "./deps";
+export { prepareSearch } from "./http";
+export {
+  createSearchState,
+  runSearch,
+  type RunSearchOptions,
+} from "./run";
+export {
+  bodySchema,
+  createBodySchema,
+  type SearchRequest,
+} from "./schema";
+export type * from "./types";
@@ -0,0 +1,392 @@
+import { getMessages, type Messages } from "@/i18n";
+import { auditWebsite } from "@/server/audit";
+import { mapWithConcurrency } from "@/server/concurrency";
+import { autoPushLeads, buildLeadPayload } from "@/server/integrations";
+import type { EnrichedBusiness, GooglePlaceDetails } from "@/server/places";
+import {
+  buildTemplatePitch,
+  languageForCountry,
+  usesBusinessVariables,
+} from "@/server/pitch";
+import { listSeenPlaceIds, upsertProspects } from "@/server/prospects";
+import { analyzeReviews } from "@/server/reviews";
+import { compareByScore, scoreBusiness } from "@/server/scoring";
+import { loadPitchSettings } from "@/server/settings";
+import { toApiError } from "@/server/upstream";
+
+import type { SearchRequest } from "./schema";
+import type {
+  SearchDependencies,
+  SearchEvent,
+  SearchMetadata,
+  SearchResponse,
+  SearchState,
+  SearchStep,
+} from "./types";
+
+const MAX_DETAILS_BATCH = 16;
+const PITCH_CHUNK_SIZE = 8;
+const DEFAULT_DETAILS_CONCURRENCY = 4;
+
+export type RunSearchOptions = {
+  onEvent?: (event: SearchEvent) => void;
+  state?: SearchState;
+  onCheckpoint?: (state: SearchState) => Promise<void> | void;
+  signal?: AbortSignal;
+  // Searches of a batch share their places: false when another one already
+  // took this place.
+  claim?: (placeId: string) => boolean;
+};
+
+export function createSearchState(): SearchState {
+  return {
+    step: "geocode",
+    summaries: [],
+    cursor: 0,
+    pagesFetched: 0,
+    placesScanned: 0,
+    skippedSeen: 0,
+    skippedExcluded: 0,
+    businesses: [],
+    results: [],
+    warnings: [],
+    websitesAudited: 0,
+    skippedLowScore: 0,
+    websitePlaceIds: [],
+  };
+}
+
+function describeEmptySearch(
+  body: SearchRequest,
+  state: SearchState,
+  t: Messages["searchRun"],
+) {
+  if (!state.summaries.length) {
+    return t.noBusiness;
+  }
+  if (state.warnings.length) {
+    return t.partialFailure;
+  }
+  if (state.skippedLowScore) {
+    return t.belowMinScore(body.minScore ?? 0);
+  }
+  if (state.skippedSeen + state.skippedExcluded) {
+    return t.allSeen;
+  }
+  return body.mode === "audit" ? t.noFinding : t.allHaveWebsite;
+}
+
+export async function runSearch(
+  body: SearchRequest,
+  deps: SearchDependencies,
+  options: RunSearchOptions = {},
+): Promise<SearchResponse> {
+  try {
+    return await executeSearch(body, deps, options);
+  } finally {
+    await deps.usage?.flush({ query: body.query, location: body.location });
+  }
+}
+
+async function executeSearch(
+  body: SearchRequest,
+  { scope, locale, places, pitchGenerator, cache, usage }: SearchDependencies,
+  {
+    onEvent = () => {},
+    state = createSearchState(),
+    onCheckpoint = () => {},
+    signal,
+    claim = () => true,
+  }: RunSearchOptions = {},
+): Promise<SearchResponse> {
+  const radius = body.radius ?? 5000;
+  const maxResults = body.maxResults ?? 5;
+  const maxPages = body.maxPages ?? 3;
+  const batchSize = Math.min(maxResults * 2, MAX_DETAILS_BATCH);
+  const detailsConcurrency =
+    Number(process.env.DETAILS_CONCURRENCY) || DEFAULT_DETAILS_CONCURRENCY;
+
+  // Failures that only cost part of the results are reported, not thrown.
+  const warn = (error: unknown) => {
+    const { code, message, upstream } = toApiError(error);
+    const existing = state.warnings.find(
+      (item) => item.code === code && item.upstream === upstream,
+    );
+    if (existing) {
+      existing.count += 1;
+    } else {
+      state.warnings.push({ code, message, upstream, count: 1 });
+    }
+  };
+
+  const checkpoint = async (step: SearchStep) => {
+    state.step = step;
+    await onCheckpoint(state);
+    signal?.throwIfAborted();
+  };
+
+  signal?.throwIfAborted();
+  const { agency, template } = await loadPitchSettings(
+    scope.workspaceId,
+    body.promptTemplateId,
+    body.promptTemplateVersion,
+  );
+  if (!state.location) {
+    state.location = await places.geocode(body.location);
+    await checkpoint("places");
+  }
+  const coords = state.location;
+  const language = body.language ?? languageForCountry(coords.countryCode);
+  onEvent({ type: "geocoded", location: coords });
+
+  const seen = body.excludeSeen
+    ? await listSeenPlaceIds(scope.workspaceId)
+    : new Set<string>();
+  const excluded = new Set(body.excludePlaceIds ?? []);
+
+  while (
+    (state.step === "places" || state.step === "details") &&
+    state.businesses.length < maxResults
+  ) {
+    if (state.cursor < state.summaries.length) {
+      const batch: string[] = [];
+      while (
+        state.cursor < state.summaries.length &&
+        batch.length < batchSize
+      ) {
+        const { place_id } = state.summaries[state.cursor];
+        state.cursor += 1;
+        if (excluded.has(place_id)) {
+          state.skippedExcluded += 1;
+        } else if (seen.has(place_id)) {
+          state.skippedSeen += 1;
+        } else if (claim(place_id)) {
+          batch.push(place_id);
+        } else {
+          state.skippedExcluded += 1;
+        }
+      }
+
+      const details = await mapWithConcurrency(
+        batch,
+        detailsConcurrency,
+        async (placeId) => {
+          let detail: GooglePlaceDetails | null;
+          try {
+            detail = await places.getDetails(placeId);
+          } catch (error) {
+            warn(error);
+            return null;
+          }
+          if (!detail) {
+            return null;
+          }
+
+          const enriched: EnrichedBusiness = {
+            ...detail,
+            googleMapsUrl: places.buildMapsUrl(detail.place_id),
+          };
+          return enriched;
+        },
+      );
+      state.placesScanned += batch.length;
+
+      const found = details.filter((item) => item !== null);
+      const prospects =
+        body.mode === "audit"
+          ? (
+              await mapWithConcurrency(
+                found,
+                detailsConcurrency,
+                async (item): Promise<EnrichedBusiness> => ({
+                  ...item,
+                  websiteAudit: await auditWebsite(item.website, { locale }),
+                }),
+              )
+            ).filter((item) => item.websiteAudit?.findings.length)
+          : found.filter((item) => !item.website);
+      const withWebsite = found
+        .filter((item) => item.website)
+        .map((item) => item.place_id);
+      state.websitePlaceIds = [
+        ...(state.websitePlaceIds ?? []),
+        ...withWebsite,
+      ];
+      if (body.mode === "audit") {
+        state.websitesAudited += withWebsite.length;
+      }
+
+      for (const item of prospects) {
+        const scored = {
+          ...item,
+          insights: analyzeReviews(item.reviews),
+          score: scoreBusiness(item),
+        };
+        if (body.minScore && scored.score.value < body.minScore) {
+          state.skippedLowScore += 1;
+        } else if (state.businesses.length < maxResults) {
+          state.businesses.push(scored);
+          onEvent({ type: "business", business: scored });
+        }
+      }
+      await checkpoint("details");
+      continue;
+    }
+
+    if (
+      state.pagesFetched > 0 &&
+      (!state.pageToken || state.pagesFetched >= maxPages)
+    ) {
+      break;
+    }
+
+    let page;
+    try {
+      page = await places.searchText({
+        query: body.query,
+        location: coords,
+        radius,
+        pageToken: state.pageToken,
+      });
+    } catch (error) {
+      if (!state.pagesFetched) {
+        throw error;
+      }
+      warn(error);
+      state.pageToken = undefined;
+      continue;
+    }
+    state.pagesFetched += 1;
+    state.pageToken = page.nextPageToken;
+    state.summaries.push(...page.results);
+    onEvent({
+      type: "places",
+      page: state.pagesFetched,
+      totalFound: state.summaries.length,
+    });
+    await checkpoint("places");
+  }
+
+  const buildMetadata = (note?: string): SearchMetadata => ({
+    totalFound: state.summaries.length,
+    totalWithoutWebsite: state.businesses.length,
+    pagesFetched: state.pagesFetched,
+    placesScanned: state.placesScanned,
+    skippedSeen: state.skippedSeen,
+    skippedExcluded: state.skippedExcluded,
+    skippedLowScore: state.skippedLowScore,
+    mode: body.mode ?? "no-website",
+    websitesAudited: state.websitesAudited,
+    language,
+    ...(template
+      ? {
+          promptTemplate: {
+            id: template.id,
+            name: template.name,
+            version: template.version,
+          },
+        }
+      : {}),
+    provider: places.name,
+    cache: cache?.summary(),
+    usage: usage?.snapshot(),
+    warnings: state.warnings,
+    location: coords,
+    radius,
+    query: body.query,
+    executedAt: new Date().toISOString(),
+    ...(note ? { note } : {}),
+  });
+
+  if (!state.businesses.length) {
+    const metadata = buildMetadata(
+      describeEmptySearch(body, state, getMessages(locale).searchRun),
+    );
+    await checkpoint("done");
+    onEvent({ type: "done", metadata });
+    return { businesses: [], metadata };
+  }
+
+  if (state.step !== "pitch" && state.step !== "done") {
+    await checkpoint("pitch");
+  }
+
+  const pitchOptions = {
+    query: body.query,
+    vibe: body.vibe,
+    tone: body.tone,
+    language,
+    channels: body.channels,
+    agency,
+    template,
+    locale,
+  };
+  const chunkSize =
+    template && usesBusinessVariables([template.system, template.instructions])
+      ? 1
+      : PITCH_CHUNK_SIZE;
+  const pending = () =>
+    state.businesses.filter(
+      (biz) => !state.results.some((item) => item.place_id === biz.place_id),
+    );
+  for (
+    let chunk = pending().slice(0, chunkSize);
+    chunk.length;
+    chunk = pending().slice(0, chunkSize)
+  ) {
+    const { pitches, errors } = await pitchGenerator.generate(
+      chunk,
+      pitchOptions,
+      (pitch) =>
+        onEvent({
+          type: "pitch",
+          placeId: pitch.placeId,
+          pitch,
+          pitchGenerator: pitchGenerator.name,
+          pitchError: null,
+        }),
+    );
+
+    for (const biz of chunk) {
+      const pitch = pitches.find((item) => item.placeId === biz.place_id);
+      if (pitch) {
+        state.results.push({
+          ...biz,
+          pitch,
+          pitchGenerator: pitchGenerator.name,
+          pitchError: null,
+        });
+        continue;
+      }
+
+      const fallback = {
+        pitch: buildTemplatePitch(biz, pitchOptions),
+        pitchGenerator: "template" as const,
+        pitchError:
+          errors[biz.place_id] ?? getMessages(locale).searchRun.noPitch,
+      };
+      state.results.push({ ...biz, ...fallback });
+      onEvent({ type: "pitch", placeId: biz.place_id, ...fallback });
+    }
+    await checkpoint("pitch");
+  }
+
+  const search = { query: body.query, location: body.location };
+  await upsertProspects(scope, state.results, search);
+  // CRM deliveries can take a while: the search does not wait for them.
+  void autoPushLeads(
+    scope.workspaceId,
+    state.results.map((biz) => buildLeadPayload(biz, biz.pitch, search)),
+  );
+
+  const metadata = buildMetadata();
+  await checkpoint("done");
+  onEvent({ type: "done", metadata });
+  return {
+    businesses:
+      body.sortBy === "score"
+        ? [...state.results].sort(compareByScore)
+        : state.results,
+    metadata,
+  };
+}
@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+import { DEFAULT_LOCALE, getMessages, type Locale } from "@/i18n";
+import { OUTREACH_CHANNELS, PITCH_LANGUAGES } from "@/server/pitch";
+
+export const SEARCH_MODES = ["no-website", "audit"] as const;
+export const SEARCH_SORTS = ["relevance", "score"] as const;
+
+// Validation messages follow the caller's locale; `bodySchema` uses the
+// default one.
+export function createBodySchema(locale: Locale = DEFAULT_LOCALE) {
+  const t = getMessages(locale).validation;
+  return z.object({
+    query: z.string().min(2, t.queryTooShort),
+    location: z.string().min(2, t.locationInvalid),
+    radius: z
+      .number()
+      .int()
+      .min(500, t.radiusTooSmall)
+      .max(50000, t.radiusTooLarge)
+      .default(5000)
+      .optional(),
+    vibe: z.string().max(280).optional(),
+    tone: z.string().max(120).optional(),
+    language: z.enum(PITCH_LANGUAGES).optional(),
+    maxResults: z.number().int().min(1).max(8).default(5).optional(),
+    maxPages: z.number().int().min(1).max(3).default(3).optional(),
+    excludeSeen: z.boolean().default(false).optional(),
+    excludePlaceIds: z.array(z.string().min(1)).max(500).optional(),
+    refresh: z.boolean().default(false).optional(),
+    mode: z.enum(SEARCH_MODES).default("no-website").optional(),
+    minScore: z.number().int().min(0).max(100).optional(),
+    sortBy: z.enum(SEARCH_SORTS).default("relevance").optional(),
+    channels: z.array(z.enum(OUTREACH_CHANNELS)).max(4).optional(),
+    promptTemplateId: z.string().min(1).optional(),
+    promptTemplateVersion: z.number().int().min(1).optional(),
+  });
+}
+
+export const bodySchema = createBodySchema();
+
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+export type SearchRequest = z.infer<typeof bodySchema>;
@@ -0,0 +1,104 @@
+import type { Locale } from "@/i18n";
+import type { WorkspaceScope } from "@/server/auth";
+import type { CacheSession, CacheSummary } from "@/server/cache";
+import type {
+  EnrichedBusiness,
+  GeocodedLocation,
+  GooglePlaceSummary,
+  PlacesProvider,
+  PlacesProviderName,
+} from "@/server/places";
+import type {
+  GroqPitch,
+  PitchGenerator,
+  PitchGeneratorName,
+  PitchLanguage,
+} from "@/server/pitch";
+import type { ApiError } from "@/server/upstream";
+import type { UsageMeter, UsageSnapshot } from "@/server/usage";
+
+import type { SearchMode } from "./schema";
+
+export type SearchDependencies = {
+  // Where found prospects are saved.
+  scope: WorkspaceScope;
+  // Language of the messages written into results (findings, pitch errors).
+  locale: Locale;
+  places: PlacesProvider;
+  pitchGenerator: PitchGenerator;
+  cache?: CacheSession;
+  usage?: UsageMeter;
+};
+
+export type SearchBusiness = EnrichedBusiness & {
+  pitch: GroqPitch | null;
+  pitchGenerator: PitchGeneratorName;
+  pitchError: string | null;
+};
+
+export type SearchWarning = ApiError & {
+  count: number;
+};
+
+export type SearchMetadata = {
+  totalFound: number;
+  totalWithoutWebsite: number;
+  pagesFetched: number;
+  placesScanned: number;
+  skippedSeen: number;
+  skippedExcluded: number;
+  skippedLowScore: number;
+  mode: SearchMode;
+  websitesAudited: number;
+  language: PitchLanguage;
+  promptTemplate?: { id: string; name: string; version: number };
+  provider: PlacesProviderName;
+  cache?: CacheSummary;
+  usage?: UsageSnapshot;
+  warnings: SearchWarning[];
+  location: GeocodedLocation;
+  radius: number;
+  query: string;
+  executedAt: string;
+  note?: string;
+};
+
+export type SearchResponse = {
+  businesses: SearchBusiness[];
+  metadata: SearchMetadata;
+};
+
+export type SearchEvent =
+  | { type: "geocoded"; location: GeocodedLocation }
+  | { type: "places"; page: number; totalFound: number }
+  | { type: "business"; business: EnrichedBusiness }
+  | {
+      type: "pitch";
+      placeId: string;
+      pitch: GroqPitch;
+      pitchGenerator: PitchGeneratorName;
+      pitchError: string | null;
+    }
+  | { type: "done"; metadata: SearchMetadata };
+
+export type SearchStep = "geocode" | "places" | "details" | "pitch" | "done";
+
+export type SearchState = {
+  step: SearchStep;
+  location?: GeocodedLocation;
+  summaries: GooglePlaceSummary[];
+  cursor: number;
+  pageToken?: string;
+  pagesFetched: number;
+  placesScanned: number;
+  skippedSeen: number;
+  skippedExcluded: number;
+  businesses: EnrichedBusiness[];
+  results: SearchBusiness[];
+  warnings: SearchWarning[];
+  websitesAudited: number;
+  skippedLowScore: number;
+  // Scanned places that have a website, missing from checkpoints saved
+  // before it existed.
+  websitePlaceIds?: string[];
+};
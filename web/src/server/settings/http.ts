@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMessages, localeFromRequest, type Locale } from "@/i18n";
+
+type ParsedBody<T> =
+  | { ok: true; body: T }
+  | { ok: false; response: NextResponse };
+
+export async function parseSettingsBody<T>(
+  request: NextRequest,
+  createSchema: (locale: Locale) => z.ZodType<T>,
+): Promise<ParsedBody<T>> {
+  const locale = localeFromRequest(request);
+  const t = getMessages(locale);
+  try {
+    return { ok: true, body: createSchema(locale).parse(await request.json()) };
+  } catch (error) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        error instanceof z.ZodError
+          ? {
+              error: t.errors.INVALID_INPUT,
+              details: error.flatten().fieldErrors,
+            }
+          : { error: t.api.invalidRequest },
+        { status: 400 },
+      ),
+    };
+  }
+}
+
+export function templateNotFound(request: NextRequest) {
+  return NextResponse.json(
+    { error: getMessages(localeFromRequest(request)).api.templateNotFound },
+    { status: 404 },
+  );
+}
@@ -0,0 +1,31 @@
+export { parseSettingsBody, templateNotFound } from "./http";
+export {
+  buildPromptPreview,
+  createPreviewSchema,
+  previewSchema,
+  SAMPLE_BUSINESS,
+  type PreviewRequest,
+} from "./preview";
+export {
+  agencySchema,
+  createAgencySchema,
+  createTemplateSchema,
+  createTemplateVersionSchema,
+  templateSchema,
+  templateVersionSchema,
+  type AgencyInput,
+  type TemplateInput,
+  type TemplateVersionInput,
+} from "./schema";
+export {
+  addPromptTemplateVersion,
+  createPromptTemplate,
+  deletePromptTemplate,
+  getAgencyProfile,
+  getPromptTemplate,
+  listPromptTemplates,
+  loadPitchSettings,
+  resolvePromptTemplate,
+  saveAgencyProfile,
+} from "./store";
+export type * from "./types";
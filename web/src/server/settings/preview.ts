@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+import { DEFAULT_LOCALE, type Locale } from "@/i18n";
+import type { EnrichedBusiness } from "@/server/places";
+import {
+  buildPitchMessages,
+  OUTREACH_CHANNELS,
+  PITCH_LANGUAGES,
+  type PitchOptions,
+} from "@/server/pitch";
+import { analyzeReviews } from "@/server/reviews";
+
+import { createTemplateVersionSchema } from "./schema";
+
+const SAMPLE_REVIEWS = [
+  {
+    author_name: "Camille",
+    rating: 5,
+    text: "Le meilleur croissant du quartier, équipe adorable.",
+  },
+  {
+    author_name: "Hugo",
+    rating: 4,
+    text: "Très bon pain, mais impossible de trouver les horaires du dimanche.",
+  },
+];
+
+export const SAMPLE_BUSINESS: EnrichedBusiness = {
+  place_id: "sample",
+  name: "Boulangerie du Marché",
+  formatted_address: "12 rue des Martyrs, 75009 Paris",
+  formatted_phone_number: "01 23 45 67 89",
+  rating: 4.6,
+  user_ratings_total: 128,
+  business_status: "OPERATIONAL",
+  types: ["bakery", "food", "store"],
+  editorial_summary: {
+    overview: "Pains au levain, viennoiseries maison et café à emporter.",
+  },
+  reviews: SAMPLE_REVIEWS,
+  insights: analyzeReviews(SAMPLE_REVIEWS),
+  googleMapsUrl: "https://www.google.com/maps/place/?q=place_id:sample",
+};
+
+// Either a saved template version or the draft being edited.
+export function createPreviewSchema(locale: Locale = DEFAULT_LOCALE) {
+  return z.object({
+    templateId: z.string().min(1).optional(),
+    version: z.number().int().min(1).optional(),
+    template: createTemplateVersionSchema(locale)
+      .pick({ system: true, instructions: true })
+      .optional(),
+    placeId: z.string().min(1).optional(),
+    query: z.string().trim().min(2).default("boulangerie"),
+    vibe: z.string().max(280).optional(),
+    tone: z.string().max(120).optional(),
+    language: z.enum(PITCH_LANGUAGES).optional(),
+    channels: z.array(z.enum(OUTREACH_CHANNELS)).max(4).optional(),
+  });
+}
+
+export const previewSchema = createPreviewSchema();
+
+export type PreviewRequest = z.infer<typeof previewSchema>;
+
+export function buildPromptPreview(
+  business: EnrichedBusiness,
+  options: PitchOptions,
+) {
+  return {
+    business: { placeId: business.place_id, name: business.name },
+    messages: buildPitchMessages([business], options),
+  };
+}
@@ -0,0 +1,70 @@
+import { z } from "zod";
+
+import {
+  DEFAULT_LOCALE,
+  getMessages,
+  type Locale,
+  type Messages,
+} from "@/i18n";
+import { findUnknownVariables } from "@/server/pitch";
+
+const templateText = (schema: z.ZodString, t: Messages["validation"]) =>
+  schema.superRefine((text, ctx) => {
+    const unknown = findUnknownVariables(text);
+    if (unknown.length) {
+      ctx.addIssue({
+        code: "custom",
+        message: t.unknownVariables(unknown.join(", ")),
+      });
+    }
+  });
+
+export function createAgencySchema(locale: Locale = DEFAULT_LOCALE) {
+  const t = getMessages(locale).validation;
+  return z.object({
+    name: z.string().trim().min(1, t.agencyNameMissing).max(120),
+    description: z.string().trim().max(600).optional(),
+    offers: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1).max(120),
+          price: z.string().trim().max(60).optional(),
+        }),
+      )
+      .max(10)
+      .default([]),
+    portfolio: z
+      .array(z.string().trim().url(t.portfolioUrlInvalid))
+      .max(10)
+      .default([]),
+    signature: z.string().trim().max(400).default(""),
+  });
+}
+
+export function createTemplateVersionSchema(locale: Locale = DEFAULT_LOCALE) {
+  const t = getMessages(locale).validation;
+  return z.object({
+    system: templateText(z.string().trim().max(2000), t).default(""),
+    instructions: templateText(
+      z.string().trim().min(20, t.instructionsTooShort).max(6000),
+      t,
+    ),
+    note: z.string().trim().max(200).optional(),
+  });
+}
+
+export function createTemplateSchema(locale: Locale = DEFAULT_LOCALE) {
+  const t = getMessages(locale).validation;
+  return createTemplateVersionSchema(locale).extend({
+    name: z.string().trim().min(2, t.nameTooShort).max(80),
+    description: z.string().trim().max(280).optional(),
+  });
+}
+
+export const agencySchema = createAgencySchema();
+export const templateVersionSchema = createTemplateVersionSchema();
+export const templateSchema = createTemplateSchema();
+
+export type AgencyInput = z.infer<typeof agencySchema>;
+export type TemplateVersionInput = z.infer<typeof templateVersionSchema>;
+export type TemplateInput = z.infer<typeof templateSchema>;
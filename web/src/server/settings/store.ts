@@ -0,0 +1,142 @@
+import { randomUUID } from "node:crypto";
+
+import { createWorkspaceFileStore, getOwn } from "@/server/storage";
+import { AppError } from "@/server/upstream";
+
+import type {
+  AgencyInput,
+  TemplateInput,
+  TemplateVersionInput,
+} from "./schema";
+import type {
+  AgencyProfile,
+  PromptTemplate,
+  ResolvedPromptTemplate,
+} from "./types";
+
+type SettingsFile = {
+  agency: AgencyProfile | null;
+  templates: Record<string, PromptTemplate>;
+};
+
+const storeFor = createWorkspaceFileStore<SettingsFile>(
+  "settings.json",
+  () => ({ agency: null, templates: {} }),
+);
+
+export async function getAgencyProfile(workspaceId: string) {
+  const { agency } = await storeFor(workspaceId).read();
+  return agency;
+}
+
+export async function saveAgencyProfile(
+  workspaceId: string,
+  input: AgencyInput,
+) {
+  return storeFor(workspaceId).update((data) => {
+    data.agency = { ...input, updatedAt: new Date().toISOString() };
+    return data.agency;
+  });
+}
+
+export async function listPromptTemplates(workspaceId: string) {
+  const { templates } = await storeFor(workspaceId).read();
+  return Object.values(templates).sort((a, b) =>
+    b.updatedAt.localeCompare(a.updatedAt),
+  );
+}
+
+export async function getPromptTemplate(workspaceId: string, id: string) {
+  const { templates } = await storeFor(workspaceId).read();
+  return getOwn(templates, id) ?? null;
+}
+
+export async function createPromptTemplate(
+  workspaceId: string,
+  { name, description, ...version }: TemplateInput,
+) {
+  const now = new Date().toISOString();
+  return storeFor(workspaceId).update((data) => {
+    const template: PromptTemplate = {
+      id: randomUUID(),
+      name,
+      description,
+      versions: [{ ...version, version: 1, createdAt: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+    data.templates[template.id] = template;
+    return template;
+  });
+}
+
+// Edits never overwrite a version: searches keep pointing at what they used.
+export async function addPromptTemplateVersion(
+  workspaceId: string,
+  id: string,
+  version: TemplateVersionInput,
+) {
+  const now = new Date().toISOString();
+  return storeFor(workspaceId).update((data) => {
+    const template = getOwn(data.templates, id);
+    if (!template) {
+      return null;
+    }
+    template.versions.push({
+      ...version,
+      version: template.versions.length + 1,
+      createdAt: now,
+    });
+    template.updatedAt = now;
+    return template;
+  });
+}
+
+export async function deletePromptTemplate(workspaceId: string, id: string) {
+  return storeFor(workspaceId).update((data) => {
+    if (!getOwn(data.templates, id)) {
+      return false;
+    }
+    delete data.templates[id];
+    return true;
+  });
+}
+
+export async function resolvePromptTemplate(
+  workspaceId: string,
+  id: string,
+  version?: number,
+): Promise<ResolvedPromptTemplate | null> {
+  const template = await getPromptTemplate(workspaceId, id);
+  const selected = version
+    ? template?.versions.find((item) => item.version === version)
+    : template?.versions.at(-1);
+  if (!template || !selected) {
+    return null;
+  }
+  return {
+    id: template.id,
+    name: template.name,
+    version: selected.version,
+    system: selected.system,
+    instructions: selected.instructions,
+  };
+}
+
+// Agency and template shared by every pitch generated for one request.
+export async function loadPitchSettings(
+  workspaceId: string,
+  templateId?: string,
+  templateVersion?: number,
+) {
+  const [agency, template] = await Promise.all([
+    getAgencyProfile(workspaceId),
+    templateId
+      ? resolvePromptTemplate(workspaceId, templateId, templateVersion)
+      : undefined,
+  ]);
+  if (template === null) {
+    throw new AppError("INVALID_INPUT", "Modèle de prompt introuvable.");
+  }
+  return { agency: agency ?? undefined, template };
+}
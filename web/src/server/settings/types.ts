@@ -0,0 +1,39 @@
+export type AgencyOffer = {
+  name: string;
+  price?: string;
+};
+
+export type AgencyProfile = {
+  name: string;
+  description?: string;
+  offers: AgencyOffer[];
+  portfolio: string[];
+  signature: string;
+  updatedAt: string;
+};
+
+export type PromptTemplateVersion = {
+  version: number;
+  system: string;
+  instructions: string;
+  note?: string;
+  createdAt: string;
+};
+
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  description?: string;
+  versions: PromptTemplateVersion[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+// The version a search actually pitched with, as passed to the generators.
+export type ResolvedPromptTemplate = {
+  id: string;
+  name: string;
+  version: number;
+  system: string;
+  instructions: string;
+};
@@ -0,0 +1,8 @@
+export {
+  createJsonFileStore,
+  createWorkspaceFileStore,
+  moveIntoWorkspace,
+  resolveDataPath,
+  type JsonFileStore,
+} from "./json-file";
+export { getOwn } from "./records";
@@ -0,0 +1,100 @@
+import { access, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type JsonFileStore<T> = {
+  read: () => Promise<T>;
+  update: <R>(mutate: (data: T) => R | Promise<R>) => Promise<R>;
+};
+
+const WORKSPACES_DIR = "workspaces";
+
+export function resolveDataPath(fileName: string) {
+  return path.resolve(process.cwd(), process.env.DATA_DIR ?? "data", fileName);
+}
+
+export function createJsonFileStore<T>(
+  fileName: string,
+  initial: () => T,
+): JsonFileStore<T> {
+  const filePath = resolveDataPath(fileName);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function load(): Promise<T> {
+    try {
+      return JSON.parse(await readFile(filePath, "utf8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return initial();
+      }
+      throw error;
+    }
+  }
+
+  async function save(data: T) {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(data, null, 2), "utf8");
+    await rename(tempPath, filePath);
+  }
+
+  return {
+    read: () => queue.then(load),
+    update(mutate) {
+      const run = queue.then(async () => {
+        const data = await load();
+        const result = await mutate(data);
+        await save(data);
+        return result;
+      });
+      queue = run.catch(() => undefined);
+      return run;
+    },
+  };
+}
+
+// One file per workspace, under data/workspaces/<workspaceId>/.
+export function createWorkspaceFileStore<T>(
+  fileName: string,
+  initial: () => T,
+) {
+  // A single store per file, so that updates stay serialized.
+  const stores = new Map<string, JsonFileStore<T>>();
+  return (workspaceId: string) => {
+    let store = stores.get(workspaceId);
+    if (!store) {
+      store = createJsonFileStore(
+        path.join(WORKSPACES_DIR, workspaceId, fileName),
+        initial,
+      );
+      stores.set(workspaceId, store);
+    }
+    return store;
+  };
+}
+
+// Moves files written before workspaces existed into one; files already
+// there are left alone.
+export async function moveIntoWorkspace(
+  fileNames: string[],
+  workspaceId: string,
+) {
+  for (const fileName of fileNames) {
+    const source = resolveDataPath(fileName);
+    const target = resolveDataPath(
+      path.join(WORKSPACES_DIR, workspaceId, fileName),
+    );
+    try {
+      await access(source);
+    } catch {
+      continue;
+    }
+    try {
+      await access(target);
+      continue;
+    } catch {
+      // Nothing to overwrite.
+    }
+    await mkdir(path.dirname(target), { recursive: true });
+    await rename(source, target);
+  }
+}
@@ -0,0 +1,5 @@
+// Record keys often come from URLs: a plain lookup of "__proto__" or
+// "constructor" would hand back Object.prototype or Object itself.
+export function getOwn<T>(records: Record<string, T>, key: string) {
+  return Object.hasOwn(records, key) ? records[key] : undefined;
+}
@@ -0,0 +1,154 @@
+import { DEFAULT_LOCALE, getMessages } from "@/i18n";
+
+import { AppError } from "./errors";
+
+export type UpstreamRequest<T> = {
+  upstream: string;
+  init?: RequestInit;
+  timeoutMs?: number;
+  retries?: number;
+  // Maps a successful HTTP body to an error, for APIs such as Google that
+  // report failures (OVER_QUERY_LIMIT, REQUEST_DENIED...) with a 200.
+  check?: (data: T) => AppError | null;
+  // Narrows which retryable failures are retried, for requests that are not
+  // safe to send twice once the server may have acted on them.
+  shouldRetry?: (failure: AppError) => boolean;
+  onRetry?: (failure: AppError, attempt: number) => void;
+};
+
+// `url` is the final address after redirects.
+export type UpstreamText = {
+  url: string;
+  body: string;
+};
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 500;
+
+function readNumber(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function backoff(attempt: number) {
+  const delay = BACKOFF_BASE_MS * 2 ** attempt;
+  return delay + Math.random() * delay * 0.25;
+}
+
+function fromHttpStatus(status: number, upstream: string) {
+  const t = getMessages(DEFAULT_LOCALE).upstreamErrors;
+  if (status === 429) {
+    return new AppError("QUOTA_EXCEEDED", t.rateLimited(upstream), {
+      upstream,
+      retryable: true,
+    });
+  }
+  if (status >= 500) {
+    return new AppError(
+      "UPSTREAM_UNAVAILABLE",
+      t.unavailable(upstream, status),
+      { upstream, retryable: true },
+    );
+  }
+  if (status === 401 || status === 403) {
+    return new AppError("REQUEST_DENIED", t.denied(upstream, status), {
+      upstream,
+    });
+  }
+  return new AppError("INVALID_REQUEST", t.rejected(upstream, status), {
+    upstream,
+  });
+}
+
+function fromFetchFailure(error: unknown, upstream: string, timeoutMs: number) {
+  const t = getMessages(DEFAULT_LOCALE).upstreamErrors;
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return new AppError(
+      "UPSTREAM_TIMEOUT",
+      t.timeout(upstream, timeoutMs / 1000),
+      { upstream, retryable: true },
+    );
+  }
+  return new AppError("UPSTREAM_UNAVAILABLE", t.unreachable(upstream), {
+    upstream,
+    retryable: true,
+  });
+}
+
+async function request<T>(
+  url: string | URL,
+  {
+    upstream,
+    init,
+    timeoutMs = readNumber("UPSTREAM_TIMEOUT_MS", DEFAULT_TIMEOUT_MS),
+    retries = readNumber("UPSTREAM_RETRIES", DEFAULT_RETRIES),
+    check,
+    shouldRetry = () => true,
+    onRetry,
+  }: UpstreamRequest<T>,
+  read: (response: Response) => Promise<T>,
+): Promise<T> {
+  for (let attempt = 0; ; attempt += 1) {
+    let failure: AppError;
+    try {
+      const response = await fetch(url, {
+        ...init,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        failure = fromHttpStatus(response.status, upstream);
+      } else {
+        let data: T;
+        try {
+          data = await read(response);
+        } catch {
+          throw new AppError(
+            "UPSTREAM_ERROR",
+            getMessages(DEFAULT_LOCALE).upstreamErrors.unreadable(upstream),
+            { upstream },
+          );
+        }
+        const rejected = check?.(data);
+        if (!rejected) {
+          return data;
+        }
+        failure = rejected;
+      }
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      failure = fromFetchFailure(error, upstream, timeoutMs);
+    }
+
+    if (!failure.retryable || !shouldRetry(failure) || attempt >= retries) {
+      throw failure;
+    }
+    onRetry?.(failure, attempt + 1);
+    await wait(backoff(attempt));
+  }
+}
+
+export function requestJson<T>(
+  url: string | URL,
+  options: UpstreamRequest<T>,
+) {
+  return request(url, options, (response) => response.json() as Promise<T>);
+}
+
+export function requestText(
+  url: string | URL,
+  options: UpstreamRequest<UpstreamText>,
+) {
+  return request(url, options, async (response) => ({
+    url: response.url,
+    body: await response.text(),
+  }));
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+
+import {
+  DEFAULT_LOCALE,
+  getMessages,
+  localizeError,
+  type Locale,
+} from "@/i18n";
+
+export type ErrorCode =
+  | "INVALID_INPUT"
+  | "RATE_LIMITED"
+  | "DAILY_BUDGET_EXCEEDED"
+  | "CONFIG_ERROR"
+  | "LOCATION_NOT_FOUND"
+  | "QUOTA_EXCEEDED"
+  | "REQUEST_DENIED"
+  | "INVALID_REQUEST"
+  | "UPSTREAM_TIMEOUT"
+  | "UPSTREAM_UNAVAILABLE"
+  | "UPSTREAM_ERROR"
+  | "INTERNAL_ERROR";
+
+export type ApiError = {
+  code: ErrorCode;
+  message: string;
+  upstream: string | null;
+};
+
+const HTTP_STATUS: Record<ErrorCode, number> = {
+  INVALID_INPUT: 400,
+  RATE_LIMITED: 429,
+  DAILY_BUDGET_EXCEEDED: 429,
+  CONFIG_ERROR: 500,
+  LOCATION_NOT_FOUND: 422,
+  QUOTA_EXCEEDED: 503,
+  REQUEST_DENIED: 502,
+  INVALID_REQUEST: 502,
+  UPSTREAM_TIMEOUT: 504,
+  UPSTREAM_UNAVAILABLE: 502,
+  UPSTREAM_ERROR: 502,
+  INTERNAL_ERROR: 500,
+};
+
+export class AppError extends Error {
+  readonly code: ErrorCode;
+  readonly upstream: string | null;
+  readonly retryable: boolean;
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    {
+      upstream = null,
+      retryable = false,
+    }: { upstream?: string | null; retryable?: boolean } = {},
+  ) {
+    super(message);
+    this.name = "AppError";
+    this.code = code;
+    this.upstream = upstream;
+    this.retryable = retryable;
+  }
+}
+
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof AppError) {
+    return { code: error.code, message: error.message, upstream: error.upstream };
+  }
+  return {
+    code: "INTERNAL_ERROR",
+    message:
+      error instanceof Error
+        ? error.message
+        : getMessages(DEFAULT_LOCALE).errors.INTERNAL_ERROR,
+    upstream: null,
+  };
+}
+
+export function errorResponse(
+  error: unknown,
+  {
+    headers,
+    details,
+    locale = DEFAULT_LOCALE,
+  }: { headers?: HeadersInit; details?: unknown; locale?: Locale } = {},
+) {
+  const body = localizeError(toApiError(error), locale);
+  return NextResponse.json(
+    { error: body, ...(details ? { details } : {}) },
+    { status: HTTP_STATUS[body.code], headers },
+  );
+}
@@ -0,0 +1,13 @@
+export {
+  requestJson,
+  requestText,
+  type UpstreamRequest,
+  type UpstreamText,
+} from "./client";
+export {
+  AppError,
+  errorResponse,
+  toApiError,
+  type ApiError,
+  type ErrorCode,
+} from "./errors";
@@ -0,0 +1,59 @@
+import { NextRequest } from "next/server";
+
+import type { Locale } from "@/i18n";
+import { AppError, errorResponse } from "@/server/upstream";
+
+import { getCostForDay } from "./ledger";
+import { getDailyBudget } from "./pricing";
+import { checkRateLimit } from "./rate-limit";
+
+// X-Forwarded-For is whatever the client sent, except for the entries our
+// own proxies appended: with TRUSTED_PROXY_HOPS=n, the n-th address from the
+// right is the one the outermost of them saw. Without it, no address.
+export function getClientAddress(request: NextRequest) {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS);
+  if (!Number.isInteger(hops) || hops < 1) {
+    return null;
+  }
+  const forwarded = request.headers
+    .get("x-forwarded-for")
+    ?.split(",")
+    .map((address) => address.trim());
+  return forwarded?.at(-hops) || null;
+}
+
+// Also used by background runs, which have no response to send.
+export async function assertWithinBudget() {
+  const budget = getDailyBudget();
+  if (budget === null) {
+    return;
+  }
+  const spent = await getCostForDay();
+  if (spent >= budget) {
+    throw new AppError(
+      "DAILY_BUDGET_EXCEEDED",
+      `Budget quotidien atteint (${spent.toFixed(2)} $ consommés sur ${budget.toFixed(2)} $). Réessaie demain ou augmente DAILY_BUDGET_USD.`,
+    );
+  }
+}
+
+export async function guardSearchQuota(clientId: string, locale?: Locale) {
+  const rate = checkRateLimit(clientId);
+  if (!rate.allowed) {
+    return errorResponse(
+      new AppError(
+        "RATE_LIMITED",
+        `Trop de recherches rapprochées. Réessaie dans ${rate.retryAfterSeconds} s.`,
+      ),
+      { headers: { "Retry-After": String(rate.retryAfterSeconds) }, locale },
+    );
+  }
+
+  try {
+    await assertWithinBudget();
+  } catch (error) {
+    return errorResponse(error, { locale });
+  }
+
+  return null;
+}
@@ -0,0 +1,10 @@
+export {
+  assertWithinBudget,
+  getClientAddress,
+  guardSearchQuota,
+} from "./guard";
+export { getCostForDay, summarizeUsage } from "./ledger";
+export { createUsageMeter, type UsageMeter } from "./meter";
+export { getDailyBudget } from "./pricing";
+export { checkRateLimit } from "./rate-limit";
+export type * from "./types";
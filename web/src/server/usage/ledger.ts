@@ -0,0 +1,91 @@
+import { randomUUID } from "node:crypto";
+
+import type { Actor } from "@/server/auth";
+import { createJsonFileStore } from "@/server/storage";
+
+import type { DailyUsage, UsageEntry, UsageSnapshot } from "./types";
+
+type UsageFile = {
+  entries: UsageEntry[];
+};
+
+const store = createJsonFileStore<UsageFile>("usage.json", () => ({
+  entries: [],
+}));
+
+function dayOf(isoDate: string) {
+  return isoDate.slice(0, 10);
+}
+
+export async function recordUsage(
+  snapshot: UsageSnapshot,
+  context: {
+    clientId: string;
+    query: string;
+    location: string;
+    workspaceId?: string;
+    actor?: Actor;
+  },
+) {
+  const entry: UsageEntry = {
+    ...snapshot,
+    ...context,
+    id: randomUUID(),
+    recordedAt: new Date().toISOString(),
+  };
+  await store.update((data) => {
+    data.entries.push(entry);
+  });
+  return entry;
+}
+
+// Without a workspace, the whole instance: the daily budget caps the shared
+// API keys.
+export async function getCostForDay(
+  date = new Date().toISOString(),
+  workspaceId?: string,
+) {
+  const { entries } = await store.read();
+  const day = dayOf(date);
+  return entries
+    .filter(
+      (entry) =>
+        dayOf(entry.recordedAt) === day &&
+        (!workspaceId || entry.workspaceId === workspaceId),
+    )
+    .reduce((sum, entry) => sum + entry.costUsd, 0);
+}
+
+export async function summarizeUsage(workspaceId: string, days = 30) {
+  const { entries } = await store.read();
+  const since = new Date(Date.now() - days * 24 * 3600 * 1000).toISOString();
+  const recent = entries.filter(
+    (entry) => entry.workspaceId === workspaceId && entry.recordedAt >= since,
+  );
+
+  const byDay = new Map<string, DailyUsage>();
+  for (const entry of recent) {
+    const date = dayOf(entry.recordedAt);
+    const day = byDay.get(date) ?? {
+      date,
+      searches: 0,
+      calls: { geocode: 0, textSearch: 0, details: 0 },
+      llm: { requests: 0, promptTokens: 0, completionTokens: 0 },
+      costUsd: 0,
+    };
+    day.searches += 1;
+    day.calls.geocode += entry.calls.geocode;
+    day.calls.textSearch += entry.calls.textSearch;
+    day.calls.details += entry.calls.details;
+    day.llm.requests += entry.llm.requests;
+    day.llm.promptTokens += entry.llm.promptTokens;
+    day.llm.completionTokens += entry.llm.completionTokens;
+    day.costUsd += entry.costUsd;
+    byDay.set(date, day);
+  }
+
+  return {
+    days: [...byDay.values()].sort((a, b) => b.date.localeCompare(a.date)),
+    recent: recent.slice(-50).reverse(),
+  };
+}
@@ -0,0 +1,88 @@
+import type { WorkspaceScope } from "@/server/auth";
+import type { PitchGenerator } from "@/server/pitch";
+import type { PlacesProvider } from "@/server/places";
+
+import { recordUsage } from "./ledger";
+import { computeCost } from "./pricing";
+import type { UsageCalls, UsageSnapshot, UsageTokens } from "./types";
+
+export type UsageMeter = {
+  withPlaces: (provider: PlacesProvider) => PlacesProvider;
+  withPitch: (generator: PitchGenerator) => PitchGenerator;
+  snapshot: () => UsageSnapshot;
+  flush: (context: {
+    query: string;
+    location: string;
+  }) => Promise<UsageSnapshot>;
+};
+
+export function createUsageMeter(
+  clientId: string,
+  scope?: WorkspaceScope,
+): UsageMeter {
+  let provider = "unknown";
+  let generator = "unknown";
+  let calls: UsageCalls = { geocode: 0, textSearch: 0, details: 0 };
+  let llm: UsageTokens = { requests: 0, promptTokens: 0, completionTokens: 0 };
+
+  const snapshot = (): UsageSnapshot => ({
+    provider,
+    generator,
+    calls: { ...calls },
+    llm: { ...llm },
+    costUsd: computeCost(provider, generator, calls, llm),
+  });
+
+  return {
+    withPlaces(places) {
+      provider = places.name;
+      return {
+        ...places,
+        geocode(address) {
+          calls.geocode += 1;
+          return places.geocode(address);
+        },
+        searchText(params) {
+          calls.textSearch += 1;
+          return places.searchText(params);
+        },
+        getDetails(placeId) {
+          calls.details += 1;
+          return places.getDetails(placeId);
+        },
+      };
+    },
+    withPitch(pitchGenerator) {
+      generator = pitchGenerator.name;
+      return {
+        ...pitchGenerator,
+        async generate(businesses, options, onPitch) {
+          const result = await pitchGenerator.generate(
+            businesses,
+            options,
+            onPitch,
+          );
+          if (result.usage) {
+            llm.requests += result.usage.requests;
+            llm.promptTokens += result.usage.promptTokens;
+            llm.completionTokens += result.usage.completionTokens;
+          }
+          return result;
+        },
+      };
+    },
+    snapshot,
+    async flush(context) {
+      const current = snapshot();
+      calls = { geocode: 0, textSearch: 0, details: 0 };
+      llm = { requests: 0, promptTokens: 0, completionTokens: 0 };
+      await recordUsage(current, {
+        ...context,
+        clientId,
+        workspaceId: scope?.workspaceId,
+        actor: scope?.actor,
+      });
+      return current;
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import type { UsageCalls, UsageTokens } from "./types";
+
+// Public list prices (USD); override through env when your contract differs.
+const DEFAULT_PRICES = {
+  geocodePer1000: 5,
+  textSearchPer1000: 32,
+  detailsPer1000: 17,
+  llmInputPerMillion: 0.59,
+  llmOutputPerMillion: 0.79,
+};
+
+function readPrice(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+}
+
+export function computeCost(
+  provider: string,
+  generator: string,
+  calls: UsageCalls,
+  llm: UsageTokens,
+) {
+  const placesCost =
+    provider === "google"
+      ? (calls.geocode *
+          readPrice("PRICE_GEOCODE_PER_1000", DEFAULT_PRICES.geocodePer1000) +
+          calls.textSearch *
+            readPrice(
+              "PRICE_TEXT_SEARCH_PER_1000",
+              DEFAULT_PRICES.textSearchPer1000,
+            ) +
+          calls.details *
+            readPrice(
+              "PRICE_DETAILS_PER_1000",
+              DEFAULT_PRICES.detailsPer1000,
+            )) /
+        1000
+      : 0;
+
+  const llmCost =
+    generator === "template" || generator === "ollama"
+      ? 0
+      : (llm.promptTokens *
+          readPrice(
+            "PRICE_LLM_INPUT_PER_MILLION",
+            DEFAULT_PRICES.llmInputPerMillion,
+          ) +
+          llm.completionTokens *
+            readPrice(
+              "PRICE_LLM_OUTPUT_PER_MILLION",
+              DEFAULT_PRICES.llmOutputPerMillion,
+            )) /
+        1_000_000;
+
+  return Math.round((placesCost + llmCost) * 10_000) / 10_000;
+}
+
+export function getDailyBudget() {
+  const budget = Number(process.env.DAILY_BUDGET_USD);
+  return process.env.DAILY_BUDGET_USD && Number.isFinite(budget)
+    ? budget
+    : null;
+}
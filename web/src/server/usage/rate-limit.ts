@@ -0,0 +1,35 @@
+const WINDOW_MS = 60_000;
+const DEFAULT_LIMIT_PER_MINUTE = 10;
+
+const hits = new Map<string, number[]>();
+
+// Keys can come from request bodies (emails): forget the idle ones.
+function pruneIdle(now: number) {
+  for (const [key, timestamps] of hits) {
+    if ((timestamps.at(-1) ?? 0) <= now - WINDOW_MS) {
+      hits.delete(key);
+    }
+  }
+}
+
+export function checkRateLimit(clientId: string) {
+  const limit =
+    Number(process.env.RATE_LIMIT_PER_MINUTE) || DEFAULT_LIMIT_PER_MINUTE;
+  const now = Date.now();
+  pruneIdle(now);
+  const recent = (hits.get(clientId) ?? []).filter(
+    (timestamp) => timestamp > now - WINDOW_MS,
+  );
+
+  if (recent.length >= limit) {
+    hits.set(clientId, recent);
+    return {
+      allowed: false as const,
+      retryAfterSeconds: Math.ceil((recent[0] + WINDOW_MS - now) / 1000),
+    };
+  }
+
+  recent.push(now);
+  hits.set(clientId, recent);
+  return { allowed: true as const };
+}
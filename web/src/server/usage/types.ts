@@ -0,0 +1,40 @@
+import type { Actor } from "@/server/auth";
+
+export type UsageCalls = {
+  geocode: number;
+  textSearch: number;
+  details: number;
+};
+
+export type UsageTokens = {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type UsageSnapshot = {
+  provider: string;
+  generator: string;
+  calls: UsageCalls;
+  llm: UsageTokens;
+  costUsd: number;
+};
+
+export type UsageEntry = UsageSnapshot & {
+  id: string;
+  clientId: string;
+  query: string;
+  location: string;
+  // Missing on searches run before accounts existed.
+  workspaceId?: string;
+  actor?: Actor;
+  recordedAt: string;
+};
+
+export type DailyUsage = {
+  date: string;
+  searches: number;
+  calls: UsageCalls;
+  llm: UsageTokens;
+  costUsd: number;
+};